@@ -0,0 +1,19 @@
+export enum AtsIssueSeverity {
+    Error = 'error',
+    Warning = 'warning',
+    Info = 'info',
+}
+
+export enum AtsRuleId {
+    MissingContactInfo = 'missing-contact-info',
+    InconsistentDateFormat = 'inconsistent-date-format',
+    EmploymentGap = 'employment-gap',
+    LongBullet = 'long-bullet',
+    TemplateLayout = 'template-layout',
+    NonStandardHeading = 'non-standard-heading',
+}
+
+/**
+ * Months without a job between two experience entries before the gap is reported.
+ */
+export const ATS_EMPLOYMENT_GAP_MONTHS = 6;
@@ -0,0 +1,3 @@
+export const AUTH_PASSWORD_MIN_LENGTH = 8;
+export const AUTH_PASSWORD_MAX_LENGTH = 128;
+export const AUTH_TOKEN_TYPE = 'Bearer';
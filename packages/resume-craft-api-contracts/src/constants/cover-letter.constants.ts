@@ -0,0 +1,21 @@
+export const COVER_LETTER_CONTENT_MIN_LENGTH = 20;
+export const COVER_LETTER_CONTENT_MAX_LENGTH = 10000;
+
+/**
+ * Placeholders a cover letter may contain, written as `{{company}}`, filled from the linked job description
+ * when the letter is rendered.
+ */
+export enum CoverLetterMergeField {
+    Company = 'company',
+    Role = 'role',
+}
+
+/**
+ * The document formats resumes export to. JSON Resume describes a resume, so cover letters do not offer it.
+ */
+export enum CoverLetterExportFormat {
+    Pdf = 'pdf',
+    Docx = 'docx',
+    Markdown = 'markdown',
+    Text = 'text',
+}
@@ -1,2 +1,9 @@
 export * from './user.constants';
+export * from './resume.constants';
 export * from './contract.constants';
+export * from './auth.constants';
+export * from './template.constants';
+export * from './share-link.constants';
+export * from './job-description.constants';
+export * from './ats-report.constants';
+export * from './cover-letter.constants';
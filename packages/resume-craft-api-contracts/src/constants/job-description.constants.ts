@@ -0,0 +1,7 @@
+export const JOB_DESCRIPTION_RAW_TEXT_MIN_LENGTH = 20;
+export const JOB_DESCRIPTION_RAW_TEXT_MAX_LENGTH = 20000;
+
+export enum ResumeMatchKeywordKind {
+    Skill = 'skill',
+    Keyword = 'keyword',
+}
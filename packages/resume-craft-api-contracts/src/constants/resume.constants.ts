@@ -0,0 +1,58 @@
+export enum ResumeSectionType {
+    Summary = 'summary',
+    Experience = 'experience',
+    Education = 'education',
+    Skills = 'skills',
+    Projects = 'projects',
+    Certifications = 'certifications',
+    Languages = 'languages',
+    Custom = 'custom',
+}
+
+export const RESUME_MAX_SECTIONS = 20;
+
+export enum SkillProficiency {
+    Beginner = 'beginner',
+    Intermediate = 'intermediate',
+    Advanced = 'advanced',
+    Expert = 'expert',
+}
+
+export enum LanguageProficiency {
+    Elementary = 'elementary',
+    LimitedWorking = 'limited_working',
+    ProfessionalWorking = 'professional_working',
+    FullProfessional = 'full_professional',
+    Native = 'native',
+}
+
+export const RESUME_MAX_SECTION_ITEMS = 50;
+export const RESUME_MAX_BULLET_POINTS = 20;
+
+export enum ResumeExportFormat {
+    Pdf = 'pdf',
+    Docx = 'docx',
+    Markdown = 'markdown',
+    Text = 'text',
+    JsonResume = 'json-resume',
+}
+
+export const RESUME_DEFAULT_TEMPLATE_ID = 'classic';
+export const RESUME_TEMPLATE_ID_PATTERN = '^[a-z0-9][a-z0-9-]{0,63}$';
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+export const JSON_RESUME_DATE_PATTERN = '^\\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\\d|3[01]))?)?$';
+
+export const RESUME_VERSION_PATTERN = '^[1-9]\\d{0,8}$';
+
+export enum ResumeSectionDiffStatus {
+    Added = 'added',
+    Removed = 'removed',
+    Modified = 'modified',
+    Unchanged = 'unchanged',
+}
+
+export enum ResumeForkSectionAction {
+    Include = 'include',
+    Exclude = 'exclude',
+}
@@ -0,0 +1,11 @@
+export enum ShareLinkStatus {
+    Active = 'active',
+    Expired = 'expired',
+    Exhausted = 'exhausted',
+    Revoked = 'revoked',
+}
+
+export const SHARE_LINK_TOKEN_PATTERN = '^[A-Za-z0-9_-]{32}$';
+export const SHARE_LINK_PASSWORD_MIN_LENGTH = 4;
+export const SHARE_LINK_PASSWORD_MAX_LENGTH = 128;
+export const SHARE_LINK_MAX_VIEWS = 100000;
@@ -0,0 +1,13 @@
+export enum TemplateCategory {
+    Professional = 'professional',
+    Modern = 'modern',
+    Creative = 'creative',
+    Minimal = 'minimal',
+    Academic = 'academic',
+}
+
+export const TEMPLATE_FONT_SIZE_RANGE = { min: 6, max: 48 };
+export const TEMPLATE_PAGE_SIZE_RANGE = { min: 144, max: 2000 };
+export const TEMPLATE_PAGE_MARGIN_RANGE = { min: 0, max: 144 };
+export const TEMPLATE_LINE_HEIGHT_RANGE = { min: 1, max: 3 };
+export const TEMPLATE_SECTION_SPACING_RANGE = { min: 0, max: 72 };
@@ -0,0 +1,5 @@
+export enum UserRole {
+    User = 'user',
+    Reviewer = 'reviewer',
+    Admin = 'admin',
+}
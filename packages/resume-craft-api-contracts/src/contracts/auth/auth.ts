@@ -0,0 +1,29 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { AUTH_PASSWORD_MAX_LENGTH, AUTH_PASSWORD_MIN_LENGTH, AUTH_TOKEN_TYPE } from '../../constants';
+import { CreateUserSchema } from '../user/user';
+
+export const AuthPasswordSchema = Type.String({
+    minLength: AUTH_PASSWORD_MIN_LENGTH,
+    maxLength: AUTH_PASSWORD_MAX_LENGTH,
+    errorMessage: {
+        type: 'Password is required',
+        minLength: `Password must be at least ${AUTH_PASSWORD_MIN_LENGTH} characters`,
+        maxLength: `Password cannot exceed ${AUTH_PASSWORD_MAX_LENGTH} characters`,
+    },
+});
+
+export const AuthTokensSchema = Type.Object({
+    accessToken: Type.String(),
+    refreshToken: Type.String(),
+    tokenType: Type.Literal(AUTH_TOKEN_TYPE),
+    expiresIn: Type.Number({ description: 'Access token lifetime in seconds' }),
+});
+
+export const AuthSessionSchema = Type.Object({
+    user: CreateUserSchema,
+    tokens: AuthTokensSchema,
+});
+
+export type AuthTokensType = Static<typeof AuthTokensSchema>;
+export type AuthSessionType = Static<typeof AuthSessionSchema>;
@@ -0,0 +1,5 @@
+export * from './auth';
+export * from './signup';
+export * from './login';
+export * from './refresh-token';
+export * from './logout';
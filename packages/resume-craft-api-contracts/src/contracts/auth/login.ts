@@ -0,0 +1,32 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { AuthSessionSchema, AuthSessionType } from './auth';
+
+export const LoginRequestSchema = Type.Object(
+    {
+        email: CommonValidations.email({
+            errorMessages: {
+                type: 'Email is required',
+                format: 'Please enter a valid email address',
+            },
+        }),
+        // Length rules are only enforced at signup so that a later policy change does not lock existing users out.
+        password: Type.String({ minLength: 1, errorMessage: { type: 'Password is required' } }),
+    },
+    {
+        $id: 'LoginRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type LoginRequestType = Static<typeof LoginRequestSchema>;
+export type LoginResponseType = GenericApiResponseType<AuthSessionType>;
+
+export const LoginReqOpenApiSchema = JSON.parse(JSON.stringify(LoginRequestSchema));
+export const LoginRespSchema = getGenericApiResponseTypeSchema(AuthSessionSchema);
+export const LoginRespOpenApiSchema = JSON.parse(JSON.stringify(LoginRespSchema));
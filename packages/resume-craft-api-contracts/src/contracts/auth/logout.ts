@@ -0,0 +1,24 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { RefreshTokenRequestSchema } from './refresh-token';
+
+export const LogoutRequestSchema = Type.Object(RefreshTokenRequestSchema.properties, {
+    $id: 'LogoutRequest',
+    additionalProperties: false,
+    errorMessage: {
+        additionalProperties: 'Additional properties are not allowed in the request',
+    },
+});
+
+export const LogoutSchema = Type.Object({
+    loggedOut: Type.Boolean(),
+});
+
+export type LogoutRequestType = Static<typeof LogoutRequestSchema>;
+export type LogoutType = Static<typeof LogoutSchema>;
+export type LogoutResponseType = GenericApiResponseType<LogoutType>;
+
+export const LogoutReqOpenApiSchema = JSON.parse(JSON.stringify(LogoutRequestSchema));
+export const LogoutRespSchema = getGenericApiResponseTypeSchema(LogoutSchema);
+export const LogoutRespOpenApiSchema = JSON.parse(JSON.stringify(LogoutRespSchema));
@@ -0,0 +1,24 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { AuthTokensSchema, AuthTokensType } from './auth';
+
+export const RefreshTokenRequestSchema = Type.Object(
+    {
+        refreshToken: Type.String({ minLength: 1, errorMessage: { type: 'Refresh token is required' } }),
+    },
+    {
+        $id: 'RefreshTokenRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type RefreshTokenRequestType = Static<typeof RefreshTokenRequestSchema>;
+export type RefreshTokenResponseType = GenericApiResponseType<AuthTokensType>;
+
+export const RefreshTokenReqOpenApiSchema = JSON.parse(JSON.stringify(RefreshTokenRequestSchema));
+export const RefreshTokenRespSchema = getGenericApiResponseTypeSchema(AuthTokensSchema);
+export const RefreshTokenRespOpenApiSchema = JSON.parse(JSON.stringify(RefreshTokenRespSchema));
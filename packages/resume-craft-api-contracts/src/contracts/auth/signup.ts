@@ -0,0 +1,41 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { AuthPasswordSchema, AuthSessionSchema, AuthSessionType } from './auth';
+
+export const SignupRequestSchema = Type.Object(
+    {
+        name: CommonValidations.name({
+            min: 2,
+            max: 100,
+            errorMessages: {
+                minLength: 'Name must be at least 2 characters',
+                maxLength: 'Name cannot exceed 100 characters',
+            },
+        }),
+        email: CommonValidations.email({
+            errorMessages: {
+                type: 'Email is required',
+                format: 'Please enter a valid email address',
+            },
+        }),
+        password: AuthPasswordSchema,
+        phone: CommonValidations.optional(Type.String()),
+        profileImageUrl: CommonValidations.optional(Type.String()),
+    },
+    {
+        $id: 'SignupRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type SignupRequestType = Static<typeof SignupRequestSchema>;
+export type SignupResponseType = GenericApiResponseType<AuthSessionType>;
+
+export const SignupReqOpenApiSchema = JSON.parse(JSON.stringify(SignupRequestSchema));
+export const SignupRespSchema = getGenericApiResponseTypeSchema(AuthSessionSchema);
+export const SignupRespOpenApiSchema = JSON.parse(JSON.stringify(SignupRespSchema));
@@ -0,0 +1,42 @@
+import { ajvSchemaValidator } from '../../helpers/schema-ajv-validator';
+import { CreateCoverLetterRequestSchema } from './create-cover-letter';
+import { ExportCoverLetterRequestSchema } from './export-cover-letter';
+import { UpdateCoverLetterRequestSchema } from './update-cover-letter';
+
+describe('Cover letter request schemas', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    it('should accept a letter with merge fields linked to a resume and a job description', () => {
+        const result = ajvSchemaValidator(CreateCoverLetterRequestSchema, {
+            title: 'Application for {{role}}',
+            content: 'Dear {{company}} team, I would love to join you as {{role}}.',
+            resumeId: '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1',
+            jobDescriptionId: '8e2d4c6b-1a3f-4b5d-9c7e-0f1a2b3c4d5e',
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should allow links to be removed with null', () => {
+        const result = ajvSchemaValidator(UpdateCoverLetterRequestSchema, { jobDescriptionId: null });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should not offer the JSON Resume export format', () => {
+        const result = ajvSchemaValidator(ExportCoverLetterRequestSchema, { format: 'json-resume' });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({ message: 'Export format must be one of: pdf, docx, markdown, text' }),
+        ]);
+    });
+});
@@ -0,0 +1,49 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { COVER_LETTER_CONTENT_MAX_LENGTH, COVER_LETTER_CONTENT_MIN_LENGTH } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+
+export const CoverLetterTitleSchema = CommonValidations.description({
+    type: DescriptionType.Summary,
+    errorMessages: {
+        minLength: 'Title must be at least 2 characters',
+        maxLength: 'Title cannot exceed 255 characters',
+    },
+});
+
+export const CoverLetterContentSchema = CommonValidations.description({
+    type: DescriptionType.Detailed,
+    minLength: COVER_LETTER_CONTENT_MIN_LENGTH,
+    maxLength: COVER_LETTER_CONTENT_MAX_LENGTH,
+    errorMessages: {
+        minLength: `Cover letter must be at least ${COVER_LETTER_CONTENT_MIN_LENGTH} characters`,
+        maxLength: `Cover letter cannot exceed ${COVER_LETTER_CONTENT_MAX_LENGTH} characters`,
+    },
+});
+
+export const CoverLetterResumeIdSchema = CommonValidations.uuid({
+    errorMessages: {
+        format: 'Please provide a valid resume ID',
+    },
+});
+
+export const CoverLetterJobDescriptionIdSchema = CommonValidations.uuid({
+    errorMessages: {
+        format: 'Please provide a valid job description ID',
+    },
+});
+
+/**
+ * `content` keeps its merge fields and is left out of list responses.
+ */
+export const CoverLetterSchema = Type.Object({
+    coverLetterId: Type.String(),
+    title: Type.String(),
+    content: Type.Optional(Type.String()),
+    resumeId: Type.Optional(Type.String()),
+    jobDescriptionId: Type.Optional(Type.String()),
+    createdAt: Type.Number(),
+    modifiedAt: Type.Optional(Type.Number()),
+});
+
+export type CoverLetterType = Static<typeof CoverLetterSchema>;
@@ -0,0 +1,35 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import {
+    CoverLetterContentSchema,
+    CoverLetterJobDescriptionIdSchema,
+    CoverLetterResumeIdSchema,
+    CoverLetterSchema,
+    CoverLetterTitleSchema,
+    CoverLetterType,
+} from './cover-letter';
+
+export const CreateCoverLetterRequestSchema = Type.Object(
+    {
+        title: CoverLetterTitleSchema,
+        content: CoverLetterContentSchema,
+        resumeId: CommonValidations.optional(CoverLetterResumeIdSchema),
+        jobDescriptionId: CommonValidations.optional(CoverLetterJobDescriptionIdSchema),
+    },
+    {
+        $id: 'CreateCoverLetterRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type CreateCoverLetterRequestType = Static<typeof CreateCoverLetterRequestSchema>;
+export type CreateCoverLetterResponseType = GenericApiResponseType<CoverLetterType>;
+
+export const CreateCoverLetterReqOpenApiSchema = JSON.parse(JSON.stringify(CreateCoverLetterRequestSchema));
+export const CreateCoverLetterRespSchema = getGenericApiResponseTypeSchema(CoverLetterSchema);
+export const CreateCoverLetterRespOpenApiSchema = JSON.parse(JSON.stringify(CreateCoverLetterRespSchema));
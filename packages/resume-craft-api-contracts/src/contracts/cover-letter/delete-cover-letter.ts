@@ -0,0 +1,13 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const DeleteCoverLetterSchema = Type.Object({
+    coverLetterId: Type.String(),
+});
+
+export type DeleteCoverLetterType = Static<typeof DeleteCoverLetterSchema>;
+export type DeleteCoverLetterResponseType = GenericApiResponseType<DeleteCoverLetterType>;
+
+export const DeleteCoverLetterRespSchema = getGenericApiResponseTypeSchema(DeleteCoverLetterSchema);
+export const DeleteCoverLetterRespOpenApiSchema = JSON.parse(JSON.stringify(DeleteCoverLetterRespSchema));
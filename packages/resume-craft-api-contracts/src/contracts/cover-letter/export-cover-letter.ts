@@ -0,0 +1,37 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CoverLetterExportFormat, RESUME_TEMPLATE_ID_PATTERN } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+
+export const ExportCoverLetterRequestSchema = Type.Object(
+    {
+        format: CommonValidations.enumValue(CoverLetterExportFormat, {
+            errorMessages: {
+                enum: `Export format must be one of: ${Object.values(CoverLetterExportFormat).join(', ')}`,
+            },
+        }),
+        templateId: CommonValidations.optional(
+            CommonValidations.pattern({
+                pattern: RESUME_TEMPLATE_ID_PATTERN,
+                example: 'classic',
+                errorMessages: {
+                    pattern: 'Please provide a valid template ID',
+                },
+            })
+        ),
+    },
+    {
+        $id: 'ExportCoverLetterRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type ExportCoverLetterRequestType = Static<typeof ExportCoverLetterRequestSchema>;
+
+export const ExportCoverLetterReqOpenApiSchema = JSON.parse(JSON.stringify(ExportCoverLetterRequestSchema));
+
+export const ExportCoverLetterRespSchema = Type.String({ format: 'binary' });
+export const ExportCoverLetterRespOpenApiSchema = JSON.parse(JSON.stringify(ExportCoverLetterRespSchema));
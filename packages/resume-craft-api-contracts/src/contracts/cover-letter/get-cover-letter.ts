@@ -0,0 +1,25 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { CoverLetterSchema, CoverLetterType } from './cover-letter';
+
+export const CoverLetterIdParamSchema = Type.Object(
+    {
+        coverLetterId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid cover letter ID',
+            },
+        }),
+    },
+    {
+        $id: 'CoverLetterIdParam',
+    }
+);
+
+export type CoverLetterIdParamType = Static<typeof CoverLetterIdParamSchema>;
+export type GetCoverLetterResponseType = GenericApiResponseType<CoverLetterType>;
+
+export const CoverLetterIdParamOpenApiSchema = JSON.parse(JSON.stringify(CoverLetterIdParamSchema));
+export const GetCoverLetterRespSchema = getGenericApiResponseTypeSchema(CoverLetterSchema);
+export const GetCoverLetterRespOpenApiSchema = JSON.parse(JSON.stringify(GetCoverLetterRespSchema));
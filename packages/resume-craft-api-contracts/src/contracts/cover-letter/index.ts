@@ -0,0 +1,7 @@
+export * from './cover-letter';
+export * from './create-cover-letter';
+export * from './get-cover-letter';
+export * from './list-cover-letters';
+export * from './update-cover-letter';
+export * from './delete-cover-letter';
+export * from './export-cover-letter';
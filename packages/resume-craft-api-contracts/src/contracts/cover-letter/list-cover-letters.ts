@@ -0,0 +1,39 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import {
+    CoverLetterJobDescriptionIdSchema,
+    CoverLetterResumeIdSchema,
+    CoverLetterSchema,
+    CoverLetterType,
+} from './cover-letter';
+
+export const ListCoverLettersRequestSchema = Type.Composite(
+    [
+        GenericGetApiRequestSchema,
+        Type.Object({
+            q: CommonValidations.optional(
+                CommonValidations.search({
+                    maxLength: 100,
+                    allowSpecialChars: true,
+                })
+            ),
+            resumeId: CommonValidations.optional(CoverLetterResumeIdSchema),
+            jobDescriptionId: CommonValidations.optional(CoverLetterJobDescriptionIdSchema),
+        }),
+    ],
+    {
+        $id: 'ListCoverLettersRequest',
+        additionalProperties: false,
+    }
+);
+
+export type ListCoverLettersRequestType = Static<typeof ListCoverLettersRequestSchema>;
+export type ListCoverLettersResponseType = ListApiResponseType<CoverLetterType>;
+
+export const ListCoverLettersReqOpenApiSchema = JSON.parse(JSON.stringify(ListCoverLettersRequestSchema));
+
+export const ListCoverLettersRespSchema = getListApiGenericResponseTypeSchema(CoverLetterSchema);
+export const ListCoverLettersRespOpenApiSchema = JSON.parse(JSON.stringify(ListCoverLettersRespSchema));
@@ -0,0 +1,40 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import {
+    CoverLetterContentSchema,
+    CoverLetterJobDescriptionIdSchema,
+    CoverLetterResumeIdSchema,
+    CoverLetterSchema,
+    CoverLetterTitleSchema,
+    CoverLetterType,
+} from './cover-letter';
+
+/**
+ * `null` unlinks the resume or the job description.
+ */
+export const UpdateCoverLetterRequestSchema = Type.Object(
+    {
+        title: CommonValidations.optional(CoverLetterTitleSchema),
+        content: CommonValidations.optional(CoverLetterContentSchema),
+        resumeId: CommonValidations.optional(Type.Union([CoverLetterResumeIdSchema, Type.Null()])),
+        jobDescriptionId: CommonValidations.optional(Type.Union([CoverLetterJobDescriptionIdSchema, Type.Null()])),
+    },
+    {
+        $id: 'UpdateCoverLetterRequest',
+        additionalProperties: false,
+        minProperties: 1,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+            minProperties: 'At least one field must be provided for update',
+        },
+    }
+);
+
+export type UpdateCoverLetterRequestType = Static<typeof UpdateCoverLetterRequestSchema>;
+export type UpdateCoverLetterResponseType = GenericApiResponseType<CoverLetterType>;
+
+export const UpdateCoverLetterReqOpenApiSchema = JSON.parse(JSON.stringify(UpdateCoverLetterRequestSchema));
+export const UpdateCoverLetterRespSchema = getGenericApiResponseTypeSchema(CoverLetterSchema);
+export const UpdateCoverLetterRespOpenApiSchema = JSON.parse(JSON.stringify(UpdateCoverLetterRespSchema));
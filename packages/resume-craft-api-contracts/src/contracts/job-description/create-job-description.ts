@@ -0,0 +1,35 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import {
+    JobDescriptionCompanySchema,
+    JobDescriptionRawTextSchema,
+    JobDescriptionSchema,
+    JobDescriptionSourceUrlSchema,
+    JobDescriptionTitleSchema,
+    JobDescriptionType,
+} from './job-description';
+
+export const CreateJobDescriptionRequestSchema = Type.Object(
+    {
+        title: JobDescriptionTitleSchema,
+        company: CommonValidations.optional(JobDescriptionCompanySchema),
+        rawText: JobDescriptionRawTextSchema,
+        sourceUrl: CommonValidations.optional(JobDescriptionSourceUrlSchema),
+    },
+    {
+        $id: 'CreateJobDescriptionRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type CreateJobDescriptionRequestType = Static<typeof CreateJobDescriptionRequestSchema>;
+export type CreateJobDescriptionResponseType = GenericApiResponseType<JobDescriptionType>;
+
+export const CreateJobDescriptionReqOpenApiSchema = JSON.parse(JSON.stringify(CreateJobDescriptionRequestSchema));
+export const CreateJobDescriptionRespSchema = getGenericApiResponseTypeSchema(JobDescriptionSchema);
+export const CreateJobDescriptionRespOpenApiSchema = JSON.parse(JSON.stringify(CreateJobDescriptionRespSchema));
@@ -0,0 +1,13 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const DeleteJobDescriptionSchema = Type.Object({
+    jobDescriptionId: Type.String(),
+});
+
+export type DeleteJobDescriptionType = Static<typeof DeleteJobDescriptionSchema>;
+export type DeleteJobDescriptionResponseType = GenericApiResponseType<DeleteJobDescriptionType>;
+
+export const DeleteJobDescriptionRespSchema = getGenericApiResponseTypeSchema(DeleteJobDescriptionSchema);
+export const DeleteJobDescriptionRespOpenApiSchema = JSON.parse(JSON.stringify(DeleteJobDescriptionRespSchema));
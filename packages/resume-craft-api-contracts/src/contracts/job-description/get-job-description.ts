@@ -0,0 +1,25 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { JobDescriptionSchema, JobDescriptionType } from './job-description';
+
+export const JobDescriptionIdParamSchema = Type.Object(
+    {
+        jobDescriptionId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid job description ID',
+            },
+        }),
+    },
+    {
+        $id: 'JobDescriptionIdParam',
+    }
+);
+
+export type JobDescriptionIdParamType = Static<typeof JobDescriptionIdParamSchema>;
+export type GetJobDescriptionResponseType = GenericApiResponseType<JobDescriptionType>;
+
+export const JobDescriptionIdParamOpenApiSchema = JSON.parse(JSON.stringify(JobDescriptionIdParamSchema));
+export const GetJobDescriptionRespSchema = getGenericApiResponseTypeSchema(JobDescriptionSchema);
+export const GetJobDescriptionRespOpenApiSchema = JSON.parse(JSON.stringify(GetJobDescriptionRespSchema));
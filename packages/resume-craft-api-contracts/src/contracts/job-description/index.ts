@@ -0,0 +1,7 @@
+export * from './job-description';
+export * from './create-job-description';
+export * from './get-job-description';
+export * from './list-job-descriptions';
+export * from './update-job-description';
+export * from './delete-job-description';
+export * from './match-resume';
@@ -0,0 +1,40 @@
+import { ajvSchemaValidator } from '../../helpers/schema-ajv-validator';
+import { CreateJobDescriptionRequestSchema } from './create-job-description';
+
+describe('Job description request schemas', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    it('should accept a pasted job posting', () => {
+        const result = ajvSchemaValidator(CreateJobDescriptionRequestSchema, {
+            title: 'Senior Backend Engineer',
+            company: 'Acme',
+            rawText: 'We are looking for a backend engineer with TypeScript, Node.js and MongoDB experience.',
+            sourceUrl: 'https://jobs.example.com/backend-engineer',
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should reject job text that is too short and malformed source URLs', () => {
+        const result = ajvSchemaValidator(CreateJobDescriptionRequestSchema, {
+            title: 'Senior Backend Engineer',
+            rawText: 'Backend role',
+            sourceUrl: 'not a url',
+        });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ message: 'Job description must be at least 20 characters' }),
+                expect.objectContaining({ message: 'Please provide a valid source URL' }),
+            ])
+        );
+    });
+});
@@ -0,0 +1,51 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { JOB_DESCRIPTION_RAW_TEXT_MAX_LENGTH, JOB_DESCRIPTION_RAW_TEXT_MIN_LENGTH } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+
+export const JobDescriptionTitleSchema = CommonValidations.description({
+    type: DescriptionType.Summary,
+    errorMessages: {
+        minLength: 'Title must be at least 2 characters',
+        maxLength: 'Title cannot exceed 255 characters',
+    },
+});
+
+export const JobDescriptionCompanySchema = CommonValidations.description({
+    type: DescriptionType.Summary,
+    errorMessages: {
+        minLength: 'Company must be at least 2 characters',
+        maxLength: 'Company cannot exceed 255 characters',
+    },
+});
+
+export const JobDescriptionRawTextSchema = CommonValidations.description({
+    type: DescriptionType.Detailed,
+    minLength: JOB_DESCRIPTION_RAW_TEXT_MIN_LENGTH,
+    maxLength: JOB_DESCRIPTION_RAW_TEXT_MAX_LENGTH,
+    errorMessages: {
+        minLength: `Job description must be at least ${JOB_DESCRIPTION_RAW_TEXT_MIN_LENGTH} characters`,
+        maxLength: `Job description cannot exceed ${JOB_DESCRIPTION_RAW_TEXT_MAX_LENGTH} characters`,
+    },
+});
+
+export const JobDescriptionSourceUrlSchema = CommonValidations.url({
+    errorMessages: {
+        format: 'Please provide a valid source URL',
+    },
+});
+
+/**
+ * `rawText` is left out of list responses.
+ */
+export const JobDescriptionSchema = Type.Object({
+    jobDescriptionId: Type.String(),
+    title: Type.String(),
+    company: Type.Optional(Type.String()),
+    rawText: Type.Optional(Type.String()),
+    sourceUrl: Type.Optional(Type.String()),
+    createdAt: Type.Number(),
+    modifiedAt: Type.Optional(Type.Number()),
+});
+
+export type JobDescriptionType = Static<typeof JobDescriptionSchema>;
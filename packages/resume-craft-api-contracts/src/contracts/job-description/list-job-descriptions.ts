@@ -0,0 +1,32 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { JobDescriptionSchema, JobDescriptionType } from './job-description';
+
+export const ListJobDescriptionsRequestSchema = Type.Composite(
+    [
+        GenericGetApiRequestSchema,
+        Type.Object({
+            q: CommonValidations.optional(
+                CommonValidations.search({
+                    maxLength: 100,
+                    allowSpecialChars: true,
+                })
+            ),
+        }),
+    ],
+    {
+        $id: 'ListJobDescriptionsRequest',
+        additionalProperties: false,
+    }
+);
+
+export type ListJobDescriptionsRequestType = Static<typeof ListJobDescriptionsRequestSchema>;
+export type ListJobDescriptionsResponseType = ListApiResponseType<JobDescriptionType>;
+
+export const ListJobDescriptionsReqOpenApiSchema = JSON.parse(JSON.stringify(ListJobDescriptionsRequestSchema));
+
+export const ListJobDescriptionsRespSchema = getListApiGenericResponseTypeSchema(JobDescriptionSchema);
+export const ListJobDescriptionsRespOpenApiSchema = JSON.parse(JSON.stringify(ListJobDescriptionsRespSchema));
@@ -0,0 +1,60 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const MatchResumeParamSchema = Type.Object(
+    {
+        resumeId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid resume ID',
+            },
+        }),
+        jobId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid job description ID',
+            },
+        }),
+    },
+    {
+        $id: 'MatchResumeParam',
+    }
+);
+
+export const ResumeMatchKeywordSchema = Type.Object({
+    keyword: Type.String(),
+    kind: Type.String(),
+});
+
+/**
+ * `coverage` is the percentage of the job keywords found in the section.
+ */
+export const ResumeSectionMatchSchema = Type.Object({
+    sectionId: Type.String(),
+    type: Type.String(),
+    title: Type.String(),
+    coverage: Type.Number(),
+    matchedKeywords: Type.Array(Type.String()),
+});
+
+/**
+ * `score` ranges from 0 to 100. Skills weigh more than other keywords.
+ */
+export const ResumeMatchSchema = Type.Object({
+    resumeId: Type.String(),
+    jobDescriptionId: Type.String(),
+    score: Type.Number(),
+    matchedKeywords: Type.Array(ResumeMatchKeywordSchema),
+    missingKeywords: Type.Array(ResumeMatchKeywordSchema),
+    sections: Type.Array(ResumeSectionMatchSchema),
+});
+
+export type MatchResumeParamType = Static<typeof MatchResumeParamSchema>;
+export type ResumeMatchKeywordType = Static<typeof ResumeMatchKeywordSchema>;
+export type ResumeSectionMatchType = Static<typeof ResumeSectionMatchSchema>;
+export type ResumeMatchType = Static<typeof ResumeMatchSchema>;
+export type MatchResumeResponseType = GenericApiResponseType<ResumeMatchType>;
+
+export const MatchResumeParamOpenApiSchema = JSON.parse(JSON.stringify(MatchResumeParamSchema));
+export const MatchResumeRespSchema = getGenericApiResponseTypeSchema(ResumeMatchSchema);
+export const MatchResumeRespOpenApiSchema = JSON.parse(JSON.stringify(MatchResumeRespSchema));
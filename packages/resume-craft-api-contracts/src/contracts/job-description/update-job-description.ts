@@ -0,0 +1,37 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import {
+    JobDescriptionCompanySchema,
+    JobDescriptionRawTextSchema,
+    JobDescriptionSchema,
+    JobDescriptionSourceUrlSchema,
+    JobDescriptionTitleSchema,
+    JobDescriptionType,
+} from './job-description';
+
+export const UpdateJobDescriptionRequestSchema = Type.Object(
+    {
+        title: CommonValidations.optional(JobDescriptionTitleSchema),
+        company: CommonValidations.optional(JobDescriptionCompanySchema),
+        rawText: CommonValidations.optional(JobDescriptionRawTextSchema),
+        sourceUrl: CommonValidations.optional(JobDescriptionSourceUrlSchema),
+    },
+    {
+        $id: 'UpdateJobDescriptionRequest',
+        additionalProperties: false,
+        minProperties: 1,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+            minProperties: 'At least one field must be provided for update',
+        },
+    }
+);
+
+export type UpdateJobDescriptionRequestType = Static<typeof UpdateJobDescriptionRequestSchema>;
+export type UpdateJobDescriptionResponseType = GenericApiResponseType<JobDescriptionType>;
+
+export const UpdateJobDescriptionReqOpenApiSchema = JSON.parse(JSON.stringify(UpdateJobDescriptionRequestSchema));
+export const UpdateJobDescriptionRespSchema = getGenericApiResponseTypeSchema(JobDescriptionSchema);
+export const UpdateJobDescriptionRespOpenApiSchema = JSON.parse(JSON.stringify(UpdateJobDescriptionRespSchema));
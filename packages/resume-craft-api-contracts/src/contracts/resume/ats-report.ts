@@ -0,0 +1,35 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+/**
+ * `sectionId` and `itemIndex` point at the part of the resume the issue was found in, when there is one.
+ */
+export const AtsIssueSchema = Type.Object({
+    ruleId: Type.String(),
+    severity: Type.String(),
+    message: Type.String(),
+    fixHint: Type.String(),
+    sectionId: Type.Optional(Type.String()),
+    itemIndex: Type.Optional(Type.Number()),
+});
+
+/**
+ * A resume is `isAtsFriendly` when no rule reported an error, warnings and hints do not count.
+ */
+export const AtsReportSchema = Type.Object({
+    resumeId: Type.String(),
+    templateId: Type.String(),
+    isAtsFriendly: Type.Boolean(),
+    errorCount: Type.Number(),
+    warningCount: Type.Number(),
+    infoCount: Type.Number(),
+    issues: Type.Array(AtsIssueSchema),
+});
+
+export type AtsIssueType = Static<typeof AtsIssueSchema>;
+export type AtsReportType = Static<typeof AtsReportSchema>;
+export type GetAtsReportResponseType = GenericApiResponseType<AtsReportType>;
+
+export const GetAtsReportRespSchema = getGenericApiResponseTypeSchema(AtsReportSchema);
+export const GetAtsReportRespOpenApiSchema = JSON.parse(JSON.stringify(GetAtsReportRespSchema));
@@ -0,0 +1,48 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { RESUME_MAX_SECTIONS } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+import { ResumeSectionRequestSchema } from './resume-section';
+
+export const CreateResumeRequestSchema = Type.Object(
+    {
+        title: CommonValidations.description({
+            type: DescriptionType.Summary,
+            errorMessages: {
+                minLength: 'Title must be at least 2 characters',
+                maxLength: 'Title cannot exceed 255 characters',
+            },
+        }),
+        sections: CommonValidations.optional(
+            CommonValidations.objectArray(ResumeSectionRequestSchema, {
+                maxItems: RESUME_MAX_SECTIONS,
+                errorMessages: {
+                    maxItems: `A resume cannot have more than ${RESUME_MAX_SECTIONS} sections`,
+                },
+            })
+        ),
+        templateId: CommonValidations.optional(
+            CommonValidations.uuid({
+                errorMessages: {
+                    format: 'Please provide a valid template ID',
+                },
+            })
+        ),
+    },
+    {
+        $id: 'CreateResumeRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type CreateResumeRequestType = Static<typeof CreateResumeRequestSchema>;
+export type CreateResumeResponseType = GenericApiResponseType<ResumeType>;
+
+export const CreateResumeReqOpenApiSchema = JSON.parse(JSON.stringify(CreateResumeRequestSchema));
+export const CreateResumeRespSchema = getGenericApiResponseTypeSchema(ResumeSchema);
+export const CreateResumeRespOpenApiSchema = JSON.parse(JSON.stringify(CreateResumeRespSchema));
@@ -0,0 +1,13 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const DeleteResumeSchema = Type.Object({
+    resumeId: Type.String(),
+});
+
+export type DeleteResumeType = Static<typeof DeleteResumeSchema>;
+export type DeleteResumeResponseType = GenericApiResponseType<DeleteResumeType>;
+
+export const DeleteResumeRespSchema = getGenericApiResponseTypeSchema(DeleteResumeSchema);
+export const DeleteResumeRespOpenApiSchema = JSON.parse(JSON.stringify(DeleteResumeRespSchema));
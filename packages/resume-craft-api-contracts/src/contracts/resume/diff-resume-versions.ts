@@ -0,0 +1,63 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { RESUME_VERSION_PATTERN } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const DiffResumeVersionsRequestSchema = Type.Object(
+    {
+        against: CommonValidations.pattern({
+            pattern: RESUME_VERSION_PATTERN,
+            example: '2',
+            errorMessages: {
+                pattern: 'The version to compare against must be a positive whole number',
+            },
+        }),
+    },
+    {
+        $id: 'DiffResumeVersionsRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+/**
+ * A single changed value. `path` is relative to the resume or to the section the change belongs to,
+ * e.g. `items[0].bulletPoints[2]`. `from` is missing for added values and `to` for removed ones.
+ */
+export const ResumeValueChangeSchema = Type.Object({
+    path: Type.String(),
+    from: Type.Optional(Type.Unknown()),
+    to: Type.Optional(Type.Unknown()),
+});
+
+export const ResumeSectionDiffSchema = Type.Object({
+    sectionId: Type.String(),
+    type: Type.String(),
+    title: Type.String(),
+    status: Type.String(),
+    changes: Type.Array(ResumeValueChangeSchema),
+});
+
+/**
+ * Changes that turn version `against` into version `version`. Sections are matched by `sectionId`.
+ */
+export const ResumeVersionDiffSchema = Type.Object({
+    resumeId: Type.String(),
+    version: Type.Number(),
+    against: Type.Number(),
+    changes: Type.Array(ResumeValueChangeSchema),
+    sections: Type.Array(ResumeSectionDiffSchema),
+});
+
+export type DiffResumeVersionsRequestType = Static<typeof DiffResumeVersionsRequestSchema>;
+export type ResumeValueChangeType = Static<typeof ResumeValueChangeSchema>;
+export type ResumeSectionDiffType = Static<typeof ResumeSectionDiffSchema>;
+export type ResumeVersionDiffType = Static<typeof ResumeVersionDiffSchema>;
+export type DiffResumeVersionsResponseType = GenericApiResponseType<ResumeVersionDiffType>;
+
+export const DiffResumeVersionsReqOpenApiSchema = JSON.parse(JSON.stringify(DiffResumeVersionsRequestSchema));
+export const DiffResumeVersionsRespSchema = getGenericApiResponseTypeSchema(ResumeVersionDiffSchema);
+export const DiffResumeVersionsRespOpenApiSchema = JSON.parse(JSON.stringify(DiffResumeVersionsRespSchema));
@@ -0,0 +1,37 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { ResumeExportFormat, RESUME_TEMPLATE_ID_PATTERN } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+
+export const ExportResumeRequestSchema = Type.Object(
+    {
+        format: CommonValidations.enumValue(ResumeExportFormat, {
+            errorMessages: {
+                enum: `Export format must be one of: ${Object.values(ResumeExportFormat).join(', ')}`,
+            },
+        }),
+        templateId: CommonValidations.optional(
+            CommonValidations.pattern({
+                pattern: RESUME_TEMPLATE_ID_PATTERN,
+                example: 'classic',
+                errorMessages: {
+                    pattern: 'Please provide a valid template ID',
+                },
+            })
+        ),
+    },
+    {
+        $id: 'ExportResumeRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type ExportResumeRequestType = Static<typeof ExportResumeRequestSchema>;
+
+export const ExportResumeReqOpenApiSchema = JSON.parse(JSON.stringify(ExportResumeRequestSchema));
+
+export const ExportResumeRespSchema = Type.String({ format: 'binary' });
+export const ExportResumeRespOpenApiSchema = JSON.parse(JSON.stringify(ExportResumeRespSchema));
@@ -0,0 +1,38 @@
+import { ajvSchemaValidator } from '../../helpers/schema-ajv-validator';
+import { ForkResumeRequestSchema } from './fork-resume';
+
+describe('ForkResumeRequestSchema', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    it('should accept an empty body and section overrides', () => {
+        expect(ajvSchemaValidator(ForkResumeRequestSchema, {}).isValid).toBe(true);
+
+        const result = ajvSchemaValidator(ForkResumeRequestSchema, {
+            title: 'Acme Backend Engineer',
+            sectionOverrides: [
+                { sectionId: '0b8f3f34-6b4e-4a5b-9d4b-1f0e0b1d2c3a', action: 'exclude' },
+                { sectionId: '5c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f', action: 'include' },
+            ],
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should reject unknown override actions', () => {
+        const result = ajvSchemaValidator(ForkResumeRequestSchema, {
+            sectionOverrides: [{ sectionId: '0b8f3f34-6b4e-4a5b-9d4b-1f0e0b1d2c3a', action: 'hide' }],
+        });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({ message: 'Section action must be one of: include, exclude' }),
+        ]);
+    });
+});
@@ -0,0 +1,68 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { RESUME_MAX_SECTIONS, ResumeForkSectionAction } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+
+/**
+ * Tailors one section of the fork. `exclude` leaves the section out of the copy, `include` keeps it and
+ * makes it visible even when it is hidden on the source resume.
+ */
+export const ResumeForkSectionOverrideSchema = Type.Object(
+    {
+        sectionId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid section ID',
+            },
+        }),
+        action: CommonValidations.enumValue(ResumeForkSectionAction, {
+            errorMessages: {
+                enum: `Section action must be one of: ${Object.values(ResumeForkSectionAction).join(', ')}`,
+            },
+        }),
+    },
+    {
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in a section override',
+        },
+    }
+);
+
+export const ForkResumeRequestSchema = Type.Object(
+    {
+        title: CommonValidations.optional(
+            CommonValidations.description({
+                type: DescriptionType.Summary,
+                errorMessages: {
+                    minLength: 'Title must be at least 2 characters',
+                    maxLength: 'Title cannot exceed 255 characters',
+                },
+            })
+        ),
+        sectionOverrides: CommonValidations.optional(
+            CommonValidations.objectArray(ResumeForkSectionOverrideSchema, {
+                maxItems: RESUME_MAX_SECTIONS,
+                errorMessages: {
+                    maxItems: `Cannot override more than ${RESUME_MAX_SECTIONS} sections`,
+                },
+            })
+        ),
+    },
+    {
+        $id: 'ForkResumeRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type ResumeForkSectionOverrideType = Static<typeof ResumeForkSectionOverrideSchema>;
+export type ForkResumeRequestType = Static<typeof ForkResumeRequestSchema>;
+export type ForkResumeResponseType = GenericApiResponseType<ResumeType>;
+
+export const ForkResumeReqOpenApiSchema = JSON.parse(JSON.stringify(ForkResumeRequestSchema));
+export const ForkResumeRespSchema = getGenericApiResponseTypeSchema(ResumeSchema);
+export const ForkResumeRespOpenApiSchema = JSON.parse(JSON.stringify(ForkResumeRespSchema));
@@ -0,0 +1,25 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+
+export const ResumeIdParamSchema = Type.Object(
+    {
+        resumeId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid resume ID',
+            },
+        }),
+    },
+    {
+        $id: 'ResumeIdParam',
+    }
+);
+
+export type ResumeIdParamType = Static<typeof ResumeIdParamSchema>;
+export type GetResumeResponseType = GenericApiResponseType<ResumeType>;
+
+export const ResumeIdParamOpenApiSchema = JSON.parse(JSON.stringify(ResumeIdParamSchema));
+export const GetResumeRespSchema = getGenericApiResponseTypeSchema(ResumeSchema);
+export const GetResumeRespOpenApiSchema = JSON.parse(JSON.stringify(GetResumeRespSchema));
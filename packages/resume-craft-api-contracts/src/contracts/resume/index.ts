@@ -0,0 +1,17 @@
+export * from './resume';
+export * from './resume-section-items';
+export * from './resume-section';
+export * from './create-resume';
+export * from './get-resume';
+export * from './list-resumes';
+export * from './update-resume';
+export * from './delete-resume';
+export * from './export-resume';
+export * from './json-resume';
+export * from './resume-version';
+export * from './list-resume-versions';
+export * from './diff-resume-versions';
+export * from './restore-resume-version';
+export * from './fork-resume';
+export * from './list-resume-forks';
+export * from './ats-report';
@@ -0,0 +1,119 @@
+import { type Static, TProperties, Type } from '@sinclair/typebox';
+
+import { JSON_RESUME_DATE_PATTERN } from '../../constants';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+
+const jsonResumeText = () => Type.Optional(Type.String());
+const jsonResumeDate = () =>
+    Type.Optional(
+        Type.String({
+            pattern: JSON_RESUME_DATE_PATTERN,
+            errorMessage: {
+                type: 'Date must be a string',
+                pattern: 'Date must be in YYYY, YYYY-MM or YYYY-MM-DD format',
+            },
+        })
+    );
+const jsonResumeTextList = () => Type.Optional(Type.Array(Type.String()));
+const jsonResumeEntries = <T extends TProperties>(properties: T) =>
+    Type.Optional(Type.Array(Type.Object(properties, { additionalProperties: true })));
+
+/**
+ * Subset of the JSON Resume v1.0.0 schema (https://jsonresume.org/schema). Only the types of the fields are
+ * checked, unknown fields are let through so they can be reported back as unmapped on import.
+ */
+export const JsonResumeSchema = Type.Object(
+    {
+        $schema: jsonResumeText(),
+        basics: Type.Optional(
+            Type.Object(
+                {
+                    name: jsonResumeText(),
+                    label: jsonResumeText(),
+                    image: jsonResumeText(),
+                    email: jsonResumeText(),
+                    phone: jsonResumeText(),
+                    url: jsonResumeText(),
+                    summary: jsonResumeText(),
+                    location: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
+                    profiles: Type.Optional(Type.Array(Type.Record(Type.String(), Type.Unknown()))),
+                },
+                { additionalProperties: true }
+            )
+        ),
+        work: jsonResumeEntries({
+            name: jsonResumeText(),
+            position: jsonResumeText(),
+            location: jsonResumeText(),
+            url: jsonResumeText(),
+            startDate: jsonResumeDate(),
+            endDate: jsonResumeDate(),
+            summary: jsonResumeText(),
+            highlights: jsonResumeTextList(),
+        }),
+        education: jsonResumeEntries({
+            institution: jsonResumeText(),
+            url: jsonResumeText(),
+            area: jsonResumeText(),
+            studyType: jsonResumeText(),
+            startDate: jsonResumeDate(),
+            endDate: jsonResumeDate(),
+            score: jsonResumeText(),
+            courses: jsonResumeTextList(),
+        }),
+        certificates: jsonResumeEntries({
+            name: jsonResumeText(),
+            date: jsonResumeDate(),
+            issuer: jsonResumeText(),
+            url: jsonResumeText(),
+        }),
+        skills: jsonResumeEntries({
+            name: jsonResumeText(),
+            level: jsonResumeText(),
+            keywords: jsonResumeTextList(),
+        }),
+        languages: jsonResumeEntries({
+            language: jsonResumeText(),
+            fluency: jsonResumeText(),
+        }),
+        projects: jsonResumeEntries({
+            name: jsonResumeText(),
+            description: jsonResumeText(),
+            highlights: jsonResumeTextList(),
+            keywords: jsonResumeTextList(),
+            startDate: jsonResumeDate(),
+            endDate: jsonResumeDate(),
+            url: jsonResumeText(),
+            roles: jsonResumeTextList(),
+        }),
+    },
+    {
+        $id: 'JsonResume',
+        additionalProperties: true,
+    }
+);
+
+export const JsonResumeUnmappedFieldSchema = Type.Object({
+    path: Type.String(),
+    reason: Type.String(),
+});
+
+export const ImportJsonResumeMetaSchema = Type.Object({
+    unmappedFields: Type.Array(JsonResumeUnmappedFieldSchema),
+});
+
+export type JsonResumeType = Static<typeof JsonResumeSchema>;
+export type JsonResumeUnmappedFieldType = Static<typeof JsonResumeUnmappedFieldSchema>;
+export type ImportJsonResumeMetaType = Static<typeof ImportJsonResumeMetaSchema>;
+export type ImportJsonResumeResponseType = GenericApiResponseType<ResumeType> & {
+    meta: ImportJsonResumeMetaType;
+};
+
+export const ImportJsonResumeReqOpenApiSchema = JSON.parse(JSON.stringify(JsonResumeSchema));
+
+export const ImportJsonResumeRespSchema = Type.Composite([
+    getGenericApiResponseTypeSchema(ResumeSchema),
+    Type.Object({ meta: ImportJsonResumeMetaSchema }),
+]);
+export const ImportJsonResumeRespOpenApiSchema = JSON.parse(JSON.stringify(ImportJsonResumeRespSchema));
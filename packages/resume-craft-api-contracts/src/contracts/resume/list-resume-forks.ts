@@ -0,0 +1,32 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+
+export const ListResumeForksRequestSchema = Type.Composite(
+    [
+        GenericGetApiRequestSchema,
+        Type.Object({
+            q: CommonValidations.optional(
+                CommonValidations.search({
+                    maxLength: 100,
+                    allowSpecialChars: true,
+                })
+            ),
+        }),
+    ],
+    {
+        $id: 'ListResumeForksRequest',
+        additionalProperties: false,
+    }
+);
+
+export type ListResumeForksRequestType = Static<typeof ListResumeForksRequestSchema>;
+export type ListResumeForksResponseType = ListApiResponseType<ResumeType>;
+
+export const ListResumeForksReqOpenApiSchema = JSON.parse(JSON.stringify(ListResumeForksRequestSchema));
+
+export const ListResumeForksRespSchema = getListApiGenericResponseTypeSchema(ResumeSchema);
+export const ListResumeForksRespOpenApiSchema = JSON.parse(JSON.stringify(ListResumeForksRespSchema));
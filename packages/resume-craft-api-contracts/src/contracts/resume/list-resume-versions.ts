@@ -0,0 +1,17 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { ResumeVersionSchema, ResumeVersionType } from './resume-version';
+
+export const ListResumeVersionsRequestSchema = Type.Composite([GenericGetApiRequestSchema], {
+    $id: 'ListResumeVersionsRequest',
+    additionalProperties: false,
+});
+
+export type ListResumeVersionsRequestType = Static<typeof ListResumeVersionsRequestSchema>;
+export type ListResumeVersionsResponseType = ListApiResponseType<ResumeVersionType>;
+
+export const ListResumeVersionsReqOpenApiSchema = JSON.parse(JSON.stringify(ListResumeVersionsRequestSchema));
+export const ListResumeVersionsRespSchema = getListApiGenericResponseTypeSchema(ResumeVersionSchema);
+export const ListResumeVersionsRespOpenApiSchema = JSON.parse(JSON.stringify(ListResumeVersionsRespSchema));
@@ -0,0 +1,32 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+
+export const ListResumesRequestSchema = Type.Composite(
+    [
+        GenericGetApiRequestSchema,
+        Type.Object({
+            q: CommonValidations.optional(
+                CommonValidations.search({
+                    maxLength: 100,
+                    allowSpecialChars: true,
+                })
+            ),
+        }),
+    ],
+    {
+        $id: 'ListResumesRequest',
+        additionalProperties: false,
+    }
+);
+
+export type ListResumesRequestType = Static<typeof ListResumesRequestSchema>;
+export type ListResumesResponseType = ListApiResponseType<ResumeType>;
+
+export const ListResumesReqOpenApiSchema = JSON.parse(JSON.stringify(ListResumesRequestSchema));
+
+export const ListResumesRespSchema = getListApiGenericResponseTypeSchema(ResumeSchema);
+export const ListResumesRespOpenApiSchema = JSON.parse(JSON.stringify(ListResumesRespSchema));
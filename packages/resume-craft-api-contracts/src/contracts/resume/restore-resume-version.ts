@@ -0,0 +1,7 @@
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+
+export type RestoreResumeVersionResponseType = GenericApiResponseType<ResumeType>;
+
+export const RestoreResumeVersionRespSchema = getGenericApiResponseTypeSchema(ResumeSchema);
+export const RestoreResumeVersionRespOpenApiSchema = JSON.parse(JSON.stringify(RestoreResumeVersionRespSchema));
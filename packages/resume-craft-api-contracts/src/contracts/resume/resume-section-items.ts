@@ -0,0 +1,132 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { LanguageProficiency, RESUME_MAX_BULLET_POINTS, SkillProficiency } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+
+const itemText = (field: string, type: DescriptionType = DescriptionType.Summary) =>
+    CommonValidations.description({
+        type,
+        minLength: 1,
+        errorMessages: {
+            type: `${field} must be a string`,
+            minLength: `${field} is required`,
+            maxLength: `${field} is too long`,
+        },
+    });
+
+const bulletPoints = CommonValidations.objectArray(CommonValidations.description({ type: DescriptionType.Detailed }), {
+    maxItems: RESUME_MAX_BULLET_POINTS,
+    errorMessages: {
+        type: 'Bullet points must be an array of strings',
+        maxItems: `Cannot have more than ${RESUME_MAX_BULLET_POINTS} bullet points`,
+    },
+});
+
+const itemOptions = (sectionName: string) => ({
+    additionalProperties: false,
+    errorMessage: {
+        additionalProperties: `Additional properties are not allowed in a ${sectionName} entry`,
+    },
+});
+
+export const ExperienceItemSchema = Type.Object(
+    {
+        company: itemText('Company'),
+        role: itemText('Role'),
+        location: CommonValidations.optional(itemText('Location')),
+        startDate: CommonValidations.dateRange(),
+        endDate: CommonValidations.optional(CommonValidations.dateRange()),
+        isCurrent: CommonValidations.optional(Type.Boolean()),
+        bulletPoints: CommonValidations.optional(bulletPoints),
+    },
+    itemOptions('experience')
+);
+
+export const EducationItemSchema = Type.Object(
+    {
+        institution: itemText('Institution'),
+        degree: itemText('Degree'),
+        fieldOfStudy: CommonValidations.optional(itemText('Field of study')),
+        startDate: CommonValidations.dateRange(),
+        endDate: CommonValidations.optional(CommonValidations.dateRange()),
+        grade: CommonValidations.optional(itemText('Grade', DescriptionType.Label)),
+        description: CommonValidations.optional(CommonValidations.description({ type: DescriptionType.Detailed })),
+    },
+    itemOptions('education')
+);
+
+export const SkillItemSchema = Type.Object(
+    {
+        name: itemText('Skill name', DescriptionType.Label),
+        proficiency: CommonValidations.enumValue(SkillProficiency, {
+            errorMessages: {
+                enum: `Skill proficiency must be one of: ${Object.values(SkillProficiency).join(', ')}`,
+            },
+        }),
+    },
+    itemOptions('skill')
+);
+
+export const ProjectItemSchema = Type.Object(
+    {
+        name: itemText('Project name'),
+        role: CommonValidations.optional(itemText('Role')),
+        url: CommonValidations.optional(CommonValidations.url()),
+        startDate: CommonValidations.optional(CommonValidations.dateRange()),
+        endDate: CommonValidations.optional(CommonValidations.dateRange()),
+        description: CommonValidations.optional(CommonValidations.description({ type: DescriptionType.Detailed })),
+        bulletPoints: CommonValidations.optional(bulletPoints),
+    },
+    itemOptions('project')
+);
+
+export const CertificationItemSchema = Type.Object(
+    {
+        name: itemText('Certification name'),
+        issuer: itemText('Issuer'),
+        issueDate: CommonValidations.dateRange(),
+        expiryDate: CommonValidations.optional(CommonValidations.dateRange()),
+        credentialId: CommonValidations.optional(itemText('Credential ID', DescriptionType.Label)),
+        url: CommonValidations.optional(CommonValidations.url()),
+    },
+    itemOptions('certification')
+);
+
+export const LanguageItemSchema = Type.Object(
+    {
+        language: itemText('Language', DescriptionType.Label),
+        proficiency: CommonValidations.enumValue(LanguageProficiency, {
+            errorMessages: {
+                enum: `Language proficiency must be one of: ${Object.values(LanguageProficiency).join(', ')}`,
+            },
+        }),
+    },
+    itemOptions('language')
+);
+
+export const CustomSectionItemSchema = Type.Object(
+    {
+        title: itemText('Title'),
+        subtitle: CommonValidations.optional(itemText('Subtitle')),
+        date: CommonValidations.optional(CommonValidations.dateRange()),
+        url: CommonValidations.optional(CommonValidations.url()),
+        description: CommonValidations.optional(CommonValidations.description({ type: DescriptionType.Detailed })),
+    },
+    itemOptions('custom section')
+);
+
+export type ExperienceItemType = Static<typeof ExperienceItemSchema>;
+export type EducationItemType = Static<typeof EducationItemSchema>;
+export type SkillItemType = Static<typeof SkillItemSchema>;
+export type ProjectItemType = Static<typeof ProjectItemSchema>;
+export type CertificationItemType = Static<typeof CertificationItemSchema>;
+export type LanguageItemType = Static<typeof LanguageItemSchema>;
+export type CustomSectionItemType = Static<typeof CustomSectionItemSchema>;
+export type ResumeSectionItemType =
+    | ExperienceItemType
+    | EducationItemType
+    | SkillItemType
+    | ProjectItemType
+    | CertificationItemType
+    | LanguageItemType
+    | CustomSectionItemType;
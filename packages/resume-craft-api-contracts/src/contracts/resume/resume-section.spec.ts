@@ -0,0 +1,167 @@
+import { ajvSchemaValidator } from '../../helpers/schema-ajv-validator';
+import { CreateResumeRequestSchema } from './create-resume';
+
+describe('ResumeSectionRequestSchema', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    const buildRequest = (section: Record<string, unknown>) => ({
+        title: 'Software Engineer Resume',
+        sections: [{ title: 'Section', order: 0, ...section }],
+    });
+
+    it('should accept a well formed section of every type', () => {
+        const result = ajvSchemaValidator(CreateResumeRequestSchema, {
+            title: 'Software Engineer Resume',
+            sections: [
+                {
+                    type: 'summary',
+                    title: 'Summary',
+                    order: 0,
+                    content: 'Backend engineer with a decade of experience',
+                },
+                {
+                    type: 'experience',
+                    title: 'Experience',
+                    order: 1,
+                    items: [
+                        {
+                            company: 'Acme',
+                            role: 'Engineer',
+                            startDate: '2020-01-01',
+                            isCurrent: true,
+                            bulletPoints: ['Built the billing platform'],
+                        },
+                    ],
+                },
+                {
+                    type: 'education',
+                    title: 'Education',
+                    order: 2,
+                    items: [{ institution: 'MIT', degree: 'BSc', startDate: '2012-09-01', endDate: '2016-06-01' }],
+                },
+                {
+                    type: 'skills',
+                    title: 'Skills',
+                    order: 3,
+                    items: [{ name: 'TypeScript', proficiency: 'expert' }],
+                },
+                {
+                    type: 'projects',
+                    title: 'Projects',
+                    order: 4,
+                    items: [{ name: 'Resume Craft', url: 'https://example.com/resume-craft' }],
+                },
+                {
+                    type: 'certifications',
+                    title: 'Certifications',
+                    order: 5,
+                    items: [{ name: 'AWS SA', issuer: 'AWS', issueDate: '2021-03-15' }],
+                },
+                {
+                    type: 'languages',
+                    title: 'Languages',
+                    order: 6,
+                    items: [{ language: 'English', proficiency: 'native' }],
+                },
+                { type: 'custom', title: 'Volunteering', order: 7, items: [{ title: 'Mentor' }] },
+            ],
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should report a field level error for an invalid education entry', () => {
+        const result = ajvSchemaValidator(
+            CreateResumeRequestSchema,
+            buildRequest({
+                type: 'education',
+                items: [{ institution: 'MIT', degree: 'BSc', startDate: '01/09/2012' }],
+            })
+        );
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({
+                field: 'sections[0].items[0].startDate',
+                message: 'Date must be in YYYY-MM-DD format',
+            }),
+        ]);
+    });
+
+    it('should validate items against the schema of their own section type', () => {
+        const result = ajvSchemaValidator(
+            CreateResumeRequestSchema,
+            buildRequest({
+                type: 'skills',
+                items: [{ company: 'Acme', role: 'Engineer', startDate: '2020-01-01' }],
+            })
+        );
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ field: 'company' }),
+                expect.objectContaining({ field: 'name' }),
+            ])
+        );
+    });
+
+    it('should reject an unknown skill proficiency', () => {
+        const result = ajvSchemaValidator(
+            CreateResumeRequestSchema,
+            buildRequest({
+                type: 'skills',
+                items: [{ name: 'TypeScript', proficiency: 'guru' }],
+            })
+        );
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({
+                field: 'sections[0].items[0].proficiency',
+            }),
+        ]);
+    });
+
+    it('should reject an invalid project url', () => {
+        const result = ajvSchemaValidator(
+            CreateResumeRequestSchema,
+            buildRequest({
+                type: 'projects',
+                items: [{ name: 'Resume Craft', url: 'not a url' }],
+            })
+        );
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({
+                field: 'sections[0].items[0].url',
+            }),
+        ]);
+    });
+
+    it('should reject items on a summary section', () => {
+        const result = ajvSchemaValidator(
+            CreateResumeRequestSchema,
+            buildRequest({
+                type: 'summary',
+                items: [{ title: 'Not allowed' }],
+            })
+        );
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({
+                field: 'sections[0].items',
+                message: 'Summary sections do not support items, use content instead',
+            }),
+        ]);
+    });
+});
@@ -0,0 +1,104 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { RESUME_MAX_SECTION_ITEMS, ResumeSectionType } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+import {
+    CertificationItemSchema,
+    CustomSectionItemSchema,
+    EducationItemSchema,
+    ExperienceItemSchema,
+    LanguageItemSchema,
+    ProjectItemSchema,
+    ResumeSectionItemType,
+    SkillItemSchema,
+} from './resume-section-items';
+
+/**
+ * Item schema used for each structured section type. Summary sections carry free text in `content` only.
+ */
+export const RESUME_SECTION_ITEM_SCHEMAS = {
+    [ResumeSectionType.Experience]: ExperienceItemSchema,
+    [ResumeSectionType.Education]: EducationItemSchema,
+    [ResumeSectionType.Skills]: SkillItemSchema,
+    [ResumeSectionType.Projects]: ProjectItemSchema,
+    [ResumeSectionType.Certifications]: CertificationItemSchema,
+    [ResumeSectionType.Languages]: LanguageItemSchema,
+    [ResumeSectionType.Custom]: CustomSectionItemSchema,
+};
+
+const sectionItemsValidation = Object.entries(RESUME_SECTION_ITEM_SCHEMAS).map(([sectionType, itemSchema]) => ({
+    if: {
+        properties: {
+            type: { enum: [sectionType] },
+        },
+        required: ['type'],
+    },
+    then: {
+        properties: {
+            items: CommonValidations.objectArray(itemSchema, {
+                maxItems: RESUME_MAX_SECTION_ITEMS,
+                errorMessages: {
+                    type: `Items of a ${sectionType} section must be an array`,
+                    maxItems: `A ${sectionType} section cannot have more than ${RESUME_MAX_SECTION_ITEMS} items`,
+                },
+            }),
+        },
+    },
+}));
+
+const summaryItemsValidation = {
+    if: {
+        properties: {
+            type: { enum: [ResumeSectionType.Summary] },
+        },
+        required: ['type'],
+    },
+    then: {
+        properties: {
+            items: Type.Array(Type.Unknown(), {
+                maxItems: 0,
+                errorMessage: {
+                    maxItems: 'Summary sections do not support items, use content instead',
+                },
+            }),
+        },
+    },
+};
+
+export const ResumeSectionRequestSchema = Type.Object(
+    {
+        sectionId: CommonValidations.optional(CommonValidations.uuid()),
+        type: CommonValidations.enumValue(ResumeSectionType, {
+            errorMessages: {
+                enum: `Section type must be one of: ${Object.values(ResumeSectionType).join(', ')}`,
+            },
+        }),
+        title: CommonValidations.description({
+            type: DescriptionType.Label,
+            minLength: 1,
+            errorMessages: {
+                minLength: 'Section title is required',
+                maxLength: 'Section title is too long',
+            },
+        }),
+        order: Type.Integer({
+            minimum: 0,
+            errorMessage: {
+                type: 'Section order must be an integer',
+                minimum: 'Section order cannot be negative',
+            },
+        }),
+        isHidden: CommonValidations.optional(Type.Boolean()),
+        content: CommonValidations.optional(CommonValidations.description({ type: DescriptionType.Detailed })),
+        items: CommonValidations.optional(Type.Array(Type.Unsafe<ResumeSectionItemType>({}))),
+    },
+    {
+        allOf: [...sectionItemsValidation, summaryItemsValidation],
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in a resume section',
+        },
+    }
+);
+
+export type ResumeSectionRequestType = Static<typeof ResumeSectionRequestSchema>;
@@ -0,0 +1,38 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { RESUME_VERSION_PATTERN } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+
+export const ResumeVersionParamSchema = Type.Object(
+    {
+        resumeId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid resume ID',
+            },
+        }),
+        version: CommonValidations.pattern({
+            pattern: RESUME_VERSION_PATTERN,
+            example: '3',
+            errorMessages: {
+                pattern: 'Version must be a positive whole number',
+            },
+        }),
+    },
+    {
+        $id: 'ResumeVersionParam',
+    }
+);
+
+export const ResumeVersionSchema = Type.Object({
+    resumeId: Type.String(),
+    version: Type.Number(),
+    title: Type.String(),
+    restoredFrom: Type.Optional(Type.Number()),
+    createdAt: Type.Number(),
+    createdBy: Type.Optional(Type.String()),
+});
+
+export type ResumeVersionParamType = Static<typeof ResumeVersionParamSchema>;
+export type ResumeVersionType = Static<typeof ResumeVersionSchema>;
+
+export const ResumeVersionParamOpenApiSchema = JSON.parse(JSON.stringify(ResumeVersionParamSchema));
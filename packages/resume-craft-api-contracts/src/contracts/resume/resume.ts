@@ -0,0 +1,67 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import {
+    CertificationItemSchema,
+    CustomSectionItemSchema,
+    EducationItemSchema,
+    ExperienceItemSchema,
+    LanguageItemSchema,
+    ProjectItemSchema,
+    SkillItemSchema,
+} from './resume-section-items';
+
+export const ResumeOwnerSchema = Type.Object({
+    userId: Type.String(),
+    name: Type.String(),
+});
+
+export const ResumeTemplateRefSchema = Type.Object({
+    templateId: Type.String(),
+    version: Type.Number(),
+});
+
+export const ResumeForkRefSchema = Type.Object({
+    resumeId: Type.String(),
+    version: Type.Number(),
+});
+
+export const ResumeSectionSchema = Type.Object({
+    sectionId: Type.String(),
+    type: Type.String(),
+    title: Type.String(),
+    order: Type.Number(),
+    isHidden: Type.Boolean(),
+    content: Type.Optional(Type.String()),
+    items: Type.Optional(
+        Type.Array(
+            Type.Union([
+                ExperienceItemSchema,
+                EducationItemSchema,
+                SkillItemSchema,
+                ProjectItemSchema,
+                CertificationItemSchema,
+                LanguageItemSchema,
+                CustomSectionItemSchema,
+            ])
+        )
+    ),
+});
+
+export const ResumeSchema = Type.Object({
+    resumeId: Type.String(),
+    owner: ResumeOwnerSchema,
+    title: Type.String(),
+    slug: Type.String(),
+    sections: Type.Array(ResumeSectionSchema),
+    template: Type.Optional(ResumeTemplateRefSchema),
+    version: Type.Optional(Type.Number()),
+    forkedFrom: Type.Optional(ResumeForkRefSchema),
+    createdAt: Type.Number(),
+    modifiedAt: Type.Optional(Type.Number()),
+});
+
+export type ResumeOwnerType = Static<typeof ResumeOwnerSchema>;
+export type ResumeTemplateRefType = Static<typeof ResumeTemplateRefSchema>;
+export type ResumeForkRefType = Static<typeof ResumeForkRefSchema>;
+export type ResumeSectionDataType = Static<typeof ResumeSectionSchema>;
+export type ResumeType = Static<typeof ResumeSchema>;
@@ -0,0 +1,52 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { RESUME_MAX_SECTIONS } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ResumeSchema, ResumeType } from './resume';
+import { ResumeSectionRequestSchema } from './resume-section';
+
+export const UpdateResumeRequestSchema = Type.Object(
+    {
+        title: CommonValidations.optional(
+            CommonValidations.description({
+                type: DescriptionType.Summary,
+                errorMessages: {
+                    minLength: 'Title must be at least 2 characters',
+                    maxLength: 'Title cannot exceed 255 characters',
+                },
+            })
+        ),
+        sections: CommonValidations.optional(
+            CommonValidations.objectArray(ResumeSectionRequestSchema, {
+                maxItems: RESUME_MAX_SECTIONS,
+                errorMessages: {
+                    maxItems: `A resume cannot have more than ${RESUME_MAX_SECTIONS} sections`,
+                },
+            })
+        ),
+        templateId: CommonValidations.optional(
+            CommonValidations.uuid({
+                errorMessages: {
+                    format: 'Please provide a valid template ID',
+                },
+            })
+        ),
+    },
+    {
+        $id: 'UpdateResumeRequest',
+        additionalProperties: false,
+        minProperties: 1,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+            minProperties: 'At least one field must be provided for update',
+        },
+    }
+);
+
+export type UpdateResumeRequestType = Static<typeof UpdateResumeRequestSchema>;
+export type UpdateResumeResponseType = GenericApiResponseType<ResumeType>;
+
+export const UpdateResumeReqOpenApiSchema = JSON.parse(JSON.stringify(UpdateResumeRequestSchema));
+export const UpdateResumeRespSchema = getGenericApiResponseTypeSchema(ResumeSchema);
+export const UpdateResumeRespOpenApiSchema = JSON.parse(JSON.stringify(UpdateResumeRespSchema));
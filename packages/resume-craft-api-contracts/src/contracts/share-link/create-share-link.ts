@@ -0,0 +1,56 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { SHARE_LINK_MAX_VIEWS, SHARE_LINK_PASSWORD_MAX_LENGTH, SHARE_LINK_PASSWORD_MIN_LENGTH } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ShareLinkSchema, ShareLinkType } from './share-link';
+
+export const CreateShareLinkRequestSchema = Type.Object(
+    {
+        expiresAt: CommonValidations.optional(
+            Type.Integer({
+                minimum: 1,
+                errorMessage: {
+                    type: 'Expiry must be a timestamp in milliseconds',
+                    minimum: 'Expiry must be a timestamp in milliseconds',
+                },
+            })
+        ),
+        password: CommonValidations.optional(
+            Type.String({
+                minLength: SHARE_LINK_PASSWORD_MIN_LENGTH,
+                maxLength: SHARE_LINK_PASSWORD_MAX_LENGTH,
+                errorMessage: {
+                    type: 'Password must be text',
+                    minLength: `Password must be at least ${SHARE_LINK_PASSWORD_MIN_LENGTH} characters`,
+                    maxLength: `Password cannot exceed ${SHARE_LINK_PASSWORD_MAX_LENGTH} characters`,
+                },
+            })
+        ),
+        maxViews: CommonValidations.optional(
+            Type.Integer({
+                minimum: 1,
+                maximum: SHARE_LINK_MAX_VIEWS,
+                errorMessage: {
+                    type: 'View limit must be a whole number',
+                    minimum: 'View limit must be at least 1',
+                    maximum: `View limit cannot exceed ${SHARE_LINK_MAX_VIEWS}`,
+                },
+            })
+        ),
+    },
+    {
+        $id: 'CreateShareLinkRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type CreateShareLinkRequestType = Static<typeof CreateShareLinkRequestSchema>;
+export type CreateShareLinkResponseType = GenericApiResponseType<ShareLinkType>;
+
+export const CreateShareLinkReqOpenApiSchema = JSON.parse(JSON.stringify(CreateShareLinkRequestSchema));
+export const CreateShareLinkRespSchema = getGenericApiResponseTypeSchema(ShareLinkSchema);
+export const CreateShareLinkRespOpenApiSchema = JSON.parse(JSON.stringify(CreateShareLinkRespSchema));
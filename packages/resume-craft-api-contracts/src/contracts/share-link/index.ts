@@ -0,0 +1,5 @@
+export * from './share-link';
+export * from './create-share-link';
+export * from './list-share-links';
+export * from './revoke-share-link';
+export * from './public-resume';
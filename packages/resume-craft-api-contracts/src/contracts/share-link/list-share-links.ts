@@ -0,0 +1,18 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { ShareLinkSchema, ShareLinkType } from './share-link';
+
+export const ListShareLinksRequestSchema = Type.Composite([GenericGetApiRequestSchema], {
+    $id: 'ListShareLinksRequest',
+    additionalProperties: false,
+});
+
+export type ListShareLinksRequestType = Static<typeof ListShareLinksRequestSchema>;
+export type ListShareLinksResponseType = ListApiResponseType<ShareLinkType>;
+
+export const ListShareLinksReqOpenApiSchema = JSON.parse(JSON.stringify(ListShareLinksRequestSchema));
+
+export const ListShareLinksRespSchema = getListApiGenericResponseTypeSchema(ShareLinkSchema);
+export const ListShareLinksRespOpenApiSchema = JSON.parse(JSON.stringify(ListShareLinksRespSchema));
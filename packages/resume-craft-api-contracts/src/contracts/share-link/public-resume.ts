@@ -0,0 +1,40 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { SHARE_LINK_TOKEN_PATTERN } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+import { ResumeSectionSchema, ResumeTemplateRefSchema } from '../resume/resume';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const PublicResumeParamSchema = Type.Object(
+    {
+        token: CommonValidations.pattern({
+            pattern: SHARE_LINK_TOKEN_PATTERN,
+            example: 'Jq3mV0b8nS2cX7kLr5tY1wZ9pA4dF6gH',
+            errorMessages: {
+                pattern: 'Please provide a valid share link',
+            },
+        }),
+    },
+    {
+        $id: 'PublicResumeParam',
+    }
+);
+
+/**
+ * What a share link exposes of a resume: its content without hidden sections or account details.
+ */
+export const PublicResumeSchema = Type.Object({
+    title: Type.String(),
+    ownerName: Type.String(),
+    sections: Type.Array(ResumeSectionSchema),
+    template: Type.Optional(ResumeTemplateRefSchema),
+    modifiedAt: Type.Optional(Type.Number()),
+});
+
+export type PublicResumeParamType = Static<typeof PublicResumeParamSchema>;
+export type PublicResumeType = Static<typeof PublicResumeSchema>;
+export type GetPublicResumeResponseType = GenericApiResponseType<PublicResumeType>;
+
+export const PublicResumeParamOpenApiSchema = JSON.parse(JSON.stringify(PublicResumeParamSchema));
+export const GetPublicResumeRespSchema = getGenericApiResponseTypeSchema(PublicResumeSchema);
+export const GetPublicResumeRespOpenApiSchema = JSON.parse(JSON.stringify(GetPublicResumeRespSchema));
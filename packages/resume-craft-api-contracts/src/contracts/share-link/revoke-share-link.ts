@@ -0,0 +1,7 @@
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { ShareLinkSchema, ShareLinkType } from './share-link';
+
+export type RevokeShareLinkResponseType = GenericApiResponseType<ShareLinkType>;
+
+export const RevokeShareLinkRespSchema = getGenericApiResponseTypeSchema(ShareLinkSchema);
+export const RevokeShareLinkRespOpenApiSchema = JSON.parse(JSON.stringify(RevokeShareLinkRespSchema));
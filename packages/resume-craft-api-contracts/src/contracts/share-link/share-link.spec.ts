@@ -0,0 +1,38 @@
+import { ajvSchemaValidator } from '../../helpers/schema-ajv-validator';
+import { CreateShareLinkRequestSchema } from './create-share-link';
+import { PublicResumeParamSchema } from './public-resume';
+
+describe('Share link request schemas', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    it('should accept a link with every restriction', () => {
+        const result = ajvSchemaValidator(CreateShareLinkRequestSchema, {
+            expiresAt: 1893456000000,
+            password: 'hunter22',
+            maxViews: 25,
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should reject view limits outside of the supported range', () => {
+        const result = ajvSchemaValidator(CreateShareLinkRequestSchema, { maxViews: 0 });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([expect.objectContaining({ message: 'View limit must be at least 1' })]);
+    });
+
+    it('should only accept well formed tokens', () => {
+        expect(ajvSchemaValidator(PublicResumeParamSchema, { token: 'Jq3mV0b8nS2cX7kLr5tY1wZ9pA4dF6gH' }).isValid).toBe(
+            true
+        );
+        expect(ajvSchemaValidator(PublicResumeParamSchema, { token: 'not a token' }).isValid).toBe(false);
+    });
+});
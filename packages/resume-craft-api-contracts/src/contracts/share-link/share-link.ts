@@ -0,0 +1,43 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+
+export const ShareLinkParamSchema = Type.Object(
+    {
+        resumeId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid resume ID',
+            },
+        }),
+        shareLinkId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid share link ID',
+            },
+        }),
+    },
+    {
+        $id: 'ShareLinkParam',
+    }
+);
+
+/**
+ * `token` is only returned when the link is created, it cannot be read back afterwards.
+ */
+export const ShareLinkSchema = Type.Object({
+    shareLinkId: Type.String(),
+    resumeId: Type.String(),
+    token: Type.Optional(Type.String()),
+    status: Type.String(),
+    isPasswordProtected: Type.Boolean(),
+    expiresAt: Type.Optional(Type.Number()),
+    maxViews: Type.Optional(Type.Number()),
+    viewCount: Type.Number(),
+    lastViewedAt: Type.Optional(Type.Number()),
+    revokedAt: Type.Optional(Type.Number()),
+    createdAt: Type.Number(),
+});
+
+export type ShareLinkParamType = Static<typeof ShareLinkParamSchema>;
+export type ShareLinkType = Static<typeof ShareLinkSchema>;
+
+export const ShareLinkParamOpenApiSchema = JSON.parse(JSON.stringify(ShareLinkParamSchema));
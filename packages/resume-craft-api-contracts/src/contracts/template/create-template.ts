@@ -0,0 +1,55 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { ResumeSectionType, TemplateCategory } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { TemplateSchema, TemplateStyleTokensSchema, TemplateType } from './template';
+
+export const TemplateSupportedSectionsSchema = Type.Array(
+    CommonValidations.enumValue(ResumeSectionType, {
+        errorMessages: {
+            enum: `Supported sections must be one of: ${Object.values(ResumeSectionType).join(', ')}`,
+        },
+    }),
+    {
+        minItems: 1,
+        uniqueItems: true,
+        errorMessage: {
+            minItems: 'A template must support at least one section',
+            uniqueItems: 'Supported sections cannot repeat',
+        },
+    }
+);
+
+export const CreateTemplateRequestSchema = Type.Object(
+    {
+        name: CommonValidations.description({
+            type: DescriptionType.Label,
+            errorMessages: {
+                minLength: 'Name must be at least 2 characters',
+                maxLength: 'Name cannot exceed 50 characters',
+            },
+        }),
+        category: CommonValidations.enumValue(TemplateCategory, {
+            errorMessages: {
+                enum: `Category must be one of: ${Object.values(TemplateCategory).join(', ')}`,
+            },
+        }),
+        supportedSections: TemplateSupportedSectionsSchema,
+        styleTokens: TemplateStyleTokensSchema,
+    },
+    {
+        $id: 'CreateTemplateRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type CreateTemplateRequestType = Static<typeof CreateTemplateRequestSchema>;
+export type CreateTemplateResponseType = GenericApiResponseType<TemplateType>;
+
+export const CreateTemplateReqOpenApiSchema = JSON.parse(JSON.stringify(CreateTemplateRequestSchema));
+export const CreateTemplateRespSchema = getGenericApiResponseTypeSchema(TemplateSchema);
+export const CreateTemplateRespOpenApiSchema = JSON.parse(JSON.stringify(CreateTemplateRespSchema));
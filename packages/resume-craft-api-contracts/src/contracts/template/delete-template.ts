@@ -0,0 +1,13 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const DeleteTemplateSchema = Type.Object({
+    templateId: Type.String(),
+});
+
+export type DeleteTemplateType = Static<typeof DeleteTemplateSchema>;
+export type DeleteTemplateResponseType = GenericApiResponseType<DeleteTemplateType>;
+
+export const DeleteTemplateRespSchema = getGenericApiResponseTypeSchema(DeleteTemplateSchema);
+export const DeleteTemplateRespOpenApiSchema = JSON.parse(JSON.stringify(DeleteTemplateRespSchema));
@@ -0,0 +1,25 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { TemplateSchema, TemplateType } from './template';
+
+export const TemplateIdParamSchema = Type.Object(
+    {
+        templateId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid template ID',
+            },
+        }),
+    },
+    {
+        $id: 'TemplateIdParam',
+    }
+);
+
+export type TemplateIdParamType = Static<typeof TemplateIdParamSchema>;
+export type GetTemplateResponseType = GenericApiResponseType<TemplateType>;
+
+export const TemplateIdParamOpenApiSchema = JSON.parse(JSON.stringify(TemplateIdParamSchema));
+export const GetTemplateRespSchema = getGenericApiResponseTypeSchema(TemplateSchema);
+export const GetTemplateRespOpenApiSchema = JSON.parse(JSON.stringify(GetTemplateRespSchema));
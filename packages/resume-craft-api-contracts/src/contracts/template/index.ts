@@ -0,0 +1,6 @@
+export * from './template';
+export * from './create-template';
+export * from './get-template';
+export * from './list-templates';
+export * from './update-template';
+export * from './delete-template';
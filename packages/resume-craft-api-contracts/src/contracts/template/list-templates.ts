@@ -0,0 +1,33 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { TemplateCategory } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { TemplateSchema, TemplateType } from './template';
+
+export const ListTemplatesRequestSchema = Type.Composite(
+    [
+        GenericGetApiRequestSchema,
+        Type.Object({
+            q: CommonValidations.optional(
+                CommonValidations.search({
+                    maxLength: 100,
+                    allowSpecialChars: true,
+                })
+            ),
+            category: CommonValidations.optional(CommonValidations.enumValue(TemplateCategory)),
+        }),
+    ],
+    {
+        $id: 'ListTemplatesRequest',
+        additionalProperties: false,
+    }
+);
+
+export type ListTemplatesRequestType = Static<typeof ListTemplatesRequestSchema>;
+export type ListTemplatesResponseType = ListApiResponseType<TemplateType>;
+
+export const ListTemplatesReqOpenApiSchema = JSON.parse(JSON.stringify(ListTemplatesRequestSchema));
+export const ListTemplatesRespSchema = getListApiGenericResponseTypeSchema(TemplateSchema);
+export const ListTemplatesRespOpenApiSchema = JSON.parse(JSON.stringify(ListTemplatesRespSchema));
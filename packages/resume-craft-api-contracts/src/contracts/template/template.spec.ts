@@ -0,0 +1,84 @@
+import { ajvSchemaValidator } from '../../helpers/schema-ajv-validator';
+import { CreateTemplateRequestSchema } from './create-template';
+import { UpdateTemplateRequestSchema } from './update-template';
+
+describe('Template request schemas', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    const textStyle = { fontSize: 10, isBold: false };
+    const styleTokens = {
+        page: { width: 595.28, height: 841.89, margin: 56 },
+        lineHeight: 1.35,
+        sectionSpacing: 14,
+        isSectionTitleUppercase: true,
+        hasSectionRule: true,
+        styles: {
+            name: { fontSize: 22, isBold: true },
+            title: textStyle,
+            sectionTitle: { fontSize: 12, isBold: true },
+            subheading: textStyle,
+            meta: textStyle,
+            paragraph: textStyle,
+            bullet: textStyle,
+        },
+    };
+
+    it('should accept a complete template definition', () => {
+        const result = ajvSchemaValidator(CreateTemplateRequestSchema, {
+            name: 'Classic',
+            category: 'professional',
+            supportedSections: ['summary', 'experience', 'education'],
+            styleTokens,
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should reject repeated sections and unknown categories', () => {
+        const result = ajvSchemaValidator(CreateTemplateRequestSchema, {
+            name: 'Classic',
+            category: 'retro',
+            supportedSections: ['summary', 'summary'],
+            styleTokens,
+        });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ field: 'category' }),
+                expect.objectContaining({ message: 'Supported sections cannot repeat' }),
+            ])
+        );
+    });
+
+    it('should reject style tokens outside of the supported ranges', () => {
+        const result = ajvSchemaValidator(UpdateTemplateRequestSchema, {
+            styleTokens: { ...styleTokens, styles: { ...styleTokens.styles, name: { fontSize: 120, isBold: true } } },
+        });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([expect.objectContaining({ message: 'Font size cannot exceed 48' })]);
+    });
+
+    it('should accept layout flags used by the ATS report', () => {
+        const result = ajvSchemaValidator(UpdateTemplateRequestSchema, {
+            styleTokens: { ...styleTokens, hasTables: true, hasGraphics: false },
+        });
+
+        expect(result.errors).toBeNull();
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should require at least one field to update', () => {
+        const result = ajvSchemaValidator(UpdateTemplateRequestSchema, {});
+
+        expect(result.isValid).toBe(false);
+    });
+});
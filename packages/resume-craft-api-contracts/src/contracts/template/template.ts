@@ -0,0 +1,86 @@
+import { type Static, type TNumber, Type } from '@sinclair/typebox';
+
+import {
+    TEMPLATE_FONT_SIZE_RANGE,
+    TEMPLATE_LINE_HEIGHT_RANGE,
+    TEMPLATE_PAGE_MARGIN_RANGE,
+    TEMPLATE_PAGE_SIZE_RANGE,
+    TEMPLATE_SECTION_SPACING_RANGE,
+} from '../../constants';
+
+const boundedNumber = (label: string, range: { min: number; max: number }): TNumber =>
+    Type.Number({
+        minimum: range.min,
+        maximum: range.max,
+        errorMessage: {
+            type: `${label} must be a number`,
+            minimum: `${label} cannot be less than ${range.min}`,
+            maximum: `${label} cannot exceed ${range.max}`,
+        },
+    });
+
+export const TemplateTextStyleSchema = Type.Object(
+    {
+        fontSize: boundedNumber('Font size', TEMPLATE_FONT_SIZE_RANGE),
+        isBold: Type.Boolean(),
+    },
+    {
+        additionalProperties: false,
+    }
+);
+
+/**
+ * Layout tokens a template is rendered with, in PDF points.
+ */
+export const TemplateStyleTokensSchema = Type.Object(
+    {
+        page: Type.Object(
+            {
+                width: boundedNumber('Page width', TEMPLATE_PAGE_SIZE_RANGE),
+                height: boundedNumber('Page height', TEMPLATE_PAGE_SIZE_RANGE),
+                margin: boundedNumber('Page margin', TEMPLATE_PAGE_MARGIN_RANGE),
+            },
+            { additionalProperties: false }
+        ),
+        lineHeight: boundedNumber('Line height', TEMPLATE_LINE_HEIGHT_RANGE),
+        sectionSpacing: boundedNumber('Section spacing', TEMPLATE_SECTION_SPACING_RANGE),
+        isSectionTitleUppercase: Type.Boolean(),
+        hasSectionRule: Type.Boolean(),
+        // Layouts that put content in tables or add images and icons are flagged by the ATS report.
+        hasTables: Type.Optional(Type.Boolean()),
+        hasGraphics: Type.Optional(Type.Boolean()),
+        styles: Type.Object(
+            {
+                name: TemplateTextStyleSchema,
+                title: TemplateTextStyleSchema,
+                sectionTitle: TemplateTextStyleSchema,
+                subheading: TemplateTextStyleSchema,
+                meta: TemplateTextStyleSchema,
+                paragraph: TemplateTextStyleSchema,
+                bullet: TemplateTextStyleSchema,
+            },
+            { additionalProperties: false }
+        ),
+    },
+    {
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the style tokens',
+        },
+    }
+);
+
+export const TemplateSchema = Type.Object({
+    templateId: Type.String(),
+    name: Type.String(),
+    slug: Type.String(),
+    category: Type.String(),
+    supportedSections: Type.Array(Type.String()),
+    styleTokens: TemplateStyleTokensSchema,
+    version: Type.Number(),
+    createdAt: Type.Number(),
+});
+
+export type TemplateTextStyleType = Static<typeof TemplateTextStyleSchema>;
+export type TemplateStyleTokensType = Static<typeof TemplateStyleTokensSchema>;
+export type TemplateType = Static<typeof TemplateSchema>;
@@ -0,0 +1,49 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { TemplateCategory } from '../../constants';
+import { CommonValidations, DescriptionType } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { TemplateSupportedSectionsSchema } from './create-template';
+import { TemplateSchema, TemplateStyleTokensSchema, TemplateType } from './template';
+
+/**
+ * Every update publishes a new version of the template; resumes pinned to earlier versions are left as they are.
+ */
+export const UpdateTemplateRequestSchema = Type.Object(
+    {
+        name: CommonValidations.optional(
+            CommonValidations.description({
+                type: DescriptionType.Label,
+                errorMessages: {
+                    minLength: 'Name must be at least 2 characters',
+                    maxLength: 'Name cannot exceed 50 characters',
+                },
+            })
+        ),
+        category: CommonValidations.optional(
+            CommonValidations.enumValue(TemplateCategory, {
+                errorMessages: {
+                    enum: `Category must be one of: ${Object.values(TemplateCategory).join(', ')}`,
+                },
+            })
+        ),
+        supportedSections: CommonValidations.optional(TemplateSupportedSectionsSchema),
+        styleTokens: CommonValidations.optional(TemplateStyleTokensSchema),
+    },
+    {
+        $id: 'UpdateTemplateRequest',
+        additionalProperties: false,
+        minProperties: 1,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+            minProperties: 'At least one field must be provided for update',
+        },
+    }
+);
+
+export type UpdateTemplateRequestType = Static<typeof UpdateTemplateRequestSchema>;
+export type UpdateTemplateResponseType = GenericApiResponseType<TemplateType>;
+
+export const UpdateTemplateReqOpenApiSchema = JSON.parse(JSON.stringify(UpdateTemplateRequestSchema));
+export const UpdateTemplateRespSchema = getGenericApiResponseTypeSchema(TemplateSchema);
+export const UpdateTemplateRespOpenApiSchema = JSON.parse(JSON.stringify(UpdateTemplateRespSchema));
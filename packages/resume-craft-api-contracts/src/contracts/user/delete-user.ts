@@ -0,0 +1,13 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+
+export const DeleteUserSchema = Type.Object({
+    userId: Type.String(),
+});
+
+export type DeleteUserType = Static<typeof DeleteUserSchema>;
+export type DeleteUserResponseType = GenericApiResponseType<DeleteUserType>;
+
+export const DeleteUserRespSchema = getGenericApiResponseTypeSchema(DeleteUserSchema);
+export const DeleteUserRespOpenApiSchema = JSON.parse(JSON.stringify(DeleteUserRespSchema));
@@ -0,0 +1,20 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+
+export const UserIdParamSchema = Type.Object(
+    {
+        userId: CommonValidations.uuid({
+            errorMessages: {
+                format: 'Please provide a valid user ID',
+            },
+        }),
+    },
+    {
+        $id: 'UserIdParam',
+    }
+);
+
+export type UserIdParamType = Static<typeof UserIdParamSchema>;
+
+export const UserIdParamOpenApiSchema = JSON.parse(JSON.stringify(UserIdParamSchema));
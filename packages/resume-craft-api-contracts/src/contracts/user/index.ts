@@ -1,3 +1,8 @@
 export * from './user';
 export * from './get-user-profile';
 export * from './create-user';
+export * from './list-users';
+export * from './get-user';
+export * from './update-user';
+export * from './delete-user';
+export * from './update-user-role';
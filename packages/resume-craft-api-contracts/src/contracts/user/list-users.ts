@@ -0,0 +1,31 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericGetApiRequestSchema } from '../request';
+import { getListApiGenericResponseTypeSchema, ListApiResponseType } from '../response';
+import { UserSchema, UserType } from './user';
+
+export const ListUsersRequestSchema = Type.Composite(
+    [
+        GenericGetApiRequestSchema,
+        Type.Object({
+            q: CommonValidations.optional(
+                CommonValidations.search({
+                    maxLength: 100,
+                    allowSpecialChars: true,
+                })
+            ),
+        }),
+    ],
+    {
+        $id: 'ListUsersRequest',
+        additionalProperties: false,
+    }
+);
+
+export type ListUsersRequestType = Static<typeof ListUsersRequestSchema>;
+export type ListUsersResponseType = ListApiResponseType<UserType>;
+
+export const ListUsersReqOpenApiSchema = JSON.parse(JSON.stringify(ListUsersRequestSchema));
+export const ListUsersRespSchema = getListApiGenericResponseTypeSchema(UserSchema);
+export const ListUsersRespOpenApiSchema = JSON.parse(JSON.stringify(ListUsersRespSchema));
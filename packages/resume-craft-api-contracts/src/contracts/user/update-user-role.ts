@@ -0,0 +1,26 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { UserRole } from '../../constants';
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { UserRoleSchema, UserRoleType } from './user';
+
+export const UpdateUserRoleRequestSchema = Type.Object(
+    {
+        role: CommonValidations.enumValue(UserRole),
+    },
+    {
+        $id: 'UpdateUserRoleRequest',
+        additionalProperties: false,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+        },
+    }
+);
+
+export type UpdateUserRoleRequestType = Static<typeof UpdateUserRoleRequestSchema>;
+export type UpdateUserRoleResponseType = GenericApiResponseType<UserRoleType>;
+
+export const UpdateUserRoleReqOpenApiSchema = JSON.parse(JSON.stringify(UpdateUserRoleRequestSchema));
+export const UpdateUserRoleRespSchema = getGenericApiResponseTypeSchema(UserRoleSchema);
+export const UpdateUserRoleRespOpenApiSchema = JSON.parse(JSON.stringify(UpdateUserRoleRespSchema));
@@ -0,0 +1,38 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+import { CommonValidations } from '../../helpers/common-validations';
+import { GenericApiResponseType, getGenericApiResponseTypeSchema } from '../response';
+import { UserSchema, UserType } from './user';
+
+export const UpdateUserRequestSchema = Type.Object(
+    {
+        name: CommonValidations.optional(
+            CommonValidations.name({
+                min: 2,
+                max: 100,
+                errorMessages: {
+                    minLength: 'Name must be at least 2 characters',
+                    maxLength: 'Name cannot exceed 100 characters',
+                },
+            })
+        ),
+        phone: CommonValidations.optional(Type.String()),
+        profileImageUrl: CommonValidations.optional(Type.String()),
+    },
+    {
+        $id: 'UpdateUserRequest',
+        additionalProperties: false,
+        minProperties: 1,
+        errorMessage: {
+            additionalProperties: 'Additional properties are not allowed in the request',
+            minProperties: 'At least one field must be provided for update',
+        },
+    }
+);
+
+export type UpdateUserRequestType = Static<typeof UpdateUserRequestSchema>;
+export type UpdateUserResponseType = GenericApiResponseType<UserType>;
+
+export const UpdateUserReqOpenApiSchema = JSON.parse(JSON.stringify(UpdateUserRequestSchema));
+export const UpdateUserRespSchema = getGenericApiResponseTypeSchema(UserSchema);
+export const UpdateUserRespOpenApiSchema = JSON.parse(JSON.stringify(UpdateUserRespSchema));
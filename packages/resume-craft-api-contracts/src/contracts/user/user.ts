@@ -1,5 +1,7 @@
 import { type Static, Type } from '@sinclair/typebox';
 
+import { UserRole } from '../../constants';
+
 export const UserSchema = Type.Object({
     userId: Type.String(),
     name: Type.String(),
@@ -14,7 +16,14 @@ export const CreateUserSchema = Type.Object({
     email: Type.String(),
     phone: Type.Optional(Type.String()),
     profileImageUrl: Type.Optional(Type.String()),
+    role: Type.Optional(Type.Enum(UserRole)),
+});
+
+export const UserRoleSchema = Type.Object({
+    userId: Type.String(),
+    role: Type.Enum(UserRole),
 });
 
 export type CreateUserType = Static<typeof CreateUserSchema>;
 export type UserType = Static<typeof UserSchema>;
+export type UserRoleType = Static<typeof UserRoleSchema>;
@@ -1,6 +1,14 @@
 export * from './constants';
 export * from './contracts/error-response';
+export * from './contracts/request';
+export * from './contracts/response';
 export * from './contracts/user';
+export * from './contracts/resume';
+export * from './contracts/auth';
+export * from './contracts/template';
+export * from './contracts/share-link';
+export * from './contracts/job-description';
+export * from './contracts/cover-letter';
 export * from './helpers/common-validations';
 export * from './helpers/schema-ajv-validator';
 export * from './helpers/schema-validator';
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+
+import { ConfigurationModule } from '../configuration';
+import { AuthTokenService } from './auth-token.service';
+
+@Global()
+@Module({
+    imports: [ConfigurationModule],
+    providers: [AuthTokenService],
+    exports: [AuthTokenService],
+})
+export class AuthTokenModule {}
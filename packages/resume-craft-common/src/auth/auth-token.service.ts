@@ -0,0 +1,85 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+
+import { ConfigurationService } from '../configuration';
+import { AuthConfig } from '../configuration/configuration.types';
+import { ErrorCode, ResumeCraftException } from '../exceptions';
+import { generateUUIDV4 } from '../helpers/uuid.helper';
+import { LoggerFactory } from '../logger';
+import { AccessTokenClaims, AuthTokenType, IssuedAccessToken, IssuedRefreshToken } from './auth.types';
+import { signJwt, verifyJwt } from './jwt.helper';
+
+const REFRESH_TOKEN_BYTES = 48;
+
+@Injectable()
+export class AuthTokenService {
+    private readonly logger = LoggerFactory.getLogger(AuthTokenService.name);
+
+    constructor(private readonly configurationService: ConfigurationService) {
+        this.logger.debug(`${AuthTokenService.name} Initialized`);
+    }
+
+    issueAccessToken(input: { userId: string; role?: string }): IssuedAccessToken {
+        const { issuer, accessTokenPrivateKey, accessTokenTtlSeconds } = this._getAuthConfig();
+        if (!accessTokenPrivateKey) {
+            throw new ResumeCraftException(ErrorCode.INTERNAL_SERVER_ERROR, {
+                message: 'Access token signing key is not configured',
+            });
+        }
+
+        const issuedAt = Math.floor(Date.now() / 1000);
+        const claims: AccessTokenClaims = {
+            sub: input.userId,
+            ...(input.role ? { role: input.role } : {}),
+            type: AuthTokenType.ACCESS,
+            iss: issuer,
+            iat: issuedAt,
+            exp: issuedAt + accessTokenTtlSeconds,
+            jti: generateUUIDV4(),
+        };
+
+        return {
+            accessToken: signJwt(claims, accessTokenPrivateKey),
+            expiresIn: accessTokenTtlSeconds,
+        };
+    }
+
+    verifyAccessToken(accessToken: string): AccessTokenClaims {
+        const { issuer, accessTokenPublicKey } = this._getAuthConfig();
+        if (!accessTokenPublicKey) {
+            throw new ResumeCraftException(ErrorCode.INTERNAL_SERVER_ERROR, {
+                message: 'Access token verification key is not configured',
+            });
+        }
+
+        const claims = verifyJwt<AccessTokenClaims>(accessToken, accessTokenPublicKey, { issuer });
+        if (claims.type !== AuthTokenType.ACCESS || !claims.sub) {
+            throw new UnauthorizedException('Token is not an access token');
+        }
+
+        return claims;
+    }
+
+    /**
+     * Refresh tokens are opaque random strings; only their hash is persisted so a leaked
+     * collection cannot be replayed against the refresh endpoint.
+     */
+    issueRefreshToken(): IssuedRefreshToken {
+        const { refreshTokenTtlSeconds } = this._getAuthConfig();
+        const refreshToken = randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+
+        return {
+            refreshToken,
+            tokenHash: this.hashRefreshToken(refreshToken),
+            expiresAt: Date.now() + refreshTokenTtlSeconds * 1000,
+        };
+    }
+
+    hashRefreshToken(refreshToken: string): string {
+        return createHash('sha256').update(refreshToken).digest('hex');
+    }
+
+    private _getAuthConfig(): AuthConfig {
+        return this.configurationService.getConfig().auth;
+    }
+}
@@ -0,0 +1,24 @@
+export enum AuthTokenType {
+    ACCESS = 'access',
+}
+
+export type AccessTokenClaims = {
+    sub: string;
+    role?: string;
+    type: `${AuthTokenType}`;
+    iss: string;
+    iat: number;
+    exp: number;
+    jti: string;
+};
+
+export type IssuedAccessToken = {
+    accessToken: string;
+    expiresIn: number;
+};
+
+export type IssuedRefreshToken = {
+    refreshToken: string;
+    tokenHash: string;
+    expiresAt: number;
+};
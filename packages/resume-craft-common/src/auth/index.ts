@@ -0,0 +1,6 @@
+export * from './auth.types';
+export * from './jwt.helper';
+export * from './password.helper';
+export * from './share-token.helper';
+export * from './auth-token.service';
+export * from './auth-token.module';
@@ -0,0 +1,69 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { generateKeyPairSync } from 'crypto';
+
+import { signJwt, verifyJwt } from './jwt.helper';
+
+describe('jwt.helper', () => {
+    let privateKey: string;
+    let publicKey: string;
+    let otherPrivateKey: string;
+    const now = 1_700_000_000;
+
+    beforeAll(() => {
+        const generateKeyPair = () =>
+            generateKeyPairSync('rsa', {
+                modulusLength: 2048,
+                publicKeyEncoding: { type: 'spki', format: 'pem' },
+                privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+            });
+        ({ privateKey, publicKey } = generateKeyPair());
+        otherPrivateKey = generateKeyPair().privateKey;
+    });
+
+    const claims = { sub: 'user-1', iss: 'resume-craft-test', iat: now, exp: now + 60 };
+
+    it('should verify a token signed with the matching key', () => {
+        const token = signJwt(claims, privateKey);
+
+        expect(verifyJwt(token, publicKey, { issuer: 'resume-craft-test', now })).toEqual(claims);
+    });
+
+    it('should reject a token signed with another key', () => {
+        const token = signJwt(claims, otherPrivateKey);
+
+        expect(() => verifyJwt(token, publicKey, { now })).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a token with tampered claims', () => {
+        const [header, , signature] = signJwt(claims, privateKey).split('.');
+        const tamperedClaims = Buffer.from(JSON.stringify({ ...claims, sub: 'user-2' })).toString('base64url');
+
+        expect(() => verifyJwt(`${header}.${tamperedClaims}.${signature}`, publicKey, { now })).toThrow(
+            'Invalid access token signature'
+        );
+    });
+
+    it('should reject an expired token', () => {
+        const token = signJwt(claims, privateKey);
+
+        expect(() => verifyJwt(token, publicKey, { now: now + 60 })).toThrow('Access token has expired');
+    });
+
+    it('should reject a token from another issuer', () => {
+        const token = signJwt(claims, privateKey);
+
+        expect(() => verifyJwt(token, publicKey, { issuer: 'someone-else', now })).toThrow(
+            'Invalid access token issuer'
+        );
+    });
+
+    it('should reject unsigned and malformed tokens', () => {
+        const unsignedHeader = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+        const [, encodedClaims] = signJwt(claims, privateKey).split('.');
+
+        expect(() => verifyJwt(`${unsignedHeader}.${encodedClaims}.`, publicKey, { now })).toThrow(
+            'Unsupported access token algorithm'
+        );
+        expect(() => verifyJwt('not-a-token', publicKey, { now })).toThrow('Malformed access token');
+    });
+});
@@ -0,0 +1,80 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { sign, verify } from 'crypto';
+
+const JWT_ALGORITHM = 'RS256';
+const JWT_SIGNATURE_ALGORITHM = 'RSA-SHA256';
+
+const encodeSegment = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeSegment = <T>(segment: string): T => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+
+/**
+ * Signs the given claims as an RS256 JSON Web Token.
+ *
+ * @param claims - The payload of the token; `exp`/`iat` are expected to be set by the caller (seconds since epoch).
+ * @param privateKey - PEM encoded RSA private key.
+ *
+ * @returns The compact serialised token.
+ */
+export const signJwt = (claims: object, privateKey: string): string => {
+    const unsignedToken = `${encodeSegment({ alg: JWT_ALGORITHM, typ: 'JWT' })}.${encodeSegment(claims)}`;
+    const signature = sign(JWT_SIGNATURE_ALGORITHM, Buffer.from(unsignedToken), privateKey).toString('base64url');
+    return `${unsignedToken}.${signature}`;
+};
+
+/**
+ * Verifies the signature, algorithm, issuer and expiry of an RS256 JSON Web Token.
+ *
+ * @param token - The compact serialised token.
+ * @param publicKey - PEM encoded RSA public key.
+ * @param options - `issuer` to match against the `iss` claim and `now` (seconds since epoch) for expiry checks.
+ *
+ * @throws UnauthorizedException if the token is malformed, tampered with or expired.
+ *
+ * @returns The verified claims.
+ */
+export const verifyJwt = <T extends { exp?: number; iss?: string }>(
+    token: string,
+    publicKey: string,
+    options?: { issuer?: string; now?: number }
+): T => {
+    const segments = token?.split('.') || [];
+    if (segments.length !== 3) {
+        throw new UnauthorizedException('Malformed access token');
+    }
+
+    const [encodedHeader, encodedClaims, encodedSignature] = segments;
+    let header: { alg?: string };
+    let claims: T;
+    try {
+        header = decodeSegment(encodedHeader);
+        claims = decodeSegment<T>(encodedClaims);
+    } catch (error) {
+        throw new UnauthorizedException('Malformed access token', { cause: error });
+    }
+
+    if (header.alg !== JWT_ALGORITHM) {
+        throw new UnauthorizedException('Unsupported access token algorithm');
+    }
+
+    const isSignatureValid = verify(
+        JWT_SIGNATURE_ALGORITHM,
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        publicKey,
+        Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!isSignatureValid) {
+        throw new UnauthorizedException('Invalid access token signature');
+    }
+
+    const now = options?.now ?? Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp <= now) {
+        throw new UnauthorizedException('Access token has expired');
+    }
+
+    if (options?.issuer && claims.iss !== options.issuer) {
+        throw new UnauthorizedException('Invalid access token issuer');
+    }
+
+    return claims;
+};
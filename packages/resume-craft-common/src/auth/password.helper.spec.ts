@@ -0,0 +1,28 @@
+import { getDummyPasswordHash, hashPassword, verifyPassword } from './password.helper';
+
+describe('password.helper', () => {
+    it('should verify the original password against its hash', async () => {
+        const passwordHash = await hashPassword('correct horse battery staple');
+
+        await expect(verifyPassword('correct horse battery staple', passwordHash)).resolves.toBe(true);
+        await expect(verifyPassword('correct horse battery stapler', passwordHash)).resolves.toBe(false);
+    });
+
+    it('should salt every hash', async () => {
+        const [firstHash, secondHash] = await Promise.all([hashPassword('password'), hashPassword('password')]);
+
+        expect(firstHash).not.toEqual(secondHash);
+    });
+
+    it('should reject hashes in an unknown format', async () => {
+        await expect(verifyPassword('password', 'plain-text')).resolves.toBe(false);
+    });
+
+    it('should keep one dummy hash that no password matches', async () => {
+        const dummyPasswordHash = await getDummyPasswordHash();
+
+        await expect(getDummyPasswordHash()).resolves.toBe(dummyPasswordHash);
+        await expect(verifyPassword('', dummyPasswordHash)).resolves.toBe(false);
+        await expect(verifyPassword('password', dummyPasswordHash)).resolves.toBe(false);
+    });
+});
@@ -0,0 +1,51 @@
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+const PASSWORD_HASH_SCHEME = 'scrypt';
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_KEY_LENGTH = 64;
+const PASSWORD_SCRYPT_OPTIONS: ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        scrypt(password, salt, PASSWORD_KEY_LENGTH, options, (error, derivedKey) =>
+            error ? reject(error) : resolve(derivedKey)
+        );
+    });
+
+/**
+ * Hashes a password with scrypt and a random salt.
+ * The cost parameters are stored with the hash, so they can be raised later without invalidating old hashes.
+ *
+ * @returns `scrypt$<N>$<r>$<p>$<salt>$<hash>`, salt and hash being base64 encoded.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(PASSWORD_SALT_BYTES);
+    const { N, r, p } = PASSWORD_SCRYPT_OPTIONS;
+    const derivedKey = await deriveKey(password, salt, PASSWORD_SCRYPT_OPTIONS);
+    return [PASSWORD_HASH_SCHEME, N, r, p, salt.toString('base64'), derivedKey.toString('base64')].join('$');
+};
+
+/**
+ * Checks a password against a hash produced by `hashPassword` in constant time.
+ */
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+    const [scheme, N, r, p, salt, hash] = (passwordHash || '').split('$');
+    if (scheme !== PASSWORD_HASH_SCHEME || !salt || !hash) {
+        return false;
+    }
+
+    const expectedKey = Buffer.from(hash, 'base64');
+    const derivedKey = await deriveKey(password, Buffer.from(salt, 'base64'), { N: +N, r: +r, p: +p });
+    return expectedKey.length === derivedKey.length && timingSafeEqual(expectedKey, derivedKey);
+};
+
+let dummyPasswordHash: Promise<string> | null = null;
+
+/**
+ * Hash of a random password no one knows, for checking a password when there is no account to check it
+ * against, so that doing so takes as long as for an account.
+ */
+export const getDummyPasswordHash = (): Promise<string> => {
+    dummyPasswordHash = dummyPasswordHash || hashPassword(randomBytes(PASSWORD_SALT_BYTES).toString('base64'));
+    return dummyPasswordHash;
+};
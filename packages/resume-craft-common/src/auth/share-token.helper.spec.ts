@@ -0,0 +1,17 @@
+import { generateShareToken, hashShareToken } from './share-token.helper';
+
+describe('share-token.helper', () => {
+    it('should generate distinct URL safe tokens', () => {
+        const [firstToken, secondToken] = [generateShareToken(), generateShareToken()];
+
+        expect(firstToken).toMatch(/^[A-Za-z0-9_-]{32}$/);
+        expect(firstToken).not.toEqual(secondToken);
+    });
+
+    it('should hash a token to the same value every time', () => {
+        const token = generateShareToken();
+
+        expect(hashShareToken(token)).toEqual(hashShareToken(token));
+        expect(hashShareToken(token)).not.toEqual(token);
+    });
+});
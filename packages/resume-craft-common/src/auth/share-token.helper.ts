@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from 'crypto';
+
+const SHARE_TOKEN_BYTES = 24;
+
+/**
+ * Generates the opaque, URL safe token of a share link.
+ */
+export const generateShareToken = (): string => randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+
+/**
+ * Share tokens are random enough that an unsalted hash is safe to store and to look up by.
+ */
+export const hashShareToken = (token: string): string => createHash('sha256').update(token).digest('hex');
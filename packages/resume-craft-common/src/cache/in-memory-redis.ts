@@ -0,0 +1,41 @@
+import { RemoteCacheClient } from './remote-cache.types';
+
+/**
+ * In-memory stand-in for Redis with the commands used by the remote cache, expiring keys on read.
+ */
+export class InMemoryRedis implements RemoteCacheClient {
+    private readonly entries = new Map<string, { value: string; expiresAt: number | null }>();
+    private readonly now: () => number;
+
+    constructor(now: () => number = Date.now) {
+        this.now = now;
+    }
+
+    async get(key: string): Promise<string | null> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+        if (entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set(key: string, value: string, expiryMode: 'EX', ttlSeconds: number): Promise<'OK'> {
+        this.entries.set(key, { value, expiresAt: this.now() + ttlSeconds * 1000 });
+        return 'OK';
+    }
+
+    async incr(key: string): Promise<number> {
+        const value = Number((await this.get(key)) ?? 0) + 1;
+        this.entries.set(key, { value: String(value), expiresAt: null });
+        return value;
+    }
+
+    async quit(): Promise<'OK'> {
+        this.entries.clear();
+        return 'OK';
+    }
+}
@@ -0,0 +1,6 @@
+export * from './remote-cache.constants';
+export * from './remote-cache.types';
+export * from './remote-cache.helper';
+export * from './in-memory-redis';
+export * from './remote-cache.service';
+export * from './remote-cache.module';
@@ -0,0 +1,3 @@
+export const DB_CACHE_KEY_PREFIX = 'db-cache';
+export const DEFAULT_REMOTE_CACHE_VERSION = 'v1';
+export const DEFAULT_REMOTE_CACHE_TTL_SECONDS = 300;
@@ -0,0 +1,28 @@
+import { hashCacheKeyPart, normalizeCacheKeyPart } from './remote-cache.helper';
+
+describe('remote cache helper', () => {
+    it('should not depend on the key order of conditions', () => {
+        expect(hashCacheKeyPart({ condition: { resumeId: 'resume-1', 'owner.userId': 'alice' } })).toBe(
+            hashCacheKeyPart({ condition: { 'owner.userId': 'alice', resumeId: 'resume-1' } })
+        );
+    });
+
+    it('should tell apart conditions with different values', () => {
+        expect(hashCacheKeyPart({ condition: { resumeId: 'resume-1' } })).not.toBe(
+            hashCacheKeyPart({ condition: { resumeId: 'resume-2' } })
+        );
+    });
+
+    it('should keep array order, drop undefined values and stringify regular expressions', () => {
+        expect(
+            normalizeCacheKeyPart({
+                sortBy: [{ order: 1, field: 'title' }],
+                includedAttributes: undefined,
+                condition: { title: /backend/i, createdAt: new Date(0) },
+            })
+        ).toEqual({
+            condition: { createdAt: '1970-01-01T00:00:00.000Z', title: '/backend/i' },
+            sortBy: [{ field: 'title', order: 1 }],
+        });
+    });
+});
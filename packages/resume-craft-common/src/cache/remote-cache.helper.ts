@@ -0,0 +1,31 @@
+import { createHash } from 'crypto';
+
+/**
+ * Turns a value into a JSON friendly shape that does not depend on key order, so equal conditions written
+ * differently share a cache key. Regular expressions and values with `toJSON` (dates, UUIDs) are stringified.
+ */
+export const normalizeCacheKeyPart = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(normalizeCacheKeyPart);
+    }
+    if (value instanceof RegExp) {
+        return value.toString();
+    }
+    if (value && typeof value === 'object') {
+        if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+            return (value as { toJSON: () => unknown }).toJSON();
+        }
+        return Object.fromEntries(
+            Object.keys(value)
+                .filter((key) => value[key] !== undefined)
+                .sort()
+                .map((key) => [key, normalizeCacheKeyPart(value[key])])
+        );
+    }
+    return value;
+};
+
+export const hashCacheKeyPart = (value: unknown): string =>
+    createHash('sha1')
+        .update(JSON.stringify(normalizeCacheKeyPart(value)) ?? '')
+        .digest('hex');
@@ -0,0 +1,32 @@
+import { Global, Module } from '@nestjs/common';
+import { Redis } from 'ioredis';
+
+import { ConfigurationModule, ConfigurationService } from '../configuration';
+import { RemoteCacheService } from './remote-cache.service';
+
+/**
+ * Provides `RemoteCacheService` when a Redis URL is configured and `null` otherwise, which leaves the
+ * read-through cache of the db services switched off.
+ */
+@Global()
+@Module({
+    imports: [ConfigurationModule],
+    providers: [
+        {
+            provide: RemoteCacheService,
+            inject: [ConfigurationService],
+            useFactory: (configurationService: ConfigurationService) => {
+                const { redisUrl, ttlSeconds } = configurationService.getConfig().cache || {};
+                if (!redisUrl) {
+                    return null;
+                }
+
+                // A cache miss is cheaper than a request waiting on a Redis that is down, so commands fail fast.
+                const client = new Redis(redisUrl, { maxRetriesPerRequest: 1, enableOfflineQueue: false });
+                return new RemoteCacheService(client, ttlSeconds);
+            },
+        },
+    ],
+    exports: [RemoteCacheService],
+})
+export class RemoteCacheModule {}
@@ -0,0 +1,37 @@
+import { InMemoryRedis } from './in-memory-redis';
+import { RemoteCacheService } from './remote-cache.service';
+
+describe('RemoteCacheService', () => {
+    let now: number;
+    let remoteCache: RemoteCacheService;
+
+    beforeEach(() => {
+        now = 1700000000000;
+        remoteCache = new RemoteCacheService(new InMemoryRedis(() => now), 60);
+    });
+
+    it('should round trip JSON values', async () => {
+        await remoteCache.set('resume', { resumeId: 'resume-1', sections: [{ order: 0 }] });
+
+        await expect(remoteCache.get('resume')).resolves.toEqual({ resumeId: 'resume-1', sections: [{ order: 0 }] });
+        await expect(remoteCache.get('missing')).resolves.toBeUndefined();
+    });
+
+    it('should expire values after the TTL', async () => {
+        await remoteCache.set('resume', { resumeId: 'resume-1' });
+
+        now += 59 * 1000;
+        await expect(remoteCache.get('resume')).resolves.toBeDefined();
+        now += 1000;
+        await expect(remoteCache.get('resume')).resolves.toBeUndefined();
+    });
+
+    it('should keep counters without expiry', async () => {
+        await expect(remoteCache.getCounter('generation')).resolves.toBe(0);
+        await remoteCache.incrementCounter('generation');
+        now += 3600 * 1000;
+
+        await expect(remoteCache.incrementCounter('generation')).resolves.toBe(2);
+        await expect(remoteCache.getCounter('generation')).resolves.toBe(2);
+    });
+});
@@ -0,0 +1,40 @@
+import { OnModuleDestroy } from '@nestjs/common';
+
+import { LoggerFactory } from '../logger';
+import { DEFAULT_REMOTE_CACHE_TTL_SECONDS } from './remote-cache.constants';
+import { RemoteCacheClient } from './remote-cache.types';
+
+/**
+ * JSON cache on top of Redis. Values expire after `ttlSeconds`, counters never expire.
+ */
+export class RemoteCacheService implements OnModuleDestroy {
+    private readonly logger = LoggerFactory.getLogger(RemoteCacheService.name);
+
+    constructor(
+        private readonly client: RemoteCacheClient,
+        private readonly ttlSeconds: number = DEFAULT_REMOTE_CACHE_TTL_SECONDS
+    ) {
+        this.logger.debug(`${RemoteCacheService.name} Initialized`);
+    }
+
+    async get<ValueType>(key: string): Promise<ValueType | undefined> {
+        const value = await this.client.get(key);
+        return value === null ? undefined : (JSON.parse(value) as ValueType);
+    }
+
+    async set(key: string, value: unknown): Promise<void> {
+        await this.client.set(key, JSON.stringify(value), 'EX', this.ttlSeconds);
+    }
+
+    async getCounter(key: string): Promise<number> {
+        return Number((await this.client.get(key)) ?? 0);
+    }
+
+    async incrementCounter(key: string): Promise<number> {
+        return this.client.incr(key);
+    }
+
+    async onModuleDestroy() {
+        await this.client.quit();
+    }
+}
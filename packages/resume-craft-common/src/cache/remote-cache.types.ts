@@ -0,0 +1,9 @@
+/**
+ * The subset of the ioredis client used by the remote cache, so an in-memory stand-in can replace it in tests.
+ */
+export interface RemoteCacheClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, expiryMode: 'EX', ttlSeconds: number): Promise<unknown>;
+    incr(key: string): Promise<number>;
+    quit(): Promise<unknown>;
+}
@@ -24,4 +24,30 @@ export const BaseConfig: Config = {
         host: process.env.DB_HOST,
         database: process.env.DB_NAME,
     },
+    auth: {
+        issuer: process.env.AUTH_TOKEN_ISSUER || 'resume-craft',
+        // PEM keys are usually provided on a single line with escaped new lines.
+        accessTokenPrivateKey: (process.env.AUTH_ACCESS_TOKEN_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+        accessTokenPublicKey: (process.env.AUTH_ACCESS_TOKEN_PUBLIC_KEY || '').replace(/\\n/g, '\n'),
+        accessTokenTtlSeconds: +(process.env.AUTH_ACCESS_TOKEN_TTL_SECONDS || 900),
+        refreshTokenTtlSeconds: +(process.env.AUTH_REFRESH_TOKEN_TTL_SECONDS || 2592000),
+    },
+    cache: {
+        // Caching stays off until a Redis URL is configured.
+        redisUrl: process.env.REDIS_URL || undefined,
+        version: process.env.CACHE_VERSION || 'v1',
+        ttlSeconds: +(process.env.CACHE_TTL_SECONDS || 300),
+    },
+    kafka: {
+        clientId: process.env.KAFKA_CLIENT_ID || 'resume-craft',
+        // Nothing is published until brokers are configured, e.g. `broker-1:9092,broker-2:9092`.
+        brokers: (process.env.KAFKA_BROKERS || '').split(',').filter(Boolean),
+        topicPrefix: process.env.KAFKA_TOPIC_PREFIX || 'resume-craft',
+        consumer: {
+            groupId: process.env.KAFKA_CONSUMER_GROUP_ID || 'resume-craft-mgmt',
+            maxAttempts: +(process.env.KAFKA_CONSUMER_MAX_ATTEMPTS || 3),
+            retryDelayMs: +(process.env.KAFKA_CONSUMER_RETRY_DELAY_MS || 1000),
+            maxRetryDelayMs: +(process.env.KAFKA_CONSUMER_MAX_RETRY_DELAY_MS || 10000),
+        },
+    },
 };
@@ -8,16 +8,51 @@ const DataSourceConfigType = Type.Object({
     password: Type.Optional(Type.String()),
 });
 
+const AuthConfigType = Type.Object({
+    issuer: Type.String(),
+    accessTokenPrivateKey: Type.String(),
+    accessTokenPublicKey: Type.String(),
+    accessTokenTtlSeconds: Type.Number(),
+    refreshTokenTtlSeconds: Type.Number(),
+});
+
+const CacheConfigType = Type.Object({
+    redisUrl: Type.Optional(Type.String()),
+    version: Type.String(),
+    ttlSeconds: Type.Number(),
+});
+
+const KafkaConsumerConfigType = Type.Object({
+    groupId: Type.String(),
+    maxAttempts: Type.Number(),
+    retryDelayMs: Type.Number(),
+    maxRetryDelayMs: Type.Number(),
+});
+
+const KafkaConfigType = Type.Object({
+    clientId: Type.String(),
+    brokers: Type.Array(Type.String()),
+    topicPrefix: Type.String(),
+    consumer: Type.Optional(KafkaConsumerConfigType),
+});
+
 const ConfigType = Type.Object({
     port: Type.Number(),
     env: Type.String(),
     nodeEnv: Type.Optional(Type.String()),
     userEnv: Type.String(),
     dataSource: DataSourceConfigType,
+    auth: AuthConfigType,
+    cache: Type.Optional(CacheConfigType),
+    kafka: Type.Optional(KafkaConfigType),
 });
 
 export type DataSourceConfig = Static<typeof DataSourceConfigType>;
 export type SecretsManagerDBConfig = Static<typeof DataSourceConfigType>;
+export type AuthConfig = Static<typeof AuthConfigType>;
+export type CacheConfig = Static<typeof CacheConfigType>;
+export type KafkaConfig = Static<typeof KafkaConfigType>;
+export type KafkaConsumerConfig = Static<typeof KafkaConsumerConfigType>;
 export type Config = Static<typeof ConfigType>;
 
 export const DataSourceConfigValidationSchema = DataSourceConfigType;
@@ -12,4 +12,26 @@ export const TestConfig: Config = {
         username: 'testUser',
         password: 'testPassword',
     },
+    auth: {
+        issuer: 'resume-craft-test',
+        accessTokenPrivateKey: '',
+        accessTokenPublicKey: '',
+        accessTokenTtlSeconds: 900,
+        refreshTokenTtlSeconds: 3600,
+    },
+    cache: {
+        version: 'v1',
+        ttlSeconds: 60,
+    },
+    kafka: {
+        clientId: 'resume-craft-test',
+        brokers: [],
+        topicPrefix: 'resume-craft-test',
+        consumer: {
+            groupId: 'resume-craft-test',
+            maxAttempts: 3,
+            retryDelayMs: 1,
+            maxRetryDelayMs: 10,
+        },
+    },
 };
@@ -30,6 +30,7 @@ export const HEADERS = {
     CACHE_CONTROL: 'Cache-Control',
     X_CONTENT_TYPE_OPTIONS: 'X-Content-Type-Options',
     AUTHORIZATION: 'authorization',
+    SHARE_LINK_PASSWORD: 'x-share-password',
 };
 
 export const HEADER_VALUES = {
@@ -43,6 +44,8 @@ export const HEADER_VALUES = {
 
 export const DAYS_VALUES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 export const BULK_WRITE_DEFAULT_BATCH_SIZE = 10;
+export const TRANSACTION_MAX_ATTEMPTS = 5;
+export const TRANSACTION_RETRY_DELAY_MS = 50;
 export enum EnvType {
     DEV = 'dev',
     TEST = 'test',
@@ -61,12 +64,12 @@ export enum ApiOperation {
 
 export const REQUIRED_HEADERS_LIST: ApiHeaderOptions[] = [
     {
-        name: HEADERS.USER_ID,
+        name: HEADERS.AUTHORIZATION,
         required: true,
-        description: 'User ID (UUID)',
+        description: 'Bearer access token',
         schema: {
             type: 'string',
-            example: 'f3ecf829-34e8-4d97-b782-5d63c15929a9',
+            example: 'Bearer eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9...',
         },
     },
 ];
@@ -0,0 +1,43 @@
+import { RequestContext } from '../types';
+import { getRequestContext, RequestContextHolder, runWithRequestContext } from './request-context.storage';
+
+describe('request context storage', () => {
+    it('should have no context outside of a scope', () => {
+        expect(getRequestContext()).toBeUndefined();
+    });
+
+    it('should expose the context across awaits within the scope', async () => {
+        const context: RequestContext = { correlationId: 'correlation-1' };
+
+        const seen = await runWithRequestContext({ context }, async () => {
+            await new Promise((resolve) => {
+                setImmediate(resolve);
+            });
+            return getRequestContext();
+        });
+
+        expect(seen).toBe(context);
+        expect(getRequestContext()).toBeUndefined();
+    });
+
+    it('should see a context the holder is given after the scope opened', () => {
+        const holder: RequestContextHolder = { context: { correlationId: 'correlation-1' } };
+
+        runWithRequestContext(holder, () => {
+            holder.context = { ...holder.context, userId: 'user-1' };
+            expect(getRequestContext()).toEqual({ correlationId: 'correlation-1', userId: 'user-1' });
+        });
+    });
+
+    it('should keep concurrent scopes apart', async () => {
+        const readLater = (correlationId: string) =>
+            runWithRequestContext({ context: { correlationId } }, async () => {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+                return getRequestContext().correlationId;
+            });
+
+        await expect(Promise.all([readLater('first'), readLater('second')])).resolves.toEqual(['first', 'second']);
+    });
+});
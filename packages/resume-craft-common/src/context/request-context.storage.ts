@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { RequestContext } from '../types/request.types';
+
+/**
+ * Anything carrying the context of the work in progress, e.g. the express request.
+ */
+export type RequestContextHolder = {
+    context?: RequestContext;
+};
+
+const requestContextStorage = new AsyncLocalStorage<RequestContextHolder>();
+
+/**
+ * Runs `callback` in an async-local scope in which `getRequestContext` returns the context of `holder`. The holder
+ * is read on every access, so a context it is given later, as `AuthGuard` does on the request, is seen too.
+ */
+export const runWithRequestContext = <T>(holder: RequestContextHolder, callback: () => T): T =>
+    requestContextStorage.run(holder, callback);
+
+/**
+ * The context of the request, Kafka message or job being handled, or `undefined` outside of one.
+ */
+export const getRequestContext = (): RequestContext | undefined => requestContextStorage.getStore()?.context;
@@ -43,11 +43,17 @@ const ERROR_CODE_DETAILS: Record<ErrorCode, ExceptionDetailType> = {
         httpStatusCodeText: 'Internal Server Error',
     },
     [ErrorCode.AUTHORIZATION_ERROR]: {
-        httpStatus: HttpStatus.UNAUTHORIZED,
+        httpStatus: HttpStatus.FORBIDDEN,
         message: 'Authorization Error',
         ufMessage:
             'You are not authorized to access this resource. Please contact support if you believe this is an error.',
-        httpStatusCodeText: 'Unauthorized',
+        httpStatusCodeText: 'Forbidden',
+    },
+    [ErrorCode.DUPLICATE_RESOURCE]: {
+        httpStatus: HttpStatus.CONFLICT,
+        message: 'Duplicate Resource',
+        ufMessage: 'A resource with the same details already exists.',
+        httpStatusCodeText: 'Conflict',
     },
 };
 
@@ -7,4 +7,5 @@ export enum ErrorCode {
     INTERNAL_SERVER_ERROR = 'INTERNAL_SERVER_ERROR',
     UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
     AUTHORIZATION_ERROR = 'AUTHORIZATION_ERROR',
+    DUPLICATE_RESOURCE = 'DUPLICATE_RESOURCE',
 }
@@ -0,0 +1,50 @@
+import { BadRequestException, HttpStatus, NotFoundException } from '@nestjs/common';
+
+import { ErrorCode } from './error-codes';
+import { ResumeCraftException } from './resume-craft-exception';
+
+describe('ResumeCraftException', () => {
+    describe('fromError', () => {
+        it('should return the same instance for a ResumeCraftException', () => {
+            const error = new ResumeCraftException(ErrorCode.INVALID_INPUT);
+
+            expect(ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR)).toBe(error);
+        });
+
+        it('should map a Mongo duplicate key error to DUPLICATE_RESOURCE', () => {
+            const error = Object.assign(new Error('E11000 duplicate key error collection: users index: email_1'), {
+                code: 11000,
+                keyValue: { email: 'jane@example.com' },
+            });
+
+            const exception = ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+
+            expect(exception.getStatus()).toBe(HttpStatus.CONFLICT);
+            expect(exception.getResponse()).toEqual(
+                expect.objectContaining({
+                    code: ErrorCode.DUPLICATE_RESOURCE,
+                    details: { fields: ['email'] },
+                })
+            );
+        });
+
+        it('should convert nest http exceptions using their status', () => {
+            const exception = ResumeCraftException.fromError(new NotFoundException('User does not exist.'));
+
+            expect(exception.getStatus()).toBe(HttpStatus.NOT_FOUND);
+        });
+
+        it('should fall back to the given error code for unknown errors', () => {
+            const exception = ResumeCraftException.fromError(new Error('boom'), ErrorCode.DATABASE_ERROR);
+
+            expect(exception.getStatus()).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+            expect(exception.getResponse()).toEqual(expect.objectContaining({ code: ErrorCode.DATABASE_ERROR }));
+        });
+
+        it('should keep validation failures as bad requests', () => {
+            const exception = ResumeCraftException.fromError(new BadRequestException('Validation failed'));
+
+            expect(exception.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+        });
+    });
+});
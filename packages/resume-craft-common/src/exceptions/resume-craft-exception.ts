@@ -6,6 +6,11 @@ import { ErrorCode } from './error-codes';
 import { getNestErrorCodeDetails, getNestErrorCodeFromHttpStatus, NestErrorCtor } from './nest-exceptions';
 import { ErrorDetailInJsonType, ExceptionOptions, ExceptionResponseType } from './types';
 
+const MONGO_DUPLICATE_KEY_ERROR_CODE = 11000;
+
+const isDuplicateKeyError = (error: Error): error is Error & { code: number; keyValue?: Record<string, unknown> } =>
+    (error as Error & { code?: number })?.code === MONGO_DUPLICATE_KEY_ERROR_CODE;
+
 export class ResumeCraftException extends HttpException {
     private readonly _errorDetailsInJson: ErrorDetailInJsonType;
 
@@ -64,6 +69,14 @@ export class ResumeCraftException extends HttpException {
             return error;
         }
 
+        if (isDuplicateKeyError(error)) {
+            return new ResumeCraftException(ErrorCode.DUPLICATE_RESOURCE, {
+                cause: error,
+                ...(error.keyValue ? { details: { fields: Object.keys(error.keyValue) } } : {}),
+                ...(options || {}),
+            });
+        }
+
         if (error instanceof HttpException) {
             const ctorName = error.constructor.name;
             const { code } =
@@ -1,2 +1,3 @@
 export * from './data-from-context.helper';
+export * from './slug.helper';
 export * from './uuid.helper';
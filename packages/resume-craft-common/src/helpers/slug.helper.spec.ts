@@ -0,0 +1,27 @@
+import { generateSlug } from './slug.helper';
+
+describe('Slug Helper', () => {
+    describe('generateSlug', () => {
+        it('should lower-case and hyphenate the value', () => {
+            expect(generateSlug('Senior Backend Engineer')).toBe('senior-backend-engineer');
+        });
+
+        it('should strip characters that are not url safe', () => {
+            expect(generateSlug('C++ & Node.js Developer!')).toBe('c-and-nodejs-developer');
+        });
+
+        it('should append the suffix when provided', () => {
+            expect(generateSlug('My Resume', '3F2504E0')).toBe('my-resume-3f2504e0');
+        });
+
+        it('should return only the suffix for an empty value', () => {
+            expect(generateSlug('', 'abc')).toBe('abc');
+        });
+
+        it('should cap the slug length', () => {
+            const slug = generateSlug('a'.repeat(200));
+
+            expect(slug).toHaveLength(80);
+        });
+    });
+});
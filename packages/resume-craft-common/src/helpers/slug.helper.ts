@@ -0,0 +1,16 @@
+import slugify from 'slugify';
+
+const SLUG_MAX_LENGTH = 80;
+
+/**
+ * Builds a URL friendly slug from a free text value
+ * @param {string} value The text to slugify (e.g. a resume title)
+ * @param {string} [suffix] Optional discriminator appended to keep slugs unique
+ * @returns {string} A lower-case slug
+ */
+export function generateSlug(value: string, suffix?: string): string {
+    const base = slugify(value || '', { lower: true, strict: true, trim: true }).substring(0, SLUG_MAX_LENGTH);
+    const safeSuffix = suffix ? slugify(suffix, { lower: true, strict: true }) : '';
+
+    return [base.replace(/-+$/, ''), safeSuffix].filter(Boolean).join('-');
+}
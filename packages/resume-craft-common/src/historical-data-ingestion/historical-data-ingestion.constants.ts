@@ -0,0 +1,12 @@
+/**
+ * Topic of `ingest_historical_data` requests, named without the configured `kafka.topicPrefix`.
+ */
+export const HISTORICAL_INGESTION_REQUESTS_TOPIC = 'historical-data-ingestion-requests';
+export const HISTORICAL_INGESTION_POLL_INTERVAL_MS = 5000;
+export const HISTORICAL_INGESTION_BATCH_SIZE = 500;
+/**
+ * How long a runner keeps a job between two batches before another runner may resume it.
+ */
+export const HISTORICAL_INGESTION_LEASE_MS = 60 * 1000;
+export const HISTORICAL_INGESTION_MAX_ATTEMPTS = 5;
+export const HISTORICAL_INGESTION_RETRY_DELAY_MS = 60 * 1000;
@@ -0,0 +1,76 @@
+import { KafkaOutgoingMessage } from '../kafka';
+import {
+    HistoricalIngestionJob,
+    HistoricalIngestionJobStatus,
+} from '../odm/models/schemas/historical-ingestion-job.schema';
+import { StreamedDocument } from '../odm/services/base-db.service';
+import { ENTITIES_VALUES } from '../types/historical-data-ingestion.types';
+
+export enum HistoricalIngestionMessageType {
+    Document = 'document',
+    Summary = 'summary',
+}
+
+export type HistoricalIngestionSummary = {
+    jobId: string;
+    accountId: string;
+    entity: ENTITIES_VALUES;
+    targetTopic: string;
+    email: string;
+    status: HistoricalIngestionJobStatus;
+    documentCount: number;
+    batchCount: number;
+    lastError: string | null;
+    createdAt: number;
+    completedAt: number | null;
+};
+
+export const toHistoricalIngestionSummary = (job: HistoricalIngestionJob): HistoricalIngestionSummary => ({
+    jobId: job.jobId,
+    accountId: job.accountId,
+    entity: job.entity,
+    targetTopic: job.targetTopic,
+    email: job.email,
+    status: job.status,
+    documentCount: job.documentCount ?? 0,
+    batchCount: job.batchCount ?? 0,
+    lastError: job.lastError ?? null,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt ?? null,
+});
+
+/**
+ * Keyed by the document id like change events, so a consumer can fold both into the same state. A batch
+ * published again after a crash repeats documents, which consumers overwrite by key.
+ */
+export const toHistoricalDocumentMessage = (
+    job: HistoricalIngestionJob,
+    document: StreamedDocument
+): KafkaOutgoingMessage => ({
+    key: document.key,
+    value: JSON.stringify({
+        jobId: job.jobId,
+        entity: job.entity,
+        accountId: job.accountId,
+        key: document.key,
+        payload: document.payload,
+    }),
+    headers: {
+        jobId: job.jobId,
+        entity: job.entity,
+        type: HistoricalIngestionMessageType.Document,
+    },
+});
+
+/**
+ * Published after the last document of a job, so consumers of the target topic know the backfill is complete.
+ */
+export const toHistoricalIngestionSummaryMessage = (summary: HistoricalIngestionSummary): KafkaOutgoingMessage => ({
+    key: null,
+    value: JSON.stringify(summary),
+    headers: {
+        jobId: summary.jobId,
+        entity: summary.entity,
+        type: HistoricalIngestionMessageType.Summary,
+    },
+});
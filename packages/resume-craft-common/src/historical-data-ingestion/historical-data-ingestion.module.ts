@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { HistoricalDataIngestionService } from './historical-data-ingestion.service';
+
+/**
+ * Runs historical data ingestion jobs. Relies on the global `ODMModule` and, for publishing, `KafkaModule`.
+ */
+@Module({
+    providers: [HistoricalDataIngestionService],
+    exports: [HistoricalDataIngestionService],
+})
+export class HistoricalDataIngestionModule {}
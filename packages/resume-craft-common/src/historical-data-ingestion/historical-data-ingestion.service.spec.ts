@@ -0,0 +1,246 @@
+import { ResumeCraftException } from '../exceptions';
+import { KafkaProducerService } from '../kafka';
+import { InMemoryKafkaProducer } from '../kafka/in-memory-kafka-producer';
+import {
+    HistoricalIngestionJob,
+    HistoricalIngestionJobStatus,
+} from '../odm/models/schemas/historical-ingestion-job.schema';
+import { StreamedDocument } from '../odm/services/base-db.service';
+import { ENTITIES_VALUES } from '../types/historical-data-ingestion.types';
+import { HISTORICAL_INGESTION_MAX_ATTEMPTS } from './historical-data-ingestion.constants';
+import { HistoricalIngestionMessageType } from './historical-data-ingestion.helper';
+import { HistoricalDataIngestionService } from './historical-data-ingestion.service';
+
+const buildJob = (overrides: Partial<HistoricalIngestionJob> = {}): HistoricalIngestionJob => ({
+    jobId: 'job-1',
+    accountId: 'user-1',
+    entity: ENTITIES_VALUES.RESUME,
+    targetTopic: 'analytics.resumes',
+    email: 'requester@example.com',
+    includeAllEntityData: true,
+    status: HistoricalIngestionJobStatus.Running,
+    lastDocumentId: null,
+    documentCount: 0,
+    batchCount: 0,
+    attempts: 1,
+    createdAt: 1700000000000,
+    ...overrides,
+});
+
+const buildDocument = (resumeId: string): StreamedDocument => ({
+    key: resumeId,
+    payload: { resumeId, title: `Resume ${resumeId}` },
+});
+
+describe('HistoricalDataIngestionService', () => {
+    let producer: InMemoryKafkaProducer;
+    let historicalIngestionJobDbService: {
+        create: jest.Mock;
+        findOne: jest.Mock;
+        claimNextJob: jest.Mock;
+        recordBatch: jest.Mock;
+        markCompleted: jest.Mock;
+        releaseJob: jest.Mock;
+    };
+    let resumeDbService: { streamInBatches: jest.Mock };
+    let service: HistoricalDataIngestionService;
+
+    const streamBatches =
+        (batches: Array<[StreamedDocument[], string]>) =>
+        async (context, condition, options, onBatch: (documents: StreamedDocument[], lastId: string) => unknown) => {
+            for (const [documents, lastId] of batches) {
+                if ((await onBatch(documents, lastId)) === false) {
+                    break;
+                }
+            }
+        };
+
+    beforeEach(() => {
+        producer = new InMemoryKafkaProducer();
+        historicalIngestionJobDbService = {
+            create: jest.fn(async (context, job) => job),
+            findOne: jest.fn(),
+            claimNextJob: jest.fn(),
+            recordBatch: jest.fn().mockResolvedValue(true),
+            markCompleted: jest.fn().mockResolvedValue(true),
+            releaseJob: jest.fn().mockResolvedValue(true),
+        };
+        resumeDbService = { streamInBatches: jest.fn() };
+        const unusedDbService = { streamInBatches: jest.fn() };
+        service = new HistoricalDataIngestionService(
+            historicalIngestionJobDbService as never,
+            unusedDbService as never,
+            resumeDbService as never,
+            unusedDbService as never,
+            unusedDbService as never,
+            unusedDbService as never,
+            unusedDbService as never,
+            new KafkaProducerService(producer)
+        );
+    });
+
+    it('should store a valid request as a pending job of the requester', async () => {
+        const summary = await service.submit(
+            { userId: 'admin-1', correlationId: 'correlation-1' },
+            {
+                category: 'ingest_historical_data',
+                details: {
+                    accountId: 'user-1',
+                    entity: ENTITIES_VALUES.RESUME,
+                    targetTopic: 'analytics.resumes',
+                    email: 'requester@example.com',
+                    includeAllEntityData: false,
+                },
+            }
+        );
+
+        expect(historicalIngestionJobDbService.create).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({
+                accountId: 'user-1',
+                includeAllEntityData: false,
+                correlationId: 'correlation-1',
+                createdBy: 'admin-1',
+            })
+        );
+        expect(summary).toEqual(expect.objectContaining({ accountId: 'user-1', documentCount: 0 }));
+    });
+
+    it('should reject requests that do not match the request schema', async () => {
+        await expect(
+            service.submit({ userId: 'admin-1' }, {
+                category: 'ingest_historical_data',
+                details: { accountId: 'user-1', entity: 'workspace.workspace.*' },
+            } as never)
+        ).rejects.toBeInstanceOf(ResumeCraftException);
+        expect(historicalIngestionJobDbService.create).not.toHaveBeenCalled();
+    });
+
+    it('should publish every batch, checkpoint it and finish with a summary', async () => {
+        historicalIngestionJobDbService.claimNextJob.mockResolvedValue(buildJob());
+        resumeDbService.streamInBatches.mockImplementation(
+            streamBatches([
+                [[buildDocument('resume-1'), buildDocument('resume-2')], 'id-2'],
+                [[buildDocument('resume-3')], 'id-3'],
+            ])
+        );
+
+        const summary = await service.runNextJob();
+
+        expect(resumeDbService.streamInBatches).toHaveBeenCalledWith(
+            expect.objectContaining({ userId: 'user-1' }),
+            { userId: 'user-1' },
+            expect.objectContaining({ afterId: null, keysOnly: false }),
+            expect.any(Function)
+        );
+        const messages = producer.getMessages('analytics.resumes');
+        expect(messages.map(({ key, headers }) => [key, headers.type])).toEqual([
+            ['resume-1', HistoricalIngestionMessageType.Document],
+            ['resume-2', HistoricalIngestionMessageType.Document],
+            ['resume-3', HistoricalIngestionMessageType.Document],
+            [null, HistoricalIngestionMessageType.Summary],
+        ]);
+        expect(
+            historicalIngestionJobDbService.recordBatch.mock.calls.map(([, attempts, lastId, count]) => [
+                attempts,
+                lastId,
+                count,
+            ])
+        ).toEqual([
+            [1, 'id-2', 2],
+            [1, 'id-3', 1],
+        ]);
+        expect(summary).toEqual(
+            expect.objectContaining({ status: HistoricalIngestionJobStatus.Completed, documentCount: 3, batchCount: 2 })
+        );
+        expect(JSON.parse(messages[3].value)).toEqual(summary);
+        expect(historicalIngestionJobDbService.markCompleted).toHaveBeenCalledWith('job-1', 1, summary.completedAt);
+    });
+
+    it('should resume a job after its last published batch', async () => {
+        historicalIngestionJobDbService.claimNextJob.mockResolvedValue(
+            buildJob({ lastDocumentId: 'id-2', documentCount: 2, batchCount: 1, includeAllEntityData: false })
+        );
+        resumeDbService.streamInBatches.mockImplementation(streamBatches([[[buildDocument('resume-3')], 'id-3']]));
+
+        const summary = await service.runNextJob();
+
+        expect(resumeDbService.streamInBatches).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.anything(),
+            expect.objectContaining({ afterId: 'id-2', keysOnly: true }),
+            expect.any(Function)
+        );
+        expect(summary).toEqual(expect.objectContaining({ documentCount: 3, batchCount: 2 }));
+    });
+
+    it('should retry a failed job later and give it up after the last attempt', async () => {
+        jest.spyOn(producer, 'send').mockRejectedValue(new Error('Broker not available'));
+        resumeDbService.streamInBatches.mockImplementation(streamBatches([[[buildDocument('resume-1')], 'id-1']]));
+
+        historicalIngestionJobDbService.claimNextJob.mockResolvedValue(buildJob({ attempts: 1 }));
+        await expect(service.runNextJob()).resolves.toEqual(
+            expect.objectContaining({ status: HistoricalIngestionJobStatus.Running, lastError: 'Broker not available' })
+        );
+        expect(historicalIngestionJobDbService.releaseJob).toHaveBeenLastCalledWith(
+            'job-1',
+            1,
+            'Broker not available',
+            expect.any(Number)
+        );
+
+        historicalIngestionJobDbService.claimNextJob.mockResolvedValue(
+            buildJob({ attempts: HISTORICAL_INGESTION_MAX_ATTEMPTS })
+        );
+        await expect(service.runNextJob()).resolves.toEqual(
+            expect.objectContaining({ status: HistoricalIngestionJobStatus.Failed })
+        );
+        expect(historicalIngestionJobDbService.releaseJob).toHaveBeenLastCalledWith(
+            'job-1',
+            HISTORICAL_INGESTION_MAX_ATTEMPTS,
+            'Broker not available',
+            null
+        );
+        expect(historicalIngestionJobDbService.recordBatch).not.toHaveBeenCalled();
+    });
+
+    it('should hand a job back after the current batch on shutdown', async () => {
+        historicalIngestionJobDbService.claimNextJob.mockResolvedValue(buildJob());
+        resumeDbService.streamInBatches.mockImplementation(
+            streamBatches([
+                [[buildDocument('resume-1')], 'id-1'],
+                [[buildDocument('resume-2')], 'id-2'],
+            ])
+        );
+
+        await service.onModuleDestroy();
+        const summary = await service.runNextJob();
+
+        expect(producer.getMessages('analytics.resumes')).toHaveLength(1);
+        expect(historicalIngestionJobDbService.releaseJob).toHaveBeenCalledWith('job-1', 1, null, expect.any(Number));
+        expect(historicalIngestionJobDbService.markCompleted).not.toHaveBeenCalled();
+        expect(summary).toEqual(expect.objectContaining({ status: HistoricalIngestionJobStatus.Running }));
+    });
+
+    it('should stop a run whose lease another runner took over', async () => {
+        historicalIngestionJobDbService.claimNextJob.mockResolvedValue(buildJob());
+        historicalIngestionJobDbService.recordBatch.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+        resumeDbService.streamInBatches.mockImplementation(
+            streamBatches([
+                [[buildDocument('resume-1')], 'id-1'],
+                [[buildDocument('resume-2')], 'id-2'],
+                [[buildDocument('resume-3')], 'id-3'],
+            ])
+        );
+
+        const summary = await service.runNextJob();
+
+        expect(historicalIngestionJobDbService.recordBatch).toHaveBeenCalledTimes(2);
+        expect(producer.getMessages('analytics.resumes')).toHaveLength(2);
+        expect(historicalIngestionJobDbService.markCompleted).not.toHaveBeenCalled();
+        expect(historicalIngestionJobDbService.releaseJob).not.toHaveBeenCalled();
+        expect(summary).toEqual(
+            expect.objectContaining({ status: HistoricalIngestionJobStatus.Running, documentCount: 1, batchCount: 1 })
+        );
+    });
+});
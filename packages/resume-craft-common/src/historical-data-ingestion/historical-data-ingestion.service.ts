@@ -0,0 +1,303 @@
+import { Injectable, NotFoundException, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+
+import { runWithRequestContext } from '../context';
+import { ErrorCode, ResumeCraftException } from '../exceptions';
+import { generateUUIDV4 } from '../helpers/uuid.helper';
+import { KafkaHandler, KafkaProducerService } from '../kafka';
+import { LoggerFactory } from '../logger';
+import {
+    HistoricalIngestionJob,
+    HistoricalIngestionJobStatus,
+} from '../odm/models/schemas/historical-ingestion-job.schema';
+import { UserRole } from '../odm/models/schemas/user.schema';
+import { BaseDbService } from '../odm/services/base-db.service';
+import { CoverLetterDbService } from '../odm/services/cover-letter/cover-letter-db.service';
+import { HistoricalIngestionJobDbService } from '../odm/services/historical-ingestion-job/historical-ingestion-job-db.service';
+import { JobDescriptionDbService } from '../odm/services/job-description/job-description-db.service';
+import { ResumeDbService } from '../odm/services/resume/resume-db.service';
+import { ResumeVersionDbService } from '../odm/services/resume-version/resume-version-db.service';
+import { ShareLinkDbService } from '../odm/services/share-link/share-link-db.service';
+import { UserDbService } from '../odm/services/user/user-db.service';
+import { ajvSchemaValidator } from '../schema-validator';
+import { RequestContext } from '../types';
+import {
+    ENTITIES_VALUES,
+    IngestHistoricalDataRequestSchema,
+    IngestHistoricalDataRequestType,
+} from '../types/historical-data-ingestion.types';
+import {
+    HISTORICAL_INGESTION_BATCH_SIZE,
+    HISTORICAL_INGESTION_LEASE_MS,
+    HISTORICAL_INGESTION_MAX_ATTEMPTS,
+    HISTORICAL_INGESTION_POLL_INTERVAL_MS,
+    HISTORICAL_INGESTION_REQUESTS_TOPIC,
+    HISTORICAL_INGESTION_RETRY_DELAY_MS,
+} from './historical-data-ingestion.constants';
+import {
+    HistoricalIngestionSummary,
+    toHistoricalDocumentMessage,
+    toHistoricalIngestionSummary,
+    toHistoricalIngestionSummaryMessage,
+} from './historical-data-ingestion.helper';
+
+type HistoricalDataSource = Pick<
+    BaseDbService<unknown, unknown, { userId: string }, { userId: string }>,
+    'streamInBatches'
+>;
+
+/**
+ * Runs `ingest_historical_data` requests: streams every document of the requested entity owned by the account
+ * to the target topic, one batch per Kafka send, then publishes a completion summary. The job checkpoints after
+ * each batch, so a job whose runner died resumes after the last published batch once its lease ends. The batch
+ * in flight at the time is published again. A job failing `HISTORICAL_INGESTION_MAX_ATTEMPTS` runs is given up.
+ */
+@Injectable()
+export class HistoricalDataIngestionService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = LoggerFactory.getLogger(HistoricalDataIngestionService.name);
+    private readonly sources: Record<ENTITIES_VALUES, HistoricalDataSource>;
+    private timer: NodeJS.Timeout | null = null;
+    private currentRun: Promise<void> | null = null;
+    private isStopped = false;
+
+    constructor(
+        private readonly historicalIngestionJobDbService: HistoricalIngestionJobDbService,
+        userDbService: UserDbService,
+        resumeDbService: ResumeDbService,
+        resumeVersionDbService: ResumeVersionDbService,
+        shareLinkDbService: ShareLinkDbService,
+        jobDescriptionDbService: JobDescriptionDbService,
+        coverLetterDbService: CoverLetterDbService,
+        @Optional() private readonly kafkaProducerService?: KafkaProducerService
+    ) {
+        this.sources = {
+            [ENTITIES_VALUES.USER]: userDbService,
+            [ENTITIES_VALUES.RESUME]: resumeDbService,
+            [ENTITIES_VALUES.RESUME_VERSION]: resumeVersionDbService,
+            [ENTITIES_VALUES.SHARE_LINK]: shareLinkDbService,
+            [ENTITIES_VALUES.JOB_DESCRIPTION]: jobDescriptionDbService,
+            [ENTITIES_VALUES.COVER_LETTER]: coverLetterDbService,
+        };
+        this.logger.debug(`${HistoricalDataIngestionService.name} Initialized`);
+    }
+
+    onModuleInit() {
+        if (!this.kafkaProducerService) {
+            this.logger.log('Kafka is not configured, historical data ingestion jobs stay pending');
+            return;
+        }
+        this._scheduleRun(0);
+    }
+
+    async onModuleDestroy() {
+        this.isStopped = true;
+        clearTimeout(this.timer);
+        await this.currentRun;
+    }
+
+    async submit(
+        context: RequestContext,
+        request: IngestHistoricalDataRequestType
+    ): Promise<HistoricalIngestionSummary> {
+        try {
+            const { isValid, errors } = ajvSchemaValidator(IngestHistoricalDataRequestSchema, request);
+            if (!isValid) {
+                throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                    message: 'Invalid historical data ingestion request',
+                    details: { errors },
+                });
+            }
+
+            const { accountId, entity, targetTopic, email, includeAllEntityData } = request.details;
+            const job = await this.historicalIngestionJobDbService.create(context, {
+                jobId: generateUUIDV4(),
+                accountId,
+                entity,
+                targetTopic,
+                email,
+                includeAllEntityData,
+                correlationId: context?.correlationId || null,
+                createdBy: context?.userId || null,
+            });
+
+            return toHistoricalIngestionSummary(job);
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while submitting a historical data ingestion job ${error.message}`,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    /**
+     * Accepts requests published to Kafka. A redelivered request submits a second job.
+     */
+    @KafkaHandler(HISTORICAL_INGESTION_REQUESTS_TOPIC, { schema: IngestHistoricalDataRequestSchema })
+    async handleIngestionRequest(context: RequestContext, request: IngestHistoricalDataRequestType): Promise<void> {
+        await this.submit(context, request);
+    }
+
+    async getSummary(context: RequestContext, jobId: string): Promise<HistoricalIngestionSummary> {
+        try {
+            const job = await this.historicalIngestionJobDbService.findOne(context, {
+                condition: { jobId, userId: context.userId },
+            });
+            if (!job) {
+                throw new NotFoundException('Historical data ingestion job does not exist.');
+            }
+
+            return toHistoricalIngestionSummary(job);
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching a historical data ingestion job ${error.message}`,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    /**
+     * Claims the next due job and runs it to completion, failure or shutdown. Returns the summary of the run, or
+     * `null` when no job was due.
+     */
+    async runNextJob(): Promise<HistoricalIngestionSummary | null> {
+        const job = await this.historicalIngestionJobDbService.claimNextJob(HISTORICAL_INGESTION_LEASE_MS);
+        if (!job) {
+            return null;
+        }
+
+        const context = this._buildJobContext(job);
+        return runWithRequestContext({ context }, () => this._runJob(context, job));
+    }
+
+    private async _runJob(context: RequestContext, job: HistoricalIngestionJob): Promise<HistoricalIngestionSummary> {
+        const progress = { ...job };
+        try {
+            let isInterrupted = false;
+            let isLeaseLost = false;
+            await this.sources[job.entity].streamInBatches(
+                context,
+                { userId: job.accountId },
+                {
+                    batchSize: HISTORICAL_INGESTION_BATCH_SIZE,
+                    afterId: job.lastDocumentId,
+                    keysOnly: !job.includeAllEntityData,
+                },
+                async (documents, lastId) => {
+                    await this.kafkaProducerService.send(
+                        job.targetTopic,
+                        documents.map((document) => toHistoricalDocumentMessage(job, document))
+                    );
+                    isLeaseLost = !(await this.historicalIngestionJobDbService.recordBatch(
+                        job.jobId,
+                        job.attempts,
+                        lastId,
+                        documents.length,
+                        HISTORICAL_INGESTION_LEASE_MS
+                    ));
+                    if (isLeaseLost) {
+                        return false;
+                    }
+                    progress.documentCount += documents.length;
+                    progress.batchCount += 1;
+
+                    isInterrupted = this.isStopped;
+                    return !isInterrupted;
+                }
+            );
+
+            if (isLeaseLost) {
+                this._logLeaseLost(job);
+                return toHistoricalIngestionSummary(progress);
+            }
+
+            if (isInterrupted) {
+                // Lets another runner resume the job right away instead of waiting for the lease to end.
+                await this.historicalIngestionJobDbService.releaseJob(job.jobId, job.attempts, null, Date.now());
+                return toHistoricalIngestionSummary(progress);
+            }
+
+            const summary = toHistoricalIngestionSummary({
+                ...progress,
+                status: HistoricalIngestionJobStatus.Completed,
+                lastError: null,
+                completedAt: Date.now(),
+            });
+            await this.kafkaProducerService.send(job.targetTopic, [toHistoricalIngestionSummaryMessage(summary)]);
+            if (
+                !(await this.historicalIngestionJobDbService.markCompleted(
+                    job.jobId,
+                    job.attempts,
+                    summary.completedAt
+                ))
+            ) {
+                this._logLeaseLost(job);
+                return toHistoricalIngestionSummary(progress);
+            }
+            this.logger.log({ ref: 'Historical data ingestion job completed', summary });
+
+            return summary;
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while running historical data ingestion job ${job.jobId} ${error.message}`,
+            });
+            const isGivenUp = job.attempts >= HISTORICAL_INGESTION_MAX_ATTEMPTS;
+            await this.historicalIngestionJobDbService.releaseJob(
+                job.jobId,
+                job.attempts,
+                error.message,
+                isGivenUp ? null : Date.now() + HISTORICAL_INGESTION_RETRY_DELAY_MS
+            );
+
+            return toHistoricalIngestionSummary({
+                ...progress,
+                status: isGivenUp ? HistoricalIngestionJobStatus.Failed : HistoricalIngestionJobStatus.Running,
+                lastError: error.message,
+            });
+        }
+    }
+
+    /**
+     * The batch took longer than the lease and another runner claimed the job, so this run leaves it to them.
+     */
+    private _logLeaseLost(job: HistoricalIngestionJob) {
+        this.logger.warn({
+            ref: `Warning: historical data ingestion job ${job.jobId} was claimed by another runner`,
+            attempts: job.attempts,
+        });
+    }
+
+    /**
+     * Jobs read as the account they ingest, so the ownership scope of the db services limits them to its documents.
+     */
+    private _buildJobContext(job: HistoricalIngestionJob): RequestContext {
+        return {
+            userId: job.accountId,
+            userRole: UserRole.User,
+            apiName: 'IngestHistoricalData',
+            correlationId: job.correlationId || job.jobId,
+        };
+    }
+
+    private _scheduleRun(delayMs: number) {
+        this.timer = setTimeout(() => {
+            this.currentRun = this._run();
+        }, delayMs);
+    }
+
+    private async _run() {
+        let delayMs = HISTORICAL_INGESTION_POLL_INTERVAL_MS;
+        try {
+            // Another job may be due right after this one, so the next claim goes out right away.
+            if (await this.runNextJob()) {
+                delayMs = 0;
+            }
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while running historical data ingestion jobs ${error.message}`,
+            });
+        }
+
+        if (!this.isStopped) {
+            this._scheduleRun(delayMs);
+        }
+    }
+}
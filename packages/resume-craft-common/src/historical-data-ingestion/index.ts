@@ -0,0 +1,4 @@
+export * from './historical-data-ingestion.constants';
+export * from './historical-data-ingestion.helper';
+export * from './historical-data-ingestion.service';
+export * from './historical-data-ingestion.module';
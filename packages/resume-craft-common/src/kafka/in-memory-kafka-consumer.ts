@@ -0,0 +1,46 @@
+import { KafkaConsumerClient, KafkaEachMessagePayload } from './kafka.types';
+
+/**
+ * Fake consumer handing messages given to `deliver` to the running consumer, for tests.
+ */
+export class InMemoryKafkaConsumer implements KafkaConsumerClient {
+    subscribedTopics: string[] = [];
+    isConnected = false;
+    private offset = 0;
+    private eachMessage: ((payload: KafkaEachMessagePayload) => Promise<void>) | null = null;
+
+    async connect(): Promise<void> {
+        this.isConnected = true;
+    }
+
+    async subscribe({ topics }: { topics: string[] }): Promise<void> {
+        this.subscribedTopics.push(...topics);
+    }
+
+    async run({ eachMessage }: { eachMessage: (payload: KafkaEachMessagePayload) => Promise<void> }): Promise<void> {
+        this.eachMessage = eachMessage;
+    }
+
+    async disconnect(): Promise<void> {
+        this.isConnected = false;
+        this.eachMessage = null;
+    }
+
+    async deliver(
+        topic: string,
+        { key = null, value, headers = {} }: { key?: string | null; value: string; headers?: Record<string, string> }
+    ): Promise<void> {
+        const offset = String(this.offset);
+        this.offset += 1;
+        await this.eachMessage({
+            topic,
+            partition: 0,
+            message: {
+                key: key === null ? null : Buffer.from(key),
+                value: Buffer.from(value),
+                offset,
+                headers,
+            },
+        });
+    }
+}
@@ -0,0 +1,25 @@
+import { KafkaProducerClient, KafkaProducerRecord } from './kafka.types';
+
+/**
+ * Fake producer keeping the sent records in memory, for tests.
+ */
+export class InMemoryKafkaProducer implements KafkaProducerClient {
+    readonly sentRecords: KafkaProducerRecord[] = [];
+    isConnected = false;
+
+    async connect(): Promise<void> {
+        this.isConnected = true;
+    }
+
+    async send(record: KafkaProducerRecord): Promise<void> {
+        this.sentRecords.push(record);
+    }
+
+    async disconnect(): Promise<void> {
+        this.isConnected = false;
+    }
+
+    getMessages(topic: string) {
+        return this.sentRecords.filter((record) => record.topic === topic).flatMap((record) => record.messages);
+    }
+}
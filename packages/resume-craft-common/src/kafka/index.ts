@@ -0,0 +1,7 @@
+export * from './kafka.types';
+export * from './kafka-producer.service';
+export * from './kafka-consumer.constants';
+export * from './kafka-consumer.helper';
+export * from './kafka-handler.decorator';
+export * from './kafka-consumer.service';
+export * from './kafka.module';
@@ -0,0 +1,9 @@
+/**
+ * Messages a handler cannot take are moved to `<topic>.dead-letter` instead of blocking their partition.
+ */
+export const DEAD_LETTER_TOPIC_SUFFIX = 'dead-letter';
+
+export enum KafkaDeadLetterReason {
+    InvalidPayload = 'invalid-payload',
+    HandlerFailed = 'handler-failed',
+}
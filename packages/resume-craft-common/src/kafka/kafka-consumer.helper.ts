@@ -0,0 +1,66 @@
+import { generateUUIDV4 } from '../helpers/uuid.helper';
+import { RequestContext } from '../types';
+import { DEAD_LETTER_TOPIC_SUFFIX, KafkaDeadLetterReason } from './kafka-consumer.constants';
+import { KafkaConsumerRetryOptions } from './kafka-handler.decorator';
+import { KafkaEachMessagePayload, KafkaIncomingMessage, KafkaOutgoingMessage } from './kafka.types';
+
+export const getDeadLetterTopic = (topic: string): string => `${topic}.${DEAD_LETTER_TOPIC_SUFFIX}`;
+
+/**
+ * Exponential backoff from the number of attempts made so far, capped at `maxRetryDelayMs`.
+ */
+export const getConsumerRetryDelayMs = (
+    attempts: number,
+    { retryDelayMs, maxRetryDelayMs }: Pick<KafkaConsumerRetryOptions, 'retryDelayMs' | 'maxRetryDelayMs'>
+): number => Math.min(retryDelayMs * 2 ** Math.max(attempts - 1, 0), maxRetryDelayMs);
+
+export const toKafkaIncomingMessage = ({
+    topic,
+    partition,
+    message,
+}: KafkaEachMessagePayload): KafkaIncomingMessage => ({
+    topic,
+    partition,
+    offset: message.offset,
+    key: message.key?.toString() ?? null,
+    value: message.value?.toString() ?? null,
+    headers: Object.fromEntries(
+        Object.entries(message.headers || {})
+            .map(([name, value]) => [name, Array.isArray(value) ? value[0] : value])
+            .filter(([, value]) => value !== undefined)
+            .map(([name, value]) => [name, value.toString()])
+    ),
+});
+
+/**
+ * Carries the correlation id and user of the message, as set by the outbox relay and other producers, so db
+ * writes of the handler are audited like those of the request that caused the message.
+ */
+export const buildKafkaMessageContext = (message: KafkaIncomingMessage, apiName: string): RequestContext => ({
+    apiName,
+    operation: 'write',
+    correlationId: message.headers.correlationId || generateUUIDV4(),
+    ...(message.headers.userId ? { userId: message.headers.userId } : {}),
+});
+
+/**
+ * Keeps the key, value and headers of the message, and records where it came from and why it was given up.
+ */
+export const toDeadLetterMessage = (
+    message: KafkaIncomingMessage,
+    reason: KafkaDeadLetterReason,
+    error: string,
+    attempts: number
+): KafkaOutgoingMessage => ({
+    key: message.key,
+    value: message.value ?? '',
+    headers: {
+        ...message.headers,
+        deadLetterReason: reason,
+        deadLetterError: error,
+        originalTopic: message.topic,
+        originalPartition: String(message.partition),
+        originalOffset: message.offset,
+        attempts: String(attempts),
+    },
+});
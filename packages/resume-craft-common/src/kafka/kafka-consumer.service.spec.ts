@@ -0,0 +1,178 @@
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { Type } from '@sinclair/typebox';
+
+import { ConfigurationService } from '../configuration';
+import { TestConfig } from '../configuration/test.config';
+import { ResumeCraftException } from '../exceptions';
+import { RequestContext } from '../types';
+import { InMemoryKafkaConsumer } from './in-memory-kafka-consumer';
+import { InMemoryKafkaProducer } from './in-memory-kafka-producer';
+import { KafkaDeadLetterReason } from './kafka-consumer.constants';
+import { getConsumerRetryDelayMs } from './kafka-consumer.helper';
+import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaHandler } from './kafka-handler.decorator';
+import { KafkaProducerService } from './kafka-producer.service';
+
+const UserDeletedSchema = Type.Object({ userId: Type.String() });
+
+class UserCleanupHandlers {
+    readonly handleUserDeleted = jest.fn();
+    readonly handleResumeArchived = jest.fn();
+
+    @KafkaHandler('user-deleted', { schema: UserDeletedSchema })
+    async onUserDeleted(context: RequestContext, payload: { userId: string }) {
+        await this.handleUserDeleted(context, payload);
+    }
+
+    @KafkaHandler('resume-archived', { schema: Type.Object({}), retry: { maxAttempts: 1 } })
+    async onResumeArchived(context: RequestContext) {
+        await this.handleResumeArchived(context);
+    }
+
+    notAHandler() {
+        return this.handleUserDeleted;
+    }
+}
+
+class DuplicateUserDeletedHandler {
+    @KafkaHandler('user-deleted', { schema: UserDeletedSchema })
+    async onUserDeleted() {
+        return undefined;
+    }
+}
+
+describe('KafkaConsumerService', () => {
+    let consumer: InMemoryKafkaConsumer;
+    let producer: InMemoryKafkaProducer;
+    let handlers: UserCleanupHandlers;
+
+    const createService = (...instances: object[]) =>
+        new KafkaConsumerService(
+            consumer,
+            new KafkaProducerService(producer),
+            new ConfigurationService(TestConfig),
+            { getProviders: () => instances.map((instance) => ({ instance })) } as unknown as DiscoveryService,
+            new MetadataScanner(),
+            new Reflector()
+        );
+
+    beforeEach(async () => {
+        consumer = new InMemoryKafkaConsumer();
+        producer = new InMemoryKafkaProducer();
+        handlers = new UserCleanupHandlers();
+        await createService({ notAProvider: true }, handlers).onApplicationBootstrap();
+    });
+
+    it('should subscribe to the prefixed topic of every declared handler', () => {
+        expect(consumer.isConnected).toBe(true);
+        expect(consumer.subscribedTopics).toEqual([
+            'resume-craft-test.user-deleted',
+            'resume-craft-test.resume-archived',
+        ]);
+    });
+
+    it('should call the handler with the validated payload and a context built from the message', async () => {
+        await consumer.deliver('resume-craft-test.user-deleted', {
+            key: 'user-1',
+            value: JSON.stringify({ userId: 'user-1' }),
+            headers: { correlationId: 'correlation-1', userId: 'admin-1' },
+        });
+
+        expect(handlers.handleUserDeleted).toHaveBeenCalledWith(
+            {
+                apiName: 'OnUserDeleted',
+                operation: 'write',
+                correlationId: 'correlation-1',
+                userId: 'admin-1',
+            },
+            { userId: 'user-1' }
+        );
+        expect(producer.sentRecords).toHaveLength(0);
+    });
+
+    it('should give every message a correlation id', async () => {
+        await consumer.deliver('resume-craft-test.user-deleted', { value: JSON.stringify({ userId: 'user-1' }) });
+
+        const [context] = handlers.handleUserDeleted.mock.calls[0];
+        expect(context.correlationId).toEqual(expect.any(String));
+        expect(context.userId).toBeUndefined();
+    });
+
+    it('should dead-letter messages that are not JSON or do not match the schema without calling the handler', async () => {
+        await consumer.deliver('resume-craft-test.user-deleted', { value: 'not json' });
+        await consumer.deliver('resume-craft-test.user-deleted', { value: JSON.stringify({ userId: 42 }) });
+
+        expect(handlers.handleUserDeleted).not.toHaveBeenCalled();
+        const deadLetters = producer.getMessages('resume-craft-test.user-deleted.dead-letter');
+        expect(deadLetters.map(({ value, headers }) => [value, headers.deadLetterReason, headers.attempts])).toEqual([
+            ['not json', KafkaDeadLetterReason.InvalidPayload, '0'],
+            [JSON.stringify({ userId: 42 }), KafkaDeadLetterReason.InvalidPayload, '0'],
+        ]);
+    });
+
+    it('should retry a failing handler and keep the message once it succeeds', async () => {
+        handlers.handleUserDeleted.mockRejectedValueOnce(new Error('Database unavailable'));
+
+        await consumer.deliver('resume-craft-test.user-deleted', { value: JSON.stringify({ userId: 'user-1' }) });
+
+        expect(handlers.handleUserDeleted).toHaveBeenCalledTimes(2);
+        expect(producer.sentRecords).toHaveLength(0);
+    });
+
+    it('should dead-letter the message after the last attempt', async () => {
+        handlers.handleUserDeleted.mockRejectedValue(new Error('Database unavailable'));
+
+        await consumer.deliver('resume-craft-test.user-deleted', {
+            key: 'user-1',
+            value: JSON.stringify({ userId: 'user-1' }),
+            headers: { correlationId: 'correlation-1' },
+        });
+
+        expect(handlers.handleUserDeleted).toHaveBeenCalledTimes(TestConfig.kafka.consumer.maxAttempts);
+        expect(producer.getMessages('resume-craft-test.user-deleted.dead-letter')).toEqual([
+            {
+                key: 'user-1',
+                value: JSON.stringify({ userId: 'user-1' }),
+                headers: {
+                    correlationId: 'correlation-1',
+                    deadLetterReason: KafkaDeadLetterReason.HandlerFailed,
+                    deadLetterError: 'Database unavailable',
+                    originalTopic: 'resume-craft-test.user-deleted',
+                    originalPartition: '0',
+                    originalOffset: '0',
+                    attempts: String(TestConfig.kafka.consumer.maxAttempts),
+                },
+            },
+        ]);
+    });
+
+    it('should apply the retry options of the handler', async () => {
+        handlers.handleResumeArchived.mockRejectedValue(new Error('Not yet'));
+
+        await consumer.deliver('resume-craft-test.resume-archived', { value: '{}' });
+
+        expect(handlers.handleResumeArchived).toHaveBeenCalledTimes(1);
+        expect(producer.getMessages('resume-craft-test.resume-archived.dead-letter')).toHaveLength(1);
+    });
+
+    it('should fail the message when it cannot be dead-lettered', async () => {
+        jest.spyOn(producer, 'send').mockRejectedValue(new Error('Broker not available'));
+
+        await expect(consumer.deliver('resume-craft-test.user-deleted', { value: 'not json' })).rejects.toThrow(
+            'Broker not available'
+        );
+    });
+
+    it('should refuse two handlers for the same topic', async () => {
+        await expect(
+            createService(handlers, new DuplicateUserDeletedHandler()).onApplicationBootstrap()
+        ).rejects.toBeInstanceOf(ResumeCraftException);
+    });
+});
+
+describe('kafka consumer helper', () => {
+    it('should double the retry delay up to the cap', () => {
+        const retry = { retryDelayMs: 100, maxRetryDelayMs: 300 };
+        expect([1, 2, 3].map((attempts) => getConsumerRetryDelayMs(attempts, retry))).toEqual([100, 200, 300]);
+    });
+});
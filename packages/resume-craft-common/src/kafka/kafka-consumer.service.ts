@@ -0,0 +1,170 @@
+import { OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { upperFirst } from 'lodash';
+
+import { ConfigurationService } from '../configuration';
+import { runWithRequestContext } from '../context';
+import { ErrorCode, ResumeCraftException } from '../exceptions';
+import { LoggerFactory } from '../logger';
+import { ajvSchemaValidator } from '../schema-validator';
+import { RequestContext } from '../types';
+import { KafkaDeadLetterReason } from './kafka-consumer.constants';
+import {
+    buildKafkaMessageContext,
+    getConsumerRetryDelayMs,
+    getDeadLetterTopic,
+    toDeadLetterMessage,
+    toKafkaIncomingMessage,
+} from './kafka-consumer.helper';
+import { KAFKA_HANDLER_KEY, KafkaConsumerRetryOptions, KafkaHandlerMetadata } from './kafka-handler.decorator';
+import { KafkaProducerService } from './kafka-producer.service';
+import { KafkaConsumerClient, KafkaEachMessagePayload, KafkaIncomingMessage } from './kafka.types';
+
+type KafkaHandlerRegistration = Pick<KafkaHandlerMetadata, 'schema'> & {
+    apiName: string;
+    retry: KafkaConsumerRetryOptions;
+    handle: (context: RequestContext, payload: unknown, message: KafkaIncomingMessage) => Promise<void>;
+};
+
+const wait = (delayMs: number) =>
+    new Promise<void>((resolve) => {
+        setTimeout(resolve, delayMs);
+    });
+
+/**
+ * Subscribes to the topics of every `@KafkaHandler` method and dispatches their messages. A message whose value
+ * is not valid JSON or does not match the schema of its handler is moved to the dead-letter topic right away.
+ * A failing handler is retried with backoff, in place so the partition keeps its order, and the message is moved
+ * to the dead-letter topic after the last attempt. The offset of a message is only committed once it was handled
+ * or dead-lettered, so messages are handled at least once.
+ */
+export class KafkaConsumerService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = LoggerFactory.getLogger(KafkaConsumerService.name);
+    private readonly handlers = new Map<string, KafkaHandlerRegistration>();
+
+    constructor(
+        private readonly consumer: KafkaConsumerClient,
+        private readonly kafkaProducerService: KafkaProducerService,
+        private readonly configurationService: ConfigurationService,
+        private readonly discoveryService: DiscoveryService,
+        private readonly metadataScanner: MetadataScanner,
+        private readonly reflector: Reflector
+    ) {
+        this.logger.debug(`${KafkaConsumerService.name} Initialized`);
+    }
+
+    async onApplicationBootstrap() {
+        this._registerHandlers();
+        if (!this.handlers.size) {
+            this.logger.log('No Kafka handlers are declared, the consumer stays disconnected');
+            return;
+        }
+
+        try {
+            await this.consumer.connect();
+            await this.consumer.subscribe({ topics: [...this.handlers.keys()] });
+            await this.consumer.run({ eachMessage: (payload) => this.handleMessage(payload) });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while starting the Kafka consumer ${error.message}`,
+            });
+        }
+    }
+
+    async onModuleDestroy() {
+        await this.consumer.disconnect();
+    }
+
+    getTopics(): string[] {
+        return [...this.handlers.keys()];
+    }
+
+    async handleMessage(payload: KafkaEachMessagePayload): Promise<void> {
+        const message = toKafkaIncomingMessage(payload);
+        const handler = this.handlers.get(message.topic);
+
+        let value: unknown;
+        try {
+            value = JSON.parse(message.value);
+        } catch (error) {
+            await this._deadLetter(message, KafkaDeadLetterReason.InvalidPayload, 'Message value is not JSON', 0);
+            return;
+        }
+
+        const { isValid, errors } = ajvSchemaValidator(handler.schema, value);
+        if (!isValid) {
+            await this._deadLetter(message, KafkaDeadLetterReason.InvalidPayload, JSON.stringify(errors), 0);
+            return;
+        }
+
+        const context = buildKafkaMessageContext(message, handler.apiName);
+        for (let attempts = 1; ; attempts += 1) {
+            try {
+                await runWithRequestContext({ context }, () => handler.handle(context, value, message));
+                return;
+            } catch (error) {
+                if (attempts >= handler.retry.maxAttempts) {
+                    await this._deadLetter(message, KafkaDeadLetterReason.HandlerFailed, error.message, attempts);
+                    return;
+                }
+
+                this.logger.warn({
+                    ref: `Warning: retrying message ${message.offset} of ${message.topic} ${error.message}`,
+                    attempts,
+                    correlationId: context.correlationId,
+                });
+                await wait(getConsumerRetryDelayMs(attempts, handler.retry));
+                await payload.heartbeat?.();
+            }
+        }
+    }
+
+    /**
+     * A failed dead-letter send fails the message, so kafkajs delivers it again instead of dropping it.
+     */
+    private async _deadLetter(
+        message: KafkaIncomingMessage,
+        reason: KafkaDeadLetterReason,
+        error: string,
+        attempts: number
+    ) {
+        const deadLetterTopic = getDeadLetterTopic(message.topic);
+        this.logger.error({
+            ref: `Error: moving message ${message.offset} of ${message.topic} to ${deadLetterTopic} ${error}`,
+            reason,
+            attempts,
+        });
+        await this.kafkaProducerService.send(deadLetterTopic, [toDeadLetterMessage(message, reason, error, attempts)]);
+    }
+
+    private _registerHandlers() {
+        const { topicPrefix, consumer } = this.configurationService.getConfig().kafka;
+
+        for (const { instance } of this.discoveryService.getProviders()) {
+            if (!instance || typeof instance !== 'object') {
+                continue;
+            }
+
+            for (const methodName of this.metadataScanner.getAllMethodNames(Object.getPrototypeOf(instance))) {
+                const metadata = this.reflector.get<KafkaHandlerMetadata>(KAFKA_HANDLER_KEY, instance[methodName]);
+                if (!metadata) {
+                    continue;
+                }
+
+                const topic = `${topicPrefix}.${metadata.topic}`;
+                if (this.handlers.has(topic)) {
+                    throw new ResumeCraftException(ErrorCode.INTERNAL_SERVER_ERROR, {
+                        message: `More than one Kafka handler is declared for ${topic}`,
+                    });
+                }
+
+                this.handlers.set(topic, {
+                    schema: metadata.schema,
+                    apiName: upperFirst(methodName),
+                    retry: { ...consumer, ...metadata.retry },
+                    handle: instance[methodName].bind(instance),
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { SetMetadata } from '@nestjs/common';
+import { TSchema } from '@sinclair/typebox';
+
+import { KafkaConsumerConfig } from '../configuration/configuration.types';
+
+export const KAFKA_HANDLER_KEY = 'kafkaHandler';
+
+export type KafkaConsumerRetryOptions = Pick<KafkaConsumerConfig, 'maxAttempts' | 'retryDelayMs' | 'maxRetryDelayMs'>;
+
+export type KafkaHandlerOptions = {
+    schema: TSchema;
+    retry?: Partial<KafkaConsumerRetryOptions>;
+};
+
+export type KafkaHandlerMetadata = KafkaHandlerOptions & {
+    topic: string;
+};
+
+/**
+ * Declares a provider method as the handler of `topic`, named without the configured `kafka.topicPrefix`.
+ * The method is called with the request context of the message, its value once parsed and validated against
+ * `schema`, and the message itself. `retry` overrides the retry configuration of the consumer for this topic.
+ */
+export const KafkaHandler = (topic: string, options: KafkaHandlerOptions) =>
+    SetMetadata(KAFKA_HANDLER_KEY, { topic, ...options } as KafkaHandlerMetadata);
@@ -0,0 +1,41 @@
+import { OnModuleDestroy } from '@nestjs/common';
+
+import { LoggerFactory } from '../logger';
+import { KafkaOutgoingMessage, KafkaProducerClient } from './kafka.types';
+
+/**
+ * Publishes to Kafka, connecting on the first send. A failed connection is retried by the next send.
+ */
+export class KafkaProducerService implements OnModuleDestroy {
+    private readonly logger = LoggerFactory.getLogger(KafkaProducerService.name);
+    private connection: Promise<void> | null = null;
+
+    constructor(private readonly producer: KafkaProducerClient) {
+        this.logger.debug(`${KafkaProducerService.name} Initialized`);
+    }
+
+    async send(topic: string, messages: KafkaOutgoingMessage[]): Promise<void> {
+        if (!messages.length) {
+            return;
+        }
+
+        await this.connect();
+        await this.producer.send({ topic, messages });
+    }
+
+    async onModuleDestroy() {
+        if (this.connection) {
+            await this.producer.disconnect();
+        }
+    }
+
+    private connect(): Promise<void> {
+        if (!this.connection) {
+            this.connection = this.producer.connect().catch((error) => {
+                this.connection = null;
+                throw error;
+            });
+        }
+        return this.connection;
+    }
+}
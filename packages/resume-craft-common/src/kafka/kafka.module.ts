@@ -0,0 +1,68 @@
+import { Global, Module } from '@nestjs/common';
+import { DiscoveryModule, DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { Kafka } from 'kafkajs';
+
+import { ConfigurationModule, ConfigurationService } from '../configuration';
+import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaProducerService } from './kafka-producer.service';
+
+/**
+ * Provides `KafkaProducerService` when brokers are configured and `null` otherwise, which leaves publishing
+ * switched off. `KafkaConsumerService` additionally needs a consumer group to be configured.
+ */
+@Global()
+@Module({
+    imports: [ConfigurationModule, DiscoveryModule],
+    providers: [
+        {
+            provide: KafkaProducerService,
+            inject: [ConfigurationService],
+            useFactory: (configurationService: ConfigurationService) => {
+                const { clientId, brokers } = configurationService.getConfig().kafka || {};
+                if (!brokers?.length) {
+                    return null;
+                }
+
+                // Idempotent so a retried send does not write the same batch twice to a partition.
+                const producer = new Kafka({ clientId, brokers }).producer({
+                    idempotent: true,
+                    maxInFlightRequests: 1,
+                });
+                return new KafkaProducerService(producer);
+            },
+        },
+        {
+            provide: KafkaConsumerService,
+            inject: [
+                ConfigurationService,
+                DiscoveryService,
+                MetadataScanner,
+                Reflector,
+                { token: KafkaProducerService, optional: true },
+            ],
+            useFactory: (
+                configurationService: ConfigurationService,
+                discoveryService: DiscoveryService,
+                metadataScanner: MetadataScanner,
+                reflector: Reflector,
+                kafkaProducerService: KafkaProducerService | null
+            ) => {
+                const { clientId, brokers, consumer } = configurationService.getConfig().kafka || {};
+                if (!kafkaProducerService || !consumer?.groupId) {
+                    return null;
+                }
+
+                return new KafkaConsumerService(
+                    new Kafka({ clientId, brokers }).consumer({ groupId: consumer.groupId }),
+                    kafkaProducerService,
+                    configurationService,
+                    discoveryService,
+                    metadataScanner,
+                    reflector
+                );
+            },
+        },
+    ],
+    exports: [KafkaProducerService, KafkaConsumerService],
+})
+export class KafkaModule {}
@@ -0,0 +1,53 @@
+export type KafkaOutgoingMessage = {
+    key: string | null;
+    value: string;
+    headers?: Record<string, string>;
+};
+
+export type KafkaProducerRecord = {
+    topic: string;
+    messages: KafkaOutgoingMessage[];
+};
+
+/**
+ * The subset of the kafkajs producer used to publish, so a fake producer can replace it in tests.
+ */
+export interface KafkaProducerClient {
+    connect(): Promise<void>;
+    send(record: KafkaProducerRecord): Promise<unknown>;
+    disconnect(): Promise<void>;
+}
+
+/**
+ * The part of a kafkajs `eachMessage` payload read by the consumer.
+ */
+export type KafkaEachMessagePayload = {
+    topic: string;
+    partition: number;
+    message: {
+        key: Buffer | null;
+        value: Buffer | null;
+        offset: string;
+        headers?: Record<string, Buffer | string | (Buffer | string)[] | undefined>;
+    };
+    heartbeat?(): Promise<void>;
+};
+
+/**
+ * The subset of the kafkajs consumer used to consume, so a fake consumer can replace it in tests.
+ */
+export interface KafkaConsumerClient {
+    connect(): Promise<void>;
+    subscribe(subscription: { topics: string[]; fromBeginning?: boolean }): Promise<void>;
+    run(config: { eachMessage: (payload: KafkaEachMessagePayload) => Promise<void> }): Promise<void>;
+    disconnect(): Promise<void>;
+}
+
+export type KafkaIncomingMessage = {
+    topic: string;
+    partition: number;
+    offset: string;
+    key: string | null;
+    value: string | null;
+    headers: Record<string, string>;
+};
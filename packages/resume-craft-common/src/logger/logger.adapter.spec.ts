@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+
+import { runWithRequestContext } from '../context';
+import { LoggerAdapter } from './logger.adapter';
+
+describe('LoggerAdapter', () => {
+    let logger: { log: jest.Mock; error: jest.Mock; warn: jest.Mock; debug: jest.Mock };
+    let adapter: LoggerAdapter;
+
+    beforeEach(() => {
+        logger = { log: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+        adapter = new LoggerAdapter(logger as unknown as Logger);
+    });
+
+    it('should log messages unchanged outside of a request', () => {
+        adapter.log('Service initialized');
+        adapter.error({ ref: 'Error: while loading' });
+
+        expect(logger.log).toHaveBeenCalledWith('Service initialized');
+        expect(logger.error).toHaveBeenCalledWith({ ref: 'Error: while loading' });
+    });
+
+    it('should add the correlation id, user and api name of the current request', () => {
+        const context = { correlationId: 'correlation-1', userId: 'user-1', apiName: 'GetResume', url: '/resumes' };
+
+        runWithRequestContext({ context }, () => {
+            adapter.warn({ ref: 'Warning: slow query', correlationId: 'explicit' });
+            adapter.debug('Cache miss');
+        });
+
+        expect(logger.warn).toHaveBeenCalledWith({
+            ref: 'Warning: slow query',
+            correlationId: 'explicit',
+            userId: 'user-1',
+            apiName: 'GetResume',
+        });
+        expect(logger.debug).toHaveBeenCalledWith({
+            msg: 'Cache miss',
+            correlationId: 'correlation-1',
+            userId: 'user-1',
+            apiName: 'GetResume',
+        });
+    });
+
+    it('should leave messages that are not plain objects or strings unchanged', () => {
+        const error = new Error('Broker not available');
+
+        runWithRequestContext({ context: { correlationId: 'correlation-1' } }, () => adapter.error(error));
+
+        expect(logger.error).toHaveBeenCalledWith(error);
+    });
+});
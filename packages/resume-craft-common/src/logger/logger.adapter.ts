@@ -1,4 +1,9 @@
 import { Logger, LoggerService } from '@nestjs/common';
+import { isPlainObject } from 'lodash';
+
+import { getRequestContext } from '../context/request-context.storage';
+
+const REQUEST_CONTEXT_LOG_FIELDS = ['correlationId', 'userId', 'apiName'] as const;
 
 export class LoggerAdapter implements LoggerService {
     private scope?: string;
@@ -7,11 +12,33 @@ export class LoggerAdapter implements LoggerService {
 
     private printLog(level: 'log' | 'error' | 'warn' | 'debug', message: unknown) {
         if (this.scope) {
-            this.loggerInstance[level](message);
+            this.loggerInstance[level](this.withRequestContext(message));
             return;
         }
 
-        this.loggerInstance[level](message);
+        this.loggerInstance[level](this.withRequestContext(message));
+    }
+
+    /**
+     * Adds the correlation id, user and api name of the current request context to object and string messages.
+     * Fields the message sets itself are kept.
+     */
+    private withRequestContext(message: unknown): unknown {
+        const context = getRequestContext();
+        const fields = Object.fromEntries(
+            REQUEST_CONTEXT_LOG_FIELDS.filter((field) => context?.[field]).map((field) => [field, context[field]])
+        );
+        if (!Object.keys(fields).length) {
+            return message;
+        }
+
+        if (typeof message === 'string') {
+            return { msg: message, ...fields };
+        }
+        if (isPlainObject(message)) {
+            return { ...fields, ...(message as object) };
+        }
+        return message;
     }
 
     private escapeNewlineCharacters(message: unknown): string {
@@ -8,3 +8,9 @@ export * from './logger';
 export * from './nest';
 export * from './exceptions';
 export * from './axios';
+export * from './auth';
+export * from './cache';
+export * from './kafka';
+export * from './outbox';
+export * from './historical-data-ingestion';
+export * from './context';
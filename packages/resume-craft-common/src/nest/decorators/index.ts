@@ -1 +1,3 @@
 export * from './api-documentation/api-documentation.decorator';
+export * from './public-route/public-route.decorator';
+export * from './roles/roles.decorator';
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_ROUTE_KEY = 'isPublicRoute';
+
+/**
+ * Marks a controller or handler as reachable without an access token, e.g. login or health probes.
+ */
+export const PublicRoute = () => SetMetadata(IS_PUBLIC_ROUTE_KEY, true);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { UserRole } from '../../../odm/models/schemas/user.schema';
+
+export const REQUIRED_ROLES_KEY = 'requiredRoles';
+
+/**
+ * Restricts a controller or handler to users holding one of the given roles.
+ * A handler level declaration overrides the one on its controller.
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(REQUIRED_ROLES_KEY, roles);
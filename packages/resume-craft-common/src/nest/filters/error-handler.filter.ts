@@ -24,7 +24,7 @@ export class ErrorHandlerFilter implements ExceptionFilter {
         const ctx = host.switchToHttp();
         const response = ctx.getResponse<ResumeCraftResponse>();
         const request = ctx.getRequest<ResumeCraftRequest>();
-        const apiName = request?.context ? request.context[ApiMetadataKeys.API_NAME] : '';
+        const apiName = request?.context?.[ApiMetadataKeys.API_NAME] || this._getHandlerApiName(host);
         const { statusCode, message, cause, details, ufMessage, code } = this._extractErrorDetails(err);
         this.logger.error({
             message,
@@ -55,6 +55,15 @@ export class ErrorHandlerFilter implements ExceptionFilter {
         });
     }
 
+    /**
+     * `ResponseInterceptor` only records the api name once guards have passed,
+     * so requests rejected before it are resolved from the handler metadata.
+     */
+    protected _getHandlerApiName(host: ExecutionContextHost): string {
+        const handler = host.getHandler?.();
+        return (handler && Reflect.getMetadata(ApiMetadataKeys.API_NAME, handler)) || '';
+    }
+
     protected _extractErrorDetails(err: Error): ExtractedErrData {
         if (err instanceof ResumeCraftException) {
             const { code, message, ufMessage, details } = err.getResponse() as ExceptionResponseType;
@@ -0,0 +1,99 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { generateKeyPairSync } from 'crypto';
+
+import { AuthTokenService } from '../../auth';
+import { ConfigurationService } from '../../configuration';
+import { TestConfig } from '../../configuration/test.config';
+import { SERVER_TIMING_KEYS } from '../../constants';
+import { PublicRoute } from '../decorators';
+import { AuthGuard } from './auth.guard';
+
+describe('AuthGuard', () => {
+    let authTokenService: AuthTokenService;
+    let reflector: Reflector;
+    let guard: AuthGuard;
+
+    beforeAll(() => {
+        const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        });
+        authTokenService = new AuthTokenService(
+            new ConfigurationService({
+                ...TestConfig,
+                auth: { ...TestConfig.auth, accessTokenPrivateKey: privateKey, accessTokenPublicKey: publicKey },
+            })
+        );
+    });
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        guard = new AuthGuard(reflector, authTokenService);
+    });
+
+    class TestController {
+        handler() {
+            return true;
+        }
+    }
+
+    @PublicRoute()
+    class PublicTestController {
+        handler() {
+            return true;
+        }
+    }
+
+    const createContext = (
+        headers: Record<string, string> = {},
+        controller: typeof TestController | typeof PublicTestController = TestController
+    ) => {
+        const request = { headers, context: { correlationId: 'correlation-id' } };
+        const response = { startTime: jest.fn(), endTime: jest.fn() };
+        const executionContext = {
+            getHandler: () => controller.prototype.handler,
+            getClass: () => controller,
+            switchToHttp: () => ({
+                getRequest: () => request,
+                getResponse: () => response,
+            }),
+        } as unknown as ExecutionContext;
+
+        return { request, response, executionContext };
+    };
+
+    it('should populate the request context from a valid access token', () => {
+        const { accessToken } = authTokenService.issueAccessToken({ userId: 'user-1', role: 'admin' });
+        const { request, response, executionContext } = createContext({ authorization: `Bearer ${accessToken}` });
+
+        expect(guard.canActivate(executionContext)).toBe(true);
+        expect(request.context).toEqual({ correlationId: 'correlation-id', userId: 'user-1', userRole: 'admin' });
+        expect(response.startTime).toHaveBeenCalledWith(
+            SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.name,
+            SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.description
+        );
+        expect(response.endTime).toHaveBeenCalledWith(SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.name);
+    });
+
+    it('should reject requests without a bearer token', () => {
+        const { response, executionContext } = createContext({ authorization: 'Basic dXNlcjpwYXNz' });
+
+        expect(() => guard.canActivate(executionContext)).toThrow(UnauthorizedException);
+        expect(response.endTime).toHaveBeenCalledWith(SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.name);
+    });
+
+    it('should reject an invalid access token', () => {
+        const { executionContext } = createContext({ authorization: 'Bearer invalid.token.value' });
+
+        expect(() => guard.canActivate(executionContext)).toThrow(UnauthorizedException);
+    });
+
+    it('should allow public routes without a token', () => {
+        const { request, executionContext } = createContext({}, PublicTestController);
+
+        expect(guard.canActivate(executionContext)).toBe(true);
+        expect(request.context).toEqual({ correlationId: 'correlation-id' });
+    });
+});
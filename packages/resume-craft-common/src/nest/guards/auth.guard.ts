@@ -0,0 +1,68 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { AuthTokenService } from '../../auth';
+import { HEADERS, SERVER_TIMING_KEYS } from '../../constants';
+import { LoggerFactory } from '../../logger';
+import { ResumeCraftRequest, ResumeCraftResponse } from '../../types';
+import { IS_PUBLIC_ROUTE_KEY } from '../decorators';
+
+const BEARER_SCHEME = 'bearer';
+
+/**
+ * Global guard that authenticates every request carrying a bearer access token in `HEADERS.AUTHORIZATION`.
+ * The verified claims are the only source of `userId`/`userRole` on the request context.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+    private readonly logger = LoggerFactory.getLogger(AuthGuard.name);
+
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly authTokenService: AuthTokenService
+    ) {
+        this.logger.debug(`${AuthGuard.name} Initialized`);
+    }
+
+    canActivate(context: ExecutionContext): boolean {
+        const request = context.switchToHttp().getRequest<ResumeCraftRequest>();
+        const response = context.switchToHttp().getResponse<ResumeCraftResponse>();
+
+        response?.startTime?.(
+            SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.name,
+            SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.description
+        );
+        try {
+            const isPublicRoute = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_ROUTE_KEY, [
+                context.getHandler(),
+                context.getClass(),
+            ]);
+            if (isPublicRoute) {
+                return true;
+            }
+
+            const accessToken = this._extractBearerToken(request.headers[HEADERS.AUTHORIZATION]);
+            if (!accessToken) {
+                throw new UnauthorizedException('Missing bearer access token');
+            }
+
+            const claims = this.authTokenService.verifyAccessToken(accessToken);
+            request.context = {
+                ...(request.context || {}),
+                userId: claims.sub,
+                userRole: claims.role,
+            };
+
+            return true;
+        } finally {
+            response?.endTime?.(SERVER_TIMING_KEYS.AUTH_GUARD_CHECK.name);
+        }
+    }
+
+    private _extractBearerToken(authorizationHeader?: string | string[]): string | null {
+        const headerValue = Array.isArray(authorizationHeader) ? authorizationHeader[0] : authorizationHeader;
+        const [scheme, token] = (headerValue || '').trim().split(/\s+/);
+
+        return scheme?.toLowerCase() === BEARER_SCHEME && token ? token : null;
+    }
+}
@@ -0,0 +1,82 @@
+import { ExecutionContext, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { ErrorCode, ResumeCraftException } from '../../exceptions';
+import { UserRole } from '../../odm/models/schemas/user.schema';
+import { Roles } from '../decorators';
+import { RolesGuard } from './roles.guard';
+
+describe('RolesGuard', () => {
+    let guard: RolesGuard;
+
+    @Roles(UserRole.Reviewer, UserRole.Admin)
+    class TestController {
+        reviewerHandler() {
+            return true;
+        }
+
+        @Roles(UserRole.Admin)
+        adminHandler() {
+            return true;
+        }
+    }
+
+    class OpenController {
+        handler() {
+            return true;
+        }
+    }
+
+    beforeEach(() => {
+        guard = new RolesGuard(new Reflector());
+    });
+
+    const createContext = (
+        controller: typeof TestController | typeof OpenController,
+        handler: () => boolean,
+        userRole?: UserRole
+    ) =>
+        ({
+            getHandler: () => handler,
+            getClass: () => controller,
+            switchToHttp: () => ({
+                getRequest: () => ({ context: { userId: 'user-1', userRole } }),
+            }),
+        }) as unknown as ExecutionContext;
+
+    it('should allow handlers without role requirements', () => {
+        expect(guard.canActivate(createContext(OpenController, OpenController.prototype.handler))).toBe(true);
+    });
+
+    it('should allow users holding one of the controller roles', () => {
+        const context = createContext(TestController, TestController.prototype.reviewerHandler, UserRole.Reviewer);
+
+        expect(guard.canActivate(context)).toBe(true);
+    });
+
+    it('should let handler roles override the controller roles', () => {
+        const context = createContext(TestController, TestController.prototype.adminHandler, UserRole.Reviewer);
+
+        expect(() => guard.canActivate(context)).toThrow(ResumeCraftException);
+    });
+
+    it('should deny with AUTHORIZATION_ERROR when the role is missing', () => {
+        const context = createContext(TestController, TestController.prototype.reviewerHandler, UserRole.User);
+
+        let error: ResumeCraftException;
+        try {
+            guard.canActivate(context);
+        } catch (err) {
+            error = err;
+        }
+
+        expect(error).toBeInstanceOf(ResumeCraftException);
+        expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+        expect(error.getResponse()).toEqual(
+            expect.objectContaining({
+                code: ErrorCode.AUTHORIZATION_ERROR,
+                details: { requiredRoles: [UserRole.Reviewer, UserRole.Admin] },
+            })
+        );
+    });
+});
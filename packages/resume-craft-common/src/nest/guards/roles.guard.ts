@@ -0,0 +1,41 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { ErrorCode, ResumeCraftException } from '../../exceptions';
+import { LoggerFactory } from '../../logger';
+import { UserRole } from '../../odm/models/schemas/user.schema';
+import { ResumeCraftRequest } from '../../types';
+import { REQUIRED_ROLES_KEY } from '../decorators';
+
+/**
+ * Global guard enforcing the roles declared with `@Roles()`. It relies on `AuthGuard` having populated
+ * `userRole` on the request context, so it has to be registered after it.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+    private readonly logger = LoggerFactory.getLogger(RolesGuard.name);
+
+    constructor(private readonly reflector: Reflector) {
+        this.logger.debug(`${RolesGuard.name} Initialized`);
+    }
+
+    canActivate(context: ExecutionContext): boolean {
+        const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(REQUIRED_ROLES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!requiredRoles?.length) {
+            return true;
+        }
+
+        const { userRole } = context.switchToHttp().getRequest<ResumeCraftRequest>().context || {};
+        if (!requiredRoles.includes(userRole as UserRole)) {
+            throw new ResumeCraftException(ErrorCode.AUTHORIZATION_ERROR, {
+                message: `Role ${userRole || 'none'} is not allowed to access this resource`,
+                details: { requiredRoles },
+            });
+        }
+
+        return true;
+    }
+}
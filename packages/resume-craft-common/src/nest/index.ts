@@ -1,5 +1,6 @@
 export * from './decorators';
 export * from './filters';
+export * from './guards';
 export * from './interceptors';
 export * from './middlewares';
 export * from './nest.utils';
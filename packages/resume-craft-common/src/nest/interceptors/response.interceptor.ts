@@ -9,6 +9,7 @@ export interface Response<T> {
     status: string;
     result: T;
     message: string;
+    meta?: Record<string, unknown>;
     responseTimeStamp: number;
     delay: number;
 }
@@ -27,11 +28,12 @@ export class ResponseInterceptor<T> implements NestInterceptor<T, Response<T>> {
         }
 
         return next.handle().pipe(
-            map((res: { status: string; message: string; result: T }) => ({
+            map((res: { status: string; message: string; result: T; meta?: Record<string, unknown> }) => ({
                 apiName,
                 status: res.status,
                 message: res.message || '',
                 result: res.result,
+                ...(res.meta ? { meta: res.meta } : {}),
                 responseTimeStamp: Date.now(),
                 delay: 0,
             }))
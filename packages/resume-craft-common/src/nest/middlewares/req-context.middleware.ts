@@ -1,22 +1,32 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
 import { NextFunction } from 'express';
 
+import { ConfigurationService } from '../../configuration';
 import { ApiOperation, HEADER_VALUES, HEADERS, SERVER_TIMING_KEYS } from '../../constants';
+import { runWithRequestContext } from '../../context';
+import { generateUUIDV4 } from '../../helpers/uuid.helper';
 import { RequestContext, ParsedQs, ResumeCraftRequest, ResumeCraftResponse } from '../../types';
 
 @Injectable()
 export class RequestContextMiddleware implements NestMiddleware {
+    constructor(private readonly configurationService: ConfigurationService) {}
+
     setReqContext(req: ResumeCraftRequest, res: ResumeCraftResponse): RequestContext {
+        const operation = req.method.toLowerCase() === 'get' ? ApiOperation.READ : ApiOperation.WRITE;
+
         return {
-            userId: req.headers[HEADERS.USER_ID] as string,
             host: req.headers[HEADERS.HOST] as string,
             feHost: req.headers[HEADERS.FE_HOST] as string,
             url: req.url,
             reqHeaders: req.headers,
             params: req.params || {},
             queryParam: (req.query as ParsedQs) || {},
-            correlationId: req.headers[HEADERS.CORRELATION_ID] as string,
-            operation: req.method.toLowerCase() === 'get' ? ApiOperation.READ : ApiOperation.WRITE,
+            // Requests without a correlation id get one, so their log lines can still be told apart.
+            correlationId: (req.headers[HEADERS.CORRELATION_ID] as string) || generateUUIDV4(),
+            operation,
+            remoteCacheVersion: this.configurationService.getConfig().cache?.version,
+            // Writes read their own documents fresh, and clients can skip the cache with `Cache-Control: no-cache`.
+            isReqCachingEnabled: operation === ApiOperation.READ && req.get(HEADERS.CACHE_CONTROL) !== 'no-cache',
             serverTiming: {
                 startTime: res.startTime,
                 endTime: res.endTime,
@@ -42,6 +52,7 @@ export class RequestContextMiddleware implements NestMiddleware {
         res.set(HEADERS.X_CONTENT_TYPE_OPTIONS, HEADER_VALUES[HEADERS.X_CONTENT_TYPE_OPTIONS]);
 
         req.context = this.setReqContext(req, res);
-        nextWrapper();
+        // Everything handling the request runs in this scope, so `getRequestContext` and the loggers see its context.
+        runWithRequestContext(req, nextWrapper);
     }
 }
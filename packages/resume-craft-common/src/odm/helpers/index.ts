@@ -1,3 +1,4 @@
 export * from './query-builder.helper';
 export * from './cursor.helper';
 export * from './pagination.helper';
+export * from './transaction.helper';
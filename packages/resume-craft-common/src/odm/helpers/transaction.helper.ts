@@ -0,0 +1,16 @@
+const TRANSIENT_TRANSACTION_ERROR_LABEL = 'TransientTransactionError';
+
+type LabelledError = Error & { errorLabels?: string[]; cause?: unknown };
+
+/**
+ * Whether the error, or an error it was wrapped around such as the cause of a `ResumeCraftException`, carries
+ * the label the driver gives to errors after which the whole transaction can be run again.
+ */
+export const isTransientTransactionError = (error: unknown): boolean => {
+    for (let current = error as LabelledError; current; current = current.cause as LabelledError) {
+        if (current.errorLabels?.includes(TRANSIENT_TRANSACTION_ERROR_LABEL)) {
+            return true;
+        }
+    }
+    return false;
+};
@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+import { UserRef } from './sub-schema';
+
+export const COVER_LETTERS_COLLECTION = 'cover_letters';
+
+export enum CoverLetterFields {
+    CoverLetterId = 'coverLetterId',
+    Owner = 'owner',
+    Title = 'title',
+    Content = 'content',
+    ResumeId = 'resumeId',
+    JobDescriptionId = 'jobDescriptionId',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+export const COVER_LETTER_OWNER_ID_PATH = `${CoverLetterFields.Owner}.userId`;
+
+/**
+ * A cover letter written by a user. `content` is stored with its merge fields, such as `{{company}}`, which
+ * are only filled in from the linked job description when the letter is rendered.
+ */
+@Schema({ collection: COVER_LETTERS_COLLECTION })
+export class CoverLetter {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    coverLetterId: string;
+
+    @Prop({ required: true, type: UserRef })
+    owner: UserRef;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    title: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    content: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    resumeId?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    jobDescriptionId?: string;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type CoverLetterFieldsType = `${CoverLetterFields}`;
+export type CoverLetterDocument = HydratedDocument<CoverLetter>;
+export const CoverLetterSchema = SchemaFactory.createForClass(CoverLetter);
+
+registerHooks(CoverLetterSchema);
+
+export type CoverLetterFieldsQueryConditionType = {
+    [CoverLetterFields.CoverLetterId]?: string;
+    userId: string;
+};
+
+export type ListCoverLetterQueryConditionType = {
+    userId: string;
+    size?: string;
+    nextPageToken?: string;
+    q?: string;
+    resumeId?: string;
+    jobDescriptionId?: string;
+};
@@ -0,0 +1,107 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { ENTITIES_VALUES } from '../../../types/historical-data-ingestion.types';
+
+export const HISTORICAL_INGESTION_JOBS_COLLECTION = 'historical_ingestion_jobs';
+
+export enum HistoricalIngestionJobStatus {
+    Pending = 'pending',
+    Running = 'running',
+    Completed = 'completed',
+    Failed = 'failed',
+}
+
+export enum HistoricalIngestionJobFields {
+    JobId = 'jobId',
+    AccountId = 'accountId',
+    Entity = 'entity',
+    TargetTopic = 'targetTopic',
+    Email = 'email',
+    IncludeAllEntityData = 'includeAllEntityData',
+    Status = 'status',
+    LastDocumentId = 'lastDocumentId',
+    DocumentCount = 'documentCount',
+    BatchCount = 'batchCount',
+    Attempts = 'attempts',
+    LeaseExpiresAt = 'leaseExpiresAt',
+    LastError = 'lastError',
+    CompletedAt = 'completedAt',
+    CorrelationId = 'correlationId',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+}
+
+/**
+ * An `ingest_historical_data` request and the progress of publishing it. `lastDocumentId` is the `_id` of the
+ * last published document, so a job whose runner died resumes after it once `leaseExpiresAt` has passed.
+ * Jobs are never soft deleted, so no hooks are registered.
+ */
+@Schema({ collection: HISTORICAL_INGESTION_JOBS_COLLECTION })
+export class HistoricalIngestionJob {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    jobId: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    accountId: string;
+
+    @Prop({ required: true, enum: ENTITIES_VALUES, type: MSchema.Types.String })
+    entity: ENTITIES_VALUES;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    targetTopic: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    email: string;
+
+    @Prop({ required: true, type: MSchema.Types.Boolean })
+    includeAllEntityData: boolean;
+
+    @Prop({
+        required: true,
+        default: HistoricalIngestionJobStatus.Pending,
+        enum: HistoricalIngestionJobStatus,
+        type: MSchema.Types.String,
+    })
+    status?: HistoricalIngestionJobStatus;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    lastDocumentId?: string;
+
+    @Prop({ required: true, default: 0, type: MSchema.Types.Number })
+    documentCount?: number;
+
+    @Prop({ required: true, default: 0, type: MSchema.Types.Number })
+    batchCount?: number;
+
+    @Prop({ required: true, default: 0, type: MSchema.Types.Number })
+    attempts?: number;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    leaseExpiresAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    lastError?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    completedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    correlationId?: string;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+}
+
+export type HistoricalIngestionJobFieldsType = `${HistoricalIngestionJobFields}`;
+export type HistoricalIngestionJobDocument = HydratedDocument<HistoricalIngestionJob>;
+export const HistoricalIngestionJobSchema = SchemaFactory.createForClass(HistoricalIngestionJob);
+
+export type HistoricalIngestionJobFieldsQueryConditionType = {
+    [HistoricalIngestionJobFields.JobId]?: string | string[];
+    [HistoricalIngestionJobFields.Status]?: HistoricalIngestionJobStatus;
+    userId: string;
+};
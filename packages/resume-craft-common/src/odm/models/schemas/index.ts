@@ -1,2 +1,11 @@
 export * from './user.schema';
+export * from './resume.schema';
 export * from './sub-schema';
+export * from './refresh-token.schema';
+export * from './template.schema';
+export * from './resume-version.schema';
+export * from './share-link.schema';
+export * from './job-description.schema';
+export * from './cover-letter.schema';
+export * from './outbox-event.schema';
+export * from './historical-ingestion-job.schema';
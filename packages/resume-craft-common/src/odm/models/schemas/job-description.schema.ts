@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+import { UserRef } from './sub-schema';
+
+export const JOB_DESCRIPTIONS_COLLECTION = 'job_descriptions';
+
+export enum JobDescriptionFields {
+    JobDescriptionId = 'jobDescriptionId',
+    Owner = 'owner',
+    Title = 'title',
+    Company = 'company',
+    RawText = 'rawText',
+    SourceUrl = 'sourceUrl',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+export const JOB_DESCRIPTION_OWNER_ID_PATH = `${JobDescriptionFields.Owner}.userId`;
+
+/**
+ * A job posting saved by a user, kept as pasted so resumes can be matched against its text.
+ */
+@Schema({ collection: JOB_DESCRIPTIONS_COLLECTION })
+export class JobDescription {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    jobDescriptionId: string;
+
+    @Prop({ required: true, type: UserRef })
+    owner: UserRef;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    title: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    company?: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    rawText: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    sourceUrl?: string;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type JobDescriptionFieldsType = `${JobDescriptionFields}`;
+export type JobDescriptionDocument = HydratedDocument<JobDescription>;
+export const JobDescriptionSchema = SchemaFactory.createForClass(JobDescription);
+
+registerHooks(JobDescriptionSchema);
+
+export type JobDescriptionFieldsQueryConditionType = {
+    [JobDescriptionFields.JobDescriptionId]?: string;
+    userId: string;
+};
+
+export type ListJobDescriptionQueryConditionType = {
+    userId: string;
+    size?: string;
+    nextPageToken?: string;
+    q?: string;
+};
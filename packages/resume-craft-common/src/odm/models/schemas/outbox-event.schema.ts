@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { DBOperation } from '../../../constants';
+
+export const OUTBOX_EVENTS_COLLECTION = 'outbox_events';
+
+export enum OutboxEventStatus {
+    Pending = 'pending',
+    Published = 'published',
+    Failed = 'failed',
+}
+
+export enum OutboxEventFields {
+    EventId = 'eventId',
+    Entity = 'entity',
+    Operation = 'operation',
+    Key = 'key',
+    Payload = 'payload',
+    Status = 'status',
+    Attempts = 'attempts',
+    NextAttemptAt = 'nextAttemptAt',
+    LastError = 'lastError',
+    PublishedAt = 'publishedAt',
+    CorrelationId = 'correlationId',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+}
+
+/**
+ * A change of a document, written in the transaction of the change itself and published to Kafka afterwards
+ * by the outbox relay. `key` is the id of the changed document, or `null` for changes of many documents,
+ * whose payload holds the condition instead. Events are never soft deleted, so no hooks are registered.
+ */
+@Schema({ collection: OUTBOX_EVENTS_COLLECTION, minimize: false })
+export class OutboxEvent {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    eventId: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    entity: string;
+
+    @Prop({
+        required: true,
+        enum: [DBOperation.CREATE, DBOperation.UPDATE, DBOperation.DELETE],
+        type: MSchema.Types.String,
+    })
+    operation: DBOperation;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    key: string | null;
+
+    @Prop({ required: true, type: MSchema.Types.Mixed })
+    payload: Record<string, unknown>;
+
+    @Prop({ required: true, default: OutboxEventStatus.Pending, enum: OutboxEventStatus, type: MSchema.Types.String })
+    status?: OutboxEventStatus;
+
+    @Prop({ required: true, default: 0, type: MSchema.Types.Number })
+    attempts?: number;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    nextAttemptAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    lastError?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    publishedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    correlationId?: string;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+}
+
+export type OutboxEventFieldsType = `${OutboxEventFields}`;
+export type OutboxEventDocument = HydratedDocument<OutboxEvent>;
+export const OutboxEventSchema = SchemaFactory.createForClass(OutboxEvent);
+
+export type OutboxEventFieldsQueryConditionType = {
+    [OutboxEventFields.EventId]?: string | string[];
+    [OutboxEventFields.Status]?: OutboxEventStatus;
+    userId: string;
+};
@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+
+export enum RefreshTokenFields {
+    RefreshTokenId = 'refreshTokenId',
+    UserId = 'userId',
+    FamilyId = 'familyId',
+    TokenHash = 'tokenHash',
+    ExpiresAt = 'expiresAt',
+    RevokedAt = 'revokedAt',
+    ReplacedBy = 'replacedBy',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+/**
+ * A refresh token issued to a user. Tokens are rotated on every use: the used token is revoked and
+ * points to its successor through `replacedBy`, while all tokens descending from one login share a `familyId`.
+ */
+@Schema()
+export class RefreshToken {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    refreshTokenId: string;
+
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    userId: string;
+
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    familyId: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    tokenHash: string;
+
+    @Prop({ required: true, type: MSchema.Types.Number })
+    expiresAt: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    revokedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    replacedBy?: string;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type RefreshTokenFieldsType = `${RefreshTokenFields}`;
+export type RefreshTokenDocument = HydratedDocument<RefreshToken>;
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
+
+registerHooks(RefreshTokenSchema);
+
+export type RefreshTokenFieldsQueryConditionType = {
+    [RefreshTokenFields.RefreshTokenId]?: string;
+    [RefreshTokenFields.FamilyId]?: string;
+    userId: string;
+};
@@ -0,0 +1,92 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+import { registerResumeSectionDiscriminators, ResumeSection, TemplateRef, UserRef } from './sub-schema';
+
+export const RESUME_VERSIONS_COLLECTION = 'resume_versions';
+
+export enum ResumeVersionFields {
+    ResumeId = 'resumeId',
+    Version = 'version',
+    Owner = 'owner',
+    Title = 'title',
+    Slug = 'slug',
+    Sections = 'sections',
+    Template = 'template',
+    RestoredFrom = 'restoredFrom',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+export const RESUME_VERSION_OWNER_ID_PATH = `${ResumeVersionFields.Owner}.userId`;
+
+/**
+ * Immutable snapshot of a resume, written in the same transaction as every save of the resume.
+ * `restoredFrom` is set when the save restored the content of an earlier version.
+ */
+@Schema({ collection: RESUME_VERSIONS_COLLECTION })
+export class ResumeVersion {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    resumeId: string;
+
+    @Prop({ required: true, type: MSchema.Types.Number })
+    version: number;
+
+    @Prop({ required: true, type: UserRef })
+    owner: UserRef;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    title: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    slug: string;
+
+    @Prop({ required: true, default: [], type: [ResumeSection] })
+    sections: ResumeSection[];
+
+    @Prop({ required: false, default: null, type: TemplateRef })
+    template?: TemplateRef;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    restoredFrom?: number;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type ResumeVersionFieldsType = `${ResumeVersionFields}`;
+export type ResumeVersionDocument = HydratedDocument<ResumeVersion>;
+export const ResumeVersionSchema = SchemaFactory.createForClass(ResumeVersion);
+
+registerResumeSectionDiscriminators(ResumeVersionSchema, ResumeVersionFields.Sections);
+
+registerHooks(ResumeVersionSchema);
+
+export type ResumeVersionFieldsQueryConditionType = {
+    [ResumeVersionFields.ResumeId]?: string;
+    [ResumeVersionFields.Version]?: number;
+    userId: string;
+};
+
+export type ListResumeVersionQueryConditionType = {
+    resumeId: string;
+    userId: string;
+    size?: string;
+    nextPageToken?: string;
+};
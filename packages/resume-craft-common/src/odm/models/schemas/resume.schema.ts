@@ -0,0 +1,97 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+import { ForkRef, registerResumeSectionDiscriminators, ResumeSection, TemplateRef, UserRef } from './sub-schema';
+
+export enum ResumeFields {
+    ResumeId = 'resumeId',
+    Owner = 'owner',
+    Title = 'title',
+    Slug = 'slug',
+    Sections = 'sections',
+    Template = 'template',
+    Version = 'version',
+    ForkedFrom = 'forkedFrom',
+    AncestorIds = 'ancestorIds',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+export const RESUME_OWNER_ID_PATH = `${ResumeFields.Owner}.userId`;
+
+@Schema()
+export class Resume {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    resumeId: string;
+
+    @Prop({ required: true, type: UserRef })
+    owner: UserRef;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    title: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    slug: string;
+
+    @Prop({ required: true, default: [], type: [ResumeSection] })
+    sections: ResumeSection[];
+
+    @Prop({ required: false, default: null, type: TemplateRef })
+    template?: TemplateRef;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    version?: number;
+
+    @Prop({ required: false, default: null, type: ForkRef })
+    forkedFrom?: ForkRef;
+
+    /**
+     * Ids of every resume this one descends from, the direct parent last. Lets all descendants of a resume
+     * be found with a single query.
+     */
+    @Prop({ required: false, default: [], type: [MSchema.Types.String] })
+    ancestorIds?: string[];
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type ResumeFieldsType = `${ResumeFields}`;
+export type ResumeDocument = HydratedDocument<Resume>;
+export const ResumeSchema = SchemaFactory.createForClass(Resume);
+
+registerResumeSectionDiscriminators(ResumeSchema, ResumeFields.Sections);
+
+registerHooks(ResumeSchema);
+
+export type ResumeFieldsQueryConditionType = {
+    [ResumeFields.ResumeId]?: string;
+    userId: string;
+};
+
+export type ListResumeQueryConditionType = {
+    userId: string;
+    size?: string;
+    nextPageToken?: string;
+    q?: string;
+};
+
+export type ListResumeForkQueryConditionType = ListResumeQueryConditionType & {
+    resumeId: string;
+};
@@ -0,0 +1,98 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+import { UserRef } from './sub-schema';
+
+export const SHARE_LINKS_COLLECTION = 'share_links';
+
+export enum ShareLinkFields {
+    ShareLinkId = 'shareLinkId',
+    ResumeId = 'resumeId',
+    Owner = 'owner',
+    TokenHash = 'tokenHash',
+    PasswordHash = 'passwordHash',
+    ExpiresAt = 'expiresAt',
+    MaxViews = 'maxViews',
+    ViewCount = 'viewCount',
+    LastViewedAt = 'lastViewedAt',
+    RevokedAt = 'revokedAt',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+export const SHARE_LINK_OWNER_ID_PATH = `${ShareLinkFields.Owner}.userId`;
+
+/**
+ * A public link to a resume. Only the hash of the link token is stored, so the link cannot be rebuilt
+ * from the collection. A link stops working once revoked, expired or viewed `maxViews` times.
+ */
+@Schema({ collection: SHARE_LINKS_COLLECTION })
+export class ShareLink {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    shareLinkId: string;
+
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    resumeId: string;
+
+    @Prop({ required: true, type: UserRef })
+    owner: UserRef;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    tokenHash: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    passwordHash?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    expiresAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    maxViews?: number;
+
+    @Prop({ required: true, default: 0, type: MSchema.Types.Number })
+    viewCount?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    lastViewedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    revokedAt?: number;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type ShareLinkFieldsType = `${ShareLinkFields}`;
+export type ShareLinkDocument = HydratedDocument<ShareLink>;
+export const ShareLinkSchema = SchemaFactory.createForClass(ShareLink);
+
+registerHooks(ShareLinkSchema);
+
+export type ShareLinkFieldsQueryConditionType = {
+    [ShareLinkFields.ShareLinkId]?: string;
+    [ShareLinkFields.ResumeId]?: string;
+    userId: string;
+};
+
+export type ListShareLinkQueryConditionType = {
+    resumeId: string;
+    userId: string;
+    size?: string;
+    nextPageToken?: string;
+};
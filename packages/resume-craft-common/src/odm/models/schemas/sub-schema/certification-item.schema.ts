@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum CertificationItemFields {
+    Name = 'name',
+    Issuer = 'issuer',
+    IssueDate = 'issueDate',
+    ExpiryDate = 'expiryDate',
+    CredentialId = 'credentialId',
+    Url = 'url',
+}
+
+@Schema({ _id: false })
+export class CertificationItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    name: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    issuer: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    issueDate: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    expiryDate?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    credentialId?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    url?: string;
+}
+
+export type CertificationItemFieldsType = `${CertificationItemFields}`;
+export const CertificationItemSchema = SchemaFactory.createForClass(CertificationItem);
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum CustomSectionItemFields {
+    Title = 'title',
+    Subtitle = 'subtitle',
+    Date = 'date',
+    Url = 'url',
+    Description = 'description',
+}
+
+@Schema({ _id: false })
+export class CustomSectionItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    title: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    subtitle?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    date?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    url?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    description?: string;
+}
+
+export type CustomSectionItemFieldsType = `${CustomSectionItemFields}`;
+export const CustomSectionItemSchema = SchemaFactory.createForClass(CustomSectionItem);
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum EducationItemFields {
+    Institution = 'institution',
+    Degree = 'degree',
+    FieldOfStudy = 'fieldOfStudy',
+    StartDate = 'startDate',
+    EndDate = 'endDate',
+    Grade = 'grade',
+    Description = 'description',
+}
+
+@Schema({ _id: false })
+export class EducationItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    institution: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    degree: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    fieldOfStudy?: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    startDate: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    endDate?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    grade?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    description?: string;
+}
+
+export type EducationItemFieldsType = `${EducationItemFields}`;
+export const EducationItemSchema = SchemaFactory.createForClass(EducationItem);
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum ExperienceItemFields {
+    Company = 'company',
+    Role = 'role',
+    Location = 'location',
+    StartDate = 'startDate',
+    EndDate = 'endDate',
+    IsCurrent = 'isCurrent',
+    BulletPoints = 'bulletPoints',
+}
+
+@Schema({ _id: false })
+export class ExperienceItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    company: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    role: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    location?: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    startDate: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    endDate?: string;
+
+    @Prop({ required: false, default: false, type: MSchema.Types.Boolean })
+    isCurrent?: boolean;
+
+    @Prop({ required: false, default: [], type: [MSchema.Types.String] })
+    bulletPoints?: string[];
+}
+
+export type ExperienceItemFieldsType = `${ExperienceItemFields}`;
+export const ExperienceItemSchema = SchemaFactory.createForClass(ExperienceItem);
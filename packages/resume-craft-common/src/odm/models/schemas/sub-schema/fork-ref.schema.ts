@@ -0,0 +1,20 @@
+import { Prop } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum ForkRefFields {
+    ResumeId = 'resumeId',
+    Version = 'version',
+}
+
+/**
+ * Points a forked resume to the resume, and the version of it, it was copied from.
+ */
+export class ForkRef {
+    @Prop({ required: true, type: MSchema.Types.String })
+    resumeId: string;
+
+    @Prop({ required: true, type: MSchema.Types.Number })
+    version: number;
+}
+
+export type ForkRefFieldsType = `${ForkRefFields}`;
@@ -1 +1,11 @@
 export * from './user-ref.schema';
+export * from './template-ref.schema';
+export * from './fork-ref.schema';
+export * from './experience-item.schema';
+export * from './education-item.schema';
+export * from './skill-item.schema';
+export * from './project-item.schema';
+export * from './certification-item.schema';
+export * from './language-item.schema';
+export * from './custom-section-item.schema';
+export * from './resume-section.schema';
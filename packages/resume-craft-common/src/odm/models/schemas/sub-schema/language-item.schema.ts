@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum LanguageProficiency {
+    Elementary = 'elementary',
+    LimitedWorking = 'limited_working',
+    ProfessionalWorking = 'professional_working',
+    FullProfessional = 'full_professional',
+    Native = 'native',
+}
+
+export enum LanguageItemFields {
+    Language = 'language',
+    Proficiency = 'proficiency',
+}
+
+@Schema({ _id: false })
+export class LanguageItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    language: string;
+
+    @Prop({ required: true, enum: Object.values(LanguageProficiency), type: MSchema.Types.String })
+    proficiency: `${LanguageProficiency}`;
+}
+
+export type LanguageItemFieldsType = `${LanguageItemFields}`;
+export const LanguageItemSchema = SchemaFactory.createForClass(LanguageItem);
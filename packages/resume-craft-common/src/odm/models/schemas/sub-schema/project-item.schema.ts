@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum ProjectItemFields {
+    Name = 'name',
+    Role = 'role',
+    Url = 'url',
+    StartDate = 'startDate',
+    EndDate = 'endDate',
+    Description = 'description',
+    BulletPoints = 'bulletPoints',
+}
+
+@Schema({ _id: false })
+export class ProjectItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    name: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    role?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    url?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    startDate?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    endDate?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    description?: string;
+
+    @Prop({ required: false, default: [], type: [MSchema.Types.String] })
+    bulletPoints?: string[];
+}
+
+export type ProjectItemFieldsType = `${ProjectItemFields}`;
+export const ProjectItemSchema = SchemaFactory.createForClass(ProjectItem);
@@ -0,0 +1,92 @@
+import { Prop, Schema } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+import { CertificationItem, CertificationItemSchema } from './certification-item.schema';
+import { CustomSectionItem, CustomSectionItemSchema } from './custom-section-item.schema';
+import { EducationItem, EducationItemSchema } from './education-item.schema';
+import { ExperienceItem, ExperienceItemSchema } from './experience-item.schema';
+import { LanguageItem, LanguageItemSchema } from './language-item.schema';
+import { ProjectItem, ProjectItemSchema } from './project-item.schema';
+import { SkillItem, SkillItemSchema } from './skill-item.schema';
+
+export enum ResumeSectionType {
+    Summary = 'summary',
+    Experience = 'experience',
+    Education = 'education',
+    Skills = 'skills',
+    Projects = 'projects',
+    Certifications = 'certifications',
+    Languages = 'languages',
+    Custom = 'custom',
+}
+
+export enum ResumeSectionFields {
+    SectionId = 'sectionId',
+    Type = 'type',
+    Title = 'title',
+    Order = 'order',
+    IsHidden = 'isHidden',
+    Content = 'content',
+    Items = 'items',
+}
+
+export type ResumeSectionItem =
+    | ExperienceItem
+    | EducationItem
+    | SkillItem
+    | ProjectItem
+    | CertificationItem
+    | LanguageItem
+    | CustomSectionItem;
+
+/**
+ * Item sub-schema stored for each structured section type. Every entry is registered as an embedded
+ * discriminator on the `sections` path keyed by `type`, so a section only accepts items of its own shape.
+ */
+export const RESUME_SECTION_ITEM_SCHEMAS: Partial<Record<ResumeSectionType, MSchema>> = {
+    [ResumeSectionType.Experience]: ExperienceItemSchema,
+    [ResumeSectionType.Education]: EducationItemSchema,
+    [ResumeSectionType.Skills]: SkillItemSchema,
+    [ResumeSectionType.Projects]: ProjectItemSchema,
+    [ResumeSectionType.Certifications]: CertificationItemSchema,
+    [ResumeSectionType.Languages]: LanguageItemSchema,
+    [ResumeSectionType.Custom]: CustomSectionItemSchema,
+};
+
+/**
+ * Registers the item sub-schema of every structured section type on a `sections` array path.
+ */
+export const registerResumeSectionDiscriminators = (schema: MSchema, path: string): void => {
+    const sectionsPath = schema.path<MSchema.Types.DocumentArray>(path);
+    Object.entries(RESUME_SECTION_ITEM_SCHEMAS).forEach(([sectionType, itemSchema]) => {
+        sectionsPath.discriminator(
+            sectionType,
+            new MSchema({ items: { type: [itemSchema], default: [] } }, { _id: false })
+        );
+    });
+};
+
+@Schema({ _id: false, discriminatorKey: ResumeSectionFields.Type })
+export class ResumeSection {
+    @Prop({ required: true, type: MSchema.Types.String })
+    sectionId: string;
+
+    @Prop({ required: true, enum: Object.values(ResumeSectionType), type: MSchema.Types.String })
+    type: `${ResumeSectionType}`;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    title: string;
+
+    @Prop({ required: true, type: MSchema.Types.Number })
+    order: number;
+
+    @Prop({ required: true, default: false, type: MSchema.Types.Boolean })
+    isHidden: boolean;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.String })
+    content?: string;
+
+    items?: ResumeSectionItem[];
+}
+
+export type ResumeSectionFieldsType = `${ResumeSectionFields}`;
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum SkillProficiency {
+    Beginner = 'beginner',
+    Intermediate = 'intermediate',
+    Advanced = 'advanced',
+    Expert = 'expert',
+}
+
+export enum SkillItemFields {
+    Name = 'name',
+    Proficiency = 'proficiency',
+}
+
+@Schema({ _id: false })
+export class SkillItem {
+    @Prop({ required: true, type: MSchema.Types.String })
+    name: string;
+
+    @Prop({ required: true, enum: Object.values(SkillProficiency), type: MSchema.Types.String })
+    proficiency: `${SkillProficiency}`;
+}
+
+export type SkillItemFieldsType = `${SkillItemFields}`;
+export const SkillItemSchema = SchemaFactory.createForClass(SkillItem);
@@ -0,0 +1,20 @@
+import { Prop } from '@nestjs/mongoose';
+import { Schema as MSchema } from 'mongoose';
+
+export enum TemplateRefFields {
+    TemplateId = 'templateId',
+    Version = 'version',
+}
+
+/**
+ * Pins a resume to one version of a catalog template, so publishing a new version does not restyle it.
+ */
+export class TemplateRef {
+    @Prop({ required: true, type: MSchema.Types.String })
+    templateId: string;
+
+    @Prop({ required: true, type: MSchema.Types.Number })
+    version: number;
+}
+
+export type TemplateRefFieldsType = `${TemplateRefFields}`;
@@ -0,0 +1,119 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MSchema } from 'mongoose';
+
+import { registerHooks } from '../hooks';
+import { ResumeSectionType } from './sub-schema';
+
+export enum TemplateFields {
+    TemplateId = 'templateId',
+    Name = 'name',
+    Slug = 'slug',
+    Category = 'category',
+    SupportedSections = 'supportedSections',
+    StyleTokens = 'styleTokens',
+    Version = 'version',
+    IsLatest = 'isLatest',
+    CreatedAt = 'createdAt',
+    CreatedBy = 'createdBy',
+    ModifiedAt = 'modifiedAt',
+    ModifiedBy = 'modifiedBy',
+    DeletedAt = 'deletedAt',
+}
+
+export type TemplateTextStyle = {
+    fontSize: number;
+    isBold: boolean;
+};
+
+/**
+ * Layout tokens of a template, in PDF points.
+ */
+export type TemplateStyleTokens = {
+    page: {
+        width: number;
+        height: number;
+        margin: number;
+    };
+    lineHeight: number;
+    sectionSpacing: number;
+    isSectionTitleUppercase: boolean;
+    hasSectionRule: boolean;
+    hasTables?: boolean;
+    hasGraphics?: boolean;
+    styles: Record<
+        'name' | 'title' | 'sectionTitle' | 'subheading' | 'meta' | 'paragraph' | 'bullet',
+        TemplateTextStyle
+    >;
+};
+
+/**
+ * One published version of a catalog template. Versions are immutable: editing a template inserts the next
+ * version and moves `isLatest` to it, so resumes pinned to an older version keep rendering the same way.
+ */
+@Schema()
+export class Template {
+    @Prop({ required: true, type: MSchema.Types.UUID })
+    templateId: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    name: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    slug: string;
+
+    @Prop({ required: true, type: MSchema.Types.String })
+    category: string;
+
+    @Prop({
+        required: true,
+        default: [],
+        type: [{ type: MSchema.Types.String, enum: Object.values(ResumeSectionType) }],
+    })
+    supportedSections: `${ResumeSectionType}`[];
+
+    @Prop({ required: true, type: MSchema.Types.Mixed })
+    styleTokens: TemplateStyleTokens;
+
+    @Prop({ required: true, default: 1, type: MSchema.Types.Number })
+    version: number;
+
+    @Prop({ required: true, default: true, type: MSchema.Types.Boolean })
+    isLatest: boolean;
+
+    @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
+    createdAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    modifiedAt?: number;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    createdBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.UUID })
+    modifiedBy?: string;
+
+    @Prop({ required: false, default: null, type: MSchema.Types.Number })
+    deletedAt?: number;
+}
+
+export type TemplateFieldsType = `${TemplateFields}`;
+export type TemplateDocument = HydratedDocument<Template>;
+export const TemplateSchema = SchemaFactory.createForClass(Template);
+
+registerHooks(TemplateSchema);
+
+export type TemplateFieldsQueryConditionType = {
+    [TemplateFields.TemplateId]?: string;
+    [TemplateFields.Slug]?: string;
+    [TemplateFields.Version]?: number;
+    [TemplateFields.IsLatest]?: boolean;
+    userId: string;
+};
+
+export type ListTemplateQueryConditionType = {
+    userId: string;
+    size?: string;
+    nextPageToken?: string;
+    q?: string;
+    category?: string;
+};
@@ -3,12 +3,20 @@ import { HydratedDocument, Schema as MSchema } from 'mongoose';
 
 import { registerHooks } from '../hooks';
 
+export enum UserRole {
+    User = 'user',
+    Reviewer = 'reviewer',
+    Admin = 'admin',
+}
+
 export enum UserFields {
     UserId = 'userId',
     Name = 'name',
     Email = 'email',
     Phone = 'phone',
     ProfileImageUrl = 'profileImageUrl',
+    PasswordHash = 'passwordHash',
+    Role = 'role',
     CreatedAt = 'createdAt',
     CreatedBy = 'createdBy',
     ModifiedAt = 'modifiedAt',
@@ -33,6 +41,12 @@ export class User {
     @Prop({ required: false, default: null, type: MSchema.Types.String })
     profileImageUrl?: string;
 
+    @Prop({ required: false, default: null, select: false, type: MSchema.Types.String })
+    passwordHash?: string;
+
+    @Prop({ required: true, default: UserRole.User, enum: UserRole, type: MSchema.Types.String })
+    role?: UserRole;
+
     @Prop({ required: true, default: Date.now, type: MSchema.Types.Number })
     createdAt?: number;
 
@@ -61,6 +75,6 @@ export type UserFieldsQueryConditionType = {
 
 export type ListUserQueryConditionType = {
     size: number;
-    nextPageToken: string;
+    nextPageToken?: string;
     q?: string;
 };
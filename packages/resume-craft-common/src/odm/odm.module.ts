@@ -4,8 +4,42 @@ import { MongooseModule } from '@nestjs/mongoose';
 import mongoose from 'mongoose';
 
 import { ConfigurationModule } from '../configuration';
-import { User, UserSchema } from './models';
-import { DbService, MongooseConfigService, UserDbService } from './services';
+import {
+    CoverLetter,
+    CoverLetterSchema,
+    HistoricalIngestionJob,
+    HistoricalIngestionJobSchema,
+    JobDescription,
+    JobDescriptionSchema,
+    OutboxEvent,
+    OutboxEventSchema,
+    RefreshToken,
+    RefreshTokenSchema,
+    Resume,
+    ResumeSchema,
+    ResumeVersion,
+    ResumeVersionSchema,
+    ShareLink,
+    ShareLinkSchema,
+    Template,
+    TemplateSchema,
+    User,
+    UserSchema,
+} from './models';
+import {
+    CoverLetterDbService,
+    DbService,
+    HistoricalIngestionJobDbService,
+    JobDescriptionDbService,
+    MongooseConfigService,
+    OutboxEventDbService,
+    RefreshTokenDbService,
+    ResumeDbService,
+    ResumeVersionDbService,
+    ShareLinkDbService,
+    TemplateDbService,
+    UserDbService,
+} from './services';
 
 mongoose.set('debug', process.env.NODE_ENV !== 'prod');
 
@@ -18,9 +52,45 @@ mongoose.set('debug', process.env.NODE_ENV !== 'prod');
             imports: [ConfigurationModule],
             useClass: MongooseConfigService,
         }),
-        MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+        MongooseModule.forFeature([
+            { name: User.name, schema: UserSchema },
+            { name: Resume.name, schema: ResumeSchema },
+            { name: RefreshToken.name, schema: RefreshTokenSchema },
+            { name: Template.name, schema: TemplateSchema },
+            { name: ResumeVersion.name, schema: ResumeVersionSchema },
+            { name: ShareLink.name, schema: ShareLinkSchema },
+            { name: JobDescription.name, schema: JobDescriptionSchema },
+            { name: CoverLetter.name, schema: CoverLetterSchema },
+            { name: OutboxEvent.name, schema: OutboxEventSchema },
+            { name: HistoricalIngestionJob.name, schema: HistoricalIngestionJobSchema },
+        ]),
+    ],
+    providers: [
+        DbService,
+        UserDbService,
+        ResumeDbService,
+        RefreshTokenDbService,
+        TemplateDbService,
+        ResumeVersionDbService,
+        ShareLinkDbService,
+        JobDescriptionDbService,
+        CoverLetterDbService,
+        OutboxEventDbService,
+        HistoricalIngestionJobDbService,
+    ],
+    exports: [
+        DbService,
+        MongooseModule,
+        UserDbService,
+        ResumeDbService,
+        RefreshTokenDbService,
+        TemplateDbService,
+        ResumeVersionDbService,
+        ShareLinkDbService,
+        JobDescriptionDbService,
+        CoverLetterDbService,
+        OutboxEventDbService,
+        HistoricalIngestionJobDbService,
     ],
-    providers: [DbService, UserDbService],
-    exports: [DbService, MongooseModule, UserDbService],
 })
 export class ODMModule {}
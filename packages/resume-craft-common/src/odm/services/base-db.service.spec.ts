@@ -0,0 +1,528 @@
+import { HttpStatus } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { ClientSession, createConnection, Model, Schema, Types } from 'mongoose';
+
+import { InMemoryRedis, RemoteCacheService } from '../../cache';
+import { DBOperation } from '../../constants';
+import { runWithRequestContext } from '../../context';
+import { ErrorCode, ResumeCraftException } from '../../exceptions';
+import { RequestContext } from '../../types';
+import { UserRole } from '../models';
+import { registerHooks } from '../models/hooks';
+import { BaseDbService, ChangeEventOutbox } from './base-db.service';
+
+type Note = {
+    _id?: string;
+    noteId: string;
+    owner: { userId: string };
+    text: string;
+    secret?: string;
+};
+
+type NoteCondition = {
+    noteId?: string;
+    userId: string;
+};
+
+const getPath = (doc: object, path: string) => path.split('.').reduce((value, key) => value?.[key], doc);
+
+/**
+ * Minimal stand-in for a mongoose model that matches documents on equality of (dotted) paths.
+ */
+const createNoteModel = (notes: Note[]) => {
+    const matches = (note: Note, condition: object) =>
+        Object.entries(condition).every(([path, value]) =>
+            value?.$gt ? getPath(note, path) > value.$gt : getPath(note, path) === value
+        );
+    const toQuery = <T>(result: T) => {
+        const query = {
+            session: () => query,
+            select: () => query,
+            sort: () => query,
+            limit: () => query,
+            batchSize: () => query,
+            exec: async () => result,
+            cursor: () => {
+                const remaining = [...(result as unknown[])];
+                return { next: async () => remaining.shift() ?? null, close: jest.fn() };
+            },
+        };
+        return query;
+    };
+    const toDocument = (note?: Note) => note && { ...note, toJSON: () => ({ ...note }) };
+
+    return {
+        modelName: 'Note',
+        findOne: jest.fn((condition: object) => toQuery(toDocument(notes.find((note) => matches(note, condition))))),
+        find: jest.fn((condition: object) => toQuery(notes.filter((note) => matches(note, condition)).map(toDocument))),
+        findOneAndUpdate: jest.fn((condition: object, update: { $set: Partial<Note> }) => {
+            const note = notes.find((candidate) => matches(candidate, condition));
+            if (note) {
+                Object.assign(note, update.$set);
+            }
+            return toQuery(toDocument(note));
+        }),
+        create: jest.fn(async (newNotes: Note[]) => {
+            notes.push(...newNotes);
+            return newNotes.map(toDocument);
+        }),
+        updateMany: jest.fn(() => toQuery({ modifiedCount: 1 })),
+        countDocuments: jest.fn((condition: object) =>
+            toQuery(notes.filter((note) => matches(note, condition)).length)
+        ),
+    };
+};
+
+class OwnedNoteDbService extends BaseDbService<string, Note, NoteCondition, NoteCondition> {
+    protected readonly _ownerField = 'owner.userId';
+
+    constructor(model: ReturnType<typeof createNoteModel>) {
+        super(model as unknown as Model<never>);
+    }
+}
+
+class SharedNoteDbService extends BaseDbService<string, Note, NoteCondition, NoteCondition> {
+    constructor(model: ReturnType<typeof createNoteModel>) {
+        super(model as unknown as Model<never>);
+    }
+}
+
+class CachedNoteDbService extends BaseDbService<string, Note, NoteCondition, NoteCondition> {
+    protected readonly _ownerField = 'owner.userId';
+
+    constructor(
+        model: ReturnType<typeof createNoteModel>,
+        remoteCache: RemoteCacheService,
+        outbox?: ChangeEventOutbox
+    ) {
+        super(model as unknown as Model<never>, { remoteCache, outbox });
+    }
+}
+
+class EventedNoteDbService extends BaseDbService<string, Note, NoteCondition, NoteCondition> {
+    protected readonly _ownerField = 'owner.userId';
+    protected readonly _changeEventKeyField = 'noteId';
+    protected readonly _changeEventExcludedFields = ['secret'];
+
+    constructor(model: ReturnType<typeof createNoteModel>, outbox: ChangeEventOutbox) {
+        super(model as unknown as Model<never>, { outbox });
+    }
+}
+
+describe('BaseDbService ownership mode', () => {
+    const alice: RequestContext = { userId: 'alice', userRole: UserRole.User };
+    const bob: RequestContext = { userId: 'bob', userRole: UserRole.User };
+    const admin: RequestContext = { userId: 'admin', userRole: UserRole.Admin };
+
+    let model: ReturnType<typeof createNoteModel>;
+    let service: OwnedNoteDbService;
+
+    beforeEach(() => {
+        model = createNoteModel([
+            { noteId: 'note-a', owner: { userId: 'alice' }, text: 'alice note' },
+            { noteId: 'note-b', owner: { userId: 'bob' }, text: 'bob note' },
+        ]);
+        service = new OwnedNoteDbService(model);
+    });
+
+    it('should scope reads to the user in context', async () => {
+        await expect(service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } })).resolves.toEqual(
+            expect.objectContaining({ noteId: 'note-a' })
+        );
+        expect(model.findOne).toHaveBeenCalledWith({ noteId: 'note-a', 'owner.userId': 'alice' });
+    });
+
+    it('should not read documents of another user even when the condition names them', async () => {
+        await expect(
+            service.findOne(alice, { condition: { noteId: 'note-b', userId: 'bob' } })
+        ).resolves.toBeUndefined();
+        await expect(service.exists(alice, { noteId: 'note-b', userId: 'bob' })).resolves.toBe(false);
+    });
+
+    it('should not update documents of another user', async () => {
+        await expect(
+            service.updateOne(alice, { noteId: 'note-b', userId: 'bob' }, { text: 'hijacked' })
+        ).rejects.toBeInstanceOf(ResumeCraftException);
+        expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+            { noteId: 'note-b', 'owner.userId': 'alice' },
+            expect.anything(),
+            expect.anything()
+        );
+        await expect(service.findOne(bob, { condition: { noteId: 'note-b', userId: 'bob' } })).resolves.toEqual(
+            expect.objectContaining({ text: 'bob note' })
+        );
+    });
+
+    it('should not delete documents of another user', async () => {
+        const error = await service.deleteOne(alice, { noteId: 'note-b', userId: 'bob' }).catch((err) => err);
+
+        expect(error).toBeInstanceOf(ResumeCraftException);
+        expect(error.getStatus()).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    it('should let admins access documents of any user', async () => {
+        await expect(service.findOne(admin, { condition: { noteId: 'note-b', userId: 'admin' } })).resolves.toEqual(
+            expect.objectContaining({ noteId: 'note-b' })
+        );
+        await expect(service.count(admin, { userId: 'admin' })).resolves.toBe(2);
+    });
+
+    it('should fall back to the context of the current request when none is passed', async () => {
+        await runWithRequestContext({ context: alice }, async () => {
+            await expect(service.findOne(undefined, { condition: { userId: 'bob' } })).resolves.toEqual(
+                expect.objectContaining({ noteId: 'note-a' })
+            );
+        });
+        expect(model.findOne).toHaveBeenCalledWith({ 'owner.userId': 'alice' });
+    });
+
+    it('should reject operations without a user in context', async () => {
+        const error = await service.count({}, { noteId: 'note-a', userId: 'alice' }).catch((err) => err);
+
+        expect(error).toBeInstanceOf(ResumeCraftException);
+        expect(error.getResponse()).toEqual(expect.objectContaining({ code: ErrorCode.AUTHORIZATION_ERROR }));
+        expect(model.countDocuments).not.toHaveBeenCalled();
+    });
+
+    it('should leave conditions untouched when ownership mode is off', async () => {
+        const sharedService = new SharedNoteDbService(model);
+
+        await sharedService.count(alice, { noteId: 'note-b', userId: 'bob' });
+
+        expect(model.countDocuments).toHaveBeenCalledWith({ noteId: 'note-b', userId: 'bob' });
+    });
+});
+
+describe('BaseDbService read-through cache', () => {
+    const alice: RequestContext = {
+        userId: 'alice',
+        userRole: UserRole.User,
+        isReqCachingEnabled: true,
+        remoteCacheVersion: 'v1',
+    };
+
+    let model: ReturnType<typeof createNoteModel>;
+    let redis: InMemoryRedis;
+    let service: CachedNoteDbService;
+
+    beforeEach(() => {
+        model = createNoteModel([
+            { noteId: 'note-a', owner: { userId: 'alice' }, text: 'alice note' },
+            { noteId: 'note-b', owner: { userId: 'bob' }, text: 'bob note' },
+        ]);
+        redis = new InMemoryRedis();
+        service = new CachedNoteDbService(model, new RemoteCacheService(redis));
+    });
+
+    it('should serve repeated reads of the same condition from the cache', async () => {
+        await service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } });
+        await expect(service.findOne(alice, { condition: { userId: 'alice', noteId: 'note-a' } })).resolves.toEqual({
+            noteId: 'note-a',
+            owner: { userId: 'alice' },
+            text: 'alice note',
+        });
+
+        expect(model.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read from the database when the request disables caching or runs in a transaction', async () => {
+        const uncached = { ...alice, isReqCachingEnabled: false };
+        await service.findOne(uncached, { condition: { noteId: 'note-a', userId: 'alice' } });
+        await service.findOne(uncached, { condition: { noteId: 'note-a', userId: 'alice' } });
+        await service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } }, undefined, {
+            session: {} as never,
+        });
+
+        expect(model.findOne).toHaveBeenCalledTimes(3);
+        await expect(redis.get('db-cache:Note:generation')).resolves.toBeNull();
+    });
+
+    it('should invalidate cached reads of the model on writes', async () => {
+        await service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } });
+        await service.findMany(alice, { condition: { userId: 'alice' } });
+
+        await service.updateOne(alice, { noteId: 'note-a', userId: 'alice' }, { text: 'edited' });
+
+        await expect(service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } })).resolves.toEqual(
+            expect.objectContaining({ text: 'edited' })
+        );
+        await expect(service.findMany(alice, { condition: { userId: 'alice' } })).resolves.toEqual([
+            expect.objectContaining({ text: 'edited' }),
+        ]);
+        expect(model.findOne).toHaveBeenCalledTimes(2);
+        expect(model.find).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the same plain documents from the database and the cache', async () => {
+        const fromDatabase = await service.findMany(alice, { condition: { userId: 'alice' } });
+        const fromCache = await service.findMany(alice, { condition: { userId: 'alice' } });
+
+        expect(model.find).toHaveBeenCalledTimes(1);
+        expect(fromDatabase[0]).not.toHaveProperty('toJSON');
+        expect(fromCache).toEqual(fromDatabase);
+    });
+
+    describe('within transactions', () => {
+        const startTransaction = () =>
+            Object.assign(new EventEmitter(), { inTransaction: () => true }) as unknown as ClientSession;
+        const getGeneration = () => redis.get('db-cache:Note:generation');
+
+        it('should invalidate cached reads once the session of the caller ended', async () => {
+            const session = startTransaction();
+
+            await service.updateOne(alice, { noteId: 'note-a', userId: 'alice' }, { text: 'edited' }, { session });
+            await service.create(alice, { noteId: 'note-c', owner: { userId: 'alice' }, text: 'new' }, { session });
+            await expect(getGeneration()).resolves.toBeNull();
+
+            session.emit('ended', session);
+            await new Promise((resolve) => {
+                setImmediate(resolve);
+            });
+            await expect(getGeneration()).resolves.toBe('1');
+        });
+
+        it('should invalidate cached reads once the transaction it opens itself committed', async () => {
+            const session = startTransaction();
+            const outbox = { record: jest.fn(), withTransaction: jest.fn(async (callback) => callback(session)) };
+            service = new CachedNoteDbService(model, new RemoteCacheService(redis), outbox);
+            outbox.record.mockImplementation(async () => {
+                await expect(getGeneration()).resolves.toBeNull();
+            });
+
+            await service.updateOne(alice, { noteId: 'note-a', userId: 'alice' }, { text: 'edited' });
+
+            expect(outbox.record).toHaveBeenCalledTimes(1);
+            await expect(getGeneration()).resolves.toBe('1');
+        });
+    });
+
+    it('should not share cached reads across cache versions or owners', async () => {
+        await service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } });
+        await service.findOne(
+            { ...alice, remoteCacheVersion: 'v2' },
+            { condition: { noteId: 'note-a', userId: 'alice' } }
+        );
+        await expect(
+            service.findOne({ ...alice, userId: 'bob' }, { condition: { noteId: 'note-a', userId: 'alice' } })
+        ).resolves.toBeUndefined();
+
+        expect(model.findOne).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall back to the database when the cache is unavailable', async () => {
+        jest.spyOn(redis, 'get').mockRejectedValue(new Error('Connection is closed.'));
+
+        await expect(service.findOne(alice, { condition: { noteId: 'note-a', userId: 'alice' } })).resolves.toEqual(
+            expect.objectContaining({ noteId: 'note-a' })
+        );
+    });
+});
+
+describe('BaseDbService change events', () => {
+    const alice: RequestContext = { userId: 'alice', userRole: UserRole.User };
+    const session = { id: 'session-1' } as never;
+
+    let model: ReturnType<typeof createNoteModel>;
+    let outbox: { record: jest.Mock; withTransaction: jest.Mock };
+    let service: EventedNoteDbService;
+
+    beforeEach(() => {
+        model = createNoteModel([
+            { noteId: 'note-a', owner: { userId: 'alice' }, text: 'alice note', secret: 's3cr3t' },
+        ]);
+        outbox = {
+            record: jest.fn(),
+            withTransaction: jest.fn((callback) => callback(session)),
+        };
+        service = new EventedNoteDbService(model, outbox);
+    });
+
+    it('should record the changed document in a transaction it opens itself', async () => {
+        await service.updateOne(alice, { noteId: 'note-a', userId: 'alice' }, { text: 'edited' });
+
+        expect(outbox.withTransaction).toHaveBeenCalledTimes(1);
+        expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.anything(),
+            expect.objectContaining({ session })
+        );
+        expect(outbox.record).toHaveBeenCalledWith(
+            alice,
+            [
+                {
+                    entity: 'Note',
+                    operation: DBOperation.UPDATE,
+                    key: 'note-a',
+                    payload: { document: expect.not.objectContaining({ secret: expect.anything() }) },
+                },
+            ],
+            session
+        );
+        expect(outbox.record.mock.calls[0][1][0].payload.document).toEqual(
+            expect.objectContaining({ noteId: 'note-a', text: 'edited' })
+        );
+    });
+
+    it('should join the transaction of the caller', async () => {
+        const callerSession = { id: 'caller-session' } as never;
+
+        await service.create(
+            alice,
+            { noteId: 'note-c', owner: { userId: 'alice' }, text: 'new' },
+            { session: callerSession }
+        );
+
+        expect(outbox.withTransaction).not.toHaveBeenCalled();
+        expect(outbox.record).toHaveBeenCalledWith(
+            alice,
+            [expect.objectContaining({ operation: DBOperation.CREATE, key: 'note-c' })],
+            callerSession
+        );
+    });
+
+    it('should record the condition and changes of multi document writes', async () => {
+        await service.updateMany(alice, { userId: 'alice' }, { text: 'archived', secret: 'leaked' });
+
+        expect(outbox.record).toHaveBeenCalledWith(
+            alice,
+            [
+                {
+                    entity: 'Note',
+                    operation: DBOperation.UPDATE,
+                    key: null,
+                    payload: { condition: { 'owner.userId': 'alice' }, changes: { text: 'archived' } },
+                },
+            ],
+            session
+        );
+    });
+
+    it('should fail the write when its event cannot be recorded', async () => {
+        outbox.record.mockRejectedValue(new Error('Transaction aborted'));
+
+        await expect(
+            service.updateOne(alice, { noteId: 'note-a', userId: 'alice' }, { text: 'edited' })
+        ).rejects.toBeInstanceOf(ResumeCraftException);
+    });
+});
+
+describe('BaseDbService batch streaming', () => {
+    const alice: RequestContext = { userId: 'alice', userRole: UserRole.User };
+
+    let service: EventedNoteDbService;
+
+    beforeEach(() => {
+        const model = createNoteModel([
+            { _id: 'id-1', noteId: 'note-a', owner: { userId: 'alice' }, text: 'first', secret: 's3cr3t' },
+            { _id: 'id-2', noteId: 'note-b', owner: { userId: 'bob' }, text: 'not alice' },
+            { _id: 'id-3', noteId: 'note-c', owner: { userId: 'alice' }, text: 'second' },
+            { _id: 'id-4', noteId: 'note-d', owner: { userId: 'alice' }, text: 'third' },
+        ]);
+        service = new EventedNoteDbService(model, { record: jest.fn(), withTransaction: jest.fn() });
+    });
+
+    it('should hand the owned documents over in batches shaped like change events', async () => {
+        const onBatch = jest.fn();
+
+        await expect(service.streamInBatches(alice, { userId: 'alice' }, { batchSize: 2 }, onBatch)).resolves.toEqual({
+            documentCount: 3,
+            batchCount: 2,
+        });
+
+        expect(onBatch.mock.calls.map(([documents, lastId]) => [documents.map(({ key }) => key), lastId])).toEqual([
+            [['note-a', 'note-c'], 'id-3'],
+            [['note-d'], 'id-4'],
+        ]);
+        expect(onBatch.mock.calls[0][0][0]).toEqual({
+            key: 'note-a',
+            payload: { noteId: 'note-a', owner: { userId: 'alice' }, text: 'first' },
+        });
+    });
+
+    it('should resume after the given id and stop when the batch handler declines', async () => {
+        const onBatch = jest.fn().mockResolvedValue(false);
+
+        await expect(
+            service.streamInBatches(alice, { userId: 'alice' }, { batchSize: 1, afterId: 'id-1' }, onBatch)
+        ).resolves.toEqual({ documentCount: 1, batchCount: 1 });
+
+        expect(onBatch).toHaveBeenCalledTimes(1);
+        expect(onBatch.mock.calls[0][1]).toBe('id-3');
+    });
+});
+
+describe('BaseDbService batch streaming of a schema with hooks', () => {
+    const alice: RequestContext = { userId: 'alice', userRole: UserRole.User };
+    const ids = [new Types.ObjectId(), new Types.ObjectId(), new Types.ObjectId()];
+    const rawNotes = [
+        { _id: ids[0], noteId: 'note-a', owner: { userId: 'alice' }, text: 'first', deletedAt: null },
+        { _id: ids[1], noteId: 'note-b', owner: { userId: 'alice' }, text: 'deleted', deletedAt: 1700000000000 },
+        { _id: ids[2], noteId: 'note-c', owner: { userId: 'alice' }, text: 'second', deletedAt: null },
+    ];
+
+    let find: jest.SpyInstance;
+    let service: EventedNoteDbService;
+
+    /**
+     * Stands in for the driver, so the projection and conditions built by mongoose are applied as Mongo would.
+     */
+    const findRawNotes = (filter: Record<string, unknown>, { projection = {} }: { projection?: object }) => {
+        const idAfter = (filter._id as { $gt?: Types.ObjectId })?.$gt;
+        const excluded = Object.keys(projection).filter((path) => !projection[path]);
+        const included = Object.keys(projection).filter((path) => projection[path]);
+        const remaining = rawNotes
+            .filter(
+                (note) => (note.deletedAt ?? null) === filter.deletedAt && note.owner.userId === filter['owner.userId']
+            )
+            .filter((note) => !idAfter || note._id.toHexString() > idAfter.toHexString())
+            .map((note) =>
+                Object.fromEntries(
+                    Object.entries(note).filter(([path]) =>
+                        included.length ? included.includes(path) : !excluded.includes(path)
+                    )
+                )
+            );
+        return { next: async () => remaining.shift() ?? null, close: async () => undefined };
+    };
+
+    beforeEach(() => {
+        const schema = new Schema(
+            { noteId: String, owner: { userId: String }, text: String, deletedAt: Number },
+            { bufferCommands: false }
+        );
+        registerHooks(schema);
+        const model = createConnection().model('HookedNote', schema);
+        find = jest.spyOn(model.collection, 'find').mockImplementation(findRawNotes as never);
+        service = new EventedNoteDbService(model as never, { record: jest.fn(), withTransaction: jest.fn() });
+    });
+
+    it('should read the ids hidden by the hooks without streaming them', async () => {
+        const onBatch = jest.fn();
+
+        await expect(service.streamInBatches(alice, { userId: 'alice' }, { batchSize: 5 }, onBatch)).resolves.toEqual({
+            documentCount: 2,
+            batchCount: 1,
+        });
+
+        const [[documents, lastId]] = onBatch.mock.calls;
+        expect(lastId).toBe(ids[2].toHexString());
+        expect(documents).toEqual([
+            { key: 'note-a', payload: { noteId: 'note-a', owner: { userId: 'alice' }, text: 'first' } },
+            { key: 'note-c', payload: { noteId: 'note-c', owner: { userId: 'alice' }, text: 'second' } },
+        ]);
+        expect(find.mock.calls[0][1].projection).toEqual({ deletedAt: 0 });
+    });
+
+    it('should resume after the checkpoint with keys only', async () => {
+        const onBatch = jest.fn();
+
+        await service.streamInBatches(
+            alice,
+            { userId: 'alice' },
+            { batchSize: 5, afterId: ids[0].toHexString(), keysOnly: true },
+            onBatch
+        );
+
+        expect(onBatch).toHaveBeenCalledWith([{ key: 'note-c', payload: { noteId: 'note-c' } }], ids[2].toHexString());
+    });
+});
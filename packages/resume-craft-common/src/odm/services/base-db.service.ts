@@ -10,11 +10,15 @@ import {
     QueryOptions,
 } from 'mongoose';
 
-import { BULK_WRITE_DEFAULT_BATCH_SIZE } from '../../constants';
+import { DB_CACHE_KEY_PREFIX, DEFAULT_REMOTE_CACHE_VERSION, hashCacheKeyPart, RemoteCacheService } from '../../cache';
+import { BULK_WRITE_DEFAULT_BATCH_SIZE, DBOperation } from '../../constants';
+import { getRequestContext } from '../../context';
 import { ErrorCode, ResumeCraftException } from '../../exceptions';
 import { LoggerFactory } from '../../logger';
 import { PopulateParam, QueryParams, RequestContext } from '../../types';
 import { buildQuery } from '../helpers';
+import { OutboxEvent } from '../models/schemas/outbox-event.schema';
+import { UserRole } from '../models/schemas/user.schema';
 
 type TenantIdentifier = {
     userId: string;
@@ -44,6 +48,40 @@ interface SessionInsertManyOptions extends InsertManyOptions {
     session?: ClientSession;
 }
 
+export type ChangeEvent = Pick<OutboxEvent, 'entity' | 'operation' | 'key' | 'payload'>;
+
+/**
+ * Where writes record their change events, implemented by `OutboxEventDbService`.
+ */
+export interface ChangeEventOutbox {
+    record(context: RequestContext, events: ChangeEvent[], session: ClientSession): Promise<void>;
+    withTransaction<T>(callback: (session: ClientSession) => Promise<T>): Promise<T>;
+}
+
+export type BaseDbServiceOptions = {
+    remoteCache?: RemoteCacheService | null;
+    outbox?: ChangeEventOutbox | null;
+};
+
+export type StreamedDocument = Pick<ChangeEvent, 'key' | 'payload'>;
+
+export type StreamInBatchesOptions = {
+    batchSize?: number;
+    afterId?: string | null;
+    keysOnly?: boolean;
+};
+
+export type StreamInBatchesResult = {
+    documentCount: number;
+    batchCount: number;
+};
+
+type ChangeEventSource = {
+    document?: unknown;
+    condition?: object;
+    changes?: object;
+};
+
 export abstract class BaseDbService<
     FieldsType,
     DocumentType,
@@ -54,8 +92,34 @@ export abstract class BaseDbService<
     protected _logger = LoggerFactory.getLogger(`BaseDbService:${this.constructor.name}`);
     protected _model: Model<HDocumentType>;
 
-    protected constructor(model: Model<HDocumentType>) {
+    /**
+     * Opt-in ownership mode: path of the field holding the id of the owning user.
+     * When set, the tenant identifier of read, update and delete conditions is taken from `context.userId`
+     * instead of the condition, so callers cannot reach documents of other users. Admins are not scoped.
+     */
+    protected readonly _ownerField: string | null = null;
+
+    /**
+     * Opt-in read-through cache of `findOne` and `findMany`, enabled by passing a remote cache to the constructor.
+     * Every write through this service invalidates the cached reads of the model.
+     */
+    protected readonly _remoteCache: RemoteCacheService | null;
+
+    /**
+     * Opt-in change events, enabled by passing an outbox to the constructor. Every create, update and delete then
+     * records an event in the outbox within the transaction of the write, starting one when the caller passed no
+     * session. `_changeEventKeyField` names the id used as the event key and `_changeEventExcludedFields` the
+     * fields, such as secrets, never copied into events.
+     */
+    protected readonly _outbox: ChangeEventOutbox | null;
+    protected readonly _changeEventKeyField: string | null = null;
+    protected readonly _changeEventExcludedFields: string[] = [];
+    private readonly _sessionsInvalidatingOnEnd = new WeakSet<ClientSession>();
+
+    protected constructor(model: Model<HDocumentType>, { remoteCache, outbox }: BaseDbServiceOptions = {}) {
         this._model = model;
+        this._remoteCache = remoteCache || null;
+        this._outbox = outbox || null;
     }
 
     async create(
@@ -63,10 +127,20 @@ export abstract class BaseDbService<
         documentData: DocumentType,
         options?: QueryOptions & { session?: ClientSession }
     ): Promise<DocumentType> {
+        if (this._isOutsideOutboxTransaction(options)) {
+            return this._withOutboxTransaction((session) =>
+                this.create(context, documentData, { ...options, session })
+            );
+        }
+
         try {
-            return (
-                await this._model.create([documentData], options?.session ? { session: options.session } : {})
-            )[0] as DocumentType;
+            const [document] = await this._model.create(
+                [documentData],
+                options?.session ? { session: options.session } : {}
+            );
+            await this._recordChangeEvents(context, DBOperation.CREATE, options?.session, [{ document }]);
+            await this._invalidateCache(options?.session);
+            return document as DocumentType;
         } catch (error) {
             this._logger.error({
                 [`Error while inserting document in ${this._model.name}`]: error,
@@ -80,11 +154,25 @@ export abstract class BaseDbService<
         documentData: DocumentType[],
         options?: SessionInsertManyOptions
     ): Promise<DocumentType[]> {
+        if (this._isOutsideOutboxTransaction(options)) {
+            return this._withOutboxTransaction((session) =>
+                this.createMany(context, documentData, { ...options, session })
+            );
+        }
+
         try {
-            return (await this._model.insertMany(
+            const documents = await this._model.insertMany(
                 documentData,
                 options?.session ? { session: options.session } : {}
-            )) as DocumentType[];
+            );
+            await this._recordChangeEvents(
+                context,
+                DBOperation.CREATE,
+                options?.session,
+                documents.map((document) => ({ document }))
+            );
+            await this._invalidateCache(options?.session);
+            return documents as DocumentType[];
         } catch (error) {
             this._logger.error({
                 [`Error while inserting documents in ${this._model.name}`]: error,
@@ -99,8 +187,14 @@ export abstract class BaseDbService<
         updatedData: Partial<DocumentType>,
         options?: SessionQueryOptions
     ): Promise<DocumentType> {
+        if (this._isOutsideOutboxTransaction(options)) {
+            return this._withOutboxTransaction((session) =>
+                this.updateOne(context, condition, updatedData, { ...options, session })
+            );
+        }
+
         try {
-            const { userId } = context;
+            const { userId } = this._getContext(context);
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.UPDATE_ONE);
             const existingDocument = (await this._model
                 .findOneAndUpdate(
@@ -130,6 +224,10 @@ export abstract class BaseDbService<
                 });
             }
 
+            await this._recordChangeEvents(context, DBOperation.UPDATE, options?.session, [
+                { document: existingDocument },
+            ]);
+            await this._invalidateCache(options?.session);
             return existingDocument;
         } catch (error) {
             this._logger.error({
@@ -147,8 +245,14 @@ export abstract class BaseDbService<
             session?: ClientSession;
         }
     ) {
+        if (this._isOutsideOutboxTransaction(options)) {
+            return this._withOutboxTransaction((session) =>
+                this.updateMany(context, condition, updatedData, { ...options, session })
+            );
+        }
+
         try {
-            const { userId } = context;
+            const { userId } = this._getContext(context);
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.UPDATE_MANY);
             const updatedStats = await this._model
                 .updateMany(
@@ -163,6 +267,10 @@ export abstract class BaseDbService<
                     options || {}
                 )
                 .exec();
+            await this._recordChangeEvents(context, DBOperation.UPDATE, options?.session, [
+                { condition: finalCondition, changes: updatedData },
+            ]);
+            await this._invalidateCache(options?.session);
             return updatedStats;
         } catch (error) {
             this._logger.error({
@@ -173,8 +281,14 @@ export abstract class BaseDbService<
     }
 
     async deleteOne(context: RequestContext, condition: SingleDocFetchConditionType, options?: SessionQueryOptions) {
+        if (this._isOutsideOutboxTransaction(options)) {
+            return this._withOutboxTransaction((session) =>
+                this.deleteOne(context, condition, { ...options, session })
+            );
+        }
+
         try {
-            const { userId } = context;
+            const { userId } = this._getContext(context);
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.DELETE_ONE);
             const existingDocument = await this._model
                 .findOneAndUpdate(
@@ -193,6 +307,10 @@ export abstract class BaseDbService<
             if (!existingDocument) {
                 throw new NotFoundException(`Document does not exist.`);
             }
+            await this._recordChangeEvents(context, DBOperation.DELETE, options?.session, [
+                { document: existingDocument },
+            ]);
+            await this._invalidateCache(options?.session);
             return existingDocument;
         } catch (error) {
             this._logger.error({
@@ -207,8 +325,15 @@ export abstract class BaseDbService<
         condition: MultiDocFetchConditionType,
         options?: { session?: ClientSession }
     ) {
+        if (this._isOutsideOutboxTransaction(options)) {
+            await this._withOutboxTransaction((session) =>
+                this.deleteMany(context, condition, { ...options, session })
+            );
+            return;
+        }
+
         try {
-            const { userId } = context;
+            const { userId } = this._getContext(context);
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.DELETE_MANY);
             await this._model
                 .updateMany(
@@ -223,6 +348,10 @@ export abstract class BaseDbService<
                     options || {}
                 )
                 .exec();
+            await this._recordChangeEvents(context, DBOperation.DELETE, options?.session, [
+                { condition: finalCondition },
+            ]);
+            await this._invalidateCache(options?.session);
         } catch (error) {
             this._logger.error({
                 [`Error while deleting (soft) document(s) in ${this._model.name}`]: error,
@@ -236,9 +365,18 @@ export abstract class BaseDbService<
         condition: SingleDocFetchConditionType,
         options?: { session?: ClientSession }
     ) {
+        if (this._isOutsideOutboxTransaction(options)) {
+            await this._withOutboxTransaction((session) => this.removeOne(context, condition, { ...options, session }));
+            return;
+        }
+
         try {
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.REMOVE_ONE);
             await this._model.deleteOne(finalCondition, options || {}).exec();
+            await this._recordChangeEvents(context, DBOperation.DELETE, options?.session, [
+                { condition: finalCondition },
+            ]);
+            await this._invalidateCache(options?.session);
         } catch (error) {
             this._logger.error({
                 [`Error while removing document in ${this._model.name}`]: error,
@@ -252,9 +390,20 @@ export abstract class BaseDbService<
         condition: MultiDocFetchConditionType,
         options?: { session?: ClientSession }
     ) {
+        if (this._isOutsideOutboxTransaction(options)) {
+            await this._withOutboxTransaction((session) =>
+                this.removeMany(context, condition, { ...options, session })
+            );
+            return;
+        }
+
         try {
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.REMOVE_MANY);
             await this._model.deleteMany(finalCondition, options || {}).exec();
+            await this._recordChangeEvents(context, DBOperation.DELETE, options?.session, [
+                { condition: finalCondition },
+            ]);
+            await this._invalidateCache(options?.session);
         } catch (error) {
             this._logger.error({
                 [`Error while removing documents in ${this._model.name}`]: error,
@@ -274,17 +423,29 @@ export abstract class BaseDbService<
             const { condition } = finalQueryParams;
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.FIND_ONE);
 
-            let query = this._model.findOne({ ...finalCondition });
-            if (options?.session) {
-                query = query.session(options.session);
-            }
-            query = buildQuery<FieldsType, HDocumentType, typeof query>(query, finalQueryParams, populateParams);
-            const finalQuery = this._transformQuery<HDocumentType, typeof query>(
+            return await this._readThrough(
                 context,
-                query,
-                DbOperationMethod.FIND_ONE
+                DbOperationMethod.FIND_ONE,
+                { ...finalQueryParams, condition: finalCondition, populateParams },
+                options,
+                async () => {
+                    let query = this._model.findOne({ ...finalCondition });
+                    if (options?.session) {
+                        query = query.session(options.session);
+                    }
+                    query = buildQuery<FieldsType, HDocumentType, typeof query>(
+                        query,
+                        finalQueryParams,
+                        populateParams
+                    );
+                    const finalQuery = this._transformQuery<HDocumentType, typeof query>(
+                        context,
+                        query,
+                        DbOperationMethod.FIND_ONE
+                    );
+                    return (await finalQuery.exec())?.toJSON() as DocumentType;
+                }
             );
-            return (await finalQuery.exec())?.toJSON() as DocumentType;
         } catch (error) {
             this._logger.error({
                 [`Error while fetching document from ${this._model.name}`]: error,
@@ -304,18 +465,31 @@ export abstract class BaseDbService<
             const { condition } = finalQueryParams;
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.FIND_MANY);
 
-            let query = this._model.find({ ...finalCondition });
-            if (options?.session) {
-                query = query.session(options.session);
-            }
-            query = buildQuery<FieldsType, HDocumentType, typeof query>(query, finalQueryParams, populateParams);
-            const finalQuery = this._transformQuery<HDocumentType, typeof query>(
+            return await this._readThrough(
                 context,
-                query,
-                DbOperationMethod.FIND_MANY
+                DbOperationMethod.FIND_MANY,
+                { ...finalQueryParams, condition: finalCondition, populateParams },
+                options,
+                async () => {
+                    let query = this._model.find({ ...finalCondition });
+                    if (options?.session) {
+                        query = query.session(options.session);
+                    }
+                    query = buildQuery<FieldsType, HDocumentType, typeof query>(
+                        query,
+                        finalQueryParams,
+                        populateParams
+                    );
+                    const finalQuery = this._transformQuery<HDocumentType, typeof query>(
+                        context,
+                        query,
+                        DbOperationMethod.FIND_MANY
+                    );
+
+                    const documents = await finalQuery.exec();
+                    return documents.map((document) => document.toJSON() as DocumentType);
+                }
             );
-
-            return (await finalQuery.exec()) as DocumentType[];
         } catch (error) {
             this._logger.error({
                 [`Error while fetching documents from ${this._model.name}`]: error,
@@ -388,6 +562,12 @@ export abstract class BaseDbService<
             session?: ClientSession;
         }
     ) {
+        if (this._isOutsideOutboxTransaction(options)) {
+            return this._withOutboxTransaction((session) =>
+                this.bulkUpdate(context, condition, updatedData, { ...options, session })
+            );
+        }
+
         try {
             const { batchSize = BULK_WRITE_DEFAULT_BATCH_SIZE, parallel = false, session } = options || {};
             const finalCondition = this._transformWhereCondition(context, condition, DbOperationMethod.FIND_MANY);
@@ -397,6 +577,10 @@ export abstract class BaseDbService<
                 batchSize: processedBatchSize,
                 failedBatches,
             } = await this._processBulkUpdate(finalCondition, updatedData, batchSize, parallel, session);
+            await this._recordChangeEvents(context, DBOperation.UPDATE, session, [
+                { condition: finalCondition, changes: updatedData },
+            ]);
+            await this._invalidateCache(session);
 
             return {
                 successCount,
@@ -412,6 +596,63 @@ export abstract class BaseDbService<
         }
     }
 
+    /**
+     * Reads the documents matching `condition` with a cursor in `_id` order and hands them to `onBatch`
+     * `batchSize` at a time, shaped like change event documents, along with the `_id` of the last one. Passing
+     * that id back as `afterId` resumes the scan after it, and `onBatch` returning `false` stops the scan.
+     * With `keysOnly` the payloads hold nothing but the change event key field.
+     */
+    async streamInBatches(
+        context: RequestContext,
+        condition: MultiDocFetchConditionType,
+        { batchSize = BULK_WRITE_DEFAULT_BATCH_SIZE, afterId = null, keysOnly = false }: StreamInBatchesOptions,
+        onBatch: (documents: StreamedDocument[], lastId: string) => Promise<boolean | void>
+    ): Promise<StreamInBatchesResult> {
+        try {
+            const finalCondition = this._transformWhereCondition(
+                context,
+                { ...condition },
+                DbOperationMethod.FIND_MANY
+            );
+            // `_id` is hidden from queries by default, but it orders the scan and is the checkpoint of the batches.
+            const query = this._model
+                .find({ ...finalCondition, ...(afterId ? { _id: { $gt: afterId } } : {}) })
+                .select(keysOnly ? ['_id', this._changeEventKeyField].filter(Boolean).join(' ') : '+_id')
+                .sort({ _id: 1 })
+                .batchSize(batchSize);
+
+            const result: StreamInBatchesResult = { documentCount: 0, batchCount: 0 };
+            const cursor = query.cursor();
+            try {
+                let documents: StreamedDocument[] = [];
+                let doc = await cursor.next();
+                while (doc !== null) {
+                    documents.push(this._toStreamedDocument(doc));
+                    const lastId = doc._id.toString();
+                    doc = await cursor.next();
+
+                    if (documents.length === batchSize || doc === null) {
+                        result.documentCount += documents.length;
+                        result.batchCount += 1;
+                        if ((await onBatch(documents, lastId)) === false) {
+                            break;
+                        }
+                        documents = [];
+                    }
+                }
+            } finally {
+                await cursor.close();
+            }
+
+            return result;
+        } catch (error) {
+            this._logger.error({
+                [`Error while streaming document(s) from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
     protected async _processBulkUpdate(
         finalCondition: SingleDocFetchConditionType | MultiDocFetchConditionType,
         dataToUpdate: Partial<DocumentType>,
@@ -495,6 +736,152 @@ export abstract class BaseDbService<
         }
     }
 
+    /**
+     * Serves a read from the remote cache, loading and caching it on a miss. Reads inside a transaction and
+     * requests without `isReqCachingEnabled` go straight to the database. Keys hold the cache version of the
+     * request, the model, its write generation and the normalised query, so bumping the generation on every
+     * write retires all cached reads of the model at once. Cache errors fall back to the database, and cached
+     * documents come back as plain objects.
+     */
+    protected async _readThrough<ResultType>(
+        context: RequestContext,
+        dbOperationMethod: DbOperationMethod,
+        query: object,
+        options: SessionQueryOptions | undefined,
+        load: () => Promise<ResultType>
+    ): Promise<ResultType> {
+        const { isReqCachingEnabled, remoteCacheVersion } = this._getContext(context);
+        if (!this._remoteCache || !isReqCachingEnabled || options?.session) {
+            return load();
+        }
+
+        let cacheKey: string;
+        try {
+            // The generation is read before loading, so a write racing this read leaves it under a retired key.
+            const generation = await this._remoteCache.getCounter(this._getCacheGenerationKey());
+            cacheKey = [
+                DB_CACHE_KEY_PREFIX,
+                remoteCacheVersion || DEFAULT_REMOTE_CACHE_VERSION,
+                this._model.modelName,
+                generation,
+                dbOperationMethod,
+                hashCacheKeyPart(query),
+            ].join(':');
+
+            const cachedResult = await this._remoteCache.get<ResultType>(cacheKey);
+            if (cachedResult !== undefined) {
+                return cachedResult;
+            }
+        } catch (error) {
+            this._logger.warn({
+                [`Error while reading the cache of ${this._model.modelName}`]: error.message,
+            });
+            return load();
+        }
+
+        const result = await load();
+        if (result !== undefined && result !== null) {
+            await this._remoteCache.set(cacheKey, result).catch((error) =>
+                this._logger.warn({
+                    [`Error while caching a read of ${this._model.modelName}`]: error.message,
+                })
+            );
+        }
+        return result;
+    }
+
+    /**
+     * Bumps the cache generation of the model once the write is visible to other reads. A read running before the
+     * transaction of the write commits would cache the previous documents under the new generation, so writes in
+     * a transaction bump it when its session ends, or right after the commit of the transactions opened here.
+     * A failed invalidation is logged rather than failing a write that already happened; the cached reads then
+     * expire with their TTL.
+     */
+    protected async _invalidateCache(session?: ClientSession): Promise<void> {
+        if (!this._remoteCache) {
+            return;
+        }
+
+        if (session?.inTransaction()) {
+            if (!this._sessionsInvalidatingOnEnd.has(session)) {
+                this._sessionsInvalidatingOnEnd.add(session);
+                session.once('ended', () => this._invalidateCache());
+            }
+            return;
+        }
+
+        try {
+            await this._remoteCache.incrementCounter(this._getCacheGenerationKey());
+        } catch (error) {
+            this._logger.error({
+                [`Error while invalidating the cache of ${this._model.modelName}`]: error.message,
+            });
+        }
+    }
+
+    private async _withOutboxTransaction<T>(callback: (session: ClientSession) => Promise<T>): Promise<T> {
+        const result = await this._outbox.withTransaction((session) => {
+            // The cache is invalidated below once the transaction committed, not when the session ends.
+            this._sessionsInvalidatingOnEnd.add(session);
+            return callback(session);
+        });
+        await this._invalidateCache();
+        return result;
+    }
+
+    private _isOutsideOutboxTransaction(options?: { session?: ClientSession }): boolean {
+        return !!this._outbox && !options?.session;
+    }
+
+    protected async _recordChangeEvents(
+        context: RequestContext,
+        operation: DBOperation,
+        session: ClientSession,
+        sources: ChangeEventSource[]
+    ): Promise<void> {
+        if (!this._outbox) {
+            return;
+        }
+
+        const events = sources.map(({ document, condition, changes }): ChangeEvent => {
+            const documentPayload = document ? this._toChangeEventPayload(document) : null;
+            const conditionPayload = condition ? this._toChangeEventPayload(condition) : null;
+            const key = this._changeEventKeyField
+                ? (documentPayload || conditionPayload)?.[this._changeEventKeyField]
+                : null;
+
+            return {
+                entity: this._model.modelName,
+                operation,
+                key: typeof key === 'string' ? key : null,
+                payload: {
+                    ...(documentPayload ? { document: documentPayload } : {}),
+                    ...(conditionPayload ? { condition: conditionPayload } : {}),
+                    ...(changes ? { changes: this._toChangeEventPayload(changes) } : {}),
+                },
+            };
+        });
+        await this._outbox.record(this._getContext(context), events, session);
+    }
+
+    private _toStreamedDocument(doc: unknown): StreamedDocument {
+        const payload = this._toChangeEventPayload(doc);
+        const key = this._changeEventKeyField ? payload[this._changeEventKeyField] : null;
+        return { key: typeof key === 'string' ? key : null, payload };
+    }
+
+    private _toChangeEventPayload(value: unknown): Record<string, unknown> {
+        // The JSON round trip turns mongoose documents, UUIDs and dates into plain values.
+        const { _id, __v, ...payload } = JSON.parse(JSON.stringify(value));
+        this._changeEventExcludedFields.forEach((field) => delete payload[field]);
+        return payload;
+    }
+
+    private _getCacheGenerationKey(): string {
+        // Not versioned, so a write invalidates the reads cached under every cache version.
+        return `${DB_CACHE_KEY_PREFIX}:${this._model.modelName}:generation`;
+    }
+
     protected _transformQuery<DocType extends Document, QueryType extends Query<unknown, DocType>>(
         context: RequestContext,
         query: QueryType,
@@ -516,6 +903,8 @@ export abstract class BaseDbService<
         condition: SingleDocFetchConditionType | MultiDocFetchConditionType,
         dbOperationMethod: DbOperationMethod
     ) {
+        // eslint-disable-next-line no-param-reassign
+        condition = this._applyOwnershipScope(context, condition, dbOperationMethod);
         Object.keys(condition).forEach((key) => {
             // Skip MongoDB operators that expect arrays (like $or, $and, $nor, etc.)
             if (key.startsWith('$')) {
@@ -537,6 +926,37 @@ export abstract class BaseDbService<
         return condition;
     }
 
+    protected _applyOwnershipScope<ConditionType extends SingleDocFetchConditionType | MultiDocFetchConditionType>(
+        context: RequestContext,
+        condition: ConditionType,
+        dbOperationMethod: DbOperationMethod
+    ): ConditionType {
+        if (!this._ownerField) {
+            return condition;
+        }
+
+        const { userId, ...restCondition } = condition;
+        const { userId: contextUserId, userRole } = this._getContext(context);
+        if (userRole === UserRole.Admin) {
+            return restCondition as unknown as ConditionType;
+        }
+
+        if (!contextUserId) {
+            throw new ResumeCraftException(ErrorCode.AUTHORIZATION_ERROR, {
+                message: `Cannot ${dbOperationMethod} ${this._model.modelName} documents without a user in context`,
+            });
+        }
+
+        return { ...restCondition, [this._ownerField]: contextUserId } as unknown as ConditionType;
+    }
+
+    /**
+     * The context passed by the caller, or else the one of the current request, Kafka message or job.
+     */
+    protected _getContext(context?: RequestContext): RequestContext {
+        return context || getRequestContext() || {};
+    }
+
     protected _buildSingleDocConditionFromDoc(context: RequestContext, doc: DocumentType): SingleDocFetchConditionType {
         return null as unknown as SingleDocFetchConditionType;
     }
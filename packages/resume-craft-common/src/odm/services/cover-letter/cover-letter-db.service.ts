@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    COVER_LETTER_OWNER_ID_PATH,
+    CoverLetter,
+    CoverLetterDocument,
+    CoverLetterFields,
+    CoverLetterFieldsQueryConditionType,
+    ListCoverLetterQueryConditionType,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import {
+    getCoverLetterListCondition,
+    getCoverLetterListSortingCondition,
+    getCoverLetterPaginationCondition,
+} from './filter.helper';
+
+@Injectable()
+export class CoverLetterDbService extends BaseDbService<
+    CoverLetterFields,
+    CoverLetter,
+    CoverLetterFieldsQueryConditionType,
+    CoverLetterFieldsQueryConditionType
+> {
+    protected readonly _ownerField = COVER_LETTER_OWNER_ID_PATH;
+
+    protected readonly _changeEventKeyField = CoverLetterFields.CoverLetterId;
+
+    constructor(
+        @InjectModel(CoverLetter.name)
+        private readonly coverLetterModel: Model<CoverLetterDocument>,
+        outboxEventDbService?: OutboxEventDbService
+    ) {
+        super(coverLetterModel, { outbox: outboxEventDbService });
+    }
+
+    /**
+     * Lists cover letters by title, without their content.
+     */
+    async listCoverLetters(
+        context: RequestContext,
+        input: ListCoverLetterQueryConditionType,
+        size: number
+    ): Promise<CoverLetter[]> {
+        try {
+            const condition = getCoverLetterPaginationCondition(
+                getCoverLetterListCondition(input),
+                input.nextPageToken
+            );
+
+            const coverLetters = await this.coverLetterModel
+                .find(condition)
+                .select({ [CoverLetterFields.Content]: 0 })
+                .sort(getCoverLetterListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return coverLetters.map((coverLetter) => coverLetter.toJSON() as CoverLetter);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import { UUID } from 'bson';
+import { escapeRegExp } from 'lodash';
+
+import { MatchConditionType } from '../../../types';
+import { decodeCursor } from '../../helpers';
+import { COVER_LETTER_OWNER_ID_PATH, CoverLetterFields, ListCoverLetterQueryConditionType } from '../../models';
+
+export const getCoverLetterListCondition = ({
+    userId,
+    q,
+    resumeId,
+    jobDescriptionId,
+}: Pick<ListCoverLetterQueryConditionType, 'userId' | 'q' | 'resumeId' | 'jobDescriptionId'>): MatchConditionType => {
+    const condition: MatchConditionType = {
+        [COVER_LETTER_OWNER_ID_PATH]: userId,
+    };
+
+    if (resumeId) {
+        condition[CoverLetterFields.ResumeId] = resumeId;
+    }
+    if (jobDescriptionId) {
+        condition[CoverLetterFields.JobDescriptionId] = jobDescriptionId;
+    }
+    if (q) {
+        condition[CoverLetterFields.Title] = { $regex: escapeRegExp(q), $options: 'i' };
+    }
+
+    return condition;
+};
+
+export const getCoverLetterPaginationCondition = (
+    condition: MatchConditionType,
+    nextPageToken: string
+): MatchConditionType => {
+    if (!nextPageToken) {
+        return { ...condition };
+    }
+
+    const { name, id } = decodeCursor(nextPageToken);
+
+    return {
+        ...condition,
+        $or: [
+            { [CoverLetterFields.Title]: { $gt: name } },
+            {
+                [CoverLetterFields.Title]: name,
+                [CoverLetterFields.CoverLetterId]: { $gt: new UUID(id) },
+            },
+        ],
+    };
+};
+
+export const getCoverLetterListSortingCondition = (): Record<string, 1 | -1> => {
+    return {
+        [CoverLetterFields.Title]: 1,
+        [CoverLetterFields.CoverLetterId]: 1,
+    };
+};
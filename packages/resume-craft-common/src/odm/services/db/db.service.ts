@@ -1,19 +1,30 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Injectable, OnModuleInit, Optional } from '@nestjs/common';
 import { InjectConnection } from '@nestjs/mongoose';
-import { ClientSession, Connection } from 'mongoose';
+import { ClientSession, Connection, ConnectionStates } from 'mongoose';
 
+import { TRANSACTION_MAX_ATTEMPTS, TRANSACTION_RETRY_DELAY_MS } from '../../../constants';
 import { ErrorCode, ResumeCraftException } from '../../../exceptions';
 import { LoggerFactory } from '../../../logger';
+import { ProbeRegistryService } from '../../../probes/probe-registry.service';
 import { IDBService, Initiable } from '../../../types';
+import { isTransientTransactionError } from '../../helpers/transaction.helper';
 
 @Injectable()
 export class DbService implements IDBService, Initiable, OnModuleInit {
     isConnected = false;
     private readonly logger = LoggerFactory.getLogger(DbService.name);
 
-    constructor(@InjectConnection() private readonly db: Connection) {}
+    constructor(
+        @InjectConnection() private readonly db: Connection,
+        @Optional() private readonly probeRegistryService?: ProbeRegistryService
+    ) {}
 
     onModuleInit() {
+        this.probeRegistryService?.register({
+            name: 'mongodb',
+            check: () => this.checkConnection(),
+        });
+
         this.db.on('connected', () => {
             this.isConnected = true;
             this.logger.log('Connected to database');
@@ -42,7 +53,7 @@ export class DbService implements IDBService, Initiable, OnModuleInit {
          * - 3 = disconnecting
          * - 99 = uninitialized
          */
-        return this.isInitialized;
+        return this.getDBConnection()?.readyState === ConnectionStates.connected;
     }
 
     public async checkConnection(): Promise<boolean> {
@@ -100,6 +111,8 @@ export class DbService implements IDBService, Initiable, OnModuleInit {
      * To be used when you want to manually control the transaction
      * If the businessCallback throws an error, the transaction will be aborted
      * But before aborting the transaction, the beforeAbortCallback will be called
+     * A transaction aborted by a transient error, such as a write conflict with a concurrent transaction, is run
+     * again from the start with a growing delay, up to TRANSACTION_MAX_ATTEMPTS times
      * @param businessCallback Function to execute within the transaction
      * @param beforeAbortCallback Optional callback to execute before aborting the transaction
      * @returns The value returned by the businessCallback
@@ -109,19 +122,34 @@ export class DbService implements IDBService, Initiable, OnModuleInit {
         beforeAbortCallback?: (error: unknown) => Promise<void> | void
     ): Promise<T> {
         const session = await this.db.startSession();
-        let error: unknown;
-        session.startTransaction();
         try {
-            const result = await businessCallback(session);
-            await session.commitTransaction();
-            return result;
-        } catch (err: unknown) {
-            error = err;
-            if (beforeAbortCallback) {
-                await beforeAbortCallback(error);
+            for (let attempts = 1; ; attempts += 1) {
+                session.startTransaction();
+                try {
+                    const result = await businessCallback(session);
+                    await session.commitTransaction();
+                    return result;
+                } catch (error: unknown) {
+                    if (beforeAbortCallback) {
+                        await beforeAbortCallback(error);
+                    }
+                    if (session.inTransaction()) {
+                        await session.abortTransaction();
+                    }
+                    if (attempts >= TRANSACTION_MAX_ATTEMPTS || !isTransientTransactionError(error)) {
+                        throw error;
+                    }
+
+                    this.logger.warn({
+                        ref: `Warning: retrying a transaction aborted by a transient error ${(error as Error).message}`,
+                        attempts,
+                    });
+                    // Gives the conflicting transaction time to finish before running into it again.
+                    await new Promise((resolve) => {
+                        setTimeout(resolve, TRANSACTION_RETRY_DELAY_MS * attempts);
+                    });
+                }
             }
-            await session.abortTransaction();
-            throw error;
         } finally {
             session.endSession();
         }
@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import {
+    HistoricalIngestionJob,
+    HistoricalIngestionJobDocument,
+    HistoricalIngestionJobFields,
+    HistoricalIngestionJobFieldsQueryConditionType,
+    HistoricalIngestionJobStatus,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+
+@Injectable()
+export class HistoricalIngestionJobDbService extends BaseDbService<
+    HistoricalIngestionJobFields,
+    HistoricalIngestionJob,
+    HistoricalIngestionJobFieldsQueryConditionType,
+    HistoricalIngestionJobFieldsQueryConditionType
+> {
+    // A job belongs to the user who requested it.
+    protected readonly _ownerField = HistoricalIngestionJobFields.CreatedBy;
+
+    constructor(
+        @InjectModel(HistoricalIngestionJob.name)
+        private readonly historicalIngestionJobModel: Model<HistoricalIngestionJobDocument>
+    ) {
+        super(historicalIngestionJobModel);
+    }
+
+    /**
+     * Leases the oldest job that is pending, or running under a lease that has ended because its runner died
+     * or gave it up, for `leaseMs`. The `attempts` of the claimed job identify the lease: every later update of
+     * the run passes them, so a runner whose lease was taken over can no longer change the job.
+     */
+    async claimNextJob(leaseMs: number): Promise<HistoricalIngestionJob | null> {
+        try {
+            const now = Date.now();
+            const job = await this.historicalIngestionJobModel
+                .findOneAndUpdate(
+                    {
+                        [HistoricalIngestionJobFields.Status]: {
+                            $in: [HistoricalIngestionJobStatus.Pending, HistoricalIngestionJobStatus.Running],
+                        },
+                        [HistoricalIngestionJobFields.LeaseExpiresAt]: { $lte: now },
+                    },
+                    {
+                        $set: {
+                            [HistoricalIngestionJobFields.Status]: HistoricalIngestionJobStatus.Running,
+                            [HistoricalIngestionJobFields.LeaseExpiresAt]: now + leaseMs,
+                        },
+                        $inc: { [HistoricalIngestionJobFields.Attempts]: 1 },
+                    },
+                    { new: true, sort: { _id: 1 }, select: '-__v -_id' }
+                )
+                .exec();
+            return job ? (job.toJSON() as HistoricalIngestionJob) : null;
+        } catch (error) {
+            this._logger.error({
+                [`Error while claiming document in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Moves the checkpoint of a job past a published batch and extends its lease.
+     * @returns `false` when the lease was taken over and nothing was recorded
+     */
+    async recordBatch(
+        jobId: string,
+        attempts: number,
+        lastDocumentId: string,
+        documentCount: number,
+        leaseMs: number
+    ): Promise<boolean> {
+        return this._updateJob(jobId, attempts, {
+            $set: {
+                [HistoricalIngestionJobFields.LastDocumentId]: lastDocumentId,
+                [HistoricalIngestionJobFields.LeaseExpiresAt]: Date.now() + leaseMs,
+            },
+            $inc: {
+                [HistoricalIngestionJobFields.DocumentCount]: documentCount,
+                [HistoricalIngestionJobFields.BatchCount]: 1,
+            },
+        });
+    }
+
+    async markCompleted(jobId: string, attempts: number, completedAt: number): Promise<boolean> {
+        return this._updateJob(jobId, attempts, {
+            $set: {
+                [HistoricalIngestionJobFields.Status]: HistoricalIngestionJobStatus.Completed,
+                [HistoricalIngestionJobFields.CompletedAt]: completedAt,
+                [HistoricalIngestionJobFields.LastError]: null,
+            },
+        });
+    }
+
+    /**
+     * Hands a running job back to be claimed again from `retryAt`, or marks it failed for good when `retryAt`
+     * is `null`.
+     */
+    async releaseJob(
+        jobId: string,
+        attempts: number,
+        lastError: string | null,
+        retryAt: number | null
+    ): Promise<boolean> {
+        return this._updateJob(jobId, attempts, {
+            $set: {
+                [HistoricalIngestionJobFields.LastError]: lastError,
+                ...(retryAt === null
+                    ? {
+                          [HistoricalIngestionJobFields.Status]: HistoricalIngestionJobStatus.Failed,
+                          [HistoricalIngestionJobFields.CompletedAt]: Date.now(),
+                      }
+                    : { [HistoricalIngestionJobFields.LeaseExpiresAt]: retryAt }),
+            },
+        });
+    }
+
+    private async _updateJob(jobId: string, attempts: number, update: object): Promise<boolean> {
+        try {
+            const { matchedCount } = await this.historicalIngestionJobModel
+                .updateOne(
+                    { [HistoricalIngestionJobFields.JobId]: jobId, [HistoricalIngestionJobFields.Attempts]: attempts },
+                    update
+                )
+                .exec();
+            return matchedCount > 0;
+        } catch (error) {
+            this._logger.error({
+                [`Error while updating document in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
@@ -2,3 +2,12 @@ export * from './base-db.service';
 export * from './db/db.service';
 export * from './mongoose-config/mongoose-config.service';
 export * from './user/user-db.service';
+export * from './resume/resume-db.service';
+export * from './refresh-token/refresh-token-db.service';
+export * from './template/template-db.service';
+export * from './resume-version/resume-version-db.service';
+export * from './share-link/share-link-db.service';
+export * from './job-description/job-description-db.service';
+export * from './cover-letter/cover-letter-db.service';
+export * from './outbox-event/outbox-event-db.service';
+export * from './historical-ingestion-job/historical-ingestion-job-db.service';
@@ -0,0 +1,50 @@
+import { UUID } from 'bson';
+import { escapeRegExp } from 'lodash';
+
+import { MatchConditionType } from '../../../types';
+import { decodeCursor } from '../../helpers';
+import { JOB_DESCRIPTION_OWNER_ID_PATH, JobDescriptionFields } from '../../models';
+
+export const getJobDescriptionListCondition = (userId: string, q?: string): MatchConditionType => {
+    const condition: MatchConditionType = {
+        [JOB_DESCRIPTION_OWNER_ID_PATH]: userId,
+    };
+
+    if (q) {
+        const search = { $regex: escapeRegExp(q), $options: 'i' };
+        condition.$and = [
+            { $or: [{ [JobDescriptionFields.Title]: search }, { [JobDescriptionFields.Company]: search }] },
+        ];
+    }
+
+    return condition;
+};
+
+export const getJobDescriptionPaginationCondition = (
+    condition: MatchConditionType,
+    nextPageToken: string
+): MatchConditionType => {
+    if (!nextPageToken) {
+        return { ...condition };
+    }
+
+    const { name, id } = decodeCursor(nextPageToken);
+
+    return {
+        ...condition,
+        $or: [
+            { [JobDescriptionFields.Title]: { $gt: name } },
+            {
+                [JobDescriptionFields.Title]: name,
+                [JobDescriptionFields.JobDescriptionId]: { $gt: new UUID(id) },
+            },
+        ],
+    };
+};
+
+export const getJobDescriptionListSortingCondition = (): Record<string, 1 | -1> => {
+    return {
+        [JobDescriptionFields.Title]: 1,
+        [JobDescriptionFields.JobDescriptionId]: 1,
+    };
+};
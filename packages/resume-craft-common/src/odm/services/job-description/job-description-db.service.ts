@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    JOB_DESCRIPTION_OWNER_ID_PATH,
+    JobDescription,
+    JobDescriptionDocument,
+    JobDescriptionFields,
+    JobDescriptionFieldsQueryConditionType,
+    ListJobDescriptionQueryConditionType,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import {
+    getJobDescriptionListCondition,
+    getJobDescriptionListSortingCondition,
+    getJobDescriptionPaginationCondition,
+} from './filter.helper';
+
+@Injectable()
+export class JobDescriptionDbService extends BaseDbService<
+    JobDescriptionFields,
+    JobDescription,
+    JobDescriptionFieldsQueryConditionType,
+    JobDescriptionFieldsQueryConditionType
+> {
+    protected readonly _ownerField = JOB_DESCRIPTION_OWNER_ID_PATH;
+
+    protected readonly _changeEventKeyField = JobDescriptionFields.JobDescriptionId;
+
+    constructor(
+        @InjectModel(JobDescription.name)
+        private readonly jobDescriptionModel: Model<JobDescriptionDocument>,
+        outboxEventDbService?: OutboxEventDbService
+    ) {
+        super(jobDescriptionModel, { outbox: outboxEventDbService });
+    }
+
+    /**
+     * Lists job descriptions by title, without their text.
+     */
+    async listJobDescriptions(
+        context: RequestContext,
+        input: ListJobDescriptionQueryConditionType,
+        size: number
+    ): Promise<JobDescription[]> {
+        try {
+            const { userId, nextPageToken, q } = input;
+            const condition = getJobDescriptionPaginationCondition(
+                getJobDescriptionListCondition(userId, q),
+                nextPageToken
+            );
+
+            const jobDescriptions = await this.jobDescriptionModel
+                .find(condition)
+                .select({ [JobDescriptionFields.RawText]: 0 })
+                .sort(getJobDescriptionListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return jobDescriptions.map((jobDescription) => jobDescription.toJSON() as JobDescription);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { generateUUIDV4 } from '../../../helpers/uuid.helper';
+import { RequestContext } from '../../../types';
+import {
+    OutboxEvent,
+    OutboxEventDocument,
+    OutboxEventFields,
+    OutboxEventFieldsQueryConditionType,
+    OutboxEventStatus,
+} from '../../models';
+import { BaseDbService, ChangeEvent, ChangeEventOutbox } from '../base-db.service';
+import { DbService } from '../db/db.service';
+
+@Injectable()
+export class OutboxEventDbService
+    extends BaseDbService<
+        OutboxEventFields,
+        OutboxEvent,
+        OutboxEventFieldsQueryConditionType,
+        OutboxEventFieldsQueryConditionType
+    >
+    implements ChangeEventOutbox
+{
+    constructor(
+        @InjectModel(OutboxEvent.name)
+        private readonly outboxEventModel: Model<OutboxEventDocument>,
+        private readonly dbService: DbService
+    ) {
+        super(outboxEventModel);
+    }
+
+    async record(context: RequestContext, events: ChangeEvent[], session: ClientSession): Promise<void> {
+        if (!events.length) {
+            return;
+        }
+
+        const now = Date.now();
+        await this.outboxEventModel.insertMany(
+            events.map((event) => ({
+                ...event,
+                [OutboxEventFields.EventId]: generateUUIDV4(),
+                [OutboxEventFields.Status]: OutboxEventStatus.Pending,
+                [OutboxEventFields.Attempts]: 0,
+                [OutboxEventFields.NextAttemptAt]: now,
+                [OutboxEventFields.CorrelationId]: context?.correlationId || null,
+                [OutboxEventFields.CreatedAt]: now,
+                [OutboxEventFields.CreatedBy]: context?.userId || null,
+            })),
+            { session }
+        );
+    }
+
+    withTransaction<T>(callback: (session: ClientSession) => Promise<T>): Promise<T> {
+        return this.dbService.withManualTransaction(callback);
+    }
+
+    /**
+     * Leases up to `limit` due pending events, oldest first, by pushing their next attempt `leaseMs` ahead.
+     * An event whose relay dies before settling it becomes due again once the lease ends, so it is published
+     * at least once even if that means publishing it twice.
+     */
+    async claimPendingEvents(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+        try {
+            const now = Date.now();
+            const events: OutboxEvent[] = [];
+            while (events.length < limit) {
+                const event = await this.outboxEventModel
+                    .findOneAndUpdate(
+                        {
+                            [OutboxEventFields.Status]: OutboxEventStatus.Pending,
+                            [OutboxEventFields.NextAttemptAt]: { $lte: now },
+                        },
+                        {
+                            $set: { [OutboxEventFields.NextAttemptAt]: now + leaseMs },
+                            $inc: { [OutboxEventFields.Attempts]: 1 },
+                        },
+                        { new: true, sort: { _id: 1 }, select: '-__v -_id' }
+                    )
+                    .exec();
+                if (!event) {
+                    break;
+                }
+                events.push(event.toJSON() as OutboxEvent);
+            }
+            return events;
+        } catch (error) {
+            this._logger.error({
+                [`Error while claiming documents in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    async markPublished(eventIds: string[]): Promise<void> {
+        try {
+            await this.outboxEventModel
+                .updateMany(
+                    { [OutboxEventFields.EventId]: { $in: eventIds } },
+                    {
+                        $set: {
+                            [OutboxEventFields.Status]: OutboxEventStatus.Published,
+                            [OutboxEventFields.PublishedAt]: Date.now(),
+                            [OutboxEventFields.LastError]: null,
+                        },
+                    }
+                )
+                .exec();
+        } catch (error) {
+            this._logger.error({
+                [`Error while updating document(s) in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Schedules the next attempt of the events, or marks them failed for good when `nextAttemptAt` is `null`.
+     */
+    async markAttemptFailed(eventIds: string[], lastError: string, nextAttemptAt: number | null): Promise<void> {
+        try {
+            await this.outboxEventModel
+                .updateMany(
+                    { [OutboxEventFields.EventId]: { $in: eventIds } },
+                    {
+                        $set: {
+                            [OutboxEventFields.LastError]: lastError,
+                            ...(nextAttemptAt === null
+                                ? { [OutboxEventFields.Status]: OutboxEventStatus.Failed }
+                                : { [OutboxEventFields.NextAttemptAt]: nextAttemptAt }),
+                        },
+                    }
+                )
+                .exec();
+        } catch (error) {
+            this._logger.error({
+                [`Error while updating document(s) in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
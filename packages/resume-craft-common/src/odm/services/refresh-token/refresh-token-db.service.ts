@@ -0,0 +1,99 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    RefreshToken,
+    RefreshTokenDocument,
+    RefreshTokenFields,
+    RefreshTokenFieldsQueryConditionType,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+
+@Injectable()
+export class RefreshTokenDbService extends BaseDbService<
+    RefreshTokenFields,
+    RefreshToken,
+    RefreshTokenFieldsQueryConditionType,
+    RefreshTokenFieldsQueryConditionType
+> {
+    constructor(
+        @InjectModel(RefreshToken.name)
+        private readonly refreshTokenModel: Model<RefreshTokenDocument>
+    ) {
+        super(refreshTokenModel);
+    }
+
+    /**
+     * Refresh requests are unauthenticated, so the token is looked up by its hash alone.
+     */
+    async findByTokenHash(
+        context: RequestContext,
+        tokenHash: string,
+        options?: { session?: ClientSession }
+    ): Promise<RefreshToken> {
+        try {
+            const query = this.refreshTokenModel.findOne({ [RefreshTokenFields.TokenHash]: tokenHash });
+            if (options?.session) {
+                query.session(options.session);
+            }
+            return (await query.exec())?.toJSON() as RefreshToken;
+        } catch (error) {
+            this._logger.error({
+                [`Error while fetching document from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Revokes a token only if it is still active.
+     *
+     * @returns `false` when the token was already revoked, i.e. it is being reused.
+     */
+    async revokeToken(
+        context: RequestContext,
+        refreshTokenId: string,
+        replacedBy: string | null,
+        options?: { session?: ClientSession }
+    ): Promise<boolean> {
+        try {
+            const now = Date.now();
+            const revokedToken = await this.refreshTokenModel
+                .findOneAndUpdate(
+                    { [RefreshTokenFields.RefreshTokenId]: refreshTokenId, [RefreshTokenFields.RevokedAt]: null },
+                    {
+                        $set: {
+                            [RefreshTokenFields.RevokedAt]: now,
+                            [RefreshTokenFields.ReplacedBy]: replacedBy,
+                            [RefreshTokenFields.ModifiedAt]: now,
+                            [RefreshTokenFields.ModifiedBy]: context.userId,
+                        },
+                    },
+                    options?.session ? { session: options.session } : {}
+                )
+                .exec();
+
+            return !!revokedToken;
+        } catch (error) {
+            this._logger.error({
+                [`Error while revoking document in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Revokes every token descending from the same login, used when a revoked token is presented again.
+     */
+    async revokeFamily(
+        context: RequestContext,
+        userId: string,
+        familyId: string,
+        options?: { session?: ClientSession }
+    ) {
+        return this.updateMany(context, { userId, familyId }, { [RefreshTokenFields.RevokedAt]: Date.now() }, options);
+    }
+}
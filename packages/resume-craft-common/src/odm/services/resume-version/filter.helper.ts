@@ -0,0 +1,33 @@
+import { MatchConditionType } from '../../../types';
+import { decodeCursor } from '../../helpers';
+import { RESUME_VERSION_OWNER_ID_PATH, ResumeVersionFields } from '../../models';
+
+export const getResumeVersionListCondition = (resumeId: string, userId: string): MatchConditionType => ({
+    [ResumeVersionFields.ResumeId]: resumeId,
+    [RESUME_VERSION_OWNER_ID_PATH]: userId,
+});
+
+/**
+ * Versions are listed newest first and only ever grow, so the version number alone positions the cursor.
+ */
+export const getResumeVersionPaginationCondition = (
+    condition: MatchConditionType,
+    nextPageToken: string
+): MatchConditionType => {
+    if (!nextPageToken) {
+        return { ...condition };
+    }
+
+    const { name } = decodeCursor(nextPageToken);
+
+    return {
+        ...condition,
+        [ResumeVersionFields.Version]: { $lt: Number(name) },
+    };
+};
+
+export const getResumeVersionListSortingCondition = (): Record<string, 1 | -1> => {
+    return {
+        [ResumeVersionFields.Version]: -1,
+    };
+};
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    ListResumeVersionQueryConditionType,
+    RESUME_VERSION_OWNER_ID_PATH,
+    ResumeVersion,
+    ResumeVersionDocument,
+    ResumeVersionFields,
+    ResumeVersionFieldsQueryConditionType,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import {
+    getResumeVersionListCondition,
+    getResumeVersionListSortingCondition,
+    getResumeVersionPaginationCondition,
+} from './filter.helper';
+
+@Injectable()
+export class ResumeVersionDbService extends BaseDbService<
+    ResumeVersionFields,
+    ResumeVersion,
+    ResumeVersionFieldsQueryConditionType,
+    ResumeVersionFieldsQueryConditionType
+> {
+    // Snapshots keep the owner of the resume they were taken from.
+    protected readonly _ownerField = RESUME_VERSION_OWNER_ID_PATH;
+
+    // Keyed by resume so the events of a resume and of its snapshots land on the same partition.
+    protected readonly _changeEventKeyField = ResumeVersionFields.ResumeId;
+
+    constructor(
+        @InjectModel(ResumeVersion.name)
+        private readonly resumeVersionModel: Model<ResumeVersionDocument>,
+        outboxEventDbService?: OutboxEventDbService
+    ) {
+        super(resumeVersionModel, { outbox: outboxEventDbService });
+    }
+
+    /**
+     * Lists the versions of a resume newest first, without their sections.
+     */
+    async listResumeVersions(
+        context: RequestContext,
+        input: ListResumeVersionQueryConditionType,
+        size: number
+    ): Promise<ResumeVersion[]> {
+        try {
+            const { resumeId, userId, nextPageToken } = input;
+            const condition = getResumeVersionPaginationCondition(
+                getResumeVersionListCondition(resumeId, userId),
+                nextPageToken
+            );
+
+            const versions = await this.resumeVersionModel
+                .find(condition)
+                .select({ [ResumeVersionFields.Sections]: 0 })
+                .sort(getResumeVersionListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return versions.map((version) => version.toJSON() as ResumeVersion);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,52 @@
+import { UUID } from 'bson';
+import { escapeRegExp } from 'lodash';
+
+import { MatchConditionType } from '../../../types';
+import { decodeCursor } from '../../helpers';
+import { RESUME_OWNER_ID_PATH, ResumeFields } from '../../models';
+
+export const getResumeListCondition = (userId: string, q?: string): MatchConditionType => {
+    const condition: MatchConditionType = {
+        [RESUME_OWNER_ID_PATH]: userId,
+    };
+
+    if (q) {
+        condition[ResumeFields.Title] = { $regex: escapeRegExp(q), $options: 'i' };
+    }
+
+    return condition;
+};
+
+export const getResumeForkListCondition = (userId: string, resumeId: string, q?: string): MatchConditionType => ({
+    ...getResumeListCondition(userId, q),
+    [ResumeFields.AncestorIds]: resumeId,
+});
+
+export const getResumePaginationCondition = (
+    condition: MatchConditionType,
+    nextPageToken: string
+): MatchConditionType => {
+    if (!nextPageToken) {
+        return { ...condition };
+    }
+
+    const { name, id } = decodeCursor(nextPageToken);
+
+    return {
+        ...condition,
+        $or: [
+            { [ResumeFields.Title]: { $gt: name } },
+            {
+                [ResumeFields.Title]: name,
+                [ResumeFields.ResumeId]: { $gt: new UUID(id) },
+            },
+        ],
+    };
+};
+
+export const getResumeListSortingCondition = (): Record<string, 1 | -1> => {
+    return {
+        [ResumeFields.Title]: 1,
+        [ResumeFields.ResumeId]: 1,
+    };
+};
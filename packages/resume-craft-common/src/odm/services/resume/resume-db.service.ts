@@ -0,0 +1,98 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { RemoteCacheService } from '../../../cache';
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    ListResumeForkQueryConditionType,
+    ListResumeQueryConditionType,
+    Resume,
+    RESUME_OWNER_ID_PATH,
+    ResumeDocument,
+    ResumeFields,
+    ResumeFieldsQueryConditionType,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import {
+    getResumeForkListCondition,
+    getResumeListCondition,
+    getResumeListSortingCondition,
+    getResumePaginationCondition,
+} from './filter.helper';
+
+@Injectable()
+export class ResumeDbService extends BaseDbService<
+    ResumeFields,
+    Resume,
+    ResumeFieldsQueryConditionType,
+    ResumeFieldsQueryConditionType
+> {
+    // Resumes store their owner as an embedded `UserRef`.
+    protected readonly _ownerField = RESUME_OWNER_ID_PATH;
+
+    protected readonly _changeEventKeyField = ResumeFields.ResumeId;
+
+    // Resumes are read far more often than they are saved, so reads go through the remote cache when one is
+    // configured.
+    constructor(
+        @InjectModel(Resume.name)
+        private readonly resumeModel: Model<ResumeDocument>,
+        @Optional() remoteCache?: RemoteCacheService,
+        outboxEventDbService?: OutboxEventDbService
+    ) {
+        super(resumeModel, { remoteCache, outbox: outboxEventDbService });
+    }
+
+    async listResumes(context: RequestContext, input: ListResumeQueryConditionType, size: number): Promise<Resume[]> {
+        try {
+            const { userId, nextPageToken, q } = input;
+            const condition = getResumePaginationCondition(getResumeListCondition(userId, q), nextPageToken);
+
+            const resumes = await this.resumeModel
+                .find(condition)
+                .sort(getResumeListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return resumes.map((resume) => resume.toJSON() as Resume);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Lists every resume forked from the given one, directly or through other forks.
+     */
+    async listResumeForks(
+        context: RequestContext,
+        input: ListResumeForkQueryConditionType,
+        size: number
+    ): Promise<Resume[]> {
+        try {
+            const { userId, resumeId, nextPageToken, q } = input;
+            const condition = getResumePaginationCondition(
+                getResumeForkListCondition(userId, resumeId, q),
+                nextPageToken
+            );
+
+            const resumes = await this.resumeModel
+                .find(condition)
+                .sort(getResumeListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return resumes.map((resume) => resume.toJSON() as Resume);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import { UUID } from 'bson';
+
+import { MatchConditionType } from '../../../types';
+import { decodeCursor } from '../../helpers';
+import { SHARE_LINK_OWNER_ID_PATH, ShareLinkFields } from '../../models';
+
+export const getShareLinkListCondition = (resumeId: string, userId: string): MatchConditionType => ({
+    [ShareLinkFields.ResumeId]: resumeId,
+    [SHARE_LINK_OWNER_ID_PATH]: userId,
+});
+
+export const getShareLinkPaginationCondition = (
+    condition: MatchConditionType,
+    nextPageToken: string
+): MatchConditionType => {
+    if (!nextPageToken) {
+        return { ...condition };
+    }
+
+    const { name, id } = decodeCursor(nextPageToken);
+
+    return {
+        ...condition,
+        $or: [
+            { [ShareLinkFields.CreatedAt]: { $lt: Number(name) } },
+            {
+                [ShareLinkFields.CreatedAt]: Number(name),
+                [ShareLinkFields.ShareLinkId]: { $lt: new UUID(id) },
+            },
+        ],
+    };
+};
+
+export const getShareLinkListSortingCondition = (): Record<string, 1 | -1> => {
+    return {
+        [ShareLinkFields.CreatedAt]: -1,
+        [ShareLinkFields.ShareLinkId]: -1,
+    };
+};
+
+/**
+ * Matches the link only while it can still be viewed: not revoked, not expired and below its view limit.
+ */
+export const getViewableShareLinkCondition = (shareLinkId: string, now: number): MatchConditionType => ({
+    [ShareLinkFields.ShareLinkId]: shareLinkId,
+    [ShareLinkFields.RevokedAt]: null,
+    $and: [
+        { $or: [{ [ShareLinkFields.ExpiresAt]: null }, { [ShareLinkFields.ExpiresAt]: { $gt: now } }] },
+        {
+            $or: [
+                { [ShareLinkFields.MaxViews]: null },
+                { $expr: { $lt: [`$${ShareLinkFields.ViewCount}`, `$${ShareLinkFields.MaxViews}`] } },
+            ],
+        },
+    ],
+});
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    ListShareLinkQueryConditionType,
+    SHARE_LINK_OWNER_ID_PATH,
+    ShareLink,
+    ShareLinkDocument,
+    ShareLinkFields,
+    ShareLinkFieldsQueryConditionType,
+} from '../../models';
+import { BaseDbService } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import {
+    getShareLinkListCondition,
+    getShareLinkListSortingCondition,
+    getShareLinkPaginationCondition,
+    getViewableShareLinkCondition,
+} from './filter.helper';
+
+@Injectable()
+export class ShareLinkDbService extends BaseDbService<
+    ShareLinkFields,
+    ShareLink,
+    ShareLinkFieldsQueryConditionType,
+    ShareLinkFieldsQueryConditionType
+> {
+    // Share links belong to the owner of the resume they point to.
+    protected readonly _ownerField = SHARE_LINK_OWNER_ID_PATH;
+
+    protected readonly _changeEventKeyField = ShareLinkFields.ShareLinkId;
+    protected readonly _changeEventExcludedFields: string[] = [ShareLinkFields.TokenHash, ShareLinkFields.PasswordHash];
+
+    constructor(
+        @InjectModel(ShareLink.name)
+        private readonly shareLinkModel: Model<ShareLinkDocument>,
+        outboxEventDbService?: OutboxEventDbService
+    ) {
+        super(shareLinkModel, { outbox: outboxEventDbService });
+    }
+
+    /**
+     * Lists the share links of a resume newest first, revoked and expired ones included.
+     */
+    async listShareLinks(
+        context: RequestContext,
+        input: ListShareLinkQueryConditionType,
+        size: number
+    ): Promise<ShareLink[]> {
+        try {
+            const { resumeId, userId, nextPageToken } = input;
+            const condition = getShareLinkPaginationCondition(
+                getShareLinkListCondition(resumeId, userId),
+                nextPageToken
+            );
+
+            const shareLinks = await this.shareLinkModel
+                .find(condition)
+                .sort(getShareLinkListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return shareLinks.map((shareLink) => shareLink.toJSON() as ShareLink);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Public views are unauthenticated, so the link is looked up by the hash of its token alone.
+     */
+    async findByTokenHash(
+        context: RequestContext,
+        tokenHash: string,
+        options?: { session?: ClientSession }
+    ): Promise<ShareLink> {
+        try {
+            const query = this.shareLinkModel.findOne({ [ShareLinkFields.TokenHash]: tokenHash });
+            if (options?.session) {
+                query.session(options.session);
+            }
+            return (await query.exec())?.toJSON() as ShareLink;
+        } catch (error) {
+            this._logger.error({
+                [`Error while fetching document from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Counts a view only if the link can still be viewed, so concurrent views cannot exceed `maxViews`.
+     *
+     * @returns The updated link, or `null` when it was revoked, expired or used up in the meantime.
+     */
+    async recordView(
+        context: RequestContext,
+        shareLinkId: string,
+        options?: { session?: ClientSession }
+    ): Promise<ShareLink | null> {
+        try {
+            const now = Date.now();
+            const shareLink = await this.shareLinkModel
+                .findOneAndUpdate(
+                    getViewableShareLinkCondition(shareLinkId, now),
+                    {
+                        $inc: { [ShareLinkFields.ViewCount]: 1 },
+                        $set: { [ShareLinkFields.LastViewedAt]: now },
+                    },
+                    { new: true, ...(options?.session ? { session: options.session } : {}) }
+                )
+                .exec();
+
+            return (shareLink?.toJSON() as ShareLink) ?? null;
+        } catch (error) {
+            this._logger.error({
+                [`Error while recording a view in ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { UUID } from 'bson';
+import { escapeRegExp } from 'lodash';
+
+import { MatchConditionType } from '../../../types';
+import { decodeCursor } from '../../helpers';
+import { TemplateFields } from '../../models';
+
+export const getTemplateListCondition = (q?: string, category?: string): MatchConditionType => {
+    const condition: MatchConditionType = {
+        [TemplateFields.IsLatest]: true,
+    };
+
+    if (category) {
+        condition[TemplateFields.Category] = category;
+    }
+
+    if (q) {
+        condition[TemplateFields.Name] = { $regex: escapeRegExp(q), $options: 'i' };
+    }
+
+    return condition;
+};
+
+export const getTemplatePaginationCondition = (
+    condition: MatchConditionType,
+    nextPageToken: string
+): MatchConditionType => {
+    if (!nextPageToken) {
+        return { ...condition };
+    }
+
+    const { name, id } = decodeCursor(nextPageToken);
+
+    return {
+        ...condition,
+        $or: [
+            { [TemplateFields.Name]: { $gt: name } },
+            {
+                [TemplateFields.Name]: name,
+                [TemplateFields.TemplateId]: { $gt: new UUID(id) },
+            },
+        ],
+    };
+};
+
+export const getTemplateListSortingCondition = (): Record<string, 1 | -1> => {
+    return {
+        [TemplateFields.Name]: 1,
+        [TemplateFields.TemplateId]: 1,
+    };
+};
@@ -0,0 +1,42 @@
+import { Model } from 'mongoose';
+
+import { RequestContext } from '../../../types';
+import { TemplateDocument, UserRole } from '../../models';
+import { TemplateDbService } from './template-db.service';
+
+describe('TemplateDbService', () => {
+    const context: RequestContext = { userId: 'alice', userRole: UserRole.User };
+
+    const createTemplateModel = () => {
+        const query = {
+            session: () => query,
+            select: () => query,
+            limit: () => query,
+            exec: async () => ({ toJSON: () => ({ templateId: 'template-1', version: 2 }) }),
+        };
+        return {
+            modelName: 'Template',
+            findOne: jest.fn(() => query),
+            countDocuments: jest.fn(() => ({ exec: async () => 1 })),
+        };
+    };
+
+    it('should look up the latest version without scoping the catalog to the user', async () => {
+        const model = createTemplateModel();
+        const service = new TemplateDbService(model as unknown as Model<TemplateDocument>);
+
+        await expect(service.findLatestVersion(context, 'template-1')).resolves.toEqual({
+            templateId: 'template-1',
+            version: 2,
+        });
+        expect(model.findOne).toHaveBeenCalledWith({ templateId: 'template-1', isLatest: true });
+    });
+
+    it('should drop the tenant identifier from counts', async () => {
+        const model = createTemplateModel();
+        const service = new TemplateDbService(model as unknown as Model<TemplateDocument>);
+
+        await expect(service.exists(context, { slug: 'classic', isLatest: true, userId: 'alice' })).resolves.toBe(true);
+        expect(model.countDocuments).toHaveBeenCalledWith({ slug: 'classic', isLatest: true });
+    });
+});
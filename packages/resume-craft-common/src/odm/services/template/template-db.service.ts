@@ -0,0 +1,85 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { RemoteCacheService } from '../../../cache';
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import {
+    ListTemplateQueryConditionType,
+    Template,
+    TemplateDocument,
+    TemplateFields,
+    TemplateFieldsQueryConditionType,
+} from '../../models';
+import { BaseDbService, DbOperationMethod } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import {
+    getTemplateListCondition,
+    getTemplateListSortingCondition,
+    getTemplatePaginationCondition,
+} from './filter.helper';
+
+@Injectable()
+export class TemplateDbService extends BaseDbService<
+    TemplateFields,
+    Template,
+    TemplateFieldsQueryConditionType,
+    TemplateFieldsQueryConditionType
+> {
+    protected readonly _changeEventKeyField = TemplateFields.TemplateId;
+
+    // The template catalog rarely changes, so reads go through the remote cache when one is configured.
+    constructor(
+        @InjectModel(Template.name)
+        private readonly templateModel: Model<TemplateDocument>,
+        @Optional() remoteCache?: RemoteCacheService,
+        outboxEventDbService?: OutboxEventDbService
+    ) {
+        super(templateModel, { remoteCache, outbox: outboxEventDbService });
+    }
+
+    async findLatestVersion(context: RequestContext, templateId: string): Promise<Template> {
+        return this.findOne(context, {
+            condition: { templateId, isLatest: true, userId: context.userId },
+        });
+    }
+
+    async listTemplates(
+        context: RequestContext,
+        input: ListTemplateQueryConditionType,
+        size: number
+    ): Promise<Template[]> {
+        try {
+            const { nextPageToken, q, category } = input;
+            const condition = getTemplatePaginationCondition(getTemplateListCondition(q, category), nextPageToken);
+
+            const templates = await this.templateModel
+                .find(condition)
+                .sort(getTemplateListSortingCondition())
+                .limit(size)
+                .exec();
+
+            return templates.map((template) => template.toJSON() as Template);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    // Templates form a catalog shared by every user, so the tenant identifier never narrows a query.
+    protected _transformWhereCondition(
+        context: RequestContext,
+        condition: TemplateFieldsQueryConditionType,
+        dbOperationMethod: DbOperationMethod
+    ) {
+        const { userId, ...catalogCondition } = condition;
+        return super._transformWhereCondition(
+            context,
+            catalogCondition as TemplateFieldsQueryConditionType,
+            dbOperationMethod
+        );
+    }
+}
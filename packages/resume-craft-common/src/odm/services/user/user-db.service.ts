@@ -2,8 +2,14 @@ import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 
-import { User, UserDocument, UserFields, UserFieldsQueryConditionType } from '../../models';
+import { ErrorCode, ResumeCraftException } from '../../../exceptions';
+import { RequestContext } from '../../../types';
+import { ListUserQueryConditionType, User, UserDocument, UserFields, UserFieldsQueryConditionType } from '../../models';
 import { BaseDbService } from '../base-db.service';
+import { OutboxEventDbService } from '../outbox-event/outbox-event-db.service';
+import { getPipeline, getUserListSortingCondition, getUserPaginationCondition } from './filter.helper';
+
+export const USER_LIST_FIELDS = [UserFields.UserId, UserFields.Name, UserFields.ProfileImageUrl];
 
 @Injectable()
 export class UserDbService extends BaseDbService<
@@ -12,10 +18,66 @@ export class UserDbService extends BaseDbService<
     UserFieldsQueryConditionType,
     UserFieldsQueryConditionType
 > {
+    protected readonly _changeEventKeyField = UserFields.UserId;
+    protected readonly _changeEventExcludedFields: string[] = [UserFields.PasswordHash];
+
     constructor(
         @InjectModel(User.name)
-        private readonly userModel: Model<UserDocument>
+        private readonly userModel: Model<UserDocument>,
+        outboxEventDbService?: OutboxEventDbService
     ) {
-        super(userModel);
+        super(userModel, { outbox: outboxEventDbService });
+    }
+
+    async listUsers(
+        context: RequestContext,
+        input: ListUserQueryConditionType,
+        fieldsToInclude: string[] = USER_LIST_FIELDS
+    ): Promise<User[]> {
+        try {
+            const { size, nextPageToken, q } = input;
+            const pipeline = getPipeline({
+                condition: getUserPaginationCondition({}, nextPageToken),
+                size,
+                sortCondition: getUserListSortingCondition(),
+                q,
+                fieldsToInclude,
+            });
+
+            const users = await this.userModel.aggregate(pipeline).exec();
+
+            // Aggregation skips schema getters, hydrating restores the UUID to string conversion.
+            return users.map((user) => this.userModel.hydrate(user).toJSON() as User);
+        } catch (error) {
+            this._logger.error({
+                [`Error while listing documents from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Looks a user up by email using the same case-insensitive collation as the unique email index.
+     * The password hash is excluded by the schema and only selected when explicitly requested.
+     */
+    async findByEmail(
+        context: RequestContext,
+        email: string,
+        options: { includePasswordHash?: boolean } = {}
+    ): Promise<User> {
+        try {
+            const query = this.userModel
+                .findOne({ [UserFields.Email]: email })
+                .collation({ locale: 'en', strength: 2 });
+            if (options.includePasswordHash) {
+                query.select(`+${UserFields.PasswordHash}`);
+            }
+            return (await query.exec())?.toJSON() as User;
+        } catch (error) {
+            this._logger.error({
+                [`Error while fetching document from ${this._model.name}`]: error,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.DATABASE_ERROR);
+        }
     }
 }
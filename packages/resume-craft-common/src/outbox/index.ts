@@ -0,0 +1,4 @@
+export * from './outbox-relay.constants';
+export * from './outbox-relay.helper';
+export * from './outbox-relay.service';
+export * from './outbox-relay.module';
@@ -0,0 +1,10 @@
+export const OUTBOX_RELAY_POLL_INTERVAL_MS = 1000;
+export const OUTBOX_RELAY_BATCH_SIZE = 100;
+/**
+ * How long a claimed event is left to the relay that claimed it before another relay may publish it again.
+ */
+export const OUTBOX_RELAY_LEASE_MS = 30 * 1000;
+export const OUTBOX_RELAY_MAX_ATTEMPTS = 10;
+export const OUTBOX_RELAY_RETRY_BASE_DELAY_MS = 1000;
+export const OUTBOX_RELAY_RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+export const DEFAULT_KAFKA_TOPIC_PREFIX = 'resume-craft';
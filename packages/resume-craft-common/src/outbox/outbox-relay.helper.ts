@@ -0,0 +1,41 @@
+import { KafkaOutgoingMessage } from '../kafka';
+import { OutboxEvent } from '../odm/models/schemas/outbox-event.schema';
+import { OUTBOX_RELAY_RETRY_BASE_DELAY_MS, OUTBOX_RELAY_RETRY_MAX_DELAY_MS } from './outbox-relay.constants';
+
+/**
+ * One topic per entity, e.g. `resume-craft.resume-version` for `ResumeVersion` changes.
+ */
+export const getChangeEventTopic = (topicPrefix: string, entity: string): string =>
+    `${topicPrefix}.${entity.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()}`;
+
+/**
+ * Exponential backoff from the number of attempts made so far, capped at `OUTBOX_RELAY_RETRY_MAX_DELAY_MS`.
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+    Math.min(OUTBOX_RELAY_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_RELAY_RETRY_MAX_DELAY_MS);
+
+/**
+ * Keyed by the changed document so its events keep their order within a partition. Consumers deduplicate
+ * redelivered events on the `eventId` header. The `correlationId` and `userId` headers carry the request that
+ * made the change into the request context of consumers.
+ */
+export const toChangeEventMessage = (event: OutboxEvent): KafkaOutgoingMessage => ({
+    key: event.key,
+    value: JSON.stringify({
+        eventId: event.eventId,
+        entity: event.entity,
+        operation: event.operation,
+        key: event.key,
+        payload: event.payload,
+        occurredAt: event.createdAt,
+        actorId: event.createdBy,
+        correlationId: event.correlationId,
+    }),
+    headers: {
+        eventId: event.eventId,
+        entity: event.entity,
+        operation: event.operation,
+        ...(event.correlationId ? { correlationId: event.correlationId } : {}),
+        ...(event.createdBy ? { userId: event.createdBy } : {}),
+    },
+});
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { OutboxRelayService } from './outbox-relay.service';
+
+/**
+ * Runs the outbox relay. Relies on the global `ODMModule` and, for publishing, `KafkaModule`.
+ */
+@Module({
+    providers: [OutboxRelayService],
+    exports: [OutboxRelayService],
+})
+export class OutboxRelayModule {}
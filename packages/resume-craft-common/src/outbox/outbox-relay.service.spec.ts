@@ -0,0 +1,115 @@
+import { ConfigurationService } from '../configuration';
+import { TestConfig } from '../configuration/test.config';
+import { DBOperation } from '../constants';
+import { KafkaProducerService } from '../kafka';
+import { InMemoryKafkaProducer } from '../kafka/in-memory-kafka-producer';
+import { OutboxEvent } from '../odm/models/schemas/outbox-event.schema';
+import { OutboxEventDbService } from '../odm/services/outbox-event/outbox-event-db.service';
+import { OUTBOX_RELAY_MAX_ATTEMPTS } from './outbox-relay.constants';
+import { getChangeEventTopic, getRetryDelayMs } from './outbox-relay.helper';
+import { OutboxRelayService } from './outbox-relay.service';
+
+const buildEvent = (overrides: Partial<OutboxEvent>): OutboxEvent => ({
+    eventId: 'event-1',
+    entity: 'Resume',
+    operation: DBOperation.UPDATE,
+    key: 'resume-1',
+    payload: { document: { resumeId: 'resume-1', title: 'Backend Engineer' } },
+    attempts: 1,
+    correlationId: 'correlation-1',
+    createdAt: 1700000000000,
+    createdBy: 'user-1',
+    ...overrides,
+});
+
+describe('OutboxRelayService', () => {
+    let producer: InMemoryKafkaProducer;
+    let outboxEventDbService: {
+        claimPendingEvents: jest.Mock;
+        markPublished: jest.Mock;
+        markAttemptFailed: jest.Mock;
+    };
+    let relay: OutboxRelayService;
+
+    beforeEach(() => {
+        producer = new InMemoryKafkaProducer();
+        outboxEventDbService = {
+            claimPendingEvents: jest.fn(),
+            markPublished: jest.fn(),
+            markAttemptFailed: jest.fn(),
+        };
+        relay = new OutboxRelayService(
+            outboxEventDbService as unknown as OutboxEventDbService,
+            new ConfigurationService(TestConfig),
+            new KafkaProducerService(producer)
+        );
+    });
+
+    it('should publish claimed events to the topic of their entity and mark them published', async () => {
+        outboxEventDbService.claimPendingEvents.mockResolvedValue([
+            buildEvent({ eventId: 'event-1' }),
+            buildEvent({ eventId: 'event-2', entity: 'ResumeVersion', operation: DBOperation.CREATE }),
+            buildEvent({ eventId: 'event-3', operation: DBOperation.DELETE }),
+        ]);
+
+        await expect(relay.relayPendingEvents()).resolves.toEqual({ published: 3, failed: 0 });
+
+        const messages = producer.getMessages('resume-craft-test.resume');
+        expect(messages.map(({ key, headers }) => [key, headers.eventId, headers.operation])).toEqual([
+            ['resume-1', 'event-1', 'u'],
+            ['resume-1', 'event-3', 'd'],
+        ]);
+        expect(JSON.parse(messages[0].value)).toEqual({
+            eventId: 'event-1',
+            entity: 'Resume',
+            operation: 'u',
+            key: 'resume-1',
+            payload: { document: { resumeId: 'resume-1', title: 'Backend Engineer' } },
+            occurredAt: 1700000000000,
+            actorId: 'user-1',
+            correlationId: 'correlation-1',
+        });
+        expect(messages[0].headers).toEqual(
+            expect.objectContaining({ correlationId: 'correlation-1', userId: 'user-1' })
+        );
+        expect(producer.getMessages('resume-craft-test.resume-version')).toHaveLength(1);
+        expect(outboxEventDbService.markPublished).toHaveBeenCalledWith(['event-1', 'event-3']);
+        expect(outboxEventDbService.markPublished).toHaveBeenCalledWith(['event-2']);
+    });
+
+    it('should schedule a retry with backoff when Kafka rejects the events', async () => {
+        jest.spyOn(producer, 'send').mockRejectedValue(new Error('Broker not available'));
+        outboxEventDbService.claimPendingEvents.mockResolvedValue([buildEvent({ attempts: 3 })]);
+        const now = Date.now();
+
+        await expect(relay.relayPendingEvents()).resolves.toEqual({ published: 0, failed: 1 });
+
+        const [eventIds, lastError, nextAttemptAt] = outboxEventDbService.markAttemptFailed.mock.calls[0];
+        expect(eventIds).toEqual(['event-1']);
+        expect(lastError).toBe('Broker not available');
+        expect(nextAttemptAt).toBeGreaterThanOrEqual(now + getRetryDelayMs(3));
+        expect(outboxEventDbService.markPublished).not.toHaveBeenCalled();
+    });
+
+    it('should give up on an event after the last attempt', async () => {
+        jest.spyOn(producer, 'send').mockRejectedValue(new Error('Message too large'));
+        outboxEventDbService.claimPendingEvents.mockResolvedValue([
+            buildEvent({ attempts: OUTBOX_RELAY_MAX_ATTEMPTS }),
+        ]);
+
+        await relay.relayPendingEvents();
+
+        expect(outboxEventDbService.markAttemptFailed).toHaveBeenCalledWith(['event-1'], 'Message too large', null);
+    });
+});
+
+describe('outbox relay helper', () => {
+    it('should name topics after the entity in kebab case', () => {
+        expect(getChangeEventTopic('resume-craft', 'JobDescription')).toBe('resume-craft.job-description');
+    });
+
+    it('should double the retry delay up to the cap', () => {
+        expect([1, 2, 3].map(getRetryDelayMs)).toEqual([1000, 2000, 4000]);
+        expect(getRetryDelayMs(30)).toBe(5 * 60 * 1000);
+    });
+});
@@ -0,0 +1,122 @@
+import { Injectable, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { groupBy } from 'lodash';
+
+import { ConfigurationService } from '../configuration';
+import { KafkaProducerService } from '../kafka';
+import { LoggerFactory } from '../logger';
+import { OutboxEvent } from '../odm/models/schemas/outbox-event.schema';
+import { OutboxEventDbService } from '../odm/services/outbox-event/outbox-event-db.service';
+import {
+    DEFAULT_KAFKA_TOPIC_PREFIX,
+    OUTBOX_RELAY_BATCH_SIZE,
+    OUTBOX_RELAY_LEASE_MS,
+    OUTBOX_RELAY_MAX_ATTEMPTS,
+    OUTBOX_RELAY_POLL_INTERVAL_MS,
+} from './outbox-relay.constants';
+import { getChangeEventTopic, getRetryDelayMs, toChangeEventMessage } from './outbox-relay.helper';
+
+export type OutboxRelayResult = {
+    published: number;
+    failed: number;
+};
+
+/**
+ * Publishes the change events of the outbox to Kafka. An event is marked published only once Kafka has
+ * acknowledged it, so it is delivered at least once. Failed sends are retried with backoff until
+ * `OUTBOX_RELAY_MAX_ATTEMPTS`, after which the event is marked failed and left for inspection. A retried event
+ * can be published after later events of the same document.
+ */
+@Injectable()
+export class OutboxRelayService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = LoggerFactory.getLogger(OutboxRelayService.name);
+    private timer: NodeJS.Timeout | null = null;
+    private currentRun: Promise<void> | null = null;
+    private isStopped = false;
+
+    constructor(
+        private readonly outboxEventDbService: OutboxEventDbService,
+        private readonly configurationService: ConfigurationService,
+        @Optional() private readonly kafkaProducerService?: KafkaProducerService
+    ) {
+        this.logger.debug(`${OutboxRelayService.name} Initialized`);
+    }
+
+    onModuleInit() {
+        if (!this.kafkaProducerService) {
+            this.logger.log('Kafka is not configured, change events stay in the outbox');
+            return;
+        }
+        this._scheduleRun(0);
+    }
+
+    async onModuleDestroy() {
+        this.isStopped = true;
+        clearTimeout(this.timer);
+        await this.currentRun;
+    }
+
+    async relayPendingEvents(): Promise<OutboxRelayResult> {
+        const events = await this.outboxEventDbService.claimPendingEvents(
+            OUTBOX_RELAY_BATCH_SIZE,
+            OUTBOX_RELAY_LEASE_MS
+        );
+        const topicPrefix = this.configurationService.getConfig().kafka?.topicPrefix || DEFAULT_KAFKA_TOPIC_PREFIX;
+        const result: OutboxRelayResult = { published: 0, failed: 0 };
+
+        const eventsByTopic = groupBy(events, (event) => getChangeEventTopic(topicPrefix, event.entity));
+        for (const [topic, topicEvents] of Object.entries(eventsByTopic)) {
+            try {
+                await this.kafkaProducerService.send(topic, topicEvents.map(toChangeEventMessage));
+            } catch (error) {
+                this.logger.error({
+                    ref: `Error: while publishing change events to ${topic} ${error.message}`,
+                    eventIds: topicEvents.map(({ eventId }) => eventId),
+                });
+                await this._scheduleRetries(topicEvents, error.message);
+                result.failed += topicEvents.length;
+                continue;
+            }
+
+            await this.outboxEventDbService.markPublished(topicEvents.map(({ eventId }) => eventId));
+            result.published += topicEvents.length;
+        }
+
+        return result;
+    }
+
+    private async _scheduleRetries(events: OutboxEvent[], lastError: string) {
+        const now = Date.now();
+        for (const { eventId, attempts } of events) {
+            await this.outboxEventDbService.markAttemptFailed(
+                [eventId],
+                lastError,
+                attempts >= OUTBOX_RELAY_MAX_ATTEMPTS ? null : now + getRetryDelayMs(attempts)
+            );
+        }
+    }
+
+    private _scheduleRun(delayMs: number) {
+        this.timer = setTimeout(() => {
+            this.currentRun = this._run();
+        }, delayMs);
+    }
+
+    private async _run() {
+        let delayMs = OUTBOX_RELAY_POLL_INTERVAL_MS;
+        try {
+            const { published, failed } = await this.relayPendingEvents();
+            // A full batch means more events are probably waiting, so the next batch goes out right away.
+            if (published + failed === OUTBOX_RELAY_BATCH_SIZE) {
+                delayMs = 0;
+            }
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while relaying the outbox ${error.message}`,
+            });
+        }
+
+        if (!this.isStopped) {
+            this._scheduleRun(delayMs);
+        }
+    }
+}
@@ -1,4 +1,9 @@
+import { ProbeDependencyResult } from '../probes.types';
+
 export class ProbeResponseDto {
     status: string;
     message?: string;
+    result?: {
+        dependencies: ProbeDependencyResult[];
+    };
 }
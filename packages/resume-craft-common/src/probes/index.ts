@@ -1 +1,5 @@
 export * from './probes.module';
+export * from './probe-registry.module';
+export * from './probe-registry.service';
+export * from './probes.types';
+export * from './dto/probes-response.dto';
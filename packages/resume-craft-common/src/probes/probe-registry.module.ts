@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+
+import { ProbeRegistryService } from './probe-registry.service';
+
+@Global()
+@Module({
+    providers: [ProbeRegistryService],
+    exports: [ProbeRegistryService],
+})
+export class ProbeRegistryModule {}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+
+import { LoggerFactory } from '../logger';
+import { ProbeTarget } from './probes.types';
+
+/**
+ * Holds the dependencies checked by `ProbesService`. Dependencies register themselves, usually from `onModuleInit`.
+ */
+@Injectable()
+export class ProbeRegistryService {
+    private readonly logger = LoggerFactory.getLogger(ProbeRegistryService.name);
+    private readonly targets = new Map<string, ProbeTarget>();
+
+    register(target: ProbeTarget): void {
+        if (this.targets.has(target.name)) {
+            this.logger.warn(`Probe target ${target.name} is already registered, replacing it`);
+        }
+        this.targets.set(target.name, target);
+    }
+
+    unregister(name: string): void {
+        this.targets.delete(name);
+    }
+
+    getTargets(): ProbeTarget[] {
+        return [...this.targets.values()];
+    }
+}
@@ -1 +1,2 @@
 export const PROBE_OPTION_TOKEN = 'PROBES_OPTIONS';
+export const PROBE_TARGET_DEFAULT_TIMEOUT_MS = 3000;
@@ -2,10 +2,11 @@ import { Controller, Get } from '@nestjs/common';
 import { HealthCheck } from '@nestjs/terminus';
 
 import { LoggerFactory } from '../logger';
-import { ApiControllerTags } from '../nest';
+import { ApiControllerTags, PublicRoute } from '../nest';
 import { ProbesService } from './probes.service';
 
 @Controller('/')
+@PublicRoute()
 @ApiControllerTags('Health Probe', 'System health check and monitoring endpoints')
 export class ProbesController {
     private readonly logger = LoggerFactory.getLogger(ProbesController.name);
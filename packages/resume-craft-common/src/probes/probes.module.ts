@@ -3,6 +3,7 @@ import { TerminusModule } from '@nestjs/terminus';
 
 import { ODMModule } from '../odm';
 import { PROBE_OPTION_TOKEN } from './probe.constants';
+import { ProbeRegistryModule } from './probe-registry.module';
 import { ProbesController } from './probes.controller';
 import { ProbesService } from './probes.service';
 import { ProbesOptions } from './probes.types';
@@ -10,7 +11,7 @@ import { ProbesOptions } from './probes.types';
 @Module({})
 export class ProbesModule {
     static register(options: ProbesOptions): DynamicModule {
-        const imports = [TerminusModule, ODMModule];
+        const imports = [TerminusModule, ODMModule, ProbeRegistryModule];
 
         return {
             module: ProbesModule,
@@ -0,0 +1,100 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { DbService } from '../odm';
+import { ResumeCraftException } from '../exceptions';
+import { ProbeRegistryService } from './probe-registry.service';
+import { ProbesService } from './probes.service';
+import { ProbeDependencyStatus } from './probes.types';
+
+describe('ProbesService', () => {
+    let probeRegistryService: ProbeRegistryService;
+    let service: ProbesService;
+
+    beforeEach(() => {
+        probeRegistryService = new ProbeRegistryService();
+        service = new ProbesService({ isInitialized: true } as DbService, probeRegistryService, {
+            isConsumer: false,
+            isProducer: false,
+        });
+    });
+
+    const registerMongoDown = () =>
+        probeRegistryService.register({
+            name: 'mongodb',
+            check: () => {
+                throw new Error('Connection refused');
+            },
+        });
+
+    it('should report status and latency of every registered dependency', async () => {
+        probeRegistryService.register({ name: 'mongodb', check: async () => true });
+        probeRegistryService.register({ name: 'redis', check: () => undefined });
+
+        const response = await service.readinessProbe();
+
+        expect(response.status).toBe('success');
+        expect(response.result.dependencies).toEqual([
+            { name: 'mongodb', status: ProbeDependencyStatus.UP, latencyMs: expect.any(Number) },
+            { name: 'redis', status: ProbeDependencyStatus.UP, latencyMs: expect.any(Number) },
+        ]);
+    });
+
+    it('should fail readiness with the dependency details when a dependency is down', async () => {
+        registerMongoDown();
+        probeRegistryService.register({ name: 'redis', check: () => false });
+
+        const error = await service.readinessProbe().catch((err) => err);
+
+        expect(error).toBeInstanceOf(ResumeCraftException);
+        expect(error.getStatus()).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+        expect(error.getResponse()).toEqual(
+            expect.objectContaining({
+                message: 'External dependencies are not ready: mongodb, redis',
+                details: {
+                    dependencies: [
+                        expect.objectContaining({ name: 'mongodb', status: 'down', error: 'Connection refused' }),
+                        expect.objectContaining({ name: 'redis', status: 'down' }),
+                    ],
+                },
+            })
+        );
+    });
+
+    it('should keep liveness up while a non critical dependency is down', async () => {
+        registerMongoDown();
+
+        const response = await service.livenessProbe();
+
+        expect(response.status).toBe('success');
+        expect(response.result.dependencies).toEqual([
+            expect.objectContaining({ name: 'mongodb', status: ProbeDependencyStatus.DOWN }),
+        ]);
+    });
+
+    it('should fail liveness when a liveness critical dependency is down', async () => {
+        probeRegistryService.register({ name: 'event-loop', isLivenessCritical: true, check: () => false });
+
+        await expect(service.livenessProbe()).rejects.toBeInstanceOf(ResumeCraftException);
+    });
+
+    it('should mark dependencies that do not answer in time as down', async () => {
+        probeRegistryService.register({
+            name: 'kafka',
+            timeoutMs: 10,
+            check: () =>
+                new Promise<boolean>(() => {
+                    // never settles
+                }),
+        });
+
+        const response = await service.livenessProbe();
+
+        expect(response.result.dependencies).toEqual([
+            expect.objectContaining({
+                name: 'kafka',
+                status: ProbeDependencyStatus.DOWN,
+                error: 'Timed out after 10ms',
+            }),
+        ]);
+    });
+});
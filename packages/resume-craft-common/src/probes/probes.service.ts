@@ -6,8 +6,9 @@ import { DbService } from '../odm';
 import { Initiable } from '../types';
 import { ProbeResponseDto } from './dto/probes-response.dto';
 import { StartUpProbeError } from './errors/startup-probe.error';
-import { PROBE_OPTION_TOKEN } from './probe.constants';
-import { ProbesOptions } from './probes.types';
+import { PROBE_OPTION_TOKEN, PROBE_TARGET_DEFAULT_TIMEOUT_MS } from './probe.constants';
+import { ProbeRegistryService } from './probe-registry.service';
+import { ProbeDependencyResult, ProbeDependencyStatus, ProbesOptions, ProbeTarget } from './probes.types';
 
 @Injectable()
 export class ProbesService {
@@ -15,12 +16,12 @@ export class ProbesService {
 
     constructor(
         private readonly dbService: DbService,
+        private readonly probeRegistryService: ProbeRegistryService,
         @Inject(PROBE_OPTION_TOKEN) private readonly probeOptions: ProbesOptions
     ) {}
 
     startUpProbe(): ProbeResponseDto {
         const initiableServices: Initiable[] = [this.dbService];
-
         initiableServices.forEach((initiableService) => {
             if (!initiableService.isInitialized) {
                 throw new StartUpProbeError({
@@ -35,41 +36,75 @@ export class ProbesService {
     }
 
     async healthProbe(): Promise<ProbeResponseDto> {
-        return this._checkExternalDependencies();
+        return this._checkExternalDependencies(() => true);
     }
 
     async readinessProbe(): Promise<ProbeResponseDto> {
-        return this._checkExternalDependencies();
+        return this._checkExternalDependencies(() => true);
     }
 
+    /**
+     * The process is alive as long as it answers; only dependencies flagged `isLivenessCritical` can fail it,
+     * so a brief outage of e.g. Mongo does not get the pod restarted.
+     */
     async livenessProbe(): Promise<ProbeResponseDto> {
-        return this._checkExternalDependencies();
+        return this._checkExternalDependencies((target) => !!target.isLivenessCritical);
     }
 
-    protected async _checkExternalDependencies(): Promise<ProbeResponseDto> {
-        try {
-            const serviceNamesForErrorLog = ['db'];
-            const dependencies = [this.dbService.checkConnection()];
+    protected async _checkExternalDependencies(
+        isRequired: (target: ProbeTarget) => boolean
+    ): Promise<ProbeResponseDto> {
+        const targets = this.probeRegistryService.getTargets();
+        const dependencies = await Promise.all(targets.map((target) => this._checkTarget(target)));
 
-            const readinessResponses = await Promise.all(dependencies);
-            const failedIndex = readinessResponses.findIndex((response) => !response);
-            if (failedIndex !== -1) {
-                throw new ResumeCraftException(ErrorCode.UNEXPECTED_ERROR, {
-                    message: `External dependencies are not ready for ${serviceNamesForErrorLog[failedIndex]}`,
-                });
-            }
-        } catch (error: unknown) {
+        const failedDependencies = dependencies.filter(
+            (dependency, index) => dependency.status === ProbeDependencyStatus.DOWN && isRequired(targets[index])
+        );
+        if (failedDependencies.length) {
             this.logger.error({
                 msg: `Error checking external dependencies`,
-                error,
-                stringifyError: JSON.stringify(error),
+                failedDependencies,
+            });
+            throw new ResumeCraftException(ErrorCode.UNEXPECTED_ERROR, {
+                message: `External dependencies are not ready: ${failedDependencies.map(({ name }) => name).join(', ')}`,
+                details: { dependencies },
             });
-            throw new ResumeCraftException(ErrorCode.UNEXPECTED_ERROR, { cause: error });
         }
 
         return {
             status: 'success',
             message: 'Ready',
+            result: { dependencies },
         };
     }
+
+    protected async _checkTarget(target: ProbeTarget): Promise<ProbeDependencyResult> {
+        const startedAt = process.hrtime.bigint();
+        const getLatencyMs = () => Number((process.hrtime.bigint() - startedAt) / BigInt(1_000_000));
+        const timeoutMs = target.timeoutMs ?? PROBE_TARGET_DEFAULT_TIMEOUT_MS;
+        let timeout: NodeJS.Timeout;
+
+        try {
+            const isUp = await Promise.race([
+                Promise.resolve().then(() => target.check()),
+                new Promise<never>((resolve, reject) => {
+                    timeout = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+                }),
+            ]);
+            if (isUp === false) {
+                throw new Error('Dependency reported itself as unavailable');
+            }
+
+            return { name: target.name, status: ProbeDependencyStatus.UP, latencyMs: getLatencyMs() };
+        } catch (error) {
+            return {
+                name: target.name,
+                status: ProbeDependencyStatus.DOWN,
+                latencyMs: getLatencyMs(),
+                error: error?.message || 'Unknown error',
+            };
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
 }
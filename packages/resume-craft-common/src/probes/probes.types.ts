@@ -2,3 +2,32 @@ export type ProbesOptions = {
     isConsumer: boolean;
     isProducer: boolean;
 };
+
+export enum ProbeDependencyStatus {
+    UP = 'up',
+    DOWN = 'down',
+}
+
+/**
+ * An external dependency reported by the health, readiness and liveness probes.
+ */
+export type ProbeTarget = {
+    name: string;
+    /**
+     * Resolves when the dependency is reachable. Throwing or resolving `false` marks it as down.
+     */
+    check: () => Promise<boolean | void> | boolean | void;
+    /**
+     * Whether the liveness probe fails when the dependency is down. Defaults to `false`, restarting the
+     * process rarely fixes an unreachable dependency.
+     */
+    isLivenessCritical?: boolean;
+    timeoutMs?: number;
+};
+
+export type ProbeDependencyResult = {
+    name: string;
+    status: ProbeDependencyStatus;
+    latencyMs: number;
+    error?: string;
+};
@@ -1,9 +1,19 @@
 import { type Static, Type } from '@sinclair/typebox';
 
 export enum ENTITIES_VALUES {
-    WORKSPACE = 'workspace.workspace.*',
+    USER = 'resume-craft.user.*',
+    RESUME = 'resume-craft.resume.*',
+    RESUME_VERSION = 'resume-craft.resume-version.*',
+    SHARE_LINK = 'resume-craft.share-link.*',
+    JOB_DESCRIPTION = 'resume-craft.job-description.*',
+    COVER_LETTER = 'resume-craft.cover-letter.*',
 }
 
+/**
+ * Asks for every document of `entity` owned by the user `accountId` to be published to `targetTopic`.
+ * Without `includeAllEntityData` only the id of each document is published. `email` identifies the requester
+ * in the completion summary.
+ */
 const ingestHistoricalDataRequestDetails = Type.Object({
     accountId: Type.String(),
     entity: Type.Enum(ENTITIES_VALUES),
@@ -12,10 +22,10 @@ const ingestHistoricalDataRequestDetails = Type.Object({
     includeAllEntityData: Type.Boolean(),
 });
 
-const ingestHistoricalDataRequest = Type.Object({
+export const IngestHistoricalDataRequestSchema = Type.Object({
     category: Type.Literal('ingest_historical_data'),
     details: ingestHistoricalDataRequestDetails,
 });
 
-export type IngestHistoricalDataRequestType = Static<typeof ingestHistoricalDataRequest>;
+export type IngestHistoricalDataRequestType = Static<typeof IngestHistoricalDataRequestSchema>;
 export type IngestHistoricalDataRequestDetailsType = Static<typeof ingestHistoricalDataRequestDetails>;
@@ -0,0 +1,759 @@
+import { Global, HttpStatus, INestApplication, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { generateKeyPairSync } from 'crypto';
+import { AddressInfo } from 'net';
+
+import { API_STATUS, ErrorResponseSchema, validate } from '@resume/resume-craft-api-contracts';
+import {
+    AuthTokenService,
+    ConfigurationService,
+    CoverLetterDbService,
+    DbService,
+    hashPassword,
+    HistoricalIngestionJobDbService,
+    JobDescriptionDbService,
+    ODMModule,
+    OutboxEventDbService,
+    ProbeRegistryService,
+    RefreshTokenDbService,
+    ResumeDbService,
+    ResumeVersionDbService,
+    ShareLinkDbService,
+    TemplateDbService,
+    UserDbService,
+} from '@resume/resume-craft-common';
+
+import { AppModule } from './app.module';
+import { setupApp } from './app.setup';
+import { API_BASE_PATH } from './constants/app.constant';
+
+const userDbService = {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+};
+
+const resumeDbService = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+};
+
+const resumeVersionDbService = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+};
+
+const templateDbService = {
+    findOne: jest.fn(),
+    listTemplates: jest.fn(),
+};
+
+const shareLinkDbService = {
+    findByTokenHash: jest.fn(),
+    recordView: jest.fn(),
+};
+
+const jobDescriptionDbService = {
+    findOne: jest.fn(),
+};
+
+const coverLetterDbService = {
+    findOne: jest.fn(),
+};
+
+const dbService = {
+    withManualTransaction: jest.fn(),
+};
+
+@Global()
+@Module({
+    providers: [
+        { provide: DbService, useValue: dbService },
+        { provide: UserDbService, useValue: userDbService },
+        { provide: ResumeDbService, useValue: resumeDbService },
+        { provide: RefreshTokenDbService, useValue: {} },
+        { provide: TemplateDbService, useValue: templateDbService },
+        { provide: ResumeVersionDbService, useValue: resumeVersionDbService },
+        { provide: ShareLinkDbService, useValue: shareLinkDbService },
+        { provide: JobDescriptionDbService, useValue: jobDescriptionDbService },
+        { provide: CoverLetterDbService, useValue: coverLetterDbService },
+        { provide: OutboxEventDbService, useValue: {} },
+        { provide: HistoricalIngestionJobDbService, useValue: {} },
+    ],
+    exports: [
+        DbService,
+        UserDbService,
+        ResumeDbService,
+        RefreshTokenDbService,
+        TemplateDbService,
+        ResumeVersionDbService,
+        ShareLinkDbService,
+        JobDescriptionDbService,
+        CoverLetterDbService,
+        OutboxEventDbService,
+        HistoricalIngestionJobDbService,
+    ],
+})
+class TestODMModule {}
+
+describe('AppModule (e2e)', () => {
+    const userId = '4f0c6a2e-3b1d-4f7a-9c2e-8d5b6a1f0e3c';
+    let app: INestApplication;
+    let serverUrl: string;
+    let baseUrl: string;
+    let accessToken: string;
+
+    beforeAll(async () => {
+        const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        });
+        const configurationService = {
+            getConfig: () => ({
+                auth: {
+                    issuer: 'resume-craft-e2e',
+                    accessTokenPrivateKey: privateKey,
+                    accessTokenPublicKey: publicKey,
+                    accessTokenTtlSeconds: 900,
+                    refreshTokenTtlSeconds: 3600,
+                },
+            }),
+        };
+
+        const moduleRef = await Test.createTestingModule({ imports: [AppModule] })
+            .overrideModule(ODMModule)
+            .useModule(TestODMModule)
+            .overrideProvider(ConfigurationService)
+            .useValue(configurationService)
+            .compile();
+
+        app = setupApp(moduleRef.createNestApplication({ logger: false }));
+        await app.listen(0);
+        serverUrl = `http://127.0.0.1:${(app.getHttpServer().address() as AddressInfo).port}`;
+        baseUrl = `${serverUrl}/${API_BASE_PATH}`;
+        ({ accessToken } = app.get(AuthTokenService).issueAccessToken({ userId, role: 'user' }));
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    const request = async (method: string, path: string, body?: object, authorized = true) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {
+                'content-type': 'application/json',
+                // Keep-alive sockets would make the graceful shutdown of the app wait for them.
+                connection: 'close',
+                ...(authorized ? { authorization: `Bearer ${accessToken}` } : {}),
+            },
+            ...(body ? { body: JSON.stringify(body) } : {}),
+        });
+        return { statusCode: response.status, body: await response.json() };
+    };
+
+    const expectErrorEnvelope = (body: object) => {
+        const { isValid, errors } = validate(ErrorResponseSchema, body);
+        expect(errors).toBe('');
+        expect(isValid).toBe(true);
+    };
+
+    it('should wrap successful responses in the success envelope', async () => {
+        userDbService.findOne.mockResolvedValue({ userId, name: 'Jane Doe', email: 'jane@example.com' });
+
+        const { statusCode, body } = await request('GET', `/users/${userId}`);
+
+        expect(statusCode).toBe(HttpStatus.OK);
+        expect(body).toEqual({
+            apiName: 'GetUser',
+            status: API_STATUS.SUCCESS,
+            message: 'User fetched successfully.',
+            result: { userId, name: 'Jane Doe' },
+            responseTimeStamp: expect.any(Number),
+            delay: 0,
+        });
+    });
+
+    it('should trim string fields of the request body', async () => {
+        userDbService.exists.mockResolvedValue(true);
+        userDbService.updateOne.mockResolvedValue({ userId, name: 'Jane Roe' });
+
+        const { statusCode } = await request('PATCH', `/users/${userId}`, { name: '  Jane Roe  ' });
+
+        expect(statusCode).toBe(HttpStatus.OK);
+        expect(userDbService.updateOne).toHaveBeenCalledWith(expect.anything(), { userId }, { name: 'Jane Roe' });
+    });
+
+    it('should report validation failures in the error envelope', async () => {
+        const { statusCode, body } = await request('PATCH', `/users/${userId}`, { nickname: 'jd' });
+
+        expect(statusCode).toBe(HttpStatus.BAD_REQUEST);
+        expectErrorEnvelope(body);
+        expect(body.status).toBe(API_STATUS.ERROR);
+        expect(body.errors[0]).toEqual(
+            expect.objectContaining({ apiName: 'UpdateUser', code: 'INVALID_INPUT', cause: expect.anything() })
+        );
+        expect(userDbService.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should report unexpected errors in the error envelope without leaking the cause', async () => {
+        userDbService.findOne.mockRejectedValue(new Error('connection reset'));
+
+        const { statusCode, body } = await request('GET', `/users/${userId}`);
+
+        expect(statusCode).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+        expectErrorEnvelope(body);
+        expect(body.errors[0]).toEqual(expect.objectContaining({ apiName: 'GetUser', code: 'UNEXPECTED_ERROR' }));
+        expect(body.errors[0].cause).toBeUndefined();
+    });
+
+    it('should reject requests without an access token in the error envelope', async () => {
+        const { statusCode, body } = await request('GET', `/users/${userId}`, undefined, false);
+
+        expect(statusCode).toBe(HttpStatus.UNAUTHORIZED);
+        expectErrorEnvelope(body);
+        expect(body.errors[0].code).toBe('UnauthorizedException');
+    });
+
+    describe('user management', () => {
+        const otherUserId = '9b2d4c6e-1a3f-4e5d-8c7b-6a5f4e3d2c1b';
+
+        it('should only let admins list the users', async () => {
+            const { statusCode, body } = await request('GET', '/users');
+
+            expect(statusCode).toBe(HttpStatus.FORBIDDEN);
+            expectErrorEnvelope(body);
+        });
+
+        it('should not let users change or delete another account', async () => {
+            const update = await request('PATCH', `/users/${otherUserId}`, { name: 'Mallory' });
+            const deletion = await request('DELETE', `/users/${otherUserId}`);
+
+            expect([update.statusCode, deletion.statusCode]).toEqual([HttpStatus.FORBIDDEN, HttpStatus.FORBIDDEN]);
+            expectErrorEnvelope(update.body);
+            expectErrorEnvelope(deletion.body);
+            expect(userDbService.updateOne).not.toHaveBeenCalledWith(
+                expect.anything(),
+                { userId: otherUserId },
+                expect.anything()
+            );
+            expect(userDbService.deleteOne).not.toHaveBeenCalled();
+        });
+
+        it('should let users delete their own account', async () => {
+            const { statusCode, body } = await request('DELETE', `/users/${userId}`);
+
+            expect(statusCode).toBe(HttpStatus.OK);
+            expect(body.result).toEqual({ userId });
+            expect(userDbService.deleteOne).toHaveBeenCalledWith(expect.anything(), { userId });
+        });
+    });
+
+    describe('resume import', () => {
+        it('should report unmapped JSON Resume fields in the response meta', async () => {
+            userDbService.findOne.mockResolvedValue({ userId, name: 'Jane Doe' });
+            dbService.withManualTransaction.mockImplementation((callback) => callback(undefined));
+            resumeDbService.create.mockImplementation(async (_context, resume) => resume);
+
+            const { statusCode, body } = await request('POST', '/resumes/import/json-resume', {
+                basics: { name: 'Jane Doe', label: 'Backend Engineer', email: 'jane@example.com' },
+                skills: [{ name: 'TypeScript', level: 'Expert' }],
+            });
+
+            expect(statusCode).toBe(HttpStatus.CREATED);
+            expect(body.apiName).toBe('ImportJsonResume');
+            expect(body.result).toEqual(
+                expect.objectContaining({
+                    title: 'Backend Engineer',
+                    sections: [expect.objectContaining({ type: 'skills', title: 'Skills' })],
+                })
+            );
+            expect(body.meta.unmappedFields.map(({ path }) => path)).toEqual(['$.basics.name', '$.basics.email']);
+            expect(resumeVersionDbService.create).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ version: 1, title: 'Backend Engineer' }),
+                { session: undefined }
+            );
+        });
+
+        it('should reject documents that do not follow the JSON Resume schema', async () => {
+            const { statusCode, body } = await request('POST', '/resumes/import/json-resume', {
+                work: [{ name: 'Acme', startDate: 'last year' }],
+            });
+
+            expect(statusCode).toBe(HttpStatus.BAD_REQUEST);
+            expectErrorEnvelope(body);
+            expect(resumeDbService.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resume versions', () => {
+        const resumeId = '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1';
+        const buildResumeVersion = (version: number, title: string) => ({
+            resumeId,
+            version,
+            owner: { userId, name: 'Jane Doe' },
+            title,
+            slug: 'backend-engineer-6f1f4bb4',
+            sections: [],
+        });
+
+        it('should compare two versions of a resume', async () => {
+            resumeVersionDbService.findOne.mockImplementation(async (_context, { condition }) =>
+                buildResumeVersion(condition.version, condition.version === 2 ? 'Staff Engineer' : 'Engineer')
+            );
+
+            const { statusCode, body } = await request('GET', `/resumes/${resumeId}/versions/2/diff?against=1`);
+
+            expect(statusCode).toBe(HttpStatus.OK);
+            expect(body.result).toEqual({
+                resumeId,
+                version: 2,
+                against: 1,
+                changes: [{ path: 'title', from: 'Engineer', to: 'Staff Engineer' }],
+                sections: [],
+            });
+        });
+
+        it('should report missing versions as not found', async () => {
+            resumeVersionDbService.findOne.mockResolvedValue(null);
+
+            const { statusCode, body } = await request('GET', `/resumes/${resumeId}/versions/7/diff?against=1`);
+
+            expect(statusCode).toBe(HttpStatus.NOT_FOUND);
+            expectErrorEnvelope(body);
+        });
+
+        it('should save a restored version as the newest version', async () => {
+            dbService.withManualTransaction.mockImplementation((callback) => callback(undefined));
+            resumeDbService.findOne.mockResolvedValue({ ...buildResumeVersion(4, 'Staff Engineer'), version: 4 });
+            resumeVersionDbService.findOne.mockResolvedValue(buildResumeVersion(2, 'Engineer'));
+            resumeDbService.updateOne.mockImplementation(async (_context, _condition, update) => ({
+                ...buildResumeVersion(4, 'Staff Engineer'),
+                ...update,
+            }));
+
+            const { statusCode, body } = await request('POST', `/resumes/${resumeId}/versions/2/restore`);
+
+            expect(statusCode).toBe(HttpStatus.CREATED);
+            expect(body.result).toEqual(expect.objectContaining({ title: 'Engineer', version: 5 }));
+            expect(resumeVersionDbService.create).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ version: 5, restoredFrom: 2, title: 'Engineer' }),
+                { session: undefined }
+            );
+        });
+    });
+
+    describe('resume forks', () => {
+        const resumeId = '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1';
+        const sectionId = '2b7c9d1e-5f3a-4c8b-9e6d-7a1f0c2b3d4e';
+        const sourceResume = {
+            resumeId,
+            owner: { userId, name: 'Jane Doe' },
+            title: 'Backend Engineer',
+            slug: 'backend-engineer-6f1f4bb4',
+            sections: [{ sectionId, type: 'summary', title: 'Summary', order: 0, isHidden: false, content: 'Hi' }],
+            version: 3,
+        };
+
+        it('should copy the resume in a transaction and record where it was forked from', async () => {
+            dbService.withManualTransaction.mockImplementation((callback) => callback(undefined));
+            resumeDbService.findOne.mockResolvedValue(sourceResume);
+            resumeDbService.create.mockImplementation(async (_context, data) => ({ ...data, createdAt: 1 }));
+
+            const { statusCode, body } = await request('POST', `/resumes/${resumeId}/fork`, {
+                title: 'Acme Backend Engineer',
+                sectionOverrides: [{ sectionId, action: 'exclude' }],
+            });
+
+            expect(statusCode).toBe(HttpStatus.CREATED);
+            expect(body.result).toEqual(
+                expect.objectContaining({
+                    title: 'Acme Backend Engineer',
+                    sections: [],
+                    version: 1,
+                    forkedFrom: { resumeId, version: 3 },
+                })
+            );
+            expect(resumeDbService.create).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ ancestorIds: [resumeId], createdBy: userId }),
+                { session: undefined }
+            );
+            expect(resumeVersionDbService.create).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ version: 1, title: 'Acme Backend Engineer' }),
+                { session: undefined }
+            );
+        });
+
+        it('should reject overrides for sections the resume does not have', async () => {
+            dbService.withManualTransaction.mockImplementation((callback) => callback(undefined));
+            resumeDbService.findOne.mockResolvedValue(sourceResume);
+
+            const { statusCode, body } = await request('POST', `/resumes/${resumeId}/fork`, {
+                sectionOverrides: [{ sectionId: '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a', action: 'include' }],
+            });
+
+            expect(statusCode).toBe(HttpStatus.BAD_REQUEST);
+            expectErrorEnvelope(body);
+            expect(resumeDbService.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('public resumes', () => {
+        const token = 'Jq3mV0b8nS2cX7kLr5tY1wZ9pA4dF6gH';
+        const shareLink = {
+            shareLinkId: '0c4b8f1e-2d3a-4e5f-8a9b-1c2d3e4f5a6b',
+            resumeId: '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1',
+            owner: { userId, name: 'Jane Doe' },
+            tokenHash: 'hash',
+            viewCount: 0,
+        };
+
+        it('should serve a shared resume without authentication and count the view', async () => {
+            shareLinkDbService.findByTokenHash.mockResolvedValue(shareLink);
+            shareLinkDbService.recordView.mockResolvedValue({ ...shareLink, viewCount: 1 });
+            resumeDbService.findOne.mockResolvedValue({
+                resumeId: shareLink.resumeId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                slug: 'backend-engineer-6f1f4bb4',
+                sections: [
+                    {
+                        sectionId: 'summary-1',
+                        type: 'summary',
+                        title: 'Draft',
+                        order: 0,
+                        isHidden: true,
+                        content: 'WIP',
+                    },
+                ],
+            });
+
+            const { statusCode, body } = await request('GET', `/public/resumes/${token}`, undefined, false);
+
+            expect(statusCode).toBe(HttpStatus.OK);
+            expect(body.result).toEqual({ title: 'Backend Engineer', ownerName: 'Jane Doe', sections: [] });
+            expect(shareLinkDbService.recordView).toHaveBeenCalledWith(expect.anything(), shareLink.shareLinkId);
+        });
+
+        it('should ask for the password of protected links without counting a view', async () => {
+            shareLinkDbService.findByTokenHash.mockResolvedValue({
+                ...shareLink,
+                passwordHash: await hashPassword('open sesame'),
+            });
+
+            const response = await fetch(`${baseUrl}/public/resumes/${token}`, {
+                headers: { 'x-share-password': 'wrong', connection: 'close' },
+            });
+
+            expect(response.status).toBe(HttpStatus.UNAUTHORIZED);
+            expectErrorEnvelope(await response.json());
+            expect(shareLinkDbService.recordView).not.toHaveBeenCalled();
+        });
+
+        it('should hide revoked links', async () => {
+            shareLinkDbService.findByTokenHash.mockResolvedValue({ ...shareLink, revokedAt: Date.now() });
+
+            const { statusCode, body } = await request('GET', `/public/resumes/${token}`, undefined, false);
+
+            expect(statusCode).toBe(HttpStatus.NOT_FOUND);
+            expectErrorEnvelope(body);
+        });
+    });
+
+    describe('resume match', () => {
+        const resumeId = '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1';
+        const jobId = '8e2d4c6b-1a3f-4b5d-9c7e-0f1a2b3c4d5e';
+
+        it('should score the resume against the job description', async () => {
+            resumeDbService.findOne.mockResolvedValue({
+                resumeId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                slug: 'backend-engineer-6f1f4bb4',
+                sections: [
+                    {
+                        sectionId: 'skills-1',
+                        type: 'skills',
+                        title: 'Skills',
+                        order: 0,
+                        isHidden: false,
+                        items: [{ name: 'TypeScript', proficiency: 'expert' }],
+                    },
+                ],
+            });
+            jobDescriptionDbService.findOne.mockResolvedValue({
+                jobDescriptionId: jobId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                rawText: 'TypeScript and Kafka experience.',
+            });
+
+            const { statusCode, body } = await request('POST', `/resumes/${resumeId}/match/${jobId}`);
+
+            expect(statusCode).toBe(HttpStatus.OK);
+            expect(body.result).toEqual(
+                expect.objectContaining({
+                    resumeId,
+                    jobDescriptionId: jobId,
+                    missingKeywords: [
+                        { keyword: 'kafka', kind: 'skill' },
+                        { keyword: 'experience', kind: 'keyword' },
+                    ],
+                })
+            );
+            expect(body.result.sections).toEqual([
+                expect.objectContaining({ sectionId: 'skills-1', matchedKeywords: ['typescript'] }),
+            ]);
+        });
+
+        it('should respond with not found for an unknown job description', async () => {
+            resumeDbService.findOne.mockResolvedValue({ resumeId, title: 'Backend Engineer', sections: [] });
+            jobDescriptionDbService.findOne.mockResolvedValue(null);
+
+            const { statusCode, body } = await request('POST', `/resumes/${resumeId}/match/${jobId}`);
+
+            expect(statusCode).toBe(HttpStatus.NOT_FOUND);
+            expectErrorEnvelope(body);
+        });
+    });
+
+    describe('ATS report', () => {
+        const resumeId = '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1';
+
+        it('should lint the resume against the owner profile and its template', async () => {
+            resumeDbService.findOne.mockResolvedValue({
+                resumeId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                slug: 'backend-engineer-6f1f4bb4',
+                sections: [{ sectionId: 'summary-1', type: 'summary', title: 'About me!', order: 0, isHidden: false }],
+            });
+            userDbService.findOne.mockResolvedValue({ userId, name: 'Jane Doe', email: 'jane@example.com' });
+
+            const { statusCode, body } = await request('GET', `/resumes/${resumeId}/ats-report`);
+
+            expect(statusCode).toBe(HttpStatus.OK);
+            expect(body.result).toEqual(
+                expect.objectContaining({ resumeId, templateId: 'classic', isAtsFriendly: true, warningCount: 2 })
+            );
+            expect(body.result.issues.map(({ ruleId }) => ruleId)).toEqual([
+                'missing-contact-info',
+                'non-standard-heading',
+            ]);
+        });
+
+        it('should respond with not found for an unknown resume', async () => {
+            resumeDbService.findOne.mockResolvedValue(null);
+
+            const { statusCode, body } = await request('GET', `/resumes/${resumeId}/ats-report`);
+
+            expect(statusCode).toBe(HttpStatus.NOT_FOUND);
+            expectErrorEnvelope(body);
+        });
+    });
+
+    describe('cover letter export', () => {
+        const coverLetterId = '2b7c9e1d-4f3a-4c6b-8d2e-1a9f0b3c5d7e';
+        const jobId = '8e2d4c6b-1a3f-4b5d-9c7e-0f1a2b3c4d5e';
+
+        it('should fill the merge fields from the linked job description', async () => {
+            coverLetterDbService.findOne.mockResolvedValue({
+                coverLetterId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Application to {{company}}',
+                content: 'I would like to join {{company}} as a {{role}}.',
+                resumeId: null,
+                jobDescriptionId: jobId,
+            });
+            jobDescriptionDbService.findOne.mockResolvedValue({
+                jobDescriptionId: jobId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                company: 'Acme',
+                rawText: 'TypeScript and Kafka experience.',
+            });
+
+            const response = await fetch(`${baseUrl}/cover-letters/${coverLetterId}/export?format=markdown`, {
+                headers: { authorization: `Bearer ${accessToken}`, connection: 'close' },
+            });
+
+            expect(response.status).toBe(HttpStatus.OK);
+            expect(response.headers.get('content-disposition')).toBe(
+                'attachment; filename="application-to-acme-cover-letter.md"'
+            );
+            expect(await response.text()).toContain('I would like to join Acme as a Backend Engineer.');
+        });
+
+        it('should reject resume only formats in the error envelope', async () => {
+            const { statusCode, body } = await request(
+                'GET',
+                `/cover-letters/${coverLetterId}/export?format=json-resume`
+            );
+
+            expect(statusCode).toBe(HttpStatus.BAD_REQUEST);
+            expectErrorEnvelope(body);
+        });
+
+        it('should respond with not found for an unknown cover letter', async () => {
+            coverLetterDbService.findOne.mockResolvedValue(null);
+
+            const { statusCode, body } = await request('GET', `/cover-letters/${coverLetterId}/export?format=pdf`);
+
+            expect(statusCode).toBe(HttpStatus.NOT_FOUND);
+            expectErrorEnvelope(body);
+        });
+    });
+
+    describe('resume export', () => {
+        const resumeId = '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1';
+
+        it('should download the resume as a PDF attachment', async () => {
+            resumeDbService.findOne.mockResolvedValue({
+                resumeId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                slug: 'backend-engineer-6f1f4bb4',
+                sections: [],
+            });
+
+            const response = await fetch(`${baseUrl}/resumes/${resumeId}/export?format=pdf`, {
+                headers: { authorization: `Bearer ${accessToken}`, connection: 'close' },
+            });
+            const content = Buffer.from(await response.arrayBuffer());
+
+            expect(response.status).toBe(HttpStatus.OK);
+            expect(response.headers.get('content-type')).toContain('application/pdf');
+            expect(response.headers.get('content-disposition')).toBe(
+                'attachment; filename="backend-engineer-6f1f4bb4.pdf"'
+            );
+            expect(content.subarray(0, 8).toString()).toBe('%PDF-1.4');
+        });
+
+        it('should pick the exporter from the format', async () => {
+            resumeDbService.findOne.mockResolvedValue({
+                resumeId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                slug: 'backend-engineer-6f1f4bb4',
+                sections: [],
+            });
+
+            const response = await fetch(`${baseUrl}/resumes/${resumeId}/export?format=markdown`, {
+                headers: { authorization: `Bearer ${accessToken}`, connection: 'close' },
+            });
+
+            expect(response.status).toBe(HttpStatus.OK);
+            expect(response.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+            expect(response.headers.get('content-disposition')).toBe(
+                'attachment; filename="backend-engineer-6f1f4bb4.md"'
+            );
+            expect(await response.text()).toBe('# Jane Doe\n\n**Backend Engineer**\n');
+        });
+
+        it('should reject unsupported formats in the error envelope', async () => {
+            const { statusCode, body } = await request('GET', `/resumes/${resumeId}/export?format=odt`);
+
+            expect(statusCode).toBe(HttpStatus.BAD_REQUEST);
+            expectErrorEnvelope(body);
+            expect(body.errors[0]).toEqual(expect.objectContaining({ apiName: 'ExportResume', code: 'INVALID_INPUT' }));
+            expect(resumeDbService.findOne).not.toHaveBeenCalled();
+        });
+
+        it('should render with the template version the resume is pinned to', async () => {
+            const templateId = '0b6f3f8e-52a4-4a43-8f0c-0f8a8f0b1c2d';
+            resumeDbService.findOne.mockResolvedValue({
+                resumeId,
+                owner: { userId, name: 'Jane Doe' },
+                title: 'Backend Engineer',
+                slug: 'backend-engineer-6f1f4bb4',
+                sections: [],
+                template: { templateId, version: 1 },
+            });
+            templateDbService.findOne.mockResolvedValue(null);
+
+            const response = await fetch(`${baseUrl}/resumes/${resumeId}/export?format=pdf`, {
+                headers: { authorization: `Bearer ${accessToken}`, connection: 'close' },
+            });
+
+            expect(response.status).toBe(HttpStatus.OK);
+            expect(templateDbService.findOne).toHaveBeenCalledWith(expect.anything(), {
+                condition: expect.objectContaining({ templateId, version: 1 }),
+            });
+        });
+
+        it('should report unknown templates as not found', async () => {
+            const { statusCode, body } = await request(
+                'GET',
+                `/resumes/${resumeId}/export?format=pdf&templateId=fancy`
+            );
+
+            expect(statusCode).toBe(HttpStatus.NOT_FOUND);
+            expectErrorEnvelope(body);
+        });
+    });
+
+    describe('templates', () => {
+        it('should list the template catalog without an access token', async () => {
+            templateDbService.listTemplates.mockResolvedValue([]);
+
+            const { statusCode, body } = await request('GET', '/templates?category=modern', undefined, false);
+
+            expect(statusCode).toBe(HttpStatus.OK);
+            expect(body.apiName).toBe('GetTemplateList');
+            expect(body.result.listOfItems).toEqual([]);
+            expect(templateDbService.listTemplates).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ category: 'modern' }),
+                expect.any(Number)
+            );
+        });
+
+        it('should only let admins change the catalog', async () => {
+            const { statusCode, body } = await request('POST', '/templates', { name: 'Classic' });
+
+            expect(statusCode).toBe(HttpStatus.FORBIDDEN);
+            expectErrorEnvelope(body);
+        });
+    });
+
+    describe('probes', () => {
+        beforeAll(() => {
+            app.get(ProbeRegistryService).register({
+                name: 'mongodb',
+                check: () => {
+                    throw new Error('Connection refused');
+                },
+            });
+        });
+
+        afterAll(() => {
+            app.get(ProbeRegistryService).unregister('mongodb');
+        });
+
+        it('should keep the liveness probe up outside the global prefix while Mongo is down', async () => {
+            const response = await fetch(`${serverUrl}/livenessProbe`, { headers: { connection: 'close' } });
+            const body = await response.json();
+
+            expect(response.status).toBe(HttpStatus.OK);
+            expect(body.result.dependencies).toEqual([
+                { name: 'mongodb', status: 'down', latencyMs: expect.any(Number), error: 'Connection refused' },
+            ]);
+        });
+
+        it('should fail the readiness probe while Mongo is down', async () => {
+            const response = await fetch(`${serverUrl}/readinessProbe`, { headers: { connection: 'close' } });
+            const body = await response.json();
+
+            expect(response.status).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+            expectErrorEnvelope(body);
+            expect(body.errors[0].details.dependencies).toEqual([expect.objectContaining({ name: 'mongodb' })]);
+        });
+    });
+});
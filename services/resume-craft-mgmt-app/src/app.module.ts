@@ -1,18 +1,69 @@
 import { MiddlewareConsumer, Module, NestModule, OnModuleInit } from '@nestjs/common';
-import { HttpAdapterHost } from '@nestjs/core';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR, HttpAdapterHost } from '@nestjs/core';
 import { TerminusModule } from '@nestjs/terminus';
-import { RequestContextMiddleware, ODMModule } from '@resume/resume-craft-common';
+import {
+    AuthGuard,
+    AuthTokenModule,
+    ErrorHandlerFilter,
+    HistoricalDataIngestionModule,
+    KafkaModule,
+    ODMModule,
+    OutboxRelayModule,
+    ProbesModule,
+    RemoteCacheModule,
+    RequestContextMiddleware,
+    ResponseInterceptor,
+    RolesGuard,
+    TrimMiddleware,
+} from '@resume/resume-craft-common';
 
-import { UserModule } from './modules';
+import {
+    AtsReportModule,
+    AuthModule,
+    CoverLetterModule,
+    JobDescriptionModule,
+    ResumeExportModule,
+    ResumeMatchModule,
+    ResumeModule,
+    ShareLinkModule,
+    TemplateModule,
+    UserModule,
+} from './modules';
 
 @Module({
-    imports: [TerminusModule, ODMModule, UserModule],
+    imports: [
+        TerminusModule,
+        ODMModule,
+        RemoteCacheModule,
+        KafkaModule,
+        OutboxRelayModule,
+        HistoricalDataIngestionModule,
+        ProbesModule.register({ isConsumer: false, isProducer: false }),
+        AuthTokenModule,
+        AuthModule,
+        UserModule,
+        ResumeModule,
+        ResumeExportModule,
+        TemplateModule,
+        ShareLinkModule,
+        JobDescriptionModule,
+        ResumeMatchModule,
+        AtsReportModule,
+        CoverLetterModule,
+    ],
+    // Guards run in registration order, roles are checked once the access token is verified.
+    providers: [
+        { provide: APP_GUARD, useClass: AuthGuard },
+        { provide: APP_GUARD, useClass: RolesGuard },
+        { provide: APP_INTERCEPTOR, useClass: ResponseInterceptor },
+        { provide: APP_FILTER, useClass: ErrorHandlerFilter },
+    ],
 })
 export class AppModule implements NestModule, OnModuleInit {
     constructor(private readonly httpAdapterHost: HttpAdapterHost) {}
 
     configure(consumer: MiddlewareConsumer) {
-        consumer.apply(RequestContextMiddleware).forRoutes('*');
+        consumer.apply(RequestContextMiddleware, TrimMiddleware).forRoutes('*');
     }
 
     onModuleInit() {
@@ -0,0 +1,24 @@
+import { INestApplication } from '@nestjs/common';
+import responseTime from 'server-timing';
+
+import { API_BASE_PATH } from './constants/app.constant';
+
+/**
+ * Applies the HTTP level configuration of the app, shared by `bootstrap()` and the e2e tests.
+ */
+export function setupApp(app: INestApplication): INestApplication {
+    app.setGlobalPrefix(API_BASE_PATH, {
+        exclude: ['/', '/health', '/startUpProbe', '/livenessProbe', '/readinessProbe'],
+    });
+
+    app.enableCors({
+        origin: '*',
+        methods: 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS',
+        credentials: true,
+    });
+
+    app.enableShutdownHooks();
+    app.use(responseTime());
+
+    return app;
+}
@@ -0,0 +1,48 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const USERS_COLLECTION = 'users';
+const USER_EMAIL_UNIQUE_INDEX = 'email_unique_ci';
+
+/**
+ * Emails are unique irrespective of case: the index uses a strength 2 collation, which compares
+ * `Jane@Example.com` and `jane@example.com` as equal. Soft deleted users are left out of the index
+ * so that an email can be registered again once its previous owner is deleted.
+ */
+export class AddUserEmailUniqueIndex20261019090000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        const duplicates = await db
+            .collection(USERS_COLLECTION)
+            .aggregate(
+                [
+                    { $match: { deletedAt: null } },
+                    { $group: { _id: { $toLower: '$email' }, count: { $sum: 1 } } },
+                    { $match: { count: { $gt: 1 } } },
+                ],
+                { allowDiskUse: true }
+            )
+            .toArray();
+
+        if (duplicates.length) {
+            throw new Error(
+                `Cannot create ${USER_EMAIL_UNIQUE_INDEX}, duplicate emails found: ${duplicates
+                    .map(({ _id }) => _id)
+                    .join(', ')}`
+            );
+        }
+
+        await db.collection(USERS_COLLECTION).createIndex(
+            { email: 1 },
+            {
+                name: USER_EMAIL_UNIQUE_INDEX,
+                unique: true,
+                collation: { locale: 'en', strength: 2 },
+                partialFilterExpression: { deletedAt: { $type: 'null' } },
+            }
+        );
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(USERS_COLLECTION).dropIndex(USER_EMAIL_UNIQUE_INDEX);
+    }
+}
@@ -0,0 +1,25 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const REFRESH_TOKENS_COLLECTION = 'refreshtokens';
+const REFRESH_TOKEN_HASH_UNIQUE_INDEX = 'tokenHash_unique';
+const REFRESH_TOKEN_FAMILY_INDEX = 'userId_familyId';
+
+/**
+ * Refresh requests look tokens up by hash only, and reuse detection revokes every token of a family.
+ */
+export class AddRefreshTokenIndexes20261019100000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(REFRESH_TOKENS_COLLECTION)
+            .createIndex({ tokenHash: 1 }, { name: REFRESH_TOKEN_HASH_UNIQUE_INDEX, unique: true });
+        await db
+            .collection(REFRESH_TOKENS_COLLECTION)
+            .createIndex({ userId: 1, familyId: 1 }, { name: REFRESH_TOKEN_FAMILY_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(REFRESH_TOKENS_COLLECTION).dropIndex(REFRESH_TOKEN_FAMILY_INDEX);
+        await db.collection(REFRESH_TOKENS_COLLECTION).dropIndex(REFRESH_TOKEN_HASH_UNIQUE_INDEX);
+    }
+}
@@ -0,0 +1,20 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const USERS_COLLECTION = 'users';
+const DEFAULT_USER_ROLE = 'user';
+
+/**
+ * Users created before roles existed get the least privileged role. Admins have to be promoted explicitly.
+ */
+export class BackfillUserRole20261019110000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(USERS_COLLECTION)
+            .updateMany({ role: { $exists: false } }, { $set: { role: DEFAULT_USER_ROLE } });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(USERS_COLLECTION).updateMany({}, { $unset: { role: '' } });
+    }
+}
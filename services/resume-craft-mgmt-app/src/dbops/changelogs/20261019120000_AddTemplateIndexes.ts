@@ -0,0 +1,29 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const TEMPLATES_COLLECTION = 'templates';
+const TEMPLATE_VERSION_UNIQUE_INDEX = 'templateId_version_unique';
+const TEMPLATE_CATALOG_INDEX = 'isLatest_name_templateId';
+const TEMPLATE_SLUG_INDEX = 'slug_isLatest';
+
+/**
+ * Every template version is its own document. Publishing the same version twice must fail, the catalog lists
+ * latest versions by name, and slugs are checked for uniqueness among latest versions.
+ */
+export class AddTemplateIndexes20261019120000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(TEMPLATES_COLLECTION)
+            .createIndex({ templateId: 1, version: 1 }, { name: TEMPLATE_VERSION_UNIQUE_INDEX, unique: true });
+        await db
+            .collection(TEMPLATES_COLLECTION)
+            .createIndex({ isLatest: 1, name: 1, templateId: 1 }, { name: TEMPLATE_CATALOG_INDEX });
+        await db.collection(TEMPLATES_COLLECTION).createIndex({ slug: 1, isLatest: 1 }, { name: TEMPLATE_SLUG_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(TEMPLATES_COLLECTION).dropIndex(TEMPLATE_SLUG_INDEX);
+        await db.collection(TEMPLATES_COLLECTION).dropIndex(TEMPLATE_CATALOG_INDEX);
+        await db.collection(TEMPLATES_COLLECTION).dropIndex(TEMPLATE_VERSION_UNIQUE_INDEX);
+    }
+}
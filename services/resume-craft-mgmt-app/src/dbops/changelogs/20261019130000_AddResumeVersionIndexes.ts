@@ -0,0 +1,20 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const RESUME_VERSIONS_COLLECTION = 'resume_versions';
+const RESUME_VERSION_UNIQUE_INDEX = 'resumeId_version_unique';
+
+/**
+ * Snapshots are looked up and listed per resume by version number, and a version can only be written once.
+ */
+export class AddResumeVersionIndexes20261019130000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(RESUME_VERSIONS_COLLECTION)
+            .createIndex({ resumeId: 1, version: -1 }, { name: RESUME_VERSION_UNIQUE_INDEX, unique: true });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(RESUME_VERSIONS_COLLECTION).dropIndex(RESUME_VERSION_UNIQUE_INDEX);
+    }
+}
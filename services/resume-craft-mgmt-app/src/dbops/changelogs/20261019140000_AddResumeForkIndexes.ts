@@ -0,0 +1,20 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const RESUMES_COLLECTION = 'resumes';
+const RESUME_FORK_LIST_INDEX = 'ancestorIds_title_resumeId';
+
+/**
+ * Forks are listed for any of their ancestors, in the same title order as the resume list.
+ */
+export class AddResumeForkIndexes20261019140000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(RESUMES_COLLECTION)
+            .createIndex({ ancestorIds: 1, title: 1, resumeId: 1 }, { name: RESUME_FORK_LIST_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(RESUMES_COLLECTION).dropIndex(RESUME_FORK_LIST_INDEX);
+    }
+}
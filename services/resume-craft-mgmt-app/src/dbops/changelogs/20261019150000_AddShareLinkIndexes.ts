@@ -0,0 +1,27 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const SHARE_LINKS_COLLECTION = 'share_links';
+const SHARE_LINK_TOKEN_HASH_INDEX = 'tokenHash_unique';
+const SHARE_LINK_LIST_INDEX = 'resumeId_ownerUserId_createdAt_shareLinkId';
+
+/**
+ * Public views look links up by token hash, which must never match two links. Owners list the links of a
+ * resume newest first.
+ */
+export class AddShareLinkIndexes20261019150000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        const collection = db.collection(SHARE_LINKS_COLLECTION);
+        await collection.createIndex({ tokenHash: 1 }, { name: SHARE_LINK_TOKEN_HASH_INDEX, unique: true });
+        await collection.createIndex(
+            { resumeId: 1, 'owner.userId': 1, createdAt: -1, shareLinkId: -1 },
+            { name: SHARE_LINK_LIST_INDEX }
+        );
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        const collection = db.collection(SHARE_LINKS_COLLECTION);
+        await collection.dropIndex(SHARE_LINK_TOKEN_HASH_INDEX);
+        await collection.dropIndex(SHARE_LINK_LIST_INDEX);
+    }
+}
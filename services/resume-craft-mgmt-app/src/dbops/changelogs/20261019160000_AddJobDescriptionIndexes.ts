@@ -0,0 +1,20 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const JOB_DESCRIPTIONS_COLLECTION = 'job_descriptions';
+const JOB_DESCRIPTION_LIST_INDEX = 'ownerUserId_title_jobDescriptionId';
+
+/**
+ * Owners list their job descriptions by title, with the id as the cursor tie breaker.
+ */
+export class AddJobDescriptionIndexes20261019160000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(JOB_DESCRIPTIONS_COLLECTION)
+            .createIndex({ 'owner.userId': 1, title: 1, jobDescriptionId: 1 }, { name: JOB_DESCRIPTION_LIST_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(JOB_DESCRIPTIONS_COLLECTION).dropIndex(JOB_DESCRIPTION_LIST_INDEX);
+    }
+}
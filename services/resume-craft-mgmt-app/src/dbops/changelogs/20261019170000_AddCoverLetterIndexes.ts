@@ -0,0 +1,20 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const COVER_LETTERS_COLLECTION = 'cover_letters';
+const COVER_LETTER_LIST_INDEX = 'ownerUserId_title_coverLetterId';
+
+/**
+ * Owners list their cover letters by title, with the id as the cursor tie breaker.
+ */
+export class AddCoverLetterIndexes20261019170000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        await db
+            .collection(COVER_LETTERS_COLLECTION)
+            .createIndex({ 'owner.userId': 1, title: 1, coverLetterId: 1 }, { name: COVER_LETTER_LIST_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        await db.collection(COVER_LETTERS_COLLECTION).dropIndex(COVER_LETTER_LIST_INDEX);
+    }
+}
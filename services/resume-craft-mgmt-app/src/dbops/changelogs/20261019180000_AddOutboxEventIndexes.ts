@@ -0,0 +1,23 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const OUTBOX_EVENTS_COLLECTION = 'outbox_events';
+const OUTBOX_EVENT_ID_INDEX = 'eventId';
+const OUTBOX_EVENT_RELAY_INDEX = 'status_id';
+
+/**
+ * The relay claims pending events in insertion order, and settles them by event id.
+ */
+export class AddOutboxEventIndexes20261019180000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        const collection = db.collection(OUTBOX_EVENTS_COLLECTION);
+        await collection.createIndex({ eventId: 1 }, { name: OUTBOX_EVENT_ID_INDEX, unique: true });
+        await collection.createIndex({ status: 1, _id: 1 }, { name: OUTBOX_EVENT_RELAY_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        const collection = db.collection(OUTBOX_EVENTS_COLLECTION);
+        await collection.dropIndex(OUTBOX_EVENT_RELAY_INDEX);
+        await collection.dropIndex(OUTBOX_EVENT_ID_INDEX);
+    }
+}
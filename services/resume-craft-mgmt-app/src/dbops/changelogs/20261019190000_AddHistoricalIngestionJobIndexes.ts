@@ -0,0 +1,23 @@
+import { Db } from 'mongodb';
+import { MigrationInterface } from 'mongo-migrate-ts';
+
+const HISTORICAL_INGESTION_JOBS_COLLECTION = 'historical_ingestion_jobs';
+const HISTORICAL_INGESTION_JOB_ID_INDEX = 'jobId';
+const HISTORICAL_INGESTION_JOB_CLAIM_INDEX = 'status_leaseExpiresAt';
+
+/**
+ * Runners claim due jobs by status and lease, and update them by job id.
+ */
+export class AddHistoricalIngestionJobIndexes20261019190000 implements MigrationInterface {
+    public async up(db: Db): Promise<void | never> {
+        const collection = db.collection(HISTORICAL_INGESTION_JOBS_COLLECTION);
+        await collection.createIndex({ jobId: 1 }, { name: HISTORICAL_INGESTION_JOB_ID_INDEX, unique: true });
+        await collection.createIndex({ status: 1, leaseExpiresAt: 1 }, { name: HISTORICAL_INGESTION_JOB_CLAIM_INDEX });
+    }
+
+    public async down(db: Db): Promise<void | never> {
+        const collection = db.collection(HISTORICAL_INGESTION_JOBS_COLLECTION);
+        await collection.dropIndex(HISTORICAL_INGESTION_JOB_CLAIM_INDEX);
+        await collection.dropIndex(HISTORICAL_INGESTION_JOB_ID_INDEX);
+    }
+}
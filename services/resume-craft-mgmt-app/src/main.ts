@@ -1,27 +1,15 @@
 import { NestFactory } from '@nestjs/core';
 import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerCustomOptions, SwaggerModule } from '@nestjs/swagger';
-import responseTime from 'server-timing';
 
 import { configureSwaggerWithTags } from '@resume/resume-craft-common';
 import { AppModule } from './app.module';
+import { setupApp } from './app.setup';
 import { API_BASE_PATH, PORT } from './constants/app.constant';
 
 export async function bootstrap(): Promise<void> {
     const app = await NestFactory.create<NestExpressApplication>(AppModule);
-
-    app.setGlobalPrefix(API_BASE_PATH, {
-        exclude: ['/', '/health', '/startUpProbe', '/livenessProbe', '/readinessProbe'],
-    });
-
-    app.enableCors({
-        origin: '*',
-        methods: 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS',
-        credentials: true,
-    });
-
-    app.enableShutdownHooks();
-    app.use(responseTime());
+    setupApp(app);
 
     // Generate Swagger documentation only in non-production environments unless explicitly enabled via ENABLE_SWAGGER=true
     const enableSwagger = process.env.NODE_ENV !== 'prod';
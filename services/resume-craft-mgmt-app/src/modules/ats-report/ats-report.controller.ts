@@ -0,0 +1,55 @@
+import { Controller, Get, HttpStatus, Inject, Injectable, Param, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    LoggerFactory,
+    ResumeCraftRequest,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    ErrorResponseOpenApiSchema,
+    GetAtsReportRespOpenApiSchema,
+    ResumeIdParamOpenApiSchema,
+    ResumeIdParamSchema,
+    ResumeIdParamType,
+} from '@resume/resume-craft-api-contracts';
+import { GetAtsReportService } from './services';
+
+@Controller('resumes')
+@Injectable({ scope: Scope.REQUEST })
+export class AtsReportController {
+    private readonly logger = LoggerFactory.getLogger(AtsReportController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly getAtsReportService: GetAtsReportService
+    ) {
+        this.logger.debug(`${AtsReportController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetAtsReport',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetAtsReportRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':resumeId/ats-report')
+    async getAtsReport(@Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType) {
+        const { context } = this.request;
+        const result = await this.getAtsReportService.getAtsReport(context, resumeId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'ATS report generated successfully.',
+        };
+    }
+}
@@ -0,0 +1,57 @@
+import { Resume } from '@resume/resume-craft-common';
+
+import { CLASSIC_RESUME_TEMPLATE } from '../resume-export/templates';
+import { AtsRuleContext } from './ats-report.types';
+
+/**
+ * Rule context the rule specs start from. The resume passes every rule, each spec breaks the part it checks.
+ */
+export const buildAtsRuleContext = (
+    resumeOverrides: Partial<Resume> = {},
+    overrides: Partial<Omit<AtsRuleContext, 'resume'>> = {}
+): AtsRuleContext => ({
+    resume: {
+        resumeId: '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1',
+        owner: { userId: 'b0f1c2d3-0000-4000-8000-000000000001', name: 'Ada Lovelace' },
+        title: 'Senior Backend Engineer',
+        slug: 'senior-backend-engineer-6f1f4bb4',
+        sections: [
+            {
+                sectionId: 's-1',
+                type: 'summary',
+                title: 'Summary',
+                order: 0,
+                isHidden: false,
+                content: 'Backend engineer building payment systems.',
+            },
+            {
+                sectionId: 's-2',
+                type: 'experience',
+                title: 'Work Experience',
+                order: 1,
+                isHidden: false,
+                items: [
+                    {
+                        company: 'Acme',
+                        role: 'Staff Engineer',
+                        startDate: '2021-03-01',
+                        isCurrent: true,
+                        bulletPoints: ['Led the billing platform migration'],
+                    },
+                    {
+                        company: 'Globex',
+                        role: 'Engineer',
+                        startDate: '2017-01-01',
+                        endDate: '2021-02-01',
+                        bulletPoints: ['Built the payments API'],
+                    },
+                ],
+            },
+        ],
+        ...resumeOverrides,
+    } as Resume,
+    contact: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '+44 20 7946 0000' },
+    template: CLASSIC_RESUME_TEMPLATE,
+    now: Date.UTC(2026, 9, 19),
+    ...overrides,
+});
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { AtsReportController } from './ats-report.controller';
+import { GetAtsReportService } from './services';
+import { ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule],
+    controllers: [AtsReportController],
+    providers: [GetAtsReportService],
+})
+export class AtsReportModule {}
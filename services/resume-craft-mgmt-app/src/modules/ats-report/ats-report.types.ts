@@ -0,0 +1,32 @@
+import { AtsIssueSeverity, AtsIssueType, AtsRuleId } from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { ResumeTemplate } from '../resume-export/resume-export.types';
+
+export type AtsIssue = Omit<AtsIssueType, 'ruleId' | 'severity'> & {
+    ruleId: `${AtsRuleId}`;
+    severity: `${AtsIssueSeverity}`;
+};
+
+/**
+ * Everything a rule may look at. Contact details come from the owner's profile, `now` is passed in so that
+ * rules never read the clock themselves.
+ */
+export type AtsRuleContext = {
+    resume: Resume;
+    contact: {
+        name?: string | null;
+        email?: string | null;
+        phone?: string | null;
+    };
+    template: ResumeTemplate;
+    now: number;
+};
+
+/**
+ * One check of the ATS report. Rules are pure: the same context always gives the same issues.
+ */
+export type AtsRule = {
+    readonly id: `${AtsRuleId}`;
+    check(context: AtsRuleContext): AtsIssue[];
+};
@@ -0,0 +1,41 @@
+import { AtsRuleId } from '@resume/resume-craft-api-contracts';
+
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { AtsRule } from '../ats-report.types';
+import { buildAtsReport } from './ats-report.helper';
+
+const ruleReporting = (...severities: ('error' | 'warning' | 'info')[]): AtsRule => ({
+    id: AtsRuleId.LongBullet,
+    check: () =>
+        severities.map((severity, index) => ({
+            ruleId: AtsRuleId.LongBullet,
+            severity,
+            message: `${severity} ${index}`,
+            fixHint: 'Fix it',
+        })),
+});
+
+describe('buildAtsReport', () => {
+    it('should list issues most severe first and count them', () => {
+        const report = buildAtsReport(
+            [ruleReporting('info', 'warning'), ruleReporting('error', 'warning')],
+            buildAtsRuleContext()
+        );
+
+        expect(report.issues.map(({ message }) => message)).toEqual(['error 0', 'warning 1', 'warning 1', 'info 0']);
+        expect(report).toEqual(
+            expect.objectContaining({
+                resumeId: '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1',
+                templateId: 'classic',
+                isAtsFriendly: false,
+                errorCount: 1,
+                warningCount: 2,
+                infoCount: 1,
+            })
+        );
+    });
+
+    it('should call a resume without errors ATS friendly', () => {
+        expect(buildAtsReport([ruleReporting('warning')], buildAtsRuleContext()).isAtsFriendly).toBe(true);
+    });
+});
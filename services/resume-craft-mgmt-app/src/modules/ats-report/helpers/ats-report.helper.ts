@@ -0,0 +1,44 @@
+import { AtsIssueSeverity, AtsReportType } from '@resume/resume-craft-api-contracts';
+import { ResumeSection } from '@resume/resume-craft-common';
+
+import { AtsIssue, AtsRule, AtsRuleContext } from '../ats-report.types';
+
+const SEVERITY_ORDER: `${AtsIssueSeverity}`[] = [
+    AtsIssueSeverity.Error,
+    AtsIssueSeverity.Warning,
+    AtsIssueSeverity.Info,
+];
+
+/**
+ * Sections an applicant tracking system actually receives, hidden ones are never exported.
+ */
+export const getVisibleSections = (context: AtsRuleContext): ResumeSection[] =>
+    (context.resume.sections || []).filter((section) => !section.isHidden);
+
+const countBySeverity = (issues: AtsIssue[], severity: `${AtsIssueSeverity}`): number =>
+    issues.filter((issue) => issue.severity === severity).length;
+
+/**
+ * Runs every rule and lists the issues most severe first, keeping the rule order within a severity.
+ */
+export const buildAtsReport = (rules: readonly AtsRule[], context: AtsRuleContext): AtsReportType => {
+    const issues = rules
+        .flatMap((rule) => rule.check(context))
+        .map((issue, index) => ({ issue, index }))
+        .sort(
+            (a, b) =>
+                SEVERITY_ORDER.indexOf(a.issue.severity) - SEVERITY_ORDER.indexOf(b.issue.severity) || a.index - b.index
+        )
+        .map(({ issue }) => issue);
+    const errorCount = countBySeverity(issues, AtsIssueSeverity.Error);
+
+    return {
+        resumeId: context.resume.resumeId,
+        templateId: context.template.templateId,
+        isAtsFriendly: errorCount === 0,
+        errorCount,
+        warningCount: countBySeverity(issues, AtsIssueSeverity.Warning),
+        infoCount: countBySeverity(issues, AtsIssueSeverity.Info),
+        issues,
+    };
+};
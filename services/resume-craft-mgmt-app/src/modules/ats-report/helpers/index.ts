@@ -0,0 +1 @@
+export * from './ats-report.helper';
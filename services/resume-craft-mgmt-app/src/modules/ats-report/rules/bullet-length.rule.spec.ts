@@ -0,0 +1,41 @@
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { ATS_BULLET_MAX_LENGTH, bulletLengthRule } from './bullet-length.rule';
+
+describe('bulletLengthRule', () => {
+    it('should pass short bullet points', () => {
+        expect(bulletLengthRule.check(buildAtsRuleContext())).toEqual([]);
+    });
+
+    it('should report bullet points longer than a summary description', () => {
+        const longBullet = 'x'.repeat(ATS_BULLET_MAX_LENGTH + 1);
+        const issues = bulletLengthRule.check(
+            buildAtsRuleContext({
+                sections: [
+                    {
+                        sectionId: 's-4',
+                        type: 'projects',
+                        title: 'Projects',
+                        order: 0,
+                        isHidden: false,
+                        items: [
+                            { name: 'Resume Craft', bulletPoints: ['Short'] },
+                            { name: 'Ledger', bulletPoints: ['Short', longBullet] },
+                        ],
+                    },
+                ] as Resume['sections'],
+            })
+        );
+
+        expect(ATS_BULLET_MAX_LENGTH).toBe(255);
+        expect(issues).toEqual([
+            expect.objectContaining({
+                severity: 'warning',
+                message: `A bullet point in Projects is ${ATS_BULLET_MAX_LENGTH + 1} characters long.`,
+                sectionId: 's-4',
+                itemIndex: 1,
+            }),
+        ]);
+    });
+});
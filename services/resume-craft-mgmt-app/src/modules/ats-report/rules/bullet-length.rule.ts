@@ -0,0 +1,29 @@
+import { AtsIssueSeverity, AtsRuleId, DescriptionLimits, DescriptionType } from '@resume/resume-craft-api-contracts';
+
+import { AtsIssue, AtsRule } from '../ats-report.types';
+import { getVisibleSections } from '../helpers';
+
+/**
+ * Bullets may be stored as long as a detailed description, but parsers and recruiters skim them, so the
+ * report holds them to the length of a summary.
+ */
+export const ATS_BULLET_MAX_LENGTH = DescriptionLimits[DescriptionType.Summary].max;
+
+export const bulletLengthRule: AtsRule = {
+    id: AtsRuleId.LongBullet,
+    check: (context) =>
+        getVisibleSections(context).flatMap((section) =>
+            (section.items || []).flatMap((item, itemIndex): AtsIssue[] =>
+                ((item as { bulletPoints?: string[] }).bulletPoints || [])
+                    .filter((bulletPoint) => bulletPoint.length > ATS_BULLET_MAX_LENGTH)
+                    .map((bulletPoint) => ({
+                        ruleId: AtsRuleId.LongBullet,
+                        severity: AtsIssueSeverity.Warning,
+                        message: `A bullet point in ${section.title} is ${bulletPoint.length} characters long.`,
+                        fixHint: `Keep bullet points under ${ATS_BULLET_MAX_LENGTH} characters, split longer ones into separate achievements.`,
+                        sectionId: section.sectionId,
+                        itemIndex,
+                    }))
+            )
+        ),
+};
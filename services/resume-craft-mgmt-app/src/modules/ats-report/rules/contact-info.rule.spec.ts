@@ -0,0 +1,19 @@
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { contactInfoRule } from './contact-info.rule';
+
+describe('contactInfoRule', () => {
+    it('should pass a resume with a name, email and phone', () => {
+        expect(contactInfoRule.check(buildAtsRuleContext())).toEqual([]);
+    });
+
+    it('should report a missing email as an error and a missing phone as a warning', () => {
+        const issues = contactInfoRule.check(
+            buildAtsRuleContext({}, { contact: { name: 'Ada Lovelace', email: ' ', phone: null } })
+        );
+
+        expect(issues.map(({ severity, message }) => [severity, message])).toEqual([
+            ['error', 'The resume has no email address.'],
+            ['warning', 'The resume has no phone number.'],
+        ]);
+    });
+});
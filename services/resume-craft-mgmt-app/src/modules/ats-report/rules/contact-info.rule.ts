@@ -0,0 +1,40 @@
+import { AtsIssueSeverity, AtsRuleId } from '@resume/resume-craft-api-contracts';
+
+import { AtsIssue, AtsRule } from '../ats-report.types';
+
+/**
+ * Recruiters reach candidates through the name, email and phone parsed from the top of the resume.
+ */
+export const contactInfoRule: AtsRule = {
+    id: AtsRuleId.MissingContactInfo,
+    check: ({ contact }) => {
+        const issues: AtsIssue[] = [];
+
+        if (!contact.name?.trim()) {
+            issues.push({
+                ruleId: AtsRuleId.MissingContactInfo,
+                severity: AtsIssueSeverity.Error,
+                message: 'The resume has no name.',
+                fixHint: 'Add your full name to your profile.',
+            });
+        }
+        if (!contact.email?.trim()) {
+            issues.push({
+                ruleId: AtsRuleId.MissingContactInfo,
+                severity: AtsIssueSeverity.Error,
+                message: 'The resume has no email address.',
+                fixHint: 'Add an email address to your profile.',
+            });
+        }
+        if (!contact.phone?.trim()) {
+            issues.push({
+                ruleId: AtsRuleId.MissingContactInfo,
+                severity: AtsIssueSeverity.Warning,
+                message: 'The resume has no phone number.',
+                fixHint: 'Add a phone number to your profile so recruiters can call you.',
+            });
+        }
+
+        return issues;
+    },
+};
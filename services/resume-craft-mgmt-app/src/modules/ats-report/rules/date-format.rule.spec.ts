@@ -0,0 +1,54 @@
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { dateFormatRule, getDateFormat } from './date-format.rule';
+
+const withEducation = (items: object[]): Partial<Resume> => ({
+    sections: [
+        ...buildAtsRuleContext().resume.sections,
+        { sectionId: 's-3', type: 'education', title: 'Education', order: 2, isHidden: false, items },
+    ] as Resume['sections'],
+});
+
+describe('getDateFormat', () => {
+    it('should recognise full, month and year dates only', () => {
+        expect(['2024-03-01', '2024-03', '2024', 'March 2024'].map(getDateFormat)).toEqual([
+            'YYYY-MM-DD',
+            'YYYY-MM',
+            'YYYY',
+            undefined,
+        ]);
+    });
+});
+
+describe('dateFormatRule', () => {
+    it('should pass dates that share one format', () => {
+        expect(dateFormatRule.check(buildAtsRuleContext())).toEqual([]);
+    });
+
+    it('should report unreadable dates and a mix of formats', () => {
+        const issues = dateFormatRule.check(
+            buildAtsRuleContext(
+                withEducation([{ institution: 'MIT', degree: 'BSc', startDate: '2012', endDate: 'Summer 2016' }])
+            )
+        );
+
+        expect(issues).toEqual([
+            expect.objectContaining({
+                message: '"Summer 2016" in Education is not a recognisable date.',
+                sectionId: 's-3',
+                itemIndex: 0,
+            }),
+            expect.objectContaining({ message: 'Dates are written in 2 different formats (YYYY-MM-DD, YYYY).' }),
+        ]);
+    });
+
+    it('should ignore hidden sections', () => {
+        const { resume } = buildAtsRuleContext(
+            withEducation([{ institution: 'MIT', degree: 'BSc', startDate: 'Fall 2012' }])
+        );
+        resume.sections[2].isHidden = true;
+
+        expect(dateFormatRule.check(buildAtsRuleContext(resume))).toEqual([]);
+    });
+});
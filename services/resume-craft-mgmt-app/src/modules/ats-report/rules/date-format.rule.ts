@@ -0,0 +1,65 @@
+import { AtsIssueSeverity, AtsRuleId } from '@resume/resume-craft-api-contracts';
+
+import { AtsIssue, AtsRule } from '../ats-report.types';
+import { getVisibleSections } from '../helpers';
+
+const DATE_FORMATS: { name: string; pattern: RegExp }[] = [
+    { name: 'YYYY-MM-DD', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+    { name: 'YYYY-MM', pattern: /^\d{4}-\d{2}$/ },
+    { name: 'YYYY', pattern: /^\d{4}$/ },
+];
+
+const DATE_FIELDS = ['startDate', 'endDate', 'issueDate', 'expiryDate', 'date'] as const;
+
+type DatedItem = Partial<Record<(typeof DATE_FIELDS)[number], string | null>>;
+
+export const getDateFormat = (value: string): string | undefined =>
+    DATE_FORMATS.find(({ pattern }) => pattern.test(value))?.name;
+
+/**
+ * Parsers read a timeline from the dates, so every date should be recognisable and written the same way.
+ * Dates saved through the API are always `YYYY-MM-DD`, other formats come from imports and older resumes.
+ */
+export const dateFormatRule: AtsRule = {
+    id: AtsRuleId.InconsistentDateFormat,
+    check: (context) => {
+        const issues: AtsIssue[] = [];
+        const formats = new Set<string>();
+
+        getVisibleSections(context).forEach((section) =>
+            (section.items || []).forEach((item, itemIndex) =>
+                DATE_FIELDS.forEach((field) => {
+                    const value = (item as DatedItem)[field];
+                    if (!value) {
+                        return;
+                    }
+
+                    const format = getDateFormat(value);
+                    if (format) {
+                        formats.add(format);
+                        return;
+                    }
+                    issues.push({
+                        ruleId: AtsRuleId.InconsistentDateFormat,
+                        severity: AtsIssueSeverity.Warning,
+                        message: `"${value}" in ${section.title} is not a recognisable date.`,
+                        fixHint: 'Write dates as year, month and day, for example 2024-03-01.',
+                        sectionId: section.sectionId,
+                        itemIndex,
+                    });
+                })
+            )
+        );
+
+        if (formats.size > 1) {
+            issues.push({
+                ruleId: AtsRuleId.InconsistentDateFormat,
+                severity: AtsIssueSeverity.Warning,
+                message: `Dates are written in ${formats.size} different formats (${[...formats].join(', ')}).`,
+                fixHint: 'Use the same date format throughout the resume.',
+            });
+        }
+
+        return issues;
+    },
+};
@@ -0,0 +1,57 @@
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { employmentGapRule, toMonthIndex } from './employment-gap.rule';
+
+const withExperience = (items: object[]): Partial<Resume> => ({
+    sections: [
+        { sectionId: 's-2', type: 'experience', title: 'Experience', order: 0, isHidden: false, items },
+    ] as Resume['sections'],
+});
+
+describe('toMonthIndex', () => {
+    it('should count months for every supported date format', () => {
+        expect(toMonthIndex('2024-03-15')).toBe(2024 * 12 + 2);
+        expect(toMonthIndex('2024-03')).toBe(2024 * 12 + 2);
+        expect(toMonthIndex('2024')).toBe(2024 * 12);
+        expect(toMonthIndex('March 2024')).toBeUndefined();
+    });
+});
+
+describe('employmentGapRule', () => {
+    it('should pass back to back jobs', () => {
+        expect(employmentGapRule.check(buildAtsRuleContext())).toEqual([]);
+    });
+
+    it('should report gaps longer than six months between jobs', () => {
+        const issues = employmentGapRule.check(
+            buildAtsRuleContext(
+                withExperience([
+                    { company: 'Acme', startDate: '2022-06-01', isCurrent: true },
+                    { company: 'Globex', startDate: '2018-01-01', endDate: '2021-01-01' },
+                ])
+            )
+        );
+
+        expect(issues).toEqual([
+            expect.objectContaining({
+                severity: 'info',
+                message: 'There is a 17 month gap between Globex and Acme.',
+            }),
+        ]);
+    });
+
+    it('should not count time covered by an overlapping job as a gap', () => {
+        const issues = employmentGapRule.check(
+            buildAtsRuleContext(
+                withExperience([
+                    { company: 'Initech', startDate: '2015-01-01', endDate: '2022-01-01' },
+                    { company: 'Globex', startDate: '2016-01-01', endDate: '2017-01-01' },
+                    { company: 'Acme', startDate: '2021-06-01', isCurrent: true },
+                ])
+            )
+        );
+
+        expect(issues).toEqual([]);
+    });
+});
@@ -0,0 +1,71 @@
+import {
+    ATS_EMPLOYMENT_GAP_MONTHS,
+    AtsIssueSeverity,
+    AtsRuleId,
+    ResumeSectionType,
+} from '@resume/resume-craft-api-contracts';
+import { ExperienceItem } from '@resume/resume-craft-common';
+
+import { AtsIssue, AtsRule } from '../ats-report.types';
+import { getVisibleSections } from '../helpers';
+
+/**
+ * Months since year 0 for `YYYY`, `YYYY-MM` and `YYYY-MM-DD` dates, `undefined` for anything else.
+ */
+export const toMonthIndex = (value?: string | null): number | undefined => {
+    const match = /^(\d{4})(?:-(\d{2}))?(?:-\d{2})?$/.exec(value || '');
+    return match ? Number(match[1]) * 12 + (match[2] ? Number(match[2]) - 1 : 0) : undefined;
+};
+
+type Employment = { company: string; start: number; end: number };
+
+const toEmployment = (item: ExperienceItem, now: number): Employment | undefined => {
+    const start = toMonthIndex(item.startDate);
+    if (start === undefined) {
+        return undefined;
+    }
+
+    const current = new Date(now);
+    const end = item.isCurrent
+        ? current.getUTCFullYear() * 12 + current.getUTCMonth()
+        : (toMonthIndex(item.endDate) ?? start);
+
+    return { company: item.company, start, end: Math.max(start, end) };
+};
+
+/**
+ * Reports stretches of more than `ATS_EMPLOYMENT_GAP_MONTHS` months covered by no experience entry.
+ * Overlapping jobs are merged first, entries with dates that cannot be read are left to the date rule.
+ */
+export const employmentGapRule: AtsRule = {
+    id: AtsRuleId.EmploymentGap,
+    check: (context) => {
+        const employments = getVisibleSections(context)
+            .filter((section) => section.type === ResumeSectionType.Experience)
+            .flatMap((section) => (section.items || []) as ExperienceItem[])
+            .map((item) => toEmployment(item, context.now))
+            .filter(Boolean)
+            .sort((a, b) => a.start - b.start);
+
+        const issues: AtsIssue[] = [];
+        let covered: Employment | undefined;
+
+        for (const employment of employments) {
+            const gap = covered ? employment.start - covered.end : 0;
+            if (covered && gap > ATS_EMPLOYMENT_GAP_MONTHS) {
+                issues.push({
+                    ruleId: AtsRuleId.EmploymentGap,
+                    severity: AtsIssueSeverity.Info,
+                    message: `There is a ${gap} month gap between ${covered.company} and ${employment.company}.`,
+                    fixHint:
+                        'Add what you did during the gap, such as studies, freelance work or a career break, so it is not left unexplained.',
+                });
+            }
+            if (!covered || employment.end > covered.end) {
+                covered = employment;
+            }
+        }
+
+        return issues;
+    },
+};
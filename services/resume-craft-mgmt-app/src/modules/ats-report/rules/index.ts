@@ -0,0 +1,26 @@
+import { AtsRule } from '../ats-report.types';
+import { bulletLengthRule } from './bullet-length.rule';
+import { contactInfoRule } from './contact-info.rule';
+import { dateFormatRule } from './date-format.rule';
+import { employmentGapRule } from './employment-gap.rule';
+import { sectionHeadingRule } from './section-heading.rule';
+import { templateLayoutRule } from './template-layout.rule';
+
+export * from './bullet-length.rule';
+export * from './contact-info.rule';
+export * from './date-format.rule';
+export * from './employment-gap.rule';
+export * from './section-heading.rule';
+export * from './template-layout.rule';
+
+/**
+ * Rules in the order their issues are listed within a severity.
+ */
+export const ATS_RULES: readonly AtsRule[] = [
+    contactInfoRule,
+    templateLayoutRule,
+    sectionHeadingRule,
+    dateFormatRule,
+    employmentGapRule,
+    bulletLengthRule,
+];
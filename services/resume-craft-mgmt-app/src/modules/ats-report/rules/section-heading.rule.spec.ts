@@ -0,0 +1,49 @@
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { normaliseHeading, sectionHeadingRule } from './section-heading.rule';
+
+const section = (type: string, title: string) => ({
+    sectionId: `${type}-1`,
+    type,
+    title,
+    order: 0,
+    isHidden: false,
+});
+
+describe('normaliseHeading', () => {
+    it('should ignore case, punctuation and ampersands', () => {
+        expect(normaliseHeading('  Licenses & Certifications: ')).toBe('licenses and certifications');
+    });
+});
+
+describe('sectionHeadingRule', () => {
+    it('should pass standard headings and custom sections', () => {
+        const issues = sectionHeadingRule.check(
+            buildAtsRuleContext({
+                sections: [
+                    section('skills', 'TECHNICAL SKILLS'),
+                    section('custom', 'Volunteering'),
+                ] as Resume['sections'],
+            })
+        );
+
+        expect(issues).toEqual([]);
+    });
+
+    it('should suggest the standard heading for creative ones', () => {
+        const issues = sectionHeadingRule.check(
+            buildAtsRuleContext({ sections: [section('experience', 'Where I have been')] as Resume['sections'] })
+        );
+
+        expect(issues).toEqual([
+            {
+                ruleId: 'non-standard-heading',
+                severity: 'warning',
+                message: '"Where I have been" is not a heading applicant tracking systems recognise.',
+                fixHint: 'Rename the section to "Experience".',
+                sectionId: 'experience-1',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,52 @@
+import { AtsIssueSeverity, AtsRuleId, ResumeSectionType } from '@resume/resume-craft-api-contracts';
+
+import { AtsRule } from '../ats-report.types';
+import { getVisibleSections } from '../helpers';
+
+/**
+ * Headings parsers recognise for each section type, the first one is suggested as the fix. Custom sections
+ * have no standard heading and are not checked.
+ */
+export const STANDARD_SECTION_HEADINGS: Partial<Record<`${ResumeSectionType}`, string[]>> = {
+    [ResumeSectionType.Summary]: ['Summary', 'Professional Summary', 'Profile', 'Professional Profile', 'Objective'],
+    [ResumeSectionType.Experience]: [
+        'Experience',
+        'Work Experience',
+        'Professional Experience',
+        'Employment History',
+        'Work History',
+    ],
+    [ResumeSectionType.Education]: ['Education', 'Education and Training'],
+    [ResumeSectionType.Skills]: ['Skills', 'Technical Skills', 'Core Skills', 'Key Skills'],
+    [ResumeSectionType.Projects]: ['Projects', 'Personal Projects', 'Key Projects'],
+    [ResumeSectionType.Certifications]: ['Certifications', 'Certificates', 'Licenses and Certifications'],
+    [ResumeSectionType.Languages]: ['Languages'],
+};
+
+/**
+ * Ignores case, punctuation and spacing, and reads `&` as `and`.
+ */
+export const normaliseHeading = (title: string): string =>
+    title
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+export const sectionHeadingRule: AtsRule = {
+    id: AtsRuleId.NonStandardHeading,
+    check: (context) =>
+        getVisibleSections(context)
+            .filter((section) => {
+                const headings = STANDARD_SECTION_HEADINGS[section.type];
+                return headings && !headings.map(normaliseHeading).includes(normaliseHeading(section.title));
+            })
+            .map((section) => ({
+                ruleId: AtsRuleId.NonStandardHeading,
+                severity: AtsIssueSeverity.Warning,
+                message: `"${section.title}" is not a heading applicant tracking systems recognise.`,
+                fixHint: `Rename the section to "${STANDARD_SECTION_HEADINGS[section.type][0]}".`,
+                sectionId: section.sectionId,
+            })),
+};
@@ -0,0 +1,19 @@
+import { CLASSIC_RESUME_TEMPLATE } from '../../resume-export/templates';
+import { buildAtsRuleContext } from '../ats-report.mock';
+import { templateLayoutRule } from './template-layout.rule';
+
+describe('templateLayoutRule', () => {
+    it('should pass the built-in templates', () => {
+        expect(templateLayoutRule.check(buildAtsRuleContext())).toEqual([]);
+    });
+
+    it('should report tables as an error and graphics as a warning', () => {
+        const template = { ...CLASSIC_RESUME_TEMPLATE, name: 'Sidebar', hasTables: true, hasGraphics: true };
+        const issues = templateLayoutRule.check(buildAtsRuleContext({}, { template }));
+
+        expect(issues.map(({ severity, message }) => [severity, message])).toEqual([
+            ['error', 'The Sidebar template lays content out in tables.'],
+            ['warning', 'The Sidebar template uses graphics or icons.'],
+        ]);
+    });
+});
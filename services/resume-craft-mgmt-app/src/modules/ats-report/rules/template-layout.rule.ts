@@ -0,0 +1,33 @@
+import { AtsIssueSeverity, AtsRuleId } from '@resume/resume-craft-api-contracts';
+
+import { AtsIssue, AtsRule } from '../ats-report.types';
+
+/**
+ * Text laid out in tables is often read out of order, and text in images or icons is not read at all.
+ */
+export const templateLayoutRule: AtsRule = {
+    id: AtsRuleId.TemplateLayout,
+    check: ({ template }) => {
+        const issues: AtsIssue[] = [];
+
+        if (template.hasTables) {
+            issues.push({
+                ruleId: AtsRuleId.TemplateLayout,
+                severity: AtsIssueSeverity.Error,
+                message: `The ${template.name} template lays content out in tables.`,
+                fixHint: 'Switch to a single column template without tables.',
+            });
+        }
+        if (template.hasGraphics) {
+            issues.push({
+                ruleId: AtsRuleId.TemplateLayout,
+                severity: AtsIssueSeverity.Warning,
+                message: `The ${template.name} template uses graphics or icons.`,
+                fixHint:
+                    'Switch to a template without graphics, or make sure no information is only shown as an image.',
+            });
+        }
+
+        return issues;
+    },
+};
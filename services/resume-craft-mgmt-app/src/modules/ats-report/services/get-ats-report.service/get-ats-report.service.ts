@@ -0,0 +1,67 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { GetAtsReportResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    TemplateDbService,
+    UserDbService,
+} from '@resume/resume-craft-common';
+import { resolveResumeTemplate } from '../../../resume-export/helpers';
+import { buildAtsReport } from '../../helpers';
+import { ATS_RULES } from '../../rules';
+
+@Injectable()
+export class GetAtsReportService {
+    private readonly logger = LoggerFactory.getLogger(GetAtsReportService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly userDbService: UserDbService,
+        private readonly templateDbService: TemplateDbService
+    ) {
+        this.logger.debug(`${GetAtsReportService.name} Initialized`);
+    }
+
+    async getAtsReport(context: RequestContext, resumeId: string): Promise<Pick<GetAtsReportResponseType, 'result'>> {
+        try {
+            const resume = await this.resumeDbService.findOne(context, {
+                condition: {
+                    resumeId,
+                    userId: context.userId,
+                },
+            });
+
+            if (!resume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const [owner, template] = await Promise.all([
+                this.userDbService.findOne(context, { condition: { userId: context.userId } }),
+                resolveResumeTemplate(this.templateDbService, context, resume),
+            ]);
+
+            return {
+                result: buildAtsReport(ATS_RULES, {
+                    resume,
+                    contact: {
+                        name: owner?.name || resume.owner?.name,
+                        email: owner?.email,
+                        phone: owner?.phone,
+                    },
+                    template,
+                    now: Date.now(),
+                }),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while building the ATS report ${error.message}`,
+                resumeId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './get-ats-report.service';
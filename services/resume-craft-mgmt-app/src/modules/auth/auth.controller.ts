@@ -0,0 +1,153 @@
+import { Body, Controller, HttpCode, HttpStatus, Inject, Injectable, Post, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ResumeCraftRequest,
+    LoggerFactory,
+    ApiDocumentationDecorator,
+    PublicRoute,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    ErrorResponseOpenApiSchema,
+    LoginReqOpenApiSchema,
+    LoginRequestSchema,
+    LoginRequestType,
+    LoginRespOpenApiSchema,
+    LogoutReqOpenApiSchema,
+    LogoutRequestSchema,
+    LogoutRequestType,
+    LogoutRespOpenApiSchema,
+    RefreshTokenReqOpenApiSchema,
+    RefreshTokenRequestSchema,
+    RefreshTokenRequestType,
+    RefreshTokenRespOpenApiSchema,
+    SignupReqOpenApiSchema,
+    SignupRequestSchema,
+    SignupRequestType,
+    SignupRespOpenApiSchema,
+} from '@resume/resume-craft-api-contracts';
+import { LoginService, LogoutService, RefreshTokenService, SignupService } from './services';
+
+@Controller('auth')
+@PublicRoute()
+@Injectable({ scope: Scope.REQUEST })
+export class AuthController {
+    private readonly logger = LoggerFactory.getLogger(AuthController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly signupService: SignupService,
+        private readonly loginService: LoginService,
+        private readonly refreshTokenService: RefreshTokenService,
+        private readonly logoutService: LogoutService
+    ) {
+        this.logger.debug(`${AuthController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'Signup',
+        tags: ['Auth'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: SignupReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: SignupRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post('signup')
+    async signup(@Body(new SchemaAjvValidationPipe(SignupRequestSchema)) signupRequest: SignupRequestType) {
+        const { context } = this.request;
+        const result = await this.signupService.signup(context, signupRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Signed up successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'Login',
+        tags: ['Auth'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: LoginReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: LoginRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post('login')
+    @HttpCode(HttpStatus.OK)
+    async login(@Body(new SchemaAjvValidationPipe(LoginRequestSchema)) loginRequest: LoginRequestType) {
+        const { context } = this.request;
+        const result = await this.loginService.login(context, loginRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Logged in successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'RefreshToken',
+        tags: ['Auth'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: RefreshTokenReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: RefreshTokenRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post('refresh')
+    @HttpCode(HttpStatus.OK)
+    async refresh(
+        @Body(new SchemaAjvValidationPipe(RefreshTokenRequestSchema)) refreshRequest: RefreshTokenRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.refreshTokenService.refresh(context, refreshRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Access token refreshed successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'Logout',
+        tags: ['Auth'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: LogoutReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: LogoutRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post('logout')
+    @HttpCode(HttpStatus.OK)
+    async logout(@Body(new SchemaAjvValidationPipe(LogoutRequestSchema)) logoutRequest: LogoutRequestType) {
+        const { context } = this.request;
+        const result = await this.logoutService.logout(context, logoutRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Logged out successfully.',
+        };
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthTokenModule, ODMModule } from '@resume/resume-craft-common';
+
+import { AuthController } from './auth.controller';
+import { IssueAuthTokensService, LoginService, LogoutService, RefreshTokenService, SignupService } from './services';
+
+@Module({
+    imports: [ODMModule, AuthTokenModule],
+    controllers: [AuthController],
+    providers: [IssueAuthTokensService, SignupService, LoginService, RefreshTokenService, LogoutService],
+})
+export class AuthModule {}
@@ -0,0 +1,18 @@
+import { AUTH_TOKEN_TYPE, AuthTokensType, CreateUserType } from '@resume/resume-craft-api-contracts';
+import { IssuedAccessToken, User } from '@resume/resume-craft-common';
+
+export const toAuthUserResponse = (user: User): CreateUserType => ({
+    userId: user.userId,
+    name: user.name,
+    email: user.email,
+    ...(user.phone ? { phone: user.phone } : {}),
+    ...(user.profileImageUrl ? { profileImageUrl: user.profileImageUrl } : {}),
+    ...(user.role ? { role: user.role } : {}),
+});
+
+export const toAuthTokensResponse = (accessToken: IssuedAccessToken, refreshToken: string): AuthTokensType => ({
+    accessToken: accessToken.accessToken,
+    refreshToken,
+    tokenType: AUTH_TOKEN_TYPE,
+    expiresIn: accessToken.expiresIn,
+});
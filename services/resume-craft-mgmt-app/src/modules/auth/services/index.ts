@@ -0,0 +1,5 @@
+export * from './issue-auth-tokens.service';
+export * from './signup.service';
+export * from './login.service';
+export * from './refresh-token.service';
+export * from './logout.service';
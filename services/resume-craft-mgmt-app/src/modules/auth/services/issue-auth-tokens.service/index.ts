@@ -0,0 +1 @@
+export * from './issue-auth-tokens.service';
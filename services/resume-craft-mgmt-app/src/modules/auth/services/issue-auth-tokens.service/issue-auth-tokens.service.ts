@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { AuthTokensType } from '@resume/resume-craft-api-contracts';
+import {
+    AuthTokenService,
+    generateUUIDV4,
+    LoggerFactory,
+    RefreshTokenDbService,
+    RequestContext,
+} from '@resume/resume-craft-common';
+
+import { toAuthTokensResponse } from '../../helpers/auth.helper';
+
+@Injectable()
+export class IssueAuthTokensService {
+    private readonly logger = LoggerFactory.getLogger(IssueAuthTokensService.name);
+
+    constructor(
+        private readonly authTokenService: AuthTokenService,
+        private readonly refreshTokenDbService: RefreshTokenDbService
+    ) {
+        this.logger.debug(`${IssueAuthTokensService.name} Initialized`);
+    }
+
+    /**
+     * Issues an access token and persists a new refresh token for the user.
+     * A login starts a new token family, a refresh continues the family of the token it replaces.
+     */
+    async issueTokens(
+        context: RequestContext,
+        input: { userId: string; role?: string; familyId?: string; refreshTokenId?: string },
+        options?: { session?: ClientSession }
+    ): Promise<AuthTokensType> {
+        const accessToken = this.authTokenService.issueAccessToken({ userId: input.userId, role: input.role });
+        const { refreshToken, tokenHash, expiresAt } = this.authTokenService.issueRefreshToken();
+
+        await this.refreshTokenDbService.create(
+            context,
+            {
+                refreshTokenId: input.refreshTokenId || generateUUIDV4(),
+                userId: input.userId,
+                familyId: input.familyId || generateUUIDV4(),
+                tokenHash,
+                expiresAt,
+                createdBy: input.userId,
+            },
+            options
+        );
+
+        return toAuthTokensResponse(accessToken, refreshToken);
+    }
+}
@@ -0,0 +1,61 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+
+import { LoginRequestType, LoginResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    getDummyPasswordHash,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    UserDbService,
+    verifyPassword,
+} from '@resume/resume-craft-common';
+
+import { toAuthUserResponse } from '../../helpers/auth.helper';
+import { IssueAuthTokensService } from '../issue-auth-tokens.service';
+
+@Injectable()
+export class LoginService {
+    private readonly logger = LoggerFactory.getLogger(LoginService.name);
+
+    constructor(
+        private readonly userDbService: UserDbService,
+        private readonly issueAuthTokensService: IssueAuthTokensService
+    ) {
+        this.logger.debug(`${LoginService.name} Initialized`);
+    }
+
+    async login(context: RequestContext, loginRequest: LoginRequestType): Promise<Pick<LoginResponseType, 'result'>> {
+        try {
+            const user = await this.userDbService.findByEmail(context, loginRequest.email, {
+                includePasswordHash: true,
+            });
+
+            // Unknown emails and wrong passwords are reported the same way to avoid leaking which accounts exist.
+            // The password is checked against a dummy hash for them too, so the response takes as long.
+            const passwordHash = user?.passwordHash || (await getDummyPasswordHash());
+            const isPasswordValid = (await verifyPassword(loginRequest.password, passwordHash)) && !!user?.passwordHash;
+            if (!isPasswordValid) {
+                throw new UnauthorizedException('Invalid email or password');
+            }
+
+            const tokens = await this.issueAuthTokensService.issueTokens(context, {
+                userId: user.userId,
+                role: user.role,
+            });
+
+            return {
+                result: {
+                    user: toAuthUserResponse(user),
+                    tokens,
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while logging in the user ${error.message}`,
+                email: loginRequest.email,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+
+import { LogoutRequestType, LogoutResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    AuthTokenService,
+    ErrorCode,
+    LoggerFactory,
+    RefreshTokenDbService,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+
+@Injectable()
+export class LogoutService {
+    private readonly logger = LoggerFactory.getLogger(LogoutService.name);
+
+    constructor(
+        private readonly authTokenService: AuthTokenService,
+        private readonly refreshTokenDbService: RefreshTokenDbService
+    ) {
+        this.logger.debug(`${LogoutService.name} Initialized`);
+    }
+
+    /**
+     * Revokes the refresh token family, access tokens already issued remain valid until they expire.
+     * Unknown tokens are not reported so that logout stays idempotent.
+     */
+    async logout(
+        context: RequestContext,
+        logoutRequest: LogoutRequestType
+    ): Promise<Pick<LogoutResponseType, 'result'>> {
+        try {
+            const tokenHash = this.authTokenService.hashRefreshToken(logoutRequest.refreshToken);
+            const existingToken = await this.refreshTokenDbService.findByTokenHash(context, tokenHash);
+            if (existingToken) {
+                await this.refreshTokenDbService.revokeFamily(
+                    { ...context, userId: existingToken.userId },
+                    existingToken.userId,
+                    existingToken.familyId
+                );
+            }
+
+            return { result: { loggedOut: true } };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while logging out ${error.message}`,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
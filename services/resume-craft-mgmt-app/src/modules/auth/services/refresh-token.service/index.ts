@@ -0,0 +1 @@
+export * from './refresh-token.service';
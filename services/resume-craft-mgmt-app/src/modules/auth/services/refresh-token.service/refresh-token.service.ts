@@ -0,0 +1,108 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { RefreshTokenRequestType, RefreshTokenResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    AuthTokenService,
+    DbService,
+    ErrorCode,
+    generateUUIDV4,
+    LoggerFactory,
+    RefreshTokenDbService,
+    RequestContext,
+    ResumeCraftException,
+    UserDbService,
+} from '@resume/resume-craft-common';
+
+import { IssueAuthTokensService } from '../issue-auth-tokens.service';
+
+@Injectable()
+export class RefreshTokenService {
+    private readonly logger = LoggerFactory.getLogger(RefreshTokenService.name);
+
+    constructor(
+        private readonly authTokenService: AuthTokenService,
+        private readonly refreshTokenDbService: RefreshTokenDbService,
+        private readonly userDbService: UserDbService,
+        private readonly dbService: DbService,
+        private readonly issueAuthTokensService: IssueAuthTokensService
+    ) {
+        this.logger.debug(`${RefreshTokenService.name} Initialized`);
+    }
+
+    /**
+     * Rotates a refresh token: the presented token is revoked and replaced by a new one of the same family.
+     * Presenting an already revoked token means it leaked, so the whole family is revoked and the user
+     * has to log in again.
+     */
+    async refresh(
+        context: RequestContext,
+        refreshRequest: RefreshTokenRequestType
+    ): Promise<Pick<RefreshTokenResponseType, 'result'>> {
+        try {
+            const tokenHash = this.authTokenService.hashRefreshToken(refreshRequest.refreshToken);
+            const existingToken = await this.refreshTokenDbService.findByTokenHash(context, tokenHash);
+            if (!existingToken || existingToken.expiresAt <= Date.now()) {
+                throw new UnauthorizedException('Invalid refresh token');
+            }
+
+            const tokenContext = { ...context, userId: existingToken.userId };
+            if (existingToken.revokedAt) {
+                await this._revokeFamily(tokenContext, existingToken.userId, existingToken.familyId);
+            }
+
+            const user = await this.userDbService.findOne(tokenContext, {
+                condition: { userId: existingToken.userId },
+            });
+            if (!user) {
+                throw new UnauthorizedException('Invalid refresh token');
+            }
+
+            const result = await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                const nextRefreshTokenId = generateUUIDV4();
+                const isRevoked = await this.refreshTokenDbService.revokeToken(
+                    tokenContext,
+                    existingToken.refreshTokenId,
+                    nextRefreshTokenId,
+                    { session }
+                );
+                // Lost a race with a concurrent refresh of the same token.
+                if (!isRevoked) {
+                    return null;
+                }
+
+                return this.issueAuthTokensService.issueTokens(
+                    tokenContext,
+                    {
+                        userId: user.userId,
+                        role: user.role,
+                        familyId: existingToken.familyId,
+                        refreshTokenId: nextRefreshTokenId,
+                    },
+                    { session }
+                );
+            });
+
+            if (!result) {
+                await this._revokeFamily(tokenContext, existingToken.userId, existingToken.familyId);
+            }
+
+            return { result };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while refreshing the access token ${error.message}`,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    private async _revokeFamily(context: RequestContext, userId: string, familyId: string): Promise<never> {
+        await this.refreshTokenDbService.revokeFamily(context, userId, familyId);
+        this.logger.warn({
+            ref: 'Refresh token reuse detected, revoked the token family',
+            userId,
+            familyId,
+        });
+        throw new UnauthorizedException('Refresh token has been revoked');
+    }
+}
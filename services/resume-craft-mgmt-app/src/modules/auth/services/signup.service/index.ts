@@ -0,0 +1 @@
+export * from './signup.service';
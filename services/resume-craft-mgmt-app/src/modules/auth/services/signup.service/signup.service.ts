@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { SignupRequestType, SignupResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DbService,
+    ErrorCode,
+    generateUUIDV4,
+    hashPassword,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    UserDbService,
+} from '@resume/resume-craft-common';
+
+import { toAuthUserResponse } from '../../helpers/auth.helper';
+import { IssueAuthTokensService } from '../issue-auth-tokens.service';
+
+@Injectable()
+export class SignupService {
+    private readonly logger = LoggerFactory.getLogger(SignupService.name);
+
+    constructor(
+        private readonly userDbService: UserDbService,
+        private readonly dbService: DbService,
+        private readonly issueAuthTokensService: IssueAuthTokensService
+    ) {
+        this.logger.debug(`${SignupService.name} Initialized`);
+    }
+
+    async signup(
+        context: RequestContext,
+        signupRequest: SignupRequestType
+    ): Promise<Pick<SignupResponseType, 'result'>> {
+        try {
+            const passwordHash = await hashPassword(signupRequest.password);
+
+            return await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                const userId = generateUUIDV4();
+                const user = await this.userDbService.create(
+                    context,
+                    {
+                        userId,
+                        name: signupRequest.name,
+                        email: signupRequest.email,
+                        phone: signupRequest.phone,
+                        profileImageUrl: signupRequest.profileImageUrl,
+                        passwordHash,
+                        createdBy: userId,
+                    },
+                    { session }
+                );
+                const tokens = await this.issueAuthTokensService.issueTokens(
+                    context,
+                    { userId, role: user.role },
+                    { session }
+                );
+
+                return {
+                    result: {
+                        user: toAuthUserResponse(user),
+                        tokens,
+                    },
+                };
+            });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while signing up the user ${error.message}`,
+                email: signupRequest.email,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,251 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Param,
+    Patch,
+    Post,
+    Query,
+    Res,
+    Scope,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    HEADERS,
+    LoggerFactory,
+    ResumeCraftRequest,
+    ResumeCraftResponse,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    CoverLetterIdParamOpenApiSchema,
+    CoverLetterIdParamSchema,
+    CoverLetterIdParamType,
+    CreateCoverLetterReqOpenApiSchema,
+    CreateCoverLetterRequestSchema,
+    CreateCoverLetterRequestType,
+    CreateCoverLetterRespOpenApiSchema,
+    DeleteCoverLetterRespOpenApiSchema,
+    ErrorResponseOpenApiSchema,
+    ExportCoverLetterReqOpenApiSchema,
+    ExportCoverLetterRequestSchema,
+    ExportCoverLetterRequestType,
+    ExportCoverLetterRespOpenApiSchema,
+    GetCoverLetterRespOpenApiSchema,
+    ListCoverLettersReqOpenApiSchema,
+    ListCoverLettersRequestSchema,
+    ListCoverLettersRequestType,
+    ListCoverLettersRespOpenApiSchema,
+    UpdateCoverLetterReqOpenApiSchema,
+    UpdateCoverLetterRequestSchema,
+    UpdateCoverLetterRequestType,
+    UpdateCoverLetterRespOpenApiSchema,
+} from '@resume/resume-craft-api-contracts';
+import {
+    CreateCoverLetterService,
+    DeleteCoverLetterService,
+    ExportCoverLetterService,
+    GetCoverLetterService,
+    UpdateCoverLetterService,
+} from './services';
+
+@Controller('cover-letters')
+@Injectable({ scope: Scope.REQUEST })
+export class CoverLetterController {
+    private readonly logger = LoggerFactory.getLogger(CoverLetterController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly createCoverLetterService: CreateCoverLetterService,
+        private readonly getCoverLetterService: GetCoverLetterService,
+        private readonly updateCoverLetterService: UpdateCoverLetterService,
+        private readonly deleteCoverLetterService: DeleteCoverLetterService,
+        private readonly exportCoverLetterService: ExportCoverLetterService
+    ) {
+        this.logger.debug(`${CoverLetterController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'CreateCoverLetter',
+        tags: ['Cover Letters'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: CreateCoverLetterReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: CreateCoverLetterRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post()
+    async createCoverLetter(
+        @Body(new SchemaAjvValidationPipe(CreateCoverLetterRequestSchema))
+        createCoverLetterRequest: CreateCoverLetterRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.createCoverLetterService.createCoverLetter(context, createCoverLetterRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Cover letter created successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'ListCoverLetters',
+        tags: ['Cover Letters'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiQuerySchema: ListCoverLettersReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListCoverLettersRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get()
+    async listCoverLetters(
+        @Query(new SchemaAjvValidationPipe(ListCoverLettersRequestSchema))
+        listCoverLettersRequest: ListCoverLettersRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.getCoverLetterService.listCoverLetters(context, listCoverLettersRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Cover letter list fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetCoverLetter',
+        tags: ['Cover Letters'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: CoverLetterIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetCoverLetterRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':coverLetterId')
+    async getCoverLetter(
+        @Param(new SchemaAjvValidationPipe(CoverLetterIdParamSchema)) { coverLetterId }: CoverLetterIdParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.getCoverLetterService.getCoverLetter(context, coverLetterId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Cover letter fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'UpdateCoverLetter',
+        tags: ['Cover Letters'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: CoverLetterIdParamOpenApiSchema,
+        apiBodySchema: UpdateCoverLetterReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: UpdateCoverLetterRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Patch(':coverLetterId')
+    async updateCoverLetter(
+        @Param(new SchemaAjvValidationPipe(CoverLetterIdParamSchema))
+        { coverLetterId }: CoverLetterIdParamType,
+        @Body(new SchemaAjvValidationPipe(UpdateCoverLetterRequestSchema))
+        updateCoverLetterRequest: UpdateCoverLetterRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.updateCoverLetterService.updateCoverLetter(
+            context,
+            coverLetterId,
+            updateCoverLetterRequest
+        );
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Cover letter updated successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'DeleteCoverLetter',
+        tags: ['Cover Letters'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: CoverLetterIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: DeleteCoverLetterRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Delete(':coverLetterId')
+    async deleteCoverLetter(
+        @Param(new SchemaAjvValidationPipe(CoverLetterIdParamSchema)) { coverLetterId }: CoverLetterIdParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.deleteCoverLetterService.deleteCoverLetter(context, coverLetterId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Cover letter deleted successfully.',
+        };
+    }
+
+    /**
+     * Streams the rendered file itself, so the response is written directly instead of going through the
+     * response envelope.
+     */
+    @ApiDocumentationDecorator({
+        apiName: 'ExportCoverLetter',
+        tags: ['Cover Letters'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: CoverLetterIdParamOpenApiSchema,
+        apiQuerySchema: ExportCoverLetterReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ExportCoverLetterRespOpenApiSchema,
+                description: 'Rendered cover letter file',
+            },
+        ],
+    })
+    @Get(':coverLetterId/export')
+    async exportCoverLetter(
+        @Param(new SchemaAjvValidationPipe(CoverLetterIdParamSchema)) { coverLetterId }: CoverLetterIdParamType,
+        @Query(new SchemaAjvValidationPipe(ExportCoverLetterRequestSchema))
+        exportCoverLetterRequest: ExportCoverLetterRequestType,
+        @Res() response: ResumeCraftResponse
+    ) {
+        const { context } = this.request;
+        const file = await this.exportCoverLetterService.exportCoverLetter(
+            context,
+            coverLetterId,
+            exportCoverLetterRequest
+        );
+
+        response.set(HEADERS.CONTENT_TYPE, file.contentType);
+        response.set(HEADERS.CONTENT_DISPOSITION, `attachment; filename="${file.fileName}"`);
+        response.status(HttpStatus.OK).send(file.content);
+    }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+
+import { ResumeExportModule } from '../resume-export';
+import { CoverLetterController } from './cover-letter.controller';
+import {
+    CreateCoverLetterService,
+    DeleteCoverLetterService,
+    ExportCoverLetterService,
+    GetCoverLetterService,
+    UpdateCoverLetterService,
+} from './services';
+import { DataFromContext, ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule, ResumeExportModule],
+    controllers: [CoverLetterController],
+    providers: [
+        CreateCoverLetterService,
+        GetCoverLetterService,
+        UpdateCoverLetterService,
+        DeleteCoverLetterService,
+        ExportCoverLetterService,
+        DataFromContext,
+    ],
+})
+export class CoverLetterModule {}
@@ -0,0 +1,60 @@
+import { CoverLetter, JobDescription } from '@resume/resume-craft-common';
+
+import { RenderableBlockType } from '../../resume-export/resume-export.types';
+import { buildRenderableCoverLetter, fillMergeFields } from './cover-letter.helper';
+
+const jobDescription: JobDescription = {
+    jobDescriptionId: 'job-1',
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    title: 'Backend Engineer',
+    company: 'Acme',
+    rawText: 'Build payment services with TypeScript.',
+    createdAt: 1700000000000,
+    createdBy: 'user-1',
+    modifiedAt: 1700000000000,
+    modifiedBy: 'user-1',
+};
+
+const coverLetter: CoverLetter = {
+    coverLetterId: 'letter-1',
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    title: 'Application to {{company}}',
+    content: 'Dear {{ Company }} team,\n\nI would like to apply\nfor the {{role}} role.\n\n\nKind regards',
+    resumeId: null,
+    jobDescriptionId: 'job-1',
+    createdAt: 1700000000000,
+    createdBy: 'user-1',
+    modifiedAt: 1700000000000,
+    modifiedBy: 'user-1',
+};
+
+describe('cover letter helper', () => {
+    it('fills merge fields ignoring case and inner spaces', () => {
+        expect(fillMergeFields('{{company}}, {{ ROLE }}', { company: 'Acme', role: 'Backend Engineer' })).toBe(
+            'Acme, Backend Engineer'
+        );
+    });
+
+    it('leaves unknown and missing merge fields as written', () => {
+        expect(fillMergeFields('{{company}} {{salary}} {{role}}', { company: 'Acme' })).toBe(
+            'Acme {{salary}} {{role}}'
+        );
+    });
+
+    it('builds one paragraph per blank line separated block with the merge fields filled', () => {
+        const document = buildRenderableCoverLetter(coverLetter, jobDescription);
+
+        expect(document.title).toBe('Application to Acme');
+        expect(document.ownerName).toBe('Ada Lovelace');
+        expect(document.sections).toHaveLength(1);
+        expect(document.sections[0].blocks).toEqual([
+            { type: RenderableBlockType.Paragraph, text: 'Dear Acme team,' },
+            { type: RenderableBlockType.Paragraph, text: 'I would like to apply for the Backend Engineer role.' },
+            { type: RenderableBlockType.Paragraph, text: 'Kind regards' },
+        ]);
+    });
+
+    it('keeps the placeholders when no job description is linked', () => {
+        expect(buildRenderableCoverLetter(coverLetter).title).toBe('Application to {{company}}');
+    });
+});
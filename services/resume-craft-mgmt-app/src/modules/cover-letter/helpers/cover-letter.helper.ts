@@ -0,0 +1,92 @@
+import { NotFoundException } from '@nestjs/common';
+import { CoverLetterMergeField, CoverLetterType } from '@resume/resume-craft-api-contracts';
+import {
+    CoverLetter,
+    JobDescription,
+    JobDescriptionDbService,
+    RequestContext,
+    ResumeDbService,
+    ResumeSectionType,
+} from '@resume/resume-craft-common';
+
+import { RenderableBlockType, RenderableResume } from '../../resume-export/resume-export.types';
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export const toCoverLetterResponse = (coverLetter: CoverLetter): CoverLetterType => ({
+    coverLetterId: coverLetter.coverLetterId,
+    title: coverLetter.title,
+    ...(coverLetter.content ? { content: coverLetter.content } : {}),
+    ...(coverLetter.resumeId ? { resumeId: coverLetter.resumeId } : {}),
+    ...(coverLetter.jobDescriptionId ? { jobDescriptionId: coverLetter.jobDescriptionId } : {}),
+    createdAt: coverLetter.createdAt,
+    ...(coverLetter.modifiedAt ? { modifiedAt: coverLetter.modifiedAt } : {}),
+});
+
+/**
+ * Values of the merge fields taken from a job description, the role being its title.
+ */
+export const getMergeFieldValues = (
+    jobDescription?: JobDescription | null
+): Partial<Record<`${CoverLetterMergeField}`, string>> => ({
+    ...(jobDescription?.company ? { [CoverLetterMergeField.Company]: jobDescription.company } : {}),
+    ...(jobDescription?.title ? { [CoverLetterMergeField.Role]: jobDescription.title } : {}),
+});
+
+/**
+ * Replaces `{{field}}` placeholders, ignoring case and inner spaces. Placeholders without a value are left
+ * as written so a missing link shows up in the rendered letter instead of leaving a hole in a sentence.
+ */
+export const fillMergeFields = (text: string, values: Partial<Record<`${CoverLetterMergeField}`, string>>): string =>
+    text.replace(
+        MERGE_FIELD_PATTERN,
+        (placeholder, field: string) => values[field.toLowerCase() as `${CoverLetterMergeField}`] ?? placeholder
+    );
+
+/**
+ * Lays a cover letter out as a one section document, one paragraph per blank line separated block, so the
+ * resume renderers can export it.
+ */
+export const buildRenderableCoverLetter = (
+    coverLetter: CoverLetter,
+    jobDescription?: JobDescription | null
+): RenderableResume => {
+    const values = getMergeFieldValues(jobDescription);
+
+    return {
+        title: fillMergeFields(coverLetter.title, values),
+        ownerName: coverLetter.owner?.name || null,
+        sections: [
+            {
+                sectionId: coverLetter.coverLetterId,
+                type: ResumeSectionType.Custom,
+                title: 'Cover Letter',
+                blocks: fillMergeFields(coverLetter.content, values)
+                    .split(/\n\s*\n/)
+                    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+                    .filter(Boolean)
+                    .map((text) => ({ type: RenderableBlockType.Paragraph, text })),
+            },
+        ],
+    };
+};
+
+/**
+ * Linked documents have to belong to the owner of the cover letter. `null` unlinks and is not checked.
+ */
+export const assertCoverLetterLinks = async (
+    resumeDbService: ResumeDbService,
+    jobDescriptionDbService: JobDescriptionDbService,
+    context: RequestContext,
+    { resumeId, jobDescriptionId }: { resumeId?: string | null; jobDescriptionId?: string | null }
+): Promise<void> => {
+    if (resumeId && !(await resumeDbService.exists(context, { resumeId, userId: context.userId }))) {
+        throw new NotFoundException('Resume does not exist.');
+    }
+    if (
+        jobDescriptionId &&
+        !(await jobDescriptionDbService.exists(context, { jobDescriptionId, userId: context.userId }))
+    ) {
+        throw new NotFoundException('Job description does not exist.');
+    }
+};
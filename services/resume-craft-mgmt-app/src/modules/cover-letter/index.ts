@@ -0,0 +1 @@
+export * from './cover-letter.module';
@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+
+import { CreateCoverLetterRequestType, CreateCoverLetterResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    CoverLetterDbService,
+    DataFromContext,
+    ErrorCode,
+    generateUUIDV4,
+    JobDescriptionDbService,
+    LoggerFactory,
+    REQUEST_CONTEXT_DATA_TYPES,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+} from '@resume/resume-craft-common';
+import { assertCoverLetterLinks, toCoverLetterResponse } from '../../helpers';
+
+@Injectable()
+export class CreateCoverLetterService {
+    private readonly logger = LoggerFactory.getLogger(CreateCoverLetterService.name);
+
+    constructor(
+        private readonly coverLetterDbService: CoverLetterDbService,
+        private readonly resumeDbService: ResumeDbService,
+        private readonly jobDescriptionDbService: JobDescriptionDbService,
+        private readonly dataFromContext: DataFromContext
+    ) {
+        this.logger.debug(`${CreateCoverLetterService.name} Initialized`);
+    }
+
+    async createCoverLetter(
+        context: RequestContext,
+        createRequest: CreateCoverLetterRequestType
+    ): Promise<Pick<CreateCoverLetterResponseType, 'result'>> {
+        try {
+            const enrichedContext = await this.dataFromContext.get(context, {
+                type: REQUEST_CONTEXT_DATA_TYPES.USER,
+            });
+
+            if (!enrichedContext.user) {
+                throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                    message: 'Cover letter owner does not exist',
+                    details: { userId: context.userId },
+                });
+            }
+
+            await assertCoverLetterLinks(this.resumeDbService, this.jobDescriptionDbService, context, createRequest);
+
+            const coverLetter = await this.coverLetterDbService.create(context, {
+                coverLetterId: generateUUIDV4(),
+                owner: {
+                    userId: enrichedContext.user.userId,
+                    name: enrichedContext.user.name,
+                },
+                title: createRequest.title,
+                content: createRequest.content,
+                resumeId: createRequest.resumeId ?? null,
+                jobDescriptionId: createRequest.jobDescriptionId ?? null,
+                createdBy: context.userId,
+            });
+
+            return {
+                result: toCoverLetterResponse(coverLetter),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while creating the cover letter ${error.message}`,
+                title: createRequest.title,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
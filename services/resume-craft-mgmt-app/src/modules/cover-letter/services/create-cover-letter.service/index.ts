@@ -0,0 +1 @@
+export * from './create-cover-letter.service';
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+
+import { DeleteCoverLetterResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    CoverLetterDbService,
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+
+@Injectable()
+export class DeleteCoverLetterService {
+    private readonly logger = LoggerFactory.getLogger(DeleteCoverLetterService.name);
+
+    constructor(private readonly coverLetterDbService: CoverLetterDbService) {
+        this.logger.debug(`${DeleteCoverLetterService.name} Initialized`);
+    }
+
+    async deleteCoverLetter(
+        context: RequestContext,
+        coverLetterId: string
+    ): Promise<Pick<DeleteCoverLetterResponseType, 'result'>> {
+        try {
+            await this.coverLetterDbService.deleteOne(context, { coverLetterId, userId: context.userId });
+
+            return {
+                result: { coverLetterId },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while deleting the cover letter ${error.message}`,
+                coverLetterId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
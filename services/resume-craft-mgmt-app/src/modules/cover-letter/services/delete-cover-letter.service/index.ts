@@ -0,0 +1 @@
+export * from './delete-cover-letter.service';
@@ -0,0 +1,94 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { ExportCoverLetterRequestType, RESUME_DEFAULT_TEMPLATE_ID } from '@resume/resume-craft-api-contracts';
+import {
+    CoverLetterDbService,
+    ErrorCode,
+    generateSlug,
+    JobDescriptionDbService,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    TemplateDbService,
+} from '@resume/resume-craft-common';
+import { resolveResumeTemplate } from '../../../resume-export/helpers';
+import { ResumeRendererRegistry } from '../../../resume-export/renderers';
+import { ResumeExportFile } from '../../../resume-export/resume-export.types';
+import { RESUME_TEMPLATES } from '../../../resume-export/templates';
+import { buildRenderableCoverLetter } from '../../helpers';
+
+@Injectable()
+export class ExportCoverLetterService {
+    private readonly logger = LoggerFactory.getLogger(ExportCoverLetterService.name);
+
+    constructor(
+        private readonly coverLetterDbService: CoverLetterDbService,
+        private readonly resumeDbService: ResumeDbService,
+        private readonly jobDescriptionDbService: JobDescriptionDbService,
+        private readonly templateDbService: TemplateDbService,
+        private readonly resumeRendererRegistry: ResumeRendererRegistry
+    ) {
+        this.logger.debug(`${ExportCoverLetterService.name} Initialized`);
+    }
+
+    /**
+     * Merge fields are filled from the linked job description, and the letter takes the template of the linked
+     * resume so both documents of an application look alike. A template requested for this export wins.
+     */
+    async exportCoverLetter(
+        context: RequestContext,
+        coverLetterId: string,
+        { format, templateId }: ExportCoverLetterRequestType
+    ): Promise<ResumeExportFile> {
+        try {
+            const renderer = this.resumeRendererRegistry.getDocumentRenderer(format);
+            if (templateId && !RESUME_TEMPLATES.has(templateId)) {
+                throw new NotFoundException('Template does not exist.');
+            }
+
+            const coverLetter = await this.coverLetterDbService.findOne(context, {
+                condition: {
+                    coverLetterId,
+                    userId: context.userId,
+                },
+            });
+
+            if (!coverLetter) {
+                throw new NotFoundException('Cover letter does not exist.');
+            }
+
+            const [resume, jobDescription] = await Promise.all([
+                coverLetter.resumeId
+                    ? this.resumeDbService.findOne(context, {
+                          condition: { resumeId: coverLetter.resumeId, userId: context.userId },
+                      })
+                    : null,
+                coverLetter.jobDescriptionId
+                    ? this.jobDescriptionDbService.findOne(context, {
+                          condition: { jobDescriptionId: coverLetter.jobDescriptionId, userId: context.userId },
+                      })
+                    : null,
+            ]);
+
+            const template = resume
+                ? await resolveResumeTemplate(this.templateDbService, context, resume, templateId)
+                : RESUME_TEMPLATES.get(templateId || RESUME_DEFAULT_TEMPLATE_ID);
+
+            const document = buildRenderableCoverLetter(coverLetter, jobDescription);
+            return {
+                fileName: `${generateSlug(document.title, 'cover-letter')}.${renderer.fileExtension}`,
+                contentType: renderer.contentType,
+                content: renderer.renderDocument(document, template),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while exporting the cover letter ${error.message}`,
+                coverLetterId,
+                format,
+                templateId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
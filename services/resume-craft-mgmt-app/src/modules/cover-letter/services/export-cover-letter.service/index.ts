@@ -0,0 +1 @@
+export * from './export-cover-letter.service';
@@ -0,0 +1,86 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import {
+    GetCoverLetterResponseType,
+    ListCoverLettersRequestType,
+    ListCoverLettersResponseType,
+} from '@resume/resume-craft-api-contracts';
+import {
+    CoverLetter,
+    CoverLetterDbService,
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+import { toCoverLetterResponse } from '../../helpers';
+
+@Injectable()
+export class GetCoverLetterService {
+    private readonly logger = LoggerFactory.getLogger(GetCoverLetterService.name);
+
+    constructor(private readonly coverLetterDbService: CoverLetterDbService) {
+        this.logger.debug(`${GetCoverLetterService.name} Initialized`);
+    }
+
+    async getCoverLetter(
+        context: RequestContext,
+        coverLetterId: string
+    ): Promise<Pick<GetCoverLetterResponseType, 'result'>> {
+        try {
+            const coverLetter = await this.coverLetterDbService.findOne(context, {
+                condition: {
+                    coverLetterId,
+                    userId: context.userId,
+                },
+            });
+
+            if (!coverLetter) {
+                throw new NotFoundException('Cover letter does not exist.');
+            }
+
+            return {
+                result: toCoverLetterResponse(coverLetter),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching the cover letter ${error.message}`,
+                coverLetterId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    async listCoverLetters(
+        context: RequestContext,
+        listRequest: ListCoverLettersRequestType
+    ): Promise<Pick<ListCoverLettersResponseType, 'result'>> {
+        try {
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<
+                ListCoverLettersRequestType,
+                CoverLetter
+            >(
+                (payload, size) =>
+                    this.coverLetterDbService.listCoverLetters(context, { ...payload, userId: context.userId }, size),
+                listRequest,
+                ['title', 'coverLetterId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toCoverLetterResponse),
+                    size: pageSize,
+                    nextPageToken,
+                    ...(listRequest.q ? { q: listRequest.q } : {}),
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the cover letters ${error.message}`,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './get-cover-letter.service';
@@ -0,0 +1,5 @@
+export * from './create-cover-letter.service';
+export * from './get-cover-letter.service';
+export * from './update-cover-letter.service';
+export * from './delete-cover-letter.service';
+export * from './export-cover-letter.service';
@@ -0,0 +1 @@
+export * from './update-cover-letter.service';
@@ -0,0 +1,53 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { UpdateCoverLetterRequestType, UpdateCoverLetterResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    CoverLetterDbService,
+    ErrorCode,
+    JobDescriptionDbService,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+} from '@resume/resume-craft-common';
+import { assertCoverLetterLinks, toCoverLetterResponse } from '../../helpers';
+
+@Injectable()
+export class UpdateCoverLetterService {
+    private readonly logger = LoggerFactory.getLogger(UpdateCoverLetterService.name);
+
+    constructor(
+        private readonly coverLetterDbService: CoverLetterDbService,
+        private readonly resumeDbService: ResumeDbService,
+        private readonly jobDescriptionDbService: JobDescriptionDbService
+    ) {
+        this.logger.debug(`${UpdateCoverLetterService.name} Initialized`);
+    }
+
+    async updateCoverLetter(
+        context: RequestContext,
+        coverLetterId: string,
+        updateRequest: UpdateCoverLetterRequestType
+    ): Promise<Pick<UpdateCoverLetterResponseType, 'result'>> {
+        try {
+            const condition = { coverLetterId, userId: context.userId };
+            const isExistingCoverLetter = await this.coverLetterDbService.exists(context, condition);
+            if (!isExistingCoverLetter) {
+                throw new NotFoundException('Cover letter does not exist.');
+            }
+            await assertCoverLetterLinks(this.resumeDbService, this.jobDescriptionDbService, context, updateRequest);
+
+            const coverLetter = await this.coverLetterDbService.updateOne(context, condition, updateRequest);
+
+            return {
+                result: toCoverLetterResponse(coverLetter),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while updating the cover letter ${error.message}`,
+                coverLetterId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -1 +1,10 @@
 export * from './user';
+export * from './resume';
+export * from './auth';
+export * from './resume-export';
+export * from './template';
+export * from './share-link';
+export * from './job-description';
+export * from './resume-match';
+export * from './ats-report';
+export * from './cover-letter';
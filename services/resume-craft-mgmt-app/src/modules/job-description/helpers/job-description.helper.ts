@@ -0,0 +1,12 @@
+import { JobDescriptionType } from '@resume/resume-craft-api-contracts';
+import { JobDescription } from '@resume/resume-craft-common';
+
+export const toJobDescriptionResponse = (jobDescription: JobDescription): JobDescriptionType => ({
+    jobDescriptionId: jobDescription.jobDescriptionId,
+    title: jobDescription.title,
+    ...(jobDescription.company ? { company: jobDescription.company } : {}),
+    ...(jobDescription.rawText ? { rawText: jobDescription.rawText } : {}),
+    ...(jobDescription.sourceUrl ? { sourceUrl: jobDescription.sourceUrl } : {}),
+    createdAt: jobDescription.createdAt,
+    ...(jobDescription.modifiedAt ? { modifiedAt: jobDescription.modifiedAt } : {}),
+});
@@ -0,0 +1,208 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Param,
+    Patch,
+    Post,
+    Query,
+    Scope,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    LoggerFactory,
+    ResumeCraftRequest,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    CreateJobDescriptionReqOpenApiSchema,
+    CreateJobDescriptionRequestSchema,
+    CreateJobDescriptionRequestType,
+    CreateJobDescriptionRespOpenApiSchema,
+    DeleteJobDescriptionRespOpenApiSchema,
+    ErrorResponseOpenApiSchema,
+    GetJobDescriptionRespOpenApiSchema,
+    JobDescriptionIdParamOpenApiSchema,
+    JobDescriptionIdParamSchema,
+    JobDescriptionIdParamType,
+    ListJobDescriptionsReqOpenApiSchema,
+    ListJobDescriptionsRequestSchema,
+    ListJobDescriptionsRequestType,
+    ListJobDescriptionsRespOpenApiSchema,
+    UpdateJobDescriptionReqOpenApiSchema,
+    UpdateJobDescriptionRequestSchema,
+    UpdateJobDescriptionRequestType,
+    UpdateJobDescriptionRespOpenApiSchema,
+} from '@resume/resume-craft-api-contracts';
+import {
+    CreateJobDescriptionService,
+    DeleteJobDescriptionService,
+    GetJobDescriptionService,
+    UpdateJobDescriptionService,
+} from './services';
+
+@Controller('job-descriptions')
+@Injectable({ scope: Scope.REQUEST })
+export class JobDescriptionController {
+    private readonly logger = LoggerFactory.getLogger(JobDescriptionController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly createJobDescriptionService: CreateJobDescriptionService,
+        private readonly getJobDescriptionService: GetJobDescriptionService,
+        private readonly updateJobDescriptionService: UpdateJobDescriptionService,
+        private readonly deleteJobDescriptionService: DeleteJobDescriptionService
+    ) {
+        this.logger.debug(`${JobDescriptionController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'CreateJobDescription',
+        tags: ['Job Descriptions'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: CreateJobDescriptionReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: CreateJobDescriptionRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post()
+    async createJobDescription(
+        @Body(new SchemaAjvValidationPipe(CreateJobDescriptionRequestSchema))
+        createJobDescriptionRequest: CreateJobDescriptionRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.createJobDescriptionService.createJobDescription(
+            context,
+            createJobDescriptionRequest
+        );
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Job description created successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'ListJobDescriptions',
+        tags: ['Job Descriptions'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiQuerySchema: ListJobDescriptionsReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListJobDescriptionsRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get()
+    async listJobDescriptions(
+        @Query(new SchemaAjvValidationPipe(ListJobDescriptionsRequestSchema))
+        listJobDescriptionsRequest: ListJobDescriptionsRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.getJobDescriptionService.listJobDescriptions(context, listJobDescriptionsRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Job description list fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetJobDescription',
+        tags: ['Job Descriptions'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: JobDescriptionIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetJobDescriptionRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':jobDescriptionId')
+    async getJobDescription(
+        @Param(new SchemaAjvValidationPipe(JobDescriptionIdParamSchema)) { jobDescriptionId }: JobDescriptionIdParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.getJobDescriptionService.getJobDescription(context, jobDescriptionId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Job description fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'UpdateJobDescription',
+        tags: ['Job Descriptions'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: JobDescriptionIdParamOpenApiSchema,
+        apiBodySchema: UpdateJobDescriptionReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: UpdateJobDescriptionRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Patch(':jobDescriptionId')
+    async updateJobDescription(
+        @Param(new SchemaAjvValidationPipe(JobDescriptionIdParamSchema))
+        { jobDescriptionId }: JobDescriptionIdParamType,
+        @Body(new SchemaAjvValidationPipe(UpdateJobDescriptionRequestSchema))
+        updateJobDescriptionRequest: UpdateJobDescriptionRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.updateJobDescriptionService.updateJobDescription(
+            context,
+            jobDescriptionId,
+            updateJobDescriptionRequest
+        );
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Job description updated successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'DeleteJobDescription',
+        tags: ['Job Descriptions'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: JobDescriptionIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: DeleteJobDescriptionRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Delete(':jobDescriptionId')
+    async deleteJobDescription(
+        @Param(new SchemaAjvValidationPipe(JobDescriptionIdParamSchema)) { jobDescriptionId }: JobDescriptionIdParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.deleteJobDescriptionService.deleteJobDescription(context, jobDescriptionId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Job description deleted successfully.',
+        };
+    }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+
+import { JobDescriptionController } from './job-description.controller';
+import {
+    CreateJobDescriptionService,
+    DeleteJobDescriptionService,
+    GetJobDescriptionService,
+    UpdateJobDescriptionService,
+} from './services';
+import { DataFromContext, ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule],
+    controllers: [JobDescriptionController],
+    providers: [
+        CreateJobDescriptionService,
+        GetJobDescriptionService,
+        UpdateJobDescriptionService,
+        DeleteJobDescriptionService,
+        DataFromContext,
+    ],
+})
+export class JobDescriptionModule {}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+
+import { CreateJobDescriptionRequestType, CreateJobDescriptionResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DataFromContext,
+    ErrorCode,
+    generateUUIDV4,
+    JobDescriptionDbService,
+    LoggerFactory,
+    REQUEST_CONTEXT_DATA_TYPES,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+import { toJobDescriptionResponse } from '../../helpers';
+
+@Injectable()
+export class CreateJobDescriptionService {
+    private readonly logger = LoggerFactory.getLogger(CreateJobDescriptionService.name);
+
+    constructor(
+        private readonly jobDescriptionDbService: JobDescriptionDbService,
+        private readonly dataFromContext: DataFromContext
+    ) {
+        this.logger.debug(`${CreateJobDescriptionService.name} Initialized`);
+    }
+
+    async createJobDescription(
+        context: RequestContext,
+        createRequest: CreateJobDescriptionRequestType
+    ): Promise<Pick<CreateJobDescriptionResponseType, 'result'>> {
+        try {
+            const enrichedContext = await this.dataFromContext.get(context, {
+                type: REQUEST_CONTEXT_DATA_TYPES.USER,
+            });
+
+            if (!enrichedContext.user) {
+                throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                    message: 'Job description owner does not exist',
+                    details: { userId: context.userId },
+                });
+            }
+
+            const jobDescription = await this.jobDescriptionDbService.create(context, {
+                jobDescriptionId: generateUUIDV4(),
+                owner: {
+                    userId: enrichedContext.user.userId,
+                    name: enrichedContext.user.name,
+                },
+                title: createRequest.title,
+                company: createRequest.company ?? null,
+                rawText: createRequest.rawText,
+                sourceUrl: createRequest.sourceUrl ?? null,
+                createdBy: context.userId,
+            });
+
+            return {
+                result: toJobDescriptionResponse(jobDescription),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while creating the job description ${error.message}`,
+                title: createRequest.title,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
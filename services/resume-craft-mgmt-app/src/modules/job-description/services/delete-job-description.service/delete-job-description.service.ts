@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+
+import { DeleteJobDescriptionResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    JobDescriptionDbService,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+
+@Injectable()
+export class DeleteJobDescriptionService {
+    private readonly logger = LoggerFactory.getLogger(DeleteJobDescriptionService.name);
+
+    constructor(private readonly jobDescriptionDbService: JobDescriptionDbService) {
+        this.logger.debug(`${DeleteJobDescriptionService.name} Initialized`);
+    }
+
+    async deleteJobDescription(
+        context: RequestContext,
+        jobDescriptionId: string
+    ): Promise<Pick<DeleteJobDescriptionResponseType, 'result'>> {
+        try {
+            await this.jobDescriptionDbService.deleteOne(context, { jobDescriptionId, userId: context.userId });
+
+            return {
+                result: { jobDescriptionId },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while deleting the job description ${error.message}`,
+                jobDescriptionId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './delete-job-description.service';
@@ -0,0 +1,90 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import {
+    GetJobDescriptionResponseType,
+    ListJobDescriptionsRequestType,
+    ListJobDescriptionsResponseType,
+} from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    JobDescription,
+    JobDescriptionDbService,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+import { toJobDescriptionResponse } from '../../helpers';
+
+@Injectable()
+export class GetJobDescriptionService {
+    private readonly logger = LoggerFactory.getLogger(GetJobDescriptionService.name);
+
+    constructor(private readonly jobDescriptionDbService: JobDescriptionDbService) {
+        this.logger.debug(`${GetJobDescriptionService.name} Initialized`);
+    }
+
+    async getJobDescription(
+        context: RequestContext,
+        jobDescriptionId: string
+    ): Promise<Pick<GetJobDescriptionResponseType, 'result'>> {
+        try {
+            const jobDescription = await this.jobDescriptionDbService.findOne(context, {
+                condition: {
+                    jobDescriptionId,
+                    userId: context.userId,
+                },
+            });
+
+            if (!jobDescription) {
+                throw new NotFoundException('Job description does not exist.');
+            }
+
+            return {
+                result: toJobDescriptionResponse(jobDescription),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching the job description ${error.message}`,
+                jobDescriptionId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    async listJobDescriptions(
+        context: RequestContext,
+        listRequest: ListJobDescriptionsRequestType
+    ): Promise<Pick<ListJobDescriptionsResponseType, 'result'>> {
+        try {
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<
+                ListJobDescriptionsRequestType,
+                JobDescription
+            >(
+                (payload, size) =>
+                    this.jobDescriptionDbService.listJobDescriptions(
+                        context,
+                        { ...payload, userId: context.userId },
+                        size
+                    ),
+                listRequest,
+                ['title', 'jobDescriptionId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toJobDescriptionResponse),
+                    size: pageSize,
+                    nextPageToken,
+                    ...(listRequest.q ? { q: listRequest.q } : {}),
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the job descriptions ${error.message}`,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
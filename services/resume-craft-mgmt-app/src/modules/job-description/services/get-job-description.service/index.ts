@@ -0,0 +1 @@
+export * from './get-job-description.service';
@@ -0,0 +1,4 @@
+export * from './create-job-description.service';
+export * from './get-job-description.service';
+export * from './update-job-description.service';
+export * from './delete-job-description.service';
@@ -0,0 +1 @@
+export * from './update-job-description.service';
@@ -0,0 +1,46 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { UpdateJobDescriptionRequestType, UpdateJobDescriptionResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    JobDescriptionDbService,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+} from '@resume/resume-craft-common';
+import { toJobDescriptionResponse } from '../../helpers';
+
+@Injectable()
+export class UpdateJobDescriptionService {
+    private readonly logger = LoggerFactory.getLogger(UpdateJobDescriptionService.name);
+
+    constructor(private readonly jobDescriptionDbService: JobDescriptionDbService) {
+        this.logger.debug(`${UpdateJobDescriptionService.name} Initialized`);
+    }
+
+    async updateJobDescription(
+        context: RequestContext,
+        jobDescriptionId: string,
+        updateRequest: UpdateJobDescriptionRequestType
+    ): Promise<Pick<UpdateJobDescriptionResponseType, 'result'>> {
+        try {
+            const condition = { jobDescriptionId, userId: context.userId };
+            const isExistingJobDescription = await this.jobDescriptionDbService.exists(context, condition);
+            if (!isExistingJobDescription) {
+                throw new NotFoundException('Job description does not exist.');
+            }
+
+            const jobDescription = await this.jobDescriptionDbService.updateOne(context, condition, updateRequest);
+
+            return {
+                result: toJobDescriptionResponse(jobDescription),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while updating the job description ${error.message}`,
+                jobDescriptionId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,2 @@
+export * from './renderable-resume.helper';
+export * from './resume-template.helper';
@@ -0,0 +1,151 @@
+import {
+    CertificationItem,
+    CustomSectionItem,
+    EducationItem,
+    ExperienceItem,
+    LanguageItem,
+    ProjectItem,
+    Resume,
+    ResumeSection,
+    ResumeSectionType,
+    SkillItem,
+} from '@resume/resume-craft-common';
+
+import { RenderableBlock, RenderableBlockType, RenderableResume, RenderableSection } from '../resume-export.types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const META_SEPARATOR = ' | ';
+
+/**
+ * Resume dates are stored as ISO strings, they are printed as `Mon YYYY`. Anything that does not look like
+ * an ISO date is printed as is.
+ */
+export const formatResumeDate = (value?: string | null): string => {
+    if (!value) {
+        return '';
+    }
+
+    const match = /^(\d{4})-(\d{2})/.exec(value);
+    const month = match ? MONTHS[Number(match[2]) - 1] : undefined;
+
+    return month ? `${month} ${match[1]}` : value;
+};
+
+const formatDateRange = (startDate?: string | null, endDate?: string | null, isCurrent?: boolean | null): string => {
+    const start = formatResumeDate(startDate);
+    const end = isCurrent ? 'Present' : formatResumeDate(endDate);
+
+    return [start, end].filter(Boolean).join(' - ');
+};
+
+const humanise = (value: string): string => {
+    const text = value.replace(/_/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const joinMeta = (...parts: (string | null | undefined)[]): string => parts.filter(Boolean).join(META_SEPARATOR);
+
+const block = (type: RenderableBlockType, text?: string | null): RenderableBlock[] =>
+    text && text.trim() ? [{ type, text: text.trim() }] : [];
+
+const bullets = (bulletPoints?: string[] | null): RenderableBlock[] =>
+    (bulletPoints || []).flatMap((bulletPoint) => block(RenderableBlockType.Bullet, bulletPoint));
+
+const experienceBlocks = (item: ExperienceItem): RenderableBlock[] => [
+    ...block(RenderableBlockType.Subheading, `${item.role}, ${item.company}`),
+    ...block(
+        RenderableBlockType.Meta,
+        joinMeta(item.location, formatDateRange(item.startDate, item.endDate, item.isCurrent))
+    ),
+    ...bullets(item.bulletPoints),
+];
+
+const educationBlocks = (item: EducationItem): RenderableBlock[] => [
+    ...block(
+        RenderableBlockType.Subheading,
+        `${item.fieldOfStudy ? `${item.degree} in ${item.fieldOfStudy}` : item.degree}, ${item.institution}`
+    ),
+    ...block(
+        RenderableBlockType.Meta,
+        joinMeta(formatDateRange(item.startDate, item.endDate), item.grade ? `Grade: ${item.grade}` : null)
+    ),
+    ...block(RenderableBlockType.Paragraph, item.description),
+];
+
+const projectBlocks = (item: ProjectItem): RenderableBlock[] => [
+    ...block(RenderableBlockType.Subheading, item.role ? `${item.name}, ${item.role}` : item.name),
+    ...block(RenderableBlockType.Meta, joinMeta(formatDateRange(item.startDate, item.endDate), item.url)),
+    ...block(RenderableBlockType.Paragraph, item.description),
+    ...bullets(item.bulletPoints),
+];
+
+const certificationBlocks = (item: CertificationItem): RenderableBlock[] => [
+    ...block(RenderableBlockType.Subheading, `${item.name}, ${item.issuer}`),
+    ...block(
+        RenderableBlockType.Meta,
+        joinMeta(
+            `Issued ${formatResumeDate(item.issueDate)}`,
+            item.expiryDate ? `Expires ${formatResumeDate(item.expiryDate)}` : null,
+            item.credentialId ? `Credential ID ${item.credentialId}` : null,
+            item.url
+        )
+    ),
+];
+
+const customBlocks = (item: CustomSectionItem): RenderableBlock[] => [
+    ...block(RenderableBlockType.Subheading, item.title),
+    ...block(RenderableBlockType.Meta, joinMeta(item.subtitle, formatResumeDate(item.date), item.url)),
+    ...block(RenderableBlockType.Paragraph, item.description),
+];
+
+const sectionBlocks = (section: ResumeSection): RenderableBlock[] => {
+    const items = section.items || [];
+
+    switch (section.type) {
+        case ResumeSectionType.Summary:
+            return block(RenderableBlockType.Paragraph, section.content);
+        case ResumeSectionType.Experience:
+            return (items as ExperienceItem[]).flatMap(experienceBlocks);
+        case ResumeSectionType.Education:
+            return (items as EducationItem[]).flatMap(educationBlocks);
+        case ResumeSectionType.Skills:
+            return block(
+                RenderableBlockType.Paragraph,
+                (items as SkillItem[]).map((item) => `${item.name} (${humanise(item.proficiency)})`).join(', ')
+            );
+        case ResumeSectionType.Projects:
+            return (items as ProjectItem[]).flatMap(projectBlocks);
+        case ResumeSectionType.Certifications:
+            return (items as CertificationItem[]).flatMap(certificationBlocks);
+        case ResumeSectionType.Languages:
+            return block(
+                RenderableBlockType.Paragraph,
+                (items as LanguageItem[]).map((item) => `${item.language} (${humanise(item.proficiency)})`).join(', ')
+            );
+        default:
+            return [
+                ...block(RenderableBlockType.Paragraph, section.content),
+                ...(items as CustomSectionItem[]).flatMap(customBlocks),
+            ];
+    }
+};
+
+/**
+ * Flattens a stored resume into the format agnostic shape every renderer works from. Hidden sections are
+ * dropped and the rest keep their `order`, so no renderer has to deal with either.
+ */
+export const buildRenderableResume = (resume: Resume): RenderableResume => ({
+    title: resume.title,
+    ownerName: resume.owner?.name || null,
+    sections: [...(resume.sections || [])]
+        .filter((section) => !section.isHidden)
+        .sort((a, b) => a.order - b.order)
+        .map(
+            (section): RenderableSection => ({
+                sectionId: section.sectionId,
+                type: section.type,
+                title: section.title,
+                blocks: sectionBlocks(section),
+            })
+        ),
+});
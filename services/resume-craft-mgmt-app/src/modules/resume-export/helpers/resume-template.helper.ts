@@ -0,0 +1,44 @@
+import { RESUME_DEFAULT_TEMPLATE_ID } from '@resume/resume-craft-api-contracts';
+import { RequestContext, Resume, Template, TemplateDbService } from '@resume/resume-craft-common';
+
+import { ResumeTemplate } from '../resume-export.types';
+import { RESUME_TEMPLATES } from '../templates';
+
+/**
+ * Builds the layout of one published catalog template version.
+ */
+export const toResumeTemplate = (template: Template): ResumeTemplate => ({
+    templateId: template.templateId,
+    name: template.name,
+    ...template.styleTokens,
+});
+
+/**
+ * A built-in template requested by the caller wins, otherwise the resume uses the catalog template version it
+ * is pinned to. Resumes without a template, or pinned to a deleted one, use the default layout.
+ */
+export const resolveResumeTemplate = async (
+    templateDbService: TemplateDbService,
+    context: RequestContext,
+    resume: Resume,
+    templateId?: string
+): Promise<ResumeTemplate> => {
+    if (templateId) {
+        return RESUME_TEMPLATES.get(templateId);
+    }
+
+    if (resume.template) {
+        const pinnedTemplate = await templateDbService.findOne(context, {
+            condition: {
+                templateId: resume.template.templateId,
+                version: resume.template.version,
+                userId: context.userId,
+            },
+        });
+        if (pinnedTemplate) {
+            return toResumeTemplate(pinnedTemplate);
+        }
+    }
+
+    return RESUME_TEMPLATES.get(RESUME_DEFAULT_TEMPLATE_ID);
+};
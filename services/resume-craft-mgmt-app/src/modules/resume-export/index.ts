@@ -0,0 +1 @@
+export * from './resume-export.module';
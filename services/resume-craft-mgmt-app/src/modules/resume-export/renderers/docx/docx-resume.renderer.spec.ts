@@ -0,0 +1,88 @@
+import { inflateRawSync } from 'zlib';
+
+import { buildResume } from '../../resume-export.mock';
+import { CLASSIC_RESUME_TEMPLATE, COMPACT_RESUME_TEMPLATE } from '../../templates';
+import { DocxResumeRenderer } from './docx-resume.renderer';
+import { crc32 } from './zip-writer';
+
+/**
+ * Walks the local file headers of an archive and returns every entry, checking its CRC on the way.
+ */
+const readZip = (archive: Buffer): Map<string, string> => {
+    const entries = new Map<string, string>();
+    let offset = 0;
+
+    while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const checksum = archive.readUInt32LE(offset + 14);
+        const compressedSize = archive.readUInt32LE(offset + 18);
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const dataStart = offset + 30 + nameLength;
+        const name = archive.subarray(offset + 30, dataStart).toString('utf8');
+        const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+
+        expect(crc32(data)).toBe(checksum);
+        entries.set(name, data.toString('utf8'));
+        offset = dataStart + compressedSize;
+    }
+
+    return entries;
+};
+
+const decodeXml = (text: string): string =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+
+const extractParagraphs = (documentXml: string) =>
+    [
+        ...documentXml.matchAll(
+            /<w:p><w:pPr><w:pStyle w:val="(\w+)"\/><\/w:pPr><w:r><w:t[^>]*>(.*?)<\/w:t><\/w:r><\/w:p>/g
+        ),
+    ].map(([, style, text]) => `${style}: ${decodeXml(text)}`);
+
+describe('DocxResumeRenderer', () => {
+    const renderer = new DocxResumeRenderer();
+
+    it('should package the Word document parts', () => {
+        const entries = readZip(renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE));
+
+        expect([...entries.keys()]).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'docProps/core.xml',
+            'word/document.xml',
+            'word/_rels/document.xml.rels',
+            'word/styles.xml',
+            'word/numbering.xml',
+        ]);
+        expect(entries.get('docProps/core.xml')).toContain('<dc:title>Senior Backend Engineer</dc:title>');
+    });
+
+    it('should write visible sections in order with heading styles', () => {
+        const entries = readZip(renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE));
+        const paragraphs = extractParagraphs(entries.get('word/document.xml'));
+
+        expect(paragraphs).not.toContain('Heading1: Hobbies');
+        expect(paragraphs).toMatchSnapshot();
+    });
+
+    it('should take the look of the headings from the template', () => {
+        const classic = readZip(renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE));
+        const compact = readZip(renderer.render(buildResume(), COMPACT_RESUME_TEMPLATE));
+
+        expect(classic.get('word/styles.xml')).toContain('<w:caps/>');
+        expect(classic.get('word/styles.xml')).toContain('<w:pBdr>');
+        expect(compact.get('word/styles.xml')).not.toContain('<w:caps/>');
+        expect(compact.get('word/document.xml')).toContain('w:top="720"');
+    });
+
+    it('should produce identical bytes for the same input', () => {
+        const first = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE);
+        const second = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE);
+
+        expect(first.equals(second)).toBe(true);
+    });
+});
@@ -0,0 +1,218 @@
+import { Injectable } from '@nestjs/common';
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildRenderableResume } from '../../helpers';
+import {
+    RenderableBlockType,
+    RenderableResume,
+    ResumeRenderer,
+    ResumeTemplate,
+    ResumeTemplateTextStyle,
+} from '../../resume-export.types';
+import { writeZip } from './zip-writer';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const FONT_FAMILY = 'Arial';
+const BULLET_NUMBERING_ID = 1;
+
+// Word measures lengths in twentieths of a point and font sizes in half points.
+const toTwips = (points: number): number => Math.round(points * 20);
+const toHalfPoints = (points: number): number => Math.round(points * 2);
+
+export enum DocxParagraphStyle {
+    Title = 'Title',
+    Subtitle = 'Subtitle',
+    SectionTitle = 'Heading1',
+    Subheading = 'Heading2',
+    Meta = 'ResumeMeta',
+    Paragraph = 'Normal',
+    Bullet = 'ListBullet',
+}
+
+// Built-in styles are matched by name, which is what lets Word and parsers recognise the headings.
+const STYLE_NAMES: Record<DocxParagraphStyle, string> = {
+    [DocxParagraphStyle.Title]: 'Title',
+    [DocxParagraphStyle.Subtitle]: 'Subtitle',
+    [DocxParagraphStyle.SectionTitle]: 'heading 1',
+    [DocxParagraphStyle.Subheading]: 'heading 2',
+    [DocxParagraphStyle.Meta]: 'Resume Meta',
+    [DocxParagraphStyle.Paragraph]: 'Normal',
+    [DocxParagraphStyle.Bullet]: 'List Bullet',
+};
+
+const BLOCK_STYLES: Record<`${RenderableBlockType}`, DocxParagraphStyle> = {
+    [RenderableBlockType.Subheading]: DocxParagraphStyle.Subheading,
+    [RenderableBlockType.Meta]: DocxParagraphStyle.Meta,
+    [RenderableBlockType.Paragraph]: DocxParagraphStyle.Paragraph,
+    [RenderableBlockType.Bullet]: DocxParagraphStyle.Bullet,
+};
+
+/**
+ * Escapes text for XML content and drops the control characters XML 1.0 cannot carry at all.
+ */
+export const escapeXml = (text: string): string =>
+    text
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+const paragraph = (style: DocxParagraphStyle, text: string): string =>
+    `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr><w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+
+const paragraphStyle = (
+    styleId: DocxParagraphStyle,
+    textStyle: ResumeTemplateTextStyle,
+    { paragraphProperties = '', runProperties = '' }: { paragraphProperties?: string; runProperties?: string } = {}
+): string =>
+    [
+        `<w:style w:type="paragraph" w:styleId="${styleId}"${styleId === DocxParagraphStyle.Paragraph ? ' w:default="1"' : ''}>`,
+        `<w:name w:val="${STYLE_NAMES[styleId]}"/>`,
+        styleId !== DocxParagraphStyle.Paragraph ? `<w:basedOn w:val="${DocxParagraphStyle.Paragraph}"/>` : '',
+        paragraphProperties ? `<w:pPr>${paragraphProperties}</w:pPr>` : '',
+        `<w:rPr>${textStyle.isBold ? '<w:b/>' : ''}${runProperties}<w:sz w:val="${toHalfPoints(textStyle.fontSize)}"/></w:rPr>`,
+        '</w:style>',
+    ].join('');
+
+const buildStyles = (template: ResumeTemplate): string => {
+    const { styles } = template;
+    const sectionSpacing = `<w:spacing w:before="${toTwips(template.sectionSpacing)}" w:after="${toTwips(4)}"/>`;
+    const sectionRule = template.hasSectionRule
+        ? '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="000000"/></w:pBdr>'
+        : '';
+
+    return [
+        XML_DECLARATION,
+        `<w:styles xmlns:w="${WORD_NAMESPACE}">`,
+        `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${FONT_FAMILY}" w:hAnsi="${FONT_FAMILY}" w:cs="${FONT_FAMILY}"/></w:rPr></w:rPrDefault></w:docDefaults>`,
+        paragraphStyle(DocxParagraphStyle.Paragraph, styles.paragraph, {
+            paragraphProperties: `<w:spacing w:after="0" w:line="${Math.round(240 * template.lineHeight)}" w:lineRule="auto"/>`,
+        }),
+        paragraphStyle(DocxParagraphStyle.Title, styles.name),
+        paragraphStyle(DocxParagraphStyle.Subtitle, styles.title),
+        paragraphStyle(DocxParagraphStyle.SectionTitle, styles.sectionTitle, {
+            paragraphProperties: `<w:keepNext/>${sectionRule}${sectionSpacing}<w:outlineLvl w:val="0"/>`,
+            runProperties: template.isSectionTitleUppercase ? '<w:caps/>' : '',
+        }),
+        paragraphStyle(DocxParagraphStyle.Subheading, styles.subheading, {
+            paragraphProperties: `<w:keepNext/><w:spacing w:before="${toTwips(styles.subheading.fontSize / 2)}"/><w:outlineLvl w:val="1"/>`,
+        }),
+        paragraphStyle(DocxParagraphStyle.Meta, styles.meta),
+        paragraphStyle(DocxParagraphStyle.Bullet, styles.bullet, {
+            paragraphProperties: `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr>`,
+        }),
+        '</w:styles>',
+    ].join('');
+};
+
+const buildNumbering = (): string =>
+    [
+        XML_DECLARATION,
+        `<w:numbering xmlns:w="${WORD_NAMESPACE}">`,
+        '<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/>',
+        '<w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="240"/></w:pPr></w:lvl></w:abstractNum>',
+        `<w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num>`,
+        '</w:numbering>',
+    ].join('');
+
+const buildDocument = (resume: RenderableResume, template: ResumeTemplate): string => {
+    const margin = toTwips(template.page.margin);
+    const paragraphs = [
+        ...(resume.ownerName ? [paragraph(DocxParagraphStyle.Title, resume.ownerName)] : []),
+        paragraph(DocxParagraphStyle.Subtitle, resume.title),
+        ...resume.sections.flatMap((section) => [
+            paragraph(DocxParagraphStyle.SectionTitle, section.title),
+            ...section.blocks.map((block) => paragraph(BLOCK_STYLES[block.type], block.text)),
+        ]),
+    ];
+
+    return [
+        XML_DECLARATION,
+        `<w:document xmlns:w="${WORD_NAMESPACE}"><w:body>`,
+        ...paragraphs,
+        `<w:sectPr><w:pgSz w:w="${toTwips(template.page.width)}" w:h="${toTwips(template.page.height)}"/>`,
+        `<w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>`,
+        '</w:body></w:document>',
+    ].join('');
+};
+
+const buildContentTypes = (): string =>
+    [
+        XML_DECLARATION,
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+        '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>',
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+        '</Types>',
+    ].join('');
+
+const buildRelationships = (relationships: { type: string; target: string }[]): string =>
+    [
+        XML_DECLARATION,
+        `<Relationships xmlns="${RELATIONSHIPS_NAMESPACE}">`,
+        ...relationships.map(
+            ({ type, target }, index) => `<Relationship Id="rId${index + 1}" Type="${type}" Target="${target}"/>`
+        ),
+        '</Relationships>',
+    ].join('');
+
+const buildCoreProperties = (resume: RenderableResume): string =>
+    [
+        XML_DECLARATION,
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+        `<dc:title>${escapeXml(resume.title)}</dc:title>`,
+        resume.ownerName ? `<dc:creator>${escapeXml(resume.ownerName)}</dc:creator>` : '',
+        '</cp:coreProperties>',
+    ].join('');
+
+/**
+ * Writes an Office Open XML document. Section titles and item headings use Word's built-in heading styles,
+ * so the outline survives in Word and in ATS parsers; the template only sets the look of those styles.
+ */
+@Injectable()
+export class DocxResumeRenderer implements ResumeRenderer {
+    readonly format = ResumeExportFormat.Docx;
+    readonly contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    readonly fileExtension = 'docx';
+
+    render(storedResume: Resume, template: ResumeTemplate): Buffer {
+        return this.renderDocument(buildRenderableResume(storedResume), template);
+    }
+
+    renderDocument(resume: RenderableResume, template: ResumeTemplate): Buffer {
+        return writeZip([
+            { path: '[Content_Types].xml', content: buildContentTypes() },
+            {
+                path: '_rels/.rels',
+                content: buildRelationships([
+                    { type: `${OFFICE_RELATIONSHIP_TYPE}/officeDocument`, target: 'word/document.xml' },
+                    {
+                        type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+                        target: 'docProps/core.xml',
+                    },
+                ]),
+            },
+            { path: 'docProps/core.xml', content: buildCoreProperties(resume) },
+            { path: 'word/document.xml', content: buildDocument(resume, template) },
+            {
+                path: 'word/_rels/document.xml.rels',
+                content: buildRelationships([
+                    { type: `${OFFICE_RELATIONSHIP_TYPE}/styles`, target: 'styles.xml' },
+                    { type: `${OFFICE_RELATIONSHIP_TYPE}/numbering`, target: 'numbering.xml' },
+                ]),
+            },
+            { path: 'word/styles.xml', content: buildStyles(template) },
+            { path: 'word/numbering.xml', content: buildNumbering() },
+        ]);
+    }
+}
@@ -0,0 +1,2 @@
+export * from './zip-writer';
+export * from './docx-resume.renderer';
@@ -0,0 +1,88 @@
+import { deflateRawSync } from 'zlib';
+
+export type ZipEntry = {
+    path: string;
+    content: string | Buffer;
+};
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+const DEFLATE_METHOD = 8;
+// 1980-01-01 00:00 in MS-DOS format, entries carry a fixed date so archives are reproducible.
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    return value >>> 0;
+});
+
+export const crc32 = (data: Buffer): number => {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Writes a deflated ZIP archive of the given entries, in the order they are given.
+ */
+export const writeZip = (entries: ZipEntry[]): Buffer => {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.path, 'utf8');
+        const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+        const compressed = deflateRawSync(data);
+        const checksum = crc32(data);
+
+        const localHeader = Buffer.alloc(30);
+        localHeader.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+        localHeader.writeUInt16LE(ZIP_VERSION, 4);
+        localHeader.writeUInt16LE(0, 6);
+        localHeader.writeUInt16LE(DEFLATE_METHOD, 8);
+        localHeader.writeUInt16LE(DOS_TIME, 10);
+        localHeader.writeUInt16LE(DOS_DATE, 12);
+        localHeader.writeUInt32LE(checksum, 14);
+        localHeader.writeUInt32LE(compressed.length, 18);
+        localHeader.writeUInt32LE(data.length, 22);
+        localHeader.writeUInt16LE(name.length, 26);
+        localHeader.writeUInt16LE(0, 28);
+
+        const centralHeader = Buffer.alloc(46);
+        centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+        centralHeader.writeUInt16LE(ZIP_VERSION, 4);
+        centralHeader.writeUInt16LE(ZIP_VERSION, 6);
+        centralHeader.writeUInt16LE(0, 8);
+        centralHeader.writeUInt16LE(DEFLATE_METHOD, 10);
+        centralHeader.writeUInt16LE(DOS_TIME, 12);
+        centralHeader.writeUInt16LE(DOS_DATE, 14);
+        centralHeader.writeUInt32LE(checksum, 16);
+        centralHeader.writeUInt32LE(compressed.length, 20);
+        centralHeader.writeUInt32LE(data.length, 24);
+        centralHeader.writeUInt16LE(name.length, 28);
+        centralHeader.writeUInt32LE(offset, 42);
+
+        localParts.push(localHeader, name, compressed);
+        centralParts.push(centralHeader, name);
+        offset += localHeader.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+};
@@ -0,0 +1,6 @@
+export * from './pdf';
+export * from './docx';
+export * from './markdown';
+export * from './text';
+export * from './json-resume';
+export * from './resume-renderer.registry';
@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { toJsonResume } from '../../../resume/helpers';
+import { ResumeRenderer } from '../../resume-export.types';
+
+const JSON_INDENT = 2;
+
+@Injectable()
+export class JsonResumeRenderer implements ResumeRenderer {
+    readonly format = ResumeExportFormat.JsonResume;
+    readonly contentType = 'application/json; charset=utf-8';
+    readonly fileExtension = 'json';
+
+    render(resume: Resume): Buffer {
+        return Buffer.from(`${JSON.stringify(toJsonResume(resume), null, JSON_INDENT)}\n`, 'utf8');
+    }
+}
@@ -0,0 +1,22 @@
+import { buildResume } from '../../resume-export.mock';
+import { MarkdownResumeRenderer } from './markdown-resume.renderer';
+
+describe('MarkdownResumeRenderer', () => {
+    const renderer = new MarkdownResumeRenderer();
+
+    it('should write visible sections in order', () => {
+        const markdown = renderer.render(buildResume()).toString('utf8');
+
+        expect(markdown).not.toContain('Hobbies');
+        expect(markdown.indexOf('## Summary')).toBeLessThan(markdown.indexOf('## Experience'));
+        expect(markdown).toMatchSnapshot();
+    });
+
+    it('should escape text that Markdown would read as formatting', () => {
+        const resume = buildResume({ title: '*Lead* engineer_#1 [remote]' });
+
+        const markdown = renderer.render(resume).toString('utf8');
+
+        expect(markdown).toContain('**\\*Lead\\* engineer\\_\\#1 \\[remote\\]**');
+    });
+});
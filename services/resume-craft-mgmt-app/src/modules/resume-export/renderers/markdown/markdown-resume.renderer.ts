@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildRenderableResume } from '../../helpers';
+import { RenderableBlock, RenderableBlockType, RenderableResume, ResumeRenderer } from '../../resume-export.types';
+
+/**
+ * Escapes the characters Markdown would read as formatting, so resume text always renders literally.
+ */
+export const escapeMarkdown = (text: string): string => text.replace(/([\\`*_{}[\]<>#|!])/g, '\\$1');
+
+const blockToMarkdown = (block: RenderableBlock): string => {
+    const text = escapeMarkdown(block.text);
+
+    switch (block.type) {
+        case RenderableBlockType.Subheading:
+            return `\n### ${text}`;
+        case RenderableBlockType.Meta:
+            return `_${text}_`;
+        case RenderableBlockType.Bullet:
+            return `- ${text}`;
+        default:
+            return `\n${text}`;
+    }
+};
+
+/**
+ * Markdown only carries structure, the template has no say in how it is displayed.
+ */
+@Injectable()
+export class MarkdownResumeRenderer implements ResumeRenderer {
+    readonly format = ResumeExportFormat.Markdown;
+    readonly contentType = 'text/markdown; charset=utf-8';
+    readonly fileExtension = 'md';
+
+    render(storedResume: Resume): Buffer {
+        return this.renderDocument(buildRenderableResume(storedResume));
+    }
+
+    renderDocument(resume: RenderableResume): Buffer {
+        const lines = [
+            ...(resume.ownerName ? [`# ${escapeMarkdown(resume.ownerName)}`, ''] : []),
+            `**${escapeMarkdown(resume.title)}**`,
+            ...resume.sections.flatMap((section) => [
+                '',
+                `## ${escapeMarkdown(section.title)}`,
+                ...section.blocks.map(blockToMarkdown),
+            ]),
+        ];
+
+        return Buffer.from(
+            `${lines
+                .join('\n')
+                .replace(/\n{3,}/g, '\n\n')
+                .trim()}\n`,
+            'utf8'
+        );
+    }
+}
@@ -0,0 +1,3 @@
+export * from './pdf-fonts';
+export * from './pdf-writer';
+export * from './pdf-resume.renderer';
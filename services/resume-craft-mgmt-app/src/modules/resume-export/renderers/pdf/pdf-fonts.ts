@@ -0,0 +1,91 @@
+export enum PdfFont {
+    Regular = 'F1',
+    Bold = 'F2',
+}
+
+export const PDF_FONT_BASE_NAMES: Record<PdfFont, string> = {
+    [PdfFont.Regular]: 'Helvetica',
+    [PdfFont.Bold]: 'Helvetica-Bold',
+};
+
+/**
+ * Glyph widths (1/1000 em) of the printable ASCII range, starting at the space character, taken from the
+ * Adobe core font metrics. The standard 14 fonts ship with every PDF reader, so nothing is embedded.
+ */
+// prettier-ignore
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+    [PdfFont.Regular]: [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+        556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+    ],
+    [PdfFont.Bold]: [
+        278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+        975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+        333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+        611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+    ],
+};
+
+/**
+ * Punctuation outside ASCII that resumes commonly use, keyed by code point, with its WinAnsi byte.
+ */
+const WIN_ANSI_EXTRAS: Record<number, { code: number; width: number }> = {
+    0x2022: { code: 0x95, width: 350 },
+    0x2013: { code: 0x96, width: 556 },
+    0x2014: { code: 0x97, width: 1000 },
+    0x2018: { code: 0x91, width: 222 },
+    0x2019: { code: 0x92, width: 222 },
+    0x201c: { code: 0x93, width: 333 },
+    0x201d: { code: 0x94, width: 333 },
+    0x2026: { code: 0x85, width: 1000 },
+    0x20ac: { code: 0x80, width: 556 },
+};
+
+const FALLBACK_CHARACTER = '?';
+const LATIN1_WIDTH = 556;
+
+/**
+ * Maps a character to its WinAnsi byte, characters the standard fonts cannot draw become `?`.
+ */
+export const toWinAnsiCode = (character: string): number => {
+    const codePoint = character.codePointAt(0) ?? 0;
+
+    if (codePoint >= 0x20 && codePoint <= 0x7e) {
+        return codePoint;
+    }
+    if (codePoint >= 0xa0 && codePoint <= 0xff) {
+        return codePoint;
+    }
+
+    return WIN_ANSI_EXTRAS[codePoint]?.code ?? FALLBACK_CHARACTER.charCodeAt(0);
+};
+
+/**
+ * Inverse of `toWinAnsiCode`, used to read text back out of a rendered document.
+ */
+export const fromWinAnsiCode = (code: number): string => {
+    const extra = Object.entries(WIN_ANSI_EXTRAS).find(([, value]) => value.code === code);
+    return String.fromCodePoint(extra ? Number(extra[0]) : code);
+};
+
+const glyphWidth = (character: string, font: PdfFont): number => {
+    const codePoint = character.codePointAt(0) ?? 0;
+
+    if (codePoint >= 0x20 && codePoint <= 0x7e) {
+        return ASCII_WIDTHS[font][codePoint - 0x20];
+    }
+    if (codePoint >= 0xa0 && codePoint <= 0xff) {
+        return LATIN1_WIDTH;
+    }
+
+    return WIN_ANSI_EXTRAS[codePoint]?.width ?? ASCII_WIDTHS[font][FALLBACK_CHARACTER.charCodeAt(0) - 0x20];
+};
+
+export const measureText = (text: string, font: PdfFont, fontSize: number): number =>
+    (Array.from(text).reduce((width, character) => width + glyphWidth(character, font), 0) * fontSize) / 1000;
@@ -0,0 +1,88 @@
+import { buildResume } from '../../resume-export.mock';
+import { CLASSIC_RESUME_TEMPLATE, COMPACT_RESUME_TEMPLATE } from '../../templates';
+import { fromWinAnsiCode } from './pdf-fonts';
+import { PdfResumeRenderer } from './pdf-resume.renderer';
+
+const decodePdfString = (value: string): string =>
+    value.replace(/\\([0-7]{3}|.)/g, (_, escaped: string) =>
+        escaped.length === 3 ? fromWinAnsiCode(parseInt(escaped, 8)) : escaped
+    );
+
+/**
+ * Reads back what a PDF reader would show: the number of pages and the text drawn on each of them.
+ */
+const extractPdf = (pdf: Buffer) => {
+    const source = pdf.toString('latin1');
+    const streams = [...source.matchAll(/stream\n([\s\S]*?)\nendstream/g)].map(([, content]) => content);
+
+    return {
+        pageCount: (source.match(/\/Type \/Page\b(?!s)/g) || []).length,
+        pages: streams.map((content) =>
+            [...content.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map(([, text]) => decodePdfString(text))
+        ),
+    };
+};
+
+describe('PdfResumeRenderer', () => {
+    const renderer = new PdfResumeRenderer();
+
+    it('should render visible sections in order on a single page', () => {
+        const pdf = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE);
+        const extracted = extractPdf(pdf);
+
+        expect(extracted.pageCount).toBe(1);
+        expect(extracted.pages.flat()).not.toContain('HOBBIES');
+        expect(extracted).toMatchSnapshot();
+    });
+
+    it('should apply the template to the section titles', () => {
+        const pdf = renderer.render(buildResume(), COMPACT_RESUME_TEMPLATE);
+
+        expect(extractPdf(pdf)).toMatchSnapshot();
+    });
+
+    it('should continue on new pages once a page is full', () => {
+        const experience = buildResume().sections[0];
+        const resume = buildResume({
+            sections: [
+                {
+                    ...experience,
+                    items: Array.from({ length: 12 }, (_, index) => ({
+                        company: `Company ${index + 1}`,
+                        role: 'Engineer',
+                        startDate: `20${10 + index}-01-01`,
+                        endDate: `20${11 + index}-01-01`,
+                        bulletPoints: ['Shipped features', 'Fixed bugs', 'Reviewed code', 'Wrote documentation'],
+                    })),
+                },
+            ],
+        });
+        const extracted = extractPdf(renderer.render(resume, CLASSIC_RESUME_TEMPLATE));
+
+        expect(extracted.pageCount).toBeGreaterThan(1);
+        expect(extracted.pages).toHaveLength(extracted.pageCount);
+        expect(extracted).toMatchSnapshot();
+    });
+
+    it('should produce identical bytes for the same input', () => {
+        const first = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE);
+        const second = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE);
+
+        expect(first.equals(second)).toBe(true);
+    });
+
+    it('should point the cross reference table at every object', () => {
+        const pdf = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE);
+        const source = pdf.toString('latin1');
+        const xrefOffset = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(source)?.[1]);
+        const offsets = [...source.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(([, offset]) =>
+            Number(offset)
+        );
+
+        expect(source.startsWith('%PDF-1.4')).toBe(true);
+        expect(source.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+        offsets.forEach((offset, index) => {
+            expect(source.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+        });
+    });
+});
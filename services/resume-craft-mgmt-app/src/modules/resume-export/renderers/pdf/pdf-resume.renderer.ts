@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildRenderableResume } from '../../helpers';
+import {
+    RenderableBlockType,
+    RenderableResume,
+    ResumeRenderer,
+    ResumeTemplate,
+    ResumeTemplateTextStyle,
+} from '../../resume-export.types';
+import { measureText, PdfFont } from './pdf-fonts';
+import { PdfWriter } from './pdf-writer';
+
+const BULLET = '•';
+const BULLET_INDENT = 12;
+
+/**
+ * Breaks text into lines that fit `maxWidth`. Words longer than a whole line are split by character.
+ */
+export const wrapText = (text: string, font: PdfFont, fontSize: number, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (measureText(candidate, font, fontSize) <= maxWidth) {
+            line = candidate;
+            continue;
+        }
+
+        if (line) {
+            lines.push(line);
+        }
+        line = '';
+        for (const character of Array.from(word)) {
+            if (line && measureText(`${line}${character}`, font, fontSize) > maxWidth) {
+                lines.push(line);
+                line = '';
+            }
+            line += character;
+        }
+    }
+
+    if (line) {
+        lines.push(line);
+    }
+    return lines;
+};
+
+/**
+ * Tracks the write position while laying a resume out top to bottom, starting a new page whenever the
+ * next line would run into the bottom margin.
+ */
+class PdfResumeLayout {
+    private cursorY = 0;
+
+    constructor(
+        private readonly writer: PdfWriter,
+        private readonly template: ResumeTemplate
+    ) {
+        this.newPage();
+    }
+
+    get contentWidth(): number {
+        return this.template.page.width - this.template.page.margin * 2;
+    }
+
+    newPage(): void {
+        this.writer.addPage();
+        this.cursorY = this.template.page.height - this.template.page.margin;
+    }
+
+    lineHeight(style: ResumeTemplateTextStyle): number {
+        return style.fontSize * this.template.lineHeight;
+    }
+
+    /**
+     * Starts a new page unless `height` more points fit above the bottom margin.
+     */
+    ensureSpace(height: number): void {
+        if (this.cursorY - height < this.template.page.margin) {
+            this.newPage();
+        }
+    }
+
+    space(height: number): void {
+        this.cursorY -= height;
+    }
+
+    text(text: string, style: ResumeTemplateTextStyle, indent = 0, marker?: string): void {
+        const font = style.isBold ? PdfFont.Bold : PdfFont.Regular;
+        const x = this.template.page.margin + indent;
+        const lineHeight = this.lineHeight(style);
+
+        wrapText(text, font, style.fontSize, this.contentWidth - indent).forEach((line, index) => {
+            this.ensureSpace(lineHeight);
+            this.cursorY -= lineHeight;
+            if (marker && index === 0) {
+                this.writer.drawText(marker, { x: x - BULLET_INDENT, y: this.cursorY, font, fontSize: style.fontSize });
+            }
+            this.writer.drawText(line, { x, y: this.cursorY, font, fontSize: style.fontSize });
+        });
+    }
+
+    rule(): void {
+        const { margin, width } = this.template.page;
+        this.cursorY -= 3;
+        this.writer.drawLine(margin, this.cursorY, width - margin, this.cursorY);
+    }
+}
+
+@Injectable()
+export class PdfResumeRenderer implements ResumeRenderer {
+    readonly format = ResumeExportFormat.Pdf;
+    readonly contentType = 'application/pdf';
+    readonly fileExtension = 'pdf';
+
+    render(storedResume: Resume, template: ResumeTemplate): Buffer {
+        return this.renderDocument(buildRenderableResume(storedResume), template);
+    }
+
+    renderDocument(resume: RenderableResume, template: ResumeTemplate): Buffer {
+        const writer = new PdfWriter(template.page, resume.title);
+        const layout = new PdfResumeLayout(writer, template);
+        const { styles } = template;
+
+        if (resume.ownerName) {
+            layout.text(resume.ownerName, styles.name);
+        }
+        layout.text(resume.title, styles.title);
+
+        for (const section of resume.sections) {
+            layout.space(template.sectionSpacing);
+            // Keep a section title on the same page as the first line below it.
+            layout.ensureSpace(layout.lineHeight(styles.sectionTitle) + layout.lineHeight(styles.paragraph));
+            layout.text(
+                template.isSectionTitleUppercase ? section.title.toUpperCase() : section.title,
+                styles.sectionTitle
+            );
+            if (template.hasSectionRule) {
+                layout.rule();
+            }
+
+            for (const block of section.blocks) {
+                if (block.type === RenderableBlockType.Subheading) {
+                    layout.space(styles.subheading.fontSize / 2);
+                    layout.ensureSpace(layout.lineHeight(styles.subheading) + layout.lineHeight(styles.meta));
+                }
+                layout.text(
+                    block.text,
+                    styles[block.type],
+                    block.type === RenderableBlockType.Bullet ? BULLET_INDENT : 0,
+                    block.type === RenderableBlockType.Bullet ? BULLET : undefined
+                );
+            }
+        }
+
+        return writer.build();
+    }
+}
@@ -0,0 +1,129 @@
+import { PDF_FONT_BASE_NAMES, PdfFont, toWinAnsiCode } from './pdf-fonts';
+
+export type PdfPageSize = {
+    width: number;
+    height: number;
+};
+
+export type PdfTextOptions = {
+    x: number;
+    y: number;
+    font: PdfFont;
+    fontSize: number;
+};
+
+const PDF_HEADER = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+
+const formatNumber = (value: number): string => Number(value.toFixed(2)).toString();
+
+/**
+ * Encodes text as a PDF literal string. Everything outside printable ASCII is written as an octal escape,
+ * which keeps the whole file ASCII and the stream lengths equal to the string lengths.
+ */
+export const toPdfString = (text: string): string =>
+    `(${Array.from(text)
+        .map((character) => {
+            const code = toWinAnsiCode(character);
+            if (code === 0x28 || code === 0x29 || code === 0x5c) {
+                return `\\${String.fromCharCode(code)}`;
+            }
+            return code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+        })
+        .join('')})`;
+
+/**
+ * Minimal PDF 1.4 writer covering what a resume needs: pages, text in the Helvetica family and rules.
+ * Content streams are left uncompressed and no dates are written, so the same input always produces the
+ * same bytes.
+ *
+ * Coordinates follow PDF conventions, in points with the origin at the bottom left of the page.
+ */
+export class PdfWriter {
+    private readonly pages: string[][] = [];
+    private readonly pageSize: PdfPageSize;
+    private readonly title?: string;
+
+    constructor(pageSize: PdfPageSize, title?: string) {
+        this.pageSize = pageSize;
+        this.title = title;
+    }
+
+    get pageCount(): number {
+        return this.pages.length;
+    }
+
+    addPage(): void {
+        this.pages.push([]);
+    }
+
+    drawText(text: string, { x, y, font, fontSize }: PdfTextOptions): void {
+        this._currentPage().push(
+            `BT /${font} ${formatNumber(fontSize)} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${toPdfString(text)} Tj ET`
+        );
+    }
+
+    drawLine(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5): void {
+        this._currentPage().push(
+            `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+        );
+    }
+
+    build(): Buffer {
+        if (!this.pages.length) {
+            this.addPage();
+        }
+
+        // Object numbers: 1 catalog, 2 page tree, 3 info, one per font, then a page and its content stream per page.
+        const fonts = Object.values(PdfFont);
+        const firstPageObject = 4 + fonts.length;
+        const pageObjectIds = this.pages.map((_, index) => firstPageObject + index * 2);
+        const fontResources = fonts.map((font, index) => `/${font} ${4 + index} 0 R`).join(' ');
+        const mediaBox = `[0 0 ${formatNumber(this.pageSize.width)} ${formatNumber(this.pageSize.height)}]`;
+
+        const objects: string[] = [
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+            `<< /Producer (ResumeCraft)${this.title ? ` /Title ${toPdfString(this.title)}` : ''} >>`,
+            ...fonts.map(
+                (font) =>
+                    `<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONT_BASE_NAMES[font]} /Encoding /WinAnsiEncoding >>`
+            ),
+            ...this.pages.flatMap((operations, index) => {
+                const content = operations.join('\n');
+                return [
+                    `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} /Resources << /Font << ${fontResources} >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`,
+                    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+                ];
+            }),
+        ];
+
+        let body = PDF_HEADER;
+        const offsets = objects.map((object, index) => {
+            const offset = Buffer.byteLength(body, 'latin1');
+            body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+            return offset;
+        });
+
+        const xrefOffset = Buffer.byteLength(body, 'latin1');
+        const xref = [
+            'xref',
+            `0 ${objects.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n `),
+            'trailer',
+            `<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>`,
+            'startxref',
+            `${xrefOffset}`,
+            '%%EOF',
+        ].join('\n');
+
+        return Buffer.from(`${body}${xref}\n`, 'latin1');
+    }
+
+    private _currentPage(): string[] {
+        if (!this.pages.length) {
+            this.addPage();
+        }
+        return this.pages[this.pages.length - 1];
+    }
+}
@@ -0,0 +1,48 @@
+import { HttpStatus } from '@nestjs/common';
+import { ResumeCraftException } from '@resume/resume-craft-common';
+
+import { DocxResumeRenderer } from './docx';
+import { JsonResumeRenderer } from './json-resume';
+import { MarkdownResumeRenderer } from './markdown';
+import { PdfResumeRenderer } from './pdf';
+import { ResumeRendererRegistry } from './resume-renderer.registry';
+
+describe('ResumeRendererRegistry', () => {
+    it('should look renderers up by format', () => {
+        const registry = new ResumeRendererRegistry([new PdfResumeRenderer(), new DocxResumeRenderer()]);
+
+        expect(registry.formats).toEqual(['pdf', 'docx']);
+        expect(registry.getRenderer('docx')).toBeInstanceOf(DocxResumeRenderer);
+    });
+
+    it('should reject formats without a renderer', () => {
+        const registry = new ResumeRendererRegistry([new MarkdownResumeRenderer()]);
+
+        let error: ResumeCraftException;
+        try {
+            registry.getRenderer('pdf');
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ResumeCraftException);
+        expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+        expect(error.getJson().details).toEqual({ format: 'pdf', supportedFormats: ['markdown'] });
+    });
+
+    it('should only hand out document renderers for documents other than resumes', () => {
+        const registry = new ResumeRendererRegistry([new MarkdownResumeRenderer(), new JsonResumeRenderer()]);
+
+        expect(registry.getDocumentRenderer('markdown')).toBeInstanceOf(MarkdownResumeRenderer);
+
+        let error: ResumeCraftException;
+        try {
+            registry.getDocumentRenderer('json-resume');
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+        expect(error.getJson().details).toEqual({ format: 'json-resume', supportedFormats: ['markdown'] });
+    });
+});
@@ -0,0 +1,53 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { ErrorCode, LoggerFactory, ResumeCraftException } from '@resume/resume-craft-common';
+
+import { RESUME_RENDERERS_TOKEN } from '../resume-export.constants';
+import { DocumentRenderer, ResumeRenderer } from '../resume-export.types';
+
+/**
+ * Looks renderers up by export format. Renderers are contributed through `RESUME_RENDERERS_TOKEN`, so a new
+ * format only needs its renderer added to that provider.
+ */
+@Injectable()
+export class ResumeRendererRegistry {
+    private readonly logger = LoggerFactory.getLogger(ResumeRendererRegistry.name);
+    private readonly renderers = new Map<`${ResumeExportFormat}`, ResumeRenderer>();
+
+    constructor(@Inject(RESUME_RENDERERS_TOKEN) renderers: ResumeRenderer[]) {
+        renderers.forEach((renderer) => this.renderers.set(renderer.format, renderer));
+        this.logger.debug(`${ResumeRendererRegistry.name} Initialized with ${[...this.renderers.keys()].join(', ')}`);
+    }
+
+    get formats(): `${ResumeExportFormat}`[] {
+        return [...this.renderers.keys()];
+    }
+
+    getRenderer(format: string): ResumeRenderer {
+        const renderer = this.renderers.get(format as `${ResumeExportFormat}`);
+        if (!renderer) {
+            throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                message: `Export format ${format} is not supported`,
+                details: { format, supportedFormats: this.formats },
+            });
+        }
+        return renderer;
+    }
+
+    /**
+     * Same lookup, limited to the formats that can lay out a document other than a stored resume.
+     */
+    getDocumentRenderer(format: string): DocumentRenderer {
+        const renderer = this.getRenderer(format);
+        if (!renderer.renderDocument) {
+            throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                message: `Export format ${format} is only supported for resumes`,
+                details: {
+                    format,
+                    supportedFormats: this.formats.filter((key) => this.renderers.get(key).renderDocument),
+                },
+            });
+        }
+        return renderer as DocumentRenderer;
+    }
+}
@@ -0,0 +1 @@
+export * from './text-resume.renderer';
@@ -0,0 +1,21 @@
+import { buildResume } from '../../resume-export.mock';
+import { CLASSIC_RESUME_TEMPLATE, COMPACT_RESUME_TEMPLATE } from '../../templates';
+import { TextResumeRenderer } from './text-resume.renderer';
+
+describe('TextResumeRenderer', () => {
+    const renderer = new TextResumeRenderer();
+
+    it('should write visible sections in order', () => {
+        const text = renderer.render(buildResume(), CLASSIC_RESUME_TEMPLATE).toString('utf8');
+
+        expect(text).not.toContain('HOBBIES');
+        expect(text.indexOf('SUMMARY')).toBeLessThan(text.indexOf('EXPERIENCE'));
+        expect(text).toMatchSnapshot();
+    });
+
+    it('should keep section titles as written when the template does not uppercase them', () => {
+        const text = renderer.render(buildResume(), COMPACT_RESUME_TEMPLATE).toString('utf8');
+
+        expect(text).toContain('\nExperience\n');
+    });
+});
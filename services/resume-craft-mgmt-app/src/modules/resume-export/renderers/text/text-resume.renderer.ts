@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { buildRenderableResume } from '../../helpers';
+import {
+    RenderableBlock,
+    RenderableBlockType,
+    RenderableResume,
+    ResumeRenderer,
+    ResumeTemplate,
+} from '../../resume-export.types';
+
+const blockToText = (block: RenderableBlock, index: number): string => {
+    switch (block.type) {
+        case RenderableBlockType.Subheading:
+            return index ? `\n${block.text}` : block.text;
+        case RenderableBlockType.Bullet:
+            return `- ${block.text}`;
+        default:
+            return block.text;
+    }
+};
+
+/**
+ * Plain text meant to be pasted into ATS forms, so lines are never wrapped and only ASCII markers are used.
+ */
+@Injectable()
+export class TextResumeRenderer implements ResumeRenderer {
+    readonly format = ResumeExportFormat.Text;
+    readonly contentType = 'text/plain; charset=utf-8';
+    readonly fileExtension = 'txt';
+
+    render(storedResume: Resume, template: ResumeTemplate): Buffer {
+        return this.renderDocument(buildRenderableResume(storedResume), template);
+    }
+
+    renderDocument(resume: RenderableResume, template: ResumeTemplate): Buffer {
+        const lines = [
+            ...(resume.ownerName ? [resume.ownerName] : []),
+            resume.title,
+            ...resume.sections.flatMap((section) => [
+                '',
+                template.isSectionTitleUppercase ? section.title.toUpperCase() : section.title,
+                ...section.blocks.map(blockToText),
+            ]),
+        ];
+
+        return Buffer.from(
+            `${lines
+                .join('\n')
+                .replace(/\n{3,}/g, '\n\n')
+                .trim()}\n`,
+            'utf8'
+        );
+    }
+}
@@ -0,0 +1 @@
+export const RESUME_RENDERERS_TOKEN = 'RESUME_RENDERERS';
@@ -0,0 +1,67 @@
+import { Controller, Get, HttpStatus, Inject, Injectable, Param, Query, Res, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    HEADERS,
+    LoggerFactory,
+    ResumeCraftRequest,
+    ResumeCraftResponse,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ErrorResponseOpenApiSchema,
+    ExportResumeReqOpenApiSchema,
+    ExportResumeRequestSchema,
+    ExportResumeRequestType,
+    ExportResumeRespOpenApiSchema,
+    ResumeIdParamOpenApiSchema,
+    ResumeIdParamSchema,
+    ResumeIdParamType,
+} from '@resume/resume-craft-api-contracts';
+import { ExportResumeService } from './services';
+
+@Controller('resumes')
+@Injectable({ scope: Scope.REQUEST })
+export class ResumeExportController {
+    private readonly logger = LoggerFactory.getLogger(ResumeExportController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly exportResumeService: ExportResumeService
+    ) {
+        this.logger.debug(`${ResumeExportController.name} Initialized`);
+    }
+
+    /**
+     * Streams the rendered file itself, so the response is written directly instead of going through the
+     * response envelope.
+     */
+    @ApiDocumentationDecorator({
+        apiName: 'ExportResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiQuerySchema: ExportResumeReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ExportResumeRespOpenApiSchema,
+                description: 'Rendered resume file',
+            },
+        ],
+    })
+    @Get(':resumeId/export')
+    async exportResume(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Query(new SchemaAjvValidationPipe(ExportResumeRequestSchema)) exportResumeRequest: ExportResumeRequestType,
+        @Res() response: ResumeCraftResponse
+    ) {
+        const { context } = this.request;
+        const file = await this.exportResumeService.exportResume(context, resumeId, exportResumeRequest);
+
+        response.set(HEADERS.CONTENT_TYPE, file.contentType);
+        response.set(HEADERS.CONTENT_DISPOSITION, `attachment; filename="${file.fileName}"`);
+        response.status(HttpStatus.OK).send(file.content);
+    }
+}
@@ -0,0 +1,63 @@
+import { Resume } from '@resume/resume-craft-common';
+
+/**
+ * Stored resume used by the renderer specs. Sections are out of order and one of them is hidden, which every
+ * format has to respect.
+ */
+export const buildResume = (overrides: Partial<Resume> = {}): Resume =>
+    ({
+        resumeId: '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1',
+        owner: { userId: 'b0f1c2d3-0000-4000-8000-000000000001', name: 'Ada Lovelace' },
+        title: 'Senior Backend Engineer',
+        slug: 'senior-backend-engineer-6f1f4bb4',
+        sections: [
+            {
+                sectionId: 's-2',
+                type: 'experience',
+                title: 'Experience',
+                order: 2,
+                isHidden: false,
+                items: [
+                    {
+                        company: 'Acme (EU)',
+                        role: 'Staff Engineer',
+                        location: 'Zürich',
+                        startDate: '2021-03-01',
+                        isCurrent: true,
+                        bulletPoints: [
+                            'Led the migration of the billing platform to an event driven architecture, cutting invoice latency from hours to seconds',
+                            'Mentored six engineers – two were promoted',
+                        ],
+                    },
+                ],
+            },
+            {
+                sectionId: 's-1',
+                type: 'summary',
+                title: 'Summary',
+                order: 1,
+                isHidden: false,
+                content: 'Backend engineer with a decade of experience building payment systems.',
+            },
+            {
+                sectionId: 's-3',
+                type: 'skills',
+                title: 'Skills',
+                order: 3,
+                isHidden: false,
+                items: [
+                    { name: 'TypeScript', proficiency: 'expert' },
+                    { name: 'MongoDB', proficiency: 'advanced' },
+                ],
+            },
+            {
+                sectionId: 's-4',
+                type: 'custom',
+                title: 'Hobbies',
+                order: 4,
+                isHidden: true,
+                items: [{ title: 'Chess' }],
+            },
+        ],
+        ...overrides,
+    }) as Resume;
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+
+import { ResumeExportController } from './resume-export.controller';
+import { RESUME_RENDERERS_TOKEN } from './resume-export.constants';
+import {
+    DocxResumeRenderer,
+    JsonResumeRenderer,
+    MarkdownResumeRenderer,
+    PdfResumeRenderer,
+    ResumeRendererRegistry,
+    TextResumeRenderer,
+} from './renderers';
+import { ResumeRenderer } from './resume-export.types';
+import { ExportResumeService } from './services';
+import { DataFromContext, ODMModule } from '@resume/resume-craft-common';
+
+const RESUME_RENDERERS = [
+    PdfResumeRenderer,
+    DocxResumeRenderer,
+    MarkdownResumeRenderer,
+    TextResumeRenderer,
+    JsonResumeRenderer,
+];
+
+@Module({
+    imports: [ODMModule],
+    controllers: [ResumeExportController],
+    providers: [
+        ...RESUME_RENDERERS,
+        {
+            provide: RESUME_RENDERERS_TOKEN,
+            useFactory: (...renderers: ResumeRenderer[]) => renderers,
+            inject: RESUME_RENDERERS,
+        },
+        ResumeRendererRegistry,
+        ExportResumeService,
+        DataFromContext,
+    ],
+    exports: [ResumeRendererRegistry],
+})
+export class ResumeExportModule {}
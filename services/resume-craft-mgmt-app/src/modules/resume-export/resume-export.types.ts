@@ -0,0 +1,78 @@
+import { ResumeExportFormat } from '@resume/resume-craft-api-contracts';
+import { Resume, ResumeSection } from '@resume/resume-craft-common';
+
+export enum RenderableBlockType {
+    Subheading = 'subheading',
+    Meta = 'meta',
+    Paragraph = 'paragraph',
+    Bullet = 'bullet',
+}
+
+export type RenderableBlock = {
+    type: `${RenderableBlockType}`;
+    text: string;
+};
+
+export type RenderableSection = {
+    sectionId: string;
+    type: ResumeSection['type'];
+    title: string;
+    blocks: RenderableBlock[];
+};
+
+export type RenderableResume = {
+    title: string;
+    ownerName: string | null;
+    sections: RenderableSection[];
+};
+
+export type ResumeTemplateTextStyle = {
+    fontSize: number;
+    isBold: boolean;
+};
+
+/**
+ * Layout of a rendered resume, in PDF points. Templates only describe the look of a resume, never its content.
+ */
+export type ResumeTemplate = {
+    templateId: string;
+    name: string;
+    page: {
+        width: number;
+        height: number;
+        margin: number;
+    };
+    lineHeight: number;
+    sectionSpacing: number;
+    isSectionTitleUppercase: boolean;
+    hasSectionRule: boolean;
+    hasTables?: boolean;
+    hasGraphics?: boolean;
+    styles: Record<'name' | 'title' | 'sectionTitle' | `${RenderableBlockType}`, ResumeTemplateTextStyle>;
+};
+
+export type ResumeExportFile = {
+    fileName: string;
+    contentType: string;
+    content: Buffer;
+};
+
+/**
+ * Renderers get the stored resume. Document formats lay out its `RenderableResume`, data formats such as
+ * JSON Resume map its fields directly.
+ */
+export interface ResumeRenderer {
+    readonly format: `${ResumeExportFormat}`;
+    readonly contentType: string;
+    readonly fileExtension: string;
+
+    render(resume: Resume, template: ResumeTemplate): Buffer;
+
+    /**
+     * Lays out any document built in the `RenderableResume` shape, such as a cover letter. Only document
+     * formats implement it.
+     */
+    renderDocument?(document: RenderableResume, template: ResumeTemplate): Buffer;
+}
+
+export type DocumentRenderer = ResumeRenderer & Required<Pick<ResumeRenderer, 'renderDocument'>>;
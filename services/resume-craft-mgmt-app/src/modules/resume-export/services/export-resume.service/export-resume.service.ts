@@ -0,0 +1,67 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { ExportResumeRequestType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    TemplateDbService,
+} from '@resume/resume-craft-common';
+import { resolveResumeTemplate } from '../../helpers';
+import { ResumeRendererRegistry } from '../../renderers';
+import { ResumeExportFile } from '../../resume-export.types';
+import { RESUME_TEMPLATES } from '../../templates';
+
+@Injectable()
+export class ExportResumeService {
+    private readonly logger = LoggerFactory.getLogger(ExportResumeService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly resumeRendererRegistry: ResumeRendererRegistry,
+        private readonly templateDbService: TemplateDbService
+    ) {
+        this.logger.debug(`${ExportResumeService.name} Initialized`);
+    }
+
+    async exportResume(
+        context: RequestContext,
+        resumeId: string,
+        { format, templateId }: ExportResumeRequestType
+    ): Promise<ResumeExportFile> {
+        try {
+            const renderer = this.resumeRendererRegistry.getRenderer(format);
+            if (templateId && !RESUME_TEMPLATES.has(templateId)) {
+                throw new NotFoundException('Template does not exist.');
+            }
+
+            const resume = await this.resumeDbService.findOne(context, {
+                condition: {
+                    resumeId,
+                    userId: context.userId,
+                },
+            });
+
+            if (!resume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const template = await resolveResumeTemplate(this.templateDbService, context, resume, templateId);
+            return {
+                fileName: `${resume.slug}.${renderer.fileExtension}`,
+                contentType: renderer.contentType,
+                content: renderer.render(resume, template),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while exporting the resume ${error.message}`,
+                resumeId,
+                format,
+                templateId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import { RESUME_DEFAULT_TEMPLATE_ID } from '@resume/resume-craft-api-contracts';
+
+import { ResumeTemplate } from '../resume-export.types';
+
+const A4_PAGE = { width: 595.28, height: 841.89 };
+
+export const CLASSIC_RESUME_TEMPLATE: ResumeTemplate = {
+    templateId: RESUME_DEFAULT_TEMPLATE_ID,
+    name: 'Classic',
+    page: { ...A4_PAGE, margin: 56 },
+    lineHeight: 1.35,
+    sectionSpacing: 14,
+    isSectionTitleUppercase: true,
+    hasSectionRule: true,
+    styles: {
+        name: { fontSize: 22, isBold: true },
+        title: { fontSize: 12, isBold: false },
+        sectionTitle: { fontSize: 12, isBold: true },
+        subheading: { fontSize: 10.5, isBold: true },
+        meta: { fontSize: 9, isBold: false },
+        paragraph: { fontSize: 10, isBold: false },
+        bullet: { fontSize: 10, isBold: false },
+    },
+};
+
+export const COMPACT_RESUME_TEMPLATE: ResumeTemplate = {
+    templateId: 'compact',
+    name: 'Compact',
+    page: { ...A4_PAGE, margin: 36 },
+    lineHeight: 1.2,
+    sectionSpacing: 8,
+    isSectionTitleUppercase: false,
+    hasSectionRule: false,
+    styles: {
+        name: { fontSize: 16, isBold: true },
+        title: { fontSize: 10, isBold: false },
+        sectionTitle: { fontSize: 10.5, isBold: true },
+        subheading: { fontSize: 9, isBold: true },
+        meta: { fontSize: 8, isBold: false },
+        paragraph: { fontSize: 9, isBold: false },
+        bullet: { fontSize: 9, isBold: false },
+    },
+};
+
+export const RESUME_TEMPLATES: ReadonlyMap<string, ResumeTemplate> = new Map(
+    [CLASSIC_RESUME_TEMPLATE, COMPACT_RESUME_TEMPLATE].map((template) => [template.templateId, template])
+);
@@ -0,0 +1,2 @@
+export * from './keyword-extraction.helper';
+export * from './resume-match.helper';
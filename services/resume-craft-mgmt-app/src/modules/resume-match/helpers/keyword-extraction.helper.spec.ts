@@ -0,0 +1,72 @@
+import { ResumeMatchKeywordKind } from '@resume/resume-craft-api-contracts';
+
+import { collectTerms, extractJobKeywords, tokenize } from './keyword-extraction.helper';
+
+describe('tokenize', () => {
+    it('keeps symbols that belong to skill names and drops trailing punctuation', () => {
+        expect(tokenize('Experience with C++, C# and Node.js. Familiar with CI/CD.')).toEqual([
+            'experience',
+            'with',
+            'c++',
+            'c#',
+            'and',
+            'node.js',
+            'familiar',
+            'with',
+            'ci/cd',
+        ]);
+    });
+
+    it('splits slashed words, resolves aliases and singularises plain words', () => {
+        expect(tokenize('Java/Kotlin services on K8s, Postgres databases and endpoints')).toEqual([
+            'java',
+            'kotlin',
+            'service',
+            'on',
+            'kubernetes',
+            'postgresql',
+            'database',
+            'and',
+            'endpoint',
+        ]);
+    });
+});
+
+describe('collectTerms', () => {
+    it('includes multi word phrases', () => {
+        const terms = collectTerms('Applied machine learning to search');
+
+        expect(terms.has('machine learning')).toBe(true);
+        expect(terms.has('search')).toBe(true);
+    });
+});
+
+describe('extractJobKeywords', () => {
+    const jobText = `
+        We are looking for a backend engineer to build payment APIs.
+        You will design payment services in TypeScript and Node.js, backed by PostgreSQL and Redis.
+        Machine learning experience is a plus. Payments experience required.
+    `;
+
+    it('lists skills first, then the most frequent remaining words', () => {
+        const keywords = extractJobKeywords(jobText);
+        const skills = keywords.filter(({ kind }) => kind === ResumeMatchKeywordKind.Skill);
+        const plainKeywords = keywords.filter(({ kind }) => kind === ResumeMatchKeywordKind.Keyword);
+
+        expect(skills.map(({ keyword }) => keyword)).toEqual([
+            'machine learning',
+            'node.js',
+            'postgresql',
+            'redis',
+            'typescript',
+        ]);
+        expect(plainKeywords.slice(0, 2).map(({ keyword }) => keyword)).toEqual(['payment', 'experience']);
+        expect(plainKeywords.map(({ keyword }) => keyword)).not.toEqual(
+            expect.arrayContaining(['machine', 'learning', 'the', 'looking'])
+        );
+    });
+
+    it('is deterministic', () => {
+        expect(extractJobKeywords(jobText)).toEqual(extractJobKeywords(jobText));
+    });
+});
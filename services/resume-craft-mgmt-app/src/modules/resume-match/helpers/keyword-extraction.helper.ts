@@ -0,0 +1,107 @@
+import { ResumeMatchKeywordKind } from '@resume/resume-craft-api-contracts';
+
+import {
+    KEYWORD_ALIASES,
+    MAX_JOB_KEYWORDS,
+    MAX_SKILL_WORDS,
+    MIN_KEYWORD_LENGTH,
+    SKILL_LEXICON,
+    STOP_WORDS,
+} from '../resume-match.constants';
+
+export type MatchKeyword = {
+    keyword: string;
+    kind: `${ResumeMatchKeywordKind}`;
+};
+
+// `+`, `#`, `.` and `/` stay inside a token so that `c++`, `c#`, `node.js` and `ci/cd` survive.
+const TOKEN_PATTERN = /[a-z0-9][a-z0-9+#./-]*/g;
+const TRAILING_PUNCTUATION = /[./-]+$/;
+
+const singularise = (token: string): string => {
+    if (token.length > 4 && token.endsWith('ies')) {
+        return `${token.slice(0, -3)}y`;
+    }
+    if (token.length > 3 && token.endsWith('s') && !/(ss|us|is)$/.test(token)) {
+        return token.slice(0, -1);
+    }
+    return token;
+};
+
+const normaliseToken = (token: string): string => {
+    const alias = KEYWORD_ALIASES[token];
+    if (alias) {
+        return alias;
+    }
+    return SKILL_LEXICON.has(token) ? token : singularise(token);
+};
+
+/**
+ * Lower-cases `text` and splits it into normalised tokens. Slashed words are split up unless the whole
+ * token is a known skill, so `java/kotlin` becomes two tokens while `ci/cd` stays one.
+ */
+export const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(TOKEN_PATTERN) || [])
+        .map((token) => token.replace(TRAILING_PUNCTUATION, ''))
+        .flatMap((token) =>
+            token.includes('/') && !SKILL_LEXICON.has(normaliseToken(token)) ? token.split('/') : [token]
+        )
+        .filter(Boolean)
+        .map(normaliseToken);
+
+/**
+ * Every token of `text` plus every phrase of up to `MAX_SKILL_WORDS` tokens, so multi word skills such as
+ * `machine learning` can be looked up directly.
+ */
+export const collectTerms = (text: string): Set<string> => {
+    const tokens = tokenize(text);
+    const terms = new Set<string>();
+
+    tokens.forEach((_, start) => {
+        for (let length = 1; length <= MAX_SKILL_WORDS && start + length <= tokens.length; length++) {
+            terms.add(tokens.slice(start, start + length).join(' '));
+        }
+    });
+
+    return terms;
+};
+
+const countPhrases = (tokens: string[], isWanted: (phrase: string) => boolean): Map<string, number> => {
+    const counts = new Map<string, number>();
+
+    tokens.forEach((_, start) => {
+        for (let length = 1; length <= MAX_SKILL_WORDS && start + length <= tokens.length; length++) {
+            const phrase = tokens.slice(start, start + length).join(' ');
+            if (isWanted(phrase)) {
+                counts.set(phrase, (counts.get(phrase) || 0) + 1);
+            }
+        }
+    });
+
+    return counts;
+};
+
+// Most frequent first, ties broken alphabetically so the same text always gives the same keywords.
+const rankByFrequency = (counts: Map<string, number>): string[] =>
+    [...counts.entries()].sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b)).map(([k]) => k);
+
+const isPlainKeyword = (token: string): boolean =>
+    token.length >= MIN_KEYWORD_LENGTH && !STOP_WORDS.has(token) && !/^[\d.+#/-]+$/.test(token);
+
+/**
+ * Extracts the keywords a resume is matched against: every known skill in the job text, followed by the
+ * most frequent remaining words. Words that only appear as part of a skill are not repeated as keywords.
+ */
+export const extractJobKeywords = (text: string): MatchKeyword[] => {
+    const tokens = tokenize(text);
+    const skills = rankByFrequency(countPhrases(tokens, (phrase) => SKILL_LEXICON.has(phrase)));
+    const skillWords = new Set(skills.flatMap((skill) => skill.split(' ')));
+    const keywords = rankByFrequency(
+        countPhrases(tokens, (phrase) => !phrase.includes(' ') && isPlainKeyword(phrase) && !skillWords.has(phrase))
+    ).slice(0, MAX_JOB_KEYWORDS);
+
+    return [
+        ...skills.map((keyword) => ({ keyword, kind: ResumeMatchKeywordKind.Skill })),
+        ...keywords.map((keyword) => ({ keyword, kind: ResumeMatchKeywordKind.Keyword })),
+    ];
+};
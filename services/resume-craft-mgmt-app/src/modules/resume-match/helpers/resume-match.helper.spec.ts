@@ -0,0 +1,94 @@
+import { ResumeMatchKeywordKind } from '@resume/resume-craft-api-contracts';
+import { JobDescription, Resume } from '@resume/resume-craft-common';
+
+import { matchResumeToJob } from './resume-match.helper';
+
+const jobDescription: JobDescription = {
+    jobDescriptionId: 'job-1',
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    title: 'Backend Engineer',
+    rawText: 'Build payment services with TypeScript, PostgreSQL and Kafka.',
+    createdAt: 1700000000000,
+    createdBy: 'user-1',
+    modifiedAt: 1700000000000,
+    modifiedBy: 'user-1',
+};
+
+const resume = {
+    resumeId: 'resume-1',
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    title: 'Backend Engineer',
+    slug: 'backend-engineer',
+    version: 1,
+    sections: [
+        {
+            sectionId: 'summary-1',
+            type: 'summary',
+            title: 'Summary',
+            order: 0,
+            isHidden: false,
+            content: 'Engineer building payment services.',
+        },
+        {
+            sectionId: 'skills-1',
+            type: 'skills',
+            title: 'Skills',
+            order: 1,
+            isHidden: false,
+            content: null,
+            items: [
+                { name: 'TypeScript', proficiency: 'expert' },
+                { name: 'Postgres', proficiency: 'advanced' },
+            ],
+        },
+        {
+            sectionId: 'projects-1',
+            type: 'projects',
+            title: 'Projects',
+            order: 2,
+            isHidden: true,
+            content: null,
+            items: [{ name: 'Kafka pipeline' }],
+        },
+    ],
+    createdAt: 1700000000000,
+    createdBy: 'user-1',
+    modifiedAt: 1700000000000,
+    modifiedBy: 'user-1',
+} as Resume;
+
+describe('matchResumeToJob', () => {
+    it('scores weighted keyword coverage and reports what is missing', () => {
+        const match = matchResumeToJob(resume, jobDescription);
+
+        expect(match.resumeId).toBe('resume-1');
+        expect(match.jobDescriptionId).toBe('job-1');
+        // Words are not stemmed, so `building` in the summary does not cover `build`.
+        expect(match.missingKeywords).toEqual([
+            { keyword: 'kafka', kind: ResumeMatchKeywordKind.Skill },
+            { keyword: 'build', kind: ResumeMatchKeywordKind.Keyword },
+        ]);
+        expect(match.matchedKeywords.map(({ keyword }) => keyword)).toEqual(
+            expect.arrayContaining(['typescript', 'postgresql', 'payment', 'service', 'backend', 'engineer'])
+        );
+        // Skills weigh 2 and keywords 1, the job has 3 skills and 5 plain keywords.
+        expect(match.matchedKeywords).toHaveLength(6);
+        expect(match.score).toBe(Math.round(((11 - 3) / 11) * 100));
+    });
+
+    it('reports coverage per visible section', () => {
+        const match = matchResumeToJob(resume, jobDescription);
+
+        expect(match.sections.map(({ sectionId }) => sectionId)).toEqual(['summary-1', 'skills-1']);
+        expect(match.sections[1].matchedKeywords).toEqual(['postgresql', 'typescript']);
+        const keywordCount = match.matchedKeywords.length + match.missingKeywords.length;
+        expect(match.sections[1].coverage).toBe(Math.round((2 / keywordCount) * 100));
+    });
+
+    it('scores zero when the job text has no keywords', () => {
+        const match = matchResumeToJob(resume, { ...jobDescription, title: 'The', rawText: 'and or the of it' });
+
+        expect(match.score).toBe(0);
+        expect(match.sections.every(({ coverage }) => coverage === 0)).toBe(true);
+    });
+});
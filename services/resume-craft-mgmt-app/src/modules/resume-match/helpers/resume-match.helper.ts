@@ -0,0 +1,51 @@
+import { ResumeMatchKeywordKind, ResumeMatchType } from '@resume/resume-craft-api-contracts';
+import { JobDescription, Resume } from '@resume/resume-craft-common';
+
+import { buildRenderableResume } from '../../resume-export/helpers';
+import { KEYWORD_WEIGHT, SKILL_WEIGHT } from '../resume-match.constants';
+import { collectTerms, extractJobKeywords, MatchKeyword } from './keyword-extraction.helper';
+
+const keywordWeight = ({ kind }: MatchKeyword): number =>
+    kind === ResumeMatchKeywordKind.Skill ? SKILL_WEIGHT : KEYWORD_WEIGHT;
+
+const toPercentage = (part: number, total: number): number => (total ? Math.round((part / total) * 100) : 0);
+
+/**
+ * Scores a resume against a job description without leaving the process. The job text is reduced to its
+ * keywords, the content of each visible resume section is checked for them, and the score is the weighted share of the
+ * keywords found anywhere in the resume. The same inputs always give the same result.
+ */
+export const matchResumeToJob = (resume: Resume, jobDescription: JobDescription): ResumeMatchType => {
+    const keywords = extractJobKeywords([jobDescription.title, jobDescription.rawText].filter(Boolean).join('\n'));
+    const { title, sections } = buildRenderableResume(resume);
+
+    const sectionMatches = sections.map((section) => {
+        const terms = collectTerms(section.blocks.map((block) => block.text).join('\n'));
+        const matchedKeywords = keywords.filter(({ keyword }) => terms.has(keyword)).map(({ keyword }) => keyword);
+
+        return {
+            sectionId: section.sectionId,
+            type: section.type,
+            title: section.title,
+            coverage: toPercentage(matchedKeywords.length, keywords.length),
+            matchedKeywords,
+        };
+    });
+
+    const titleTerms = collectTerms(title);
+    const found = new Set(sectionMatches.flatMap((section) => section.matchedKeywords));
+    const matchedKeywords = keywords.filter(({ keyword }) => found.has(keyword) || titleTerms.has(keyword));
+    const missingKeywords = keywords.filter((keyword) => !matchedKeywords.includes(keyword));
+
+    const totalWeight = keywords.reduce((sum, keyword) => sum + keywordWeight(keyword), 0);
+    const matchedWeight = matchedKeywords.reduce((sum, keyword) => sum + keywordWeight(keyword), 0);
+
+    return {
+        resumeId: resume.resumeId,
+        jobDescriptionId: jobDescription.jobDescriptionId,
+        score: toPercentage(matchedWeight, totalWeight),
+        matchedKeywords,
+        missingKeywords,
+        sections: sectionMatches,
+    };
+};
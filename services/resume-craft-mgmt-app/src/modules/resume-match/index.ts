@@ -0,0 +1 @@
+export * from './resume-match.module';
@@ -0,0 +1,233 @@
+/**
+ * Upper bound on the plain keywords taken from a job description. Skills are not capped, the lexicon
+ * already bounds them.
+ */
+export const MAX_JOB_KEYWORDS = 25;
+export const MIN_KEYWORD_LENGTH = 3;
+export const MAX_SKILL_WORDS = 3;
+
+export const SKILL_WEIGHT = 2;
+export const KEYWORD_WEIGHT = 1;
+
+/**
+ * Common spellings mapped to the form used in `SKILL_LEXICON`.
+ */
+export const KEYWORD_ALIASES: Record<string, string> = {
+    js: 'javascript',
+    ts: 'typescript',
+    nodejs: 'node.js',
+    node: 'node.js',
+    reactjs: 'react',
+    'react.js': 'react',
+    vuejs: 'vue',
+    'vue.js': 'vue',
+    'next.js': 'nextjs',
+    nestjs: 'nest.js',
+    postgres: 'postgresql',
+    mongo: 'mongodb',
+    k8s: 'kubernetes',
+    golang: 'go',
+    py: 'python',
+    'c-sharp': 'c#',
+    csharp: 'c#',
+    cpp: 'c++',
+    gcp: 'google cloud',
+    ml: 'machine learning',
+    ai: 'artificial intelligence',
+    nlp: 'natural language processing',
+    'ci-cd': 'ci/cd',
+    cicd: 'ci/cd',
+    tf: 'terraform',
+};
+
+export const SKILL_LEXICON: ReadonlySet<string> = new Set([
+    'agile',
+    'airflow',
+    'android',
+    'angular',
+    'ansible',
+    'artificial intelligence',
+    'aws',
+    'azure',
+    'bash',
+    'c',
+    'c#',
+    'c++',
+    'cassandra',
+    'ci/cd',
+    'css',
+    'data analysis',
+    'deep learning',
+    'django',
+    'docker',
+    'dynamodb',
+    'elasticsearch',
+    'excel',
+    'express',
+    'figma',
+    'flask',
+    'git',
+    'go',
+    'google cloud',
+    'graphql',
+    'hadoop',
+    'html',
+    'ios',
+    'java',
+    'javascript',
+    'jenkins',
+    'jira',
+    'kafka',
+    'kotlin',
+    'kubernetes',
+    'linux',
+    'machine learning',
+    'microservices',
+    'mongodb',
+    'mysql',
+    'natural language processing',
+    'nest.js',
+    'nextjs',
+    'node.js',
+    'pandas',
+    'php',
+    'postgresql',
+    'power bi',
+    'project management',
+    'python',
+    'pytorch',
+    'rabbitmq',
+    'react',
+    'react native',
+    'redis',
+    'ruby',
+    'ruby on rails',
+    'rust',
+    'sass',
+    'scala',
+    'scrum',
+    'spark',
+    'spring boot',
+    'sql',
+    'swift',
+    'tableau',
+    'tensorflow',
+    'terraform',
+    'typescript',
+    'unit testing',
+    'vue',
+]);
+
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+    'a',
+    'about',
+    'above',
+    'across',
+    'after',
+    'all',
+    'also',
+    'an',
+    'and',
+    'any',
+    'are',
+    'as',
+    'at',
+    'be',
+    'because',
+    'been',
+    'being',
+    'both',
+    'but',
+    'by',
+    'can',
+    'could',
+    'day',
+    'do',
+    'does',
+    'each',
+    'etc',
+    'every',
+    'for',
+    'from',
+    'good',
+    'great',
+    'has',
+    'have',
+    'having',
+    'help',
+    'how',
+    'ideal',
+    'if',
+    'in',
+    'including',
+    'into',
+    'is',
+    'it',
+    'its',
+    'join',
+    'just',
+    'looking',
+    'make',
+    'may',
+    'more',
+    'most',
+    'must',
+    'new',
+    'nice',
+    'not',
+    'of',
+    'on',
+    'one',
+    'or',
+    'other',
+    'our',
+    'out',
+    'over',
+    'plus',
+    'preferred',
+    'required',
+    'role',
+    'should',
+    'so',
+    'some',
+    'strong',
+    'such',
+    'team',
+    'than',
+    'that',
+    'the',
+    'their',
+    'them',
+    'then',
+    'there',
+    'these',
+    'they',
+    'this',
+    'those',
+    'through',
+    'to',
+    'under',
+    'up',
+    'using',
+    'very',
+    'want',
+    'was',
+    'way',
+    'we',
+    'well',
+    'were',
+    'what',
+    'when',
+    'where',
+    'which',
+    'while',
+    'who',
+    'will',
+    'with',
+    'within',
+    'work',
+    'would',
+    'year',
+    'you',
+    'your',
+]);
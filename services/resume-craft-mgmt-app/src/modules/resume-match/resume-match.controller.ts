@@ -0,0 +1,58 @@
+import { Controller, HttpCode, HttpStatus, Inject, Injectable, Param, Post, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    LoggerFactory,
+    ResumeCraftRequest,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    ErrorResponseOpenApiSchema,
+    MatchResumeParamOpenApiSchema,
+    MatchResumeParamSchema,
+    MatchResumeParamType,
+    MatchResumeRespOpenApiSchema,
+} from '@resume/resume-craft-api-contracts';
+import { MatchResumeService } from './services';
+
+@Controller('resumes')
+@Injectable({ scope: Scope.REQUEST })
+export class ResumeMatchController {
+    private readonly logger = LoggerFactory.getLogger(ResumeMatchController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly matchResumeService: MatchResumeService
+    ) {
+        this.logger.debug(`${ResumeMatchController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'MatchResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: MatchResumeParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: MatchResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post(':resumeId/match/:jobId')
+    @HttpCode(HttpStatus.OK)
+    async matchResume(
+        @Param(new SchemaAjvValidationPipe(MatchResumeParamSchema)) { resumeId, jobId }: MatchResumeParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.matchResumeService.matchResume(context, resumeId, jobId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume matched successfully.',
+        };
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { ResumeMatchController } from './resume-match.controller';
+import { MatchResumeService } from './services';
+import { ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule],
+    controllers: [ResumeMatchController],
+    providers: [MatchResumeService],
+})
+export class ResumeMatchModule {}
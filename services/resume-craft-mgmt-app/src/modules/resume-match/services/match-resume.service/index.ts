@@ -0,0 +1 @@
+export * from './match-resume.service';
@@ -0,0 +1,59 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { MatchResumeResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    JobDescriptionDbService,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+} from '@resume/resume-craft-common';
+import { matchResumeToJob } from '../../helpers';
+
+@Injectable()
+export class MatchResumeService {
+    private readonly logger = LoggerFactory.getLogger(MatchResumeService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly jobDescriptionDbService: JobDescriptionDbService
+    ) {
+        this.logger.debug(`${MatchResumeService.name} Initialized`);
+    }
+
+    async matchResume(
+        context: RequestContext,
+        resumeId: string,
+        jobDescriptionId: string
+    ): Promise<Pick<MatchResumeResponseType, 'result'>> {
+        try {
+            const [resume, jobDescription] = await Promise.all([
+                this.resumeDbService.findOne(context, {
+                    condition: { resumeId, userId: context.userId },
+                }),
+                this.jobDescriptionDbService.findOne(context, {
+                    condition: { jobDescriptionId, userId: context.userId },
+                }),
+            ]);
+
+            if (!resume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+            if (!jobDescription) {
+                throw new NotFoundException('Job description does not exist.');
+            }
+
+            return {
+                result: matchResumeToJob(resume, jobDescription),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while matching the resume to the job description ${error.message}`,
+                resumeId,
+                jobDescriptionId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,4 @@
+export * from './resume.helper';
+export * from './json-resume.helper';
+export * from './resume-diff.helper';
+export * from './resume-fork.helper';
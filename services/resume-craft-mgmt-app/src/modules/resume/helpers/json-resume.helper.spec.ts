@@ -0,0 +1,165 @@
+import {
+    ajvSchemaValidator,
+    CreateResumeRequestSchema,
+    JSON_RESUME_SCHEMA_URL,
+    JsonResumeSchema,
+    JsonResumeType,
+} from '@resume/resume-craft-api-contracts';
+import { Resume } from '@resume/resume-craft-common';
+
+import { fromJsonResume, JSON_RESUME_DEFAULT_TITLE, toJsonResume } from './json-resume.helper';
+import { buildResumeSections } from './resume.helper';
+
+const JSON_RESUME: JsonResumeType = {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+        name: 'Ada Lovelace',
+        label: 'Senior Backend Engineer',
+        summary: 'Backend engineer with a decade of experience building payment systems.',
+    },
+    work: [
+        {
+            name: 'Acme',
+            position: 'Staff Engineer',
+            location: 'Zürich',
+            startDate: '2021-03-01',
+            highlights: ['Led the billing platform migration', 'Mentored six engineers'],
+        },
+        {
+            name: 'Initech',
+            position: 'Engineer',
+            startDate: '2016-01-01',
+            endDate: '2021-02-28',
+        },
+    ],
+    education: [
+        {
+            institution: 'University of London',
+            studyType: 'BSc',
+            area: 'Mathematics',
+            startDate: '2010-09-01',
+            endDate: '2013-06-30',
+            score: 'First',
+        },
+    ],
+    certificates: [
+        {
+            name: 'AWS Solutions Architect',
+            issuer: 'Amazon',
+            date: '2022-05-10',
+            url: 'https://aws.amazon.com/certification',
+        },
+    ],
+    skills: [
+        { name: 'TypeScript', level: 'Expert' },
+        { name: 'Go', level: 'Intermediate' },
+    ],
+    languages: [
+        { language: 'English', fluency: 'Native' },
+        { language: 'French', fluency: 'Professional working' },
+    ],
+    projects: [
+        {
+            name: 'Analytical Engine',
+            roles: ['Maintainer'],
+            url: 'https://example.com/engine',
+            startDate: '2019-01-01',
+            endDate: '2020-01-01',
+            description: 'Open source ledger',
+            highlights: ['500 stars'],
+        },
+    ],
+};
+
+/**
+ * Stores a create request the way the create service does, so it can be exported again.
+ */
+const storeResume = (createRequest: ReturnType<typeof fromJsonResume>['createRequest']): Resume => ({
+    resumeId: '6f1f4bb4-6d6e-4a8c-9d43-25a0cf3bd0a1',
+    owner: { userId: 'b0f1c2d3-0000-4000-8000-000000000001', name: 'Ada Lovelace' },
+    title: createRequest.title,
+    slug: 'senior-backend-engineer-6f1f4bb4',
+    sections: buildResumeSections(createRequest.sections),
+});
+
+describe('JSON Resume helpers', () => {
+    beforeAll(() => {
+        process.env.TEST = 'true';
+    });
+
+    afterAll(() => {
+        delete process.env.TEST;
+    });
+
+    it('should preserve a JSON Resume through import then export', () => {
+        const { createRequest, unmappedFields } = fromJsonResume(JSON_RESUME);
+
+        expect(ajvSchemaValidator(CreateResumeRequestSchema, createRequest).errors).toBeNull();
+        expect(unmappedFields).toEqual([{ path: '$.basics.name', reason: 'No matching field in the resume' }]);
+        expect(toJsonResume(storeResume(createRequest))).toEqual(JSON_RESUME);
+    });
+
+    it('should export a document that passes the JSON Resume schema', () => {
+        const jsonResume = toJsonResume(storeResume(fromJsonResume(JSON_RESUME).createRequest));
+
+        expect(ajvSchemaValidator(JsonResumeSchema, jsonResume).errors).toBeNull();
+    });
+
+    it('should report the fields it cannot map instead of dropping them', () => {
+        const { createRequest, unmappedFields } = fromJsonResume({
+            basics: {
+                email: 'ada@example.com',
+                profiles: [{ network: 'GitHub', username: 'ada' }],
+            },
+            work: [
+                { name: 'Acme', position: 'Engineer', startDate: '2020-01-01', summary: 'Payments' },
+                { name: 'Initech', startDate: '2018-01-01' },
+            ],
+            skills: [{ name: 'Rust', level: 'Wizard', keywords: ['async'] }],
+            volunteer: [{ organization: 'Code Club' }],
+        } as JsonResumeType);
+
+        expect(createRequest.title).toBe(JSON_RESUME_DEFAULT_TITLE);
+        expect(createRequest.sections.map(({ type, items }) => [type, items.length])).toEqual([
+            ['experience', 1],
+            ['skills', 1],
+        ]);
+        expect(unmappedFields).toEqual([
+            { path: '$.volunteer', reason: 'No matching field in the resume' },
+            { path: '$.basics.email', reason: 'No matching field in the resume' },
+            { path: '$.basics.profiles', reason: 'No matching field in the resume' },
+            { path: '$.work[0].summary', reason: 'No matching field in the resume' },
+            { path: '$.work[1]', reason: 'Missing position, the entry was not imported' },
+            { path: '$.skills[0].keywords', reason: 'No matching field in the resume' },
+            { path: '$.skills[0].level', reason: 'Level "Wizard" is not recognised, imported as intermediate' },
+        ]);
+    });
+
+    it('should complete partial dates', () => {
+        const { createRequest } = fromJsonResume({
+            work: [{ name: 'Acme', position: 'Engineer', startDate: '2020', endDate: '2021-06' }],
+        });
+
+        expect(createRequest.sections[0].items[0]).toEqual(
+            expect.objectContaining({ startDate: '2020-01-01', endDate: '2021-06-01', isCurrent: false })
+        );
+    });
+
+    it('should leave hidden and custom sections out of the export', () => {
+        const resume = storeResume(fromJsonResume(JSON_RESUME).createRequest);
+        resume.sections.find((section) => section.type === 'skills').isHidden = true;
+        resume.sections.push({
+            sectionId: 'custom',
+            type: 'custom',
+            title: 'Hobbies',
+            order: 99,
+            isHidden: false,
+            items: [{ title: 'Chess' }],
+        });
+
+        const jsonResume = toJsonResume(resume);
+
+        expect(jsonResume.skills).toBeUndefined();
+        expect(JSON.stringify(jsonResume)).not.toContain('Chess');
+    });
+});
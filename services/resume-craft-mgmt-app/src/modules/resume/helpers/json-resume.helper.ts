@@ -0,0 +1,353 @@
+import {
+    CertificationItemType,
+    CreateResumeRequestType,
+    EducationItemType,
+    ExperienceItemType,
+    JSON_RESUME_SCHEMA_URL,
+    JsonResumeType,
+    JsonResumeUnmappedFieldType,
+    LanguageItemType,
+    LanguageProficiency,
+    ProjectItemType,
+    ResumeSectionItemType,
+    ResumeSectionRequestType,
+    ResumeSectionType,
+    SkillItemType,
+    SkillProficiency,
+} from '@resume/resume-craft-api-contracts';
+import {
+    CertificationItem,
+    EducationItem,
+    ExperienceItem,
+    LanguageItem,
+    ProjectItem,
+    Resume,
+    SkillItem,
+} from '@resume/resume-craft-common';
+
+type JsonResumeEntry = Record<string, unknown>;
+
+export const JSON_RESUME_DEFAULT_TITLE = 'Imported resume';
+
+const NO_MATCHING_FIELD = 'No matching field in the resume';
+const DEFAULT_SKILL_PROFICIENCY = SkillProficiency.Intermediate;
+const DEFAULT_LANGUAGE_PROFICIENCY = LanguageProficiency.ProfessionalWorking;
+
+const SKILL_LEVELS: Record<string, SkillProficiency> = {
+    novice: SkillProficiency.Beginner,
+    beginner: SkillProficiency.Beginner,
+    intermediate: SkillProficiency.Intermediate,
+    advanced: SkillProficiency.Advanced,
+    expert: SkillProficiency.Expert,
+    master: SkillProficiency.Expert,
+};
+
+const LANGUAGE_FLUENCIES: Record<string, LanguageProficiency> = {
+    ...Object.fromEntries(Object.values(LanguageProficiency).map((proficiency) => [proficiency, proficiency])),
+    beginner: LanguageProficiency.Elementary,
+    basic: LanguageProficiency.Elementary,
+    conversational: LanguageProficiency.LimitedWorking,
+    professional: LanguageProficiency.ProfessionalWorking,
+    fluent: LanguageProficiency.FullProfessional,
+    native_speaker: LanguageProficiency.Native,
+    bilingual: LanguageProficiency.Native,
+};
+
+const hasValue = (value: unknown): boolean =>
+    value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && !value.length);
+
+/**
+ * Drops the unset fields of a mapped object, stored items keep `null` for them.
+ */
+const compact = <T extends object>(value: T): T =>
+    Object.fromEntries(Object.entries(value).filter(([, fieldValue]) => hasValue(fieldValue))) as T;
+
+const normaliseKey = (value: string): string =>
+    value
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_');
+
+const humanise = (value: string): string => {
+    const text = value.replace(/_/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/**
+ * JSON Resume allows `YYYY` and `YYYY-MM`, the resume model always stores a full date.
+ */
+const toResumeDate = (value?: string): string | undefined => {
+    if (!value) {
+        return undefined;
+    }
+    return [value.substring(0, 4), value.substring(5, 7) || '01', value.substring(8, 10) || '01'].join('-');
+};
+
+/**
+ * Collects what an import could not carry over, so it can be reported instead of dropped silently.
+ */
+class UnmappedFields {
+    readonly fields: JsonResumeUnmappedFieldType[] = [];
+
+    add(path: string, reason: string = NO_MATCHING_FIELD): void {
+        this.fields.push({ path, reason });
+    }
+
+    addUnknownKeys(value: object | undefined, mappedKeys: string[], path: string): void {
+        Object.entries(value || {})
+            .filter(([key, fieldValue]) => !mappedKeys.includes(key) && hasValue(fieldValue))
+            .forEach(([key]) => this.add(`${path}.${key}`));
+    }
+
+    /**
+     * Reports the entry when a field the resume requires is missing, in which case it is not imported.
+     */
+    hasMissing(entry: JsonResumeEntry, requiredKeys: string[], path: string): boolean {
+        const missingKeys = requiredKeys.filter((key) => !hasValue(entry[key]));
+        if (missingKeys.length) {
+            this.add(path, `Missing ${missingKeys.join(', ')}, the entry was not imported`);
+        }
+        return missingKeys.length > 0;
+    }
+}
+
+type JsonResumeSectionMapping = {
+    key: keyof JsonResumeType;
+    type: ResumeSectionType;
+    title: string;
+    mappedKeys: string[];
+    requiredKeys: string[];
+    toItem: (entry: JsonResumeEntry, path: string, unmappedFields: UnmappedFields) => ResumeSectionItemType;
+};
+
+/**
+ * JSON Resume sections the resume model has a section type for, in the order of the JSON Resume schema.
+ * Entries are typed by `JsonResumeSchema` before they get here, so the casts below only narrow `unknown`.
+ */
+const JSON_RESUME_SECTIONS: JsonResumeSectionMapping[] = [
+    {
+        key: 'work',
+        type: ResumeSectionType.Experience,
+        title: 'Experience',
+        mappedKeys: ['name', 'position', 'location', 'startDate', 'endDate', 'highlights'],
+        requiredKeys: ['name', 'position', 'startDate'],
+        toItem: (entry): ExperienceItemType =>
+            compact({
+                company: entry.name as string,
+                role: entry.position as string,
+                location: entry.location as string,
+                startDate: toResumeDate(entry.startDate as string),
+                endDate: toResumeDate(entry.endDate as string),
+                isCurrent: !entry.endDate,
+                bulletPoints: entry.highlights as string[],
+            }),
+    },
+    {
+        key: 'education',
+        type: ResumeSectionType.Education,
+        title: 'Education',
+        mappedKeys: ['institution', 'area', 'studyType', 'startDate', 'endDate', 'score'],
+        requiredKeys: ['institution', 'studyType', 'startDate'],
+        toItem: (entry): EducationItemType =>
+            compact({
+                institution: entry.institution as string,
+                degree: entry.studyType as string,
+                fieldOfStudy: entry.area as string,
+                startDate: toResumeDate(entry.startDate as string),
+                endDate: toResumeDate(entry.endDate as string),
+                grade: entry.score as string,
+            }),
+    },
+    {
+        key: 'certificates',
+        type: ResumeSectionType.Certifications,
+        title: 'Certifications',
+        mappedKeys: ['name', 'date', 'issuer', 'url'],
+        requiredKeys: ['name', 'issuer', 'date'],
+        toItem: (entry): CertificationItemType =>
+            compact({
+                name: entry.name as string,
+                issuer: entry.issuer as string,
+                issueDate: toResumeDate(entry.date as string),
+                url: entry.url as string,
+            }),
+    },
+    {
+        key: 'skills',
+        type: ResumeSectionType.Skills,
+        title: 'Skills',
+        mappedKeys: ['name', 'level'],
+        requiredKeys: ['name'],
+        toItem: (entry, path, unmappedFields): SkillItemType => {
+            const level = entry.level as string;
+            const proficiency = level ? SKILL_LEVELS[normaliseKey(level)] : undefined;
+            if (!proficiency) {
+                unmappedFields.add(
+                    `${path}.level`,
+                    level
+                        ? `Level "${level}" is not recognised, imported as ${DEFAULT_SKILL_PROFICIENCY}`
+                        : `No level given, imported as ${DEFAULT_SKILL_PROFICIENCY}`
+                );
+            }
+            return { name: entry.name as string, proficiency: proficiency || DEFAULT_SKILL_PROFICIENCY };
+        },
+    },
+    {
+        key: 'languages',
+        type: ResumeSectionType.Languages,
+        title: 'Languages',
+        mappedKeys: ['language', 'fluency'],
+        requiredKeys: ['language'],
+        toItem: (entry, path, unmappedFields): LanguageItemType => {
+            const fluency = entry.fluency as string;
+            const proficiency = fluency ? LANGUAGE_FLUENCIES[normaliseKey(fluency)] : undefined;
+            if (!proficiency) {
+                unmappedFields.add(
+                    `${path}.fluency`,
+                    fluency
+                        ? `Fluency "${fluency}" is not recognised, imported as ${DEFAULT_LANGUAGE_PROFICIENCY}`
+                        : `No fluency given, imported as ${DEFAULT_LANGUAGE_PROFICIENCY}`
+                );
+            }
+            return { language: entry.language as string, proficiency: proficiency || DEFAULT_LANGUAGE_PROFICIENCY };
+        },
+    },
+    {
+        key: 'projects',
+        type: ResumeSectionType.Projects,
+        title: 'Projects',
+        mappedKeys: ['name', 'description', 'highlights', 'startDate', 'endDate', 'url', 'roles'],
+        requiredKeys: ['name'],
+        toItem: (entry): ProjectItemType =>
+            compact({
+                name: entry.name as string,
+                role: ((entry.roles as string[]) || []).join(', '),
+                url: entry.url as string,
+                startDate: toResumeDate(entry.startDate as string),
+                endDate: toResumeDate(entry.endDate as string),
+                description: entry.description as string,
+                bulletPoints: entry.highlights as string[],
+            }),
+    },
+];
+
+const MAPPED_BASICS_KEYS = ['label', 'summary'];
+const MAPPED_ROOT_KEYS = ['$schema', 'basics', ...JSON_RESUME_SECTIONS.map(({ key }) => key)];
+
+/**
+ * Converts a JSON Resume document into a create request. Everything the resume model has no place for is
+ * returned in `unmappedFields` with the JSON path it was found at.
+ *
+ * `basics.name` is reported as well, since a resume always takes the name of its owner.
+ */
+export const fromJsonResume = (
+    jsonResume: JsonResumeType
+): { createRequest: CreateResumeRequestType; unmappedFields: JsonResumeUnmappedFieldType[] } => {
+    const unmappedFields = new UnmappedFields();
+    const sections: ResumeSectionRequestType[] = [];
+    const { basics } = jsonResume;
+
+    unmappedFields.addUnknownKeys(jsonResume, MAPPED_ROOT_KEYS, '$');
+    unmappedFields.addUnknownKeys(basics, MAPPED_BASICS_KEYS, '$.basics');
+
+    if (basics?.summary) {
+        sections.push({ type: ResumeSectionType.Summary, title: 'Summary', order: 0, content: basics.summary });
+    }
+
+    for (const mapping of JSON_RESUME_SECTIONS) {
+        const entries = (jsonResume[mapping.key] || []) as JsonResumeEntry[];
+        const items = entries.flatMap((entry, index) => {
+            const path = `$.${mapping.key}[${index}]`;
+            if (unmappedFields.hasMissing(entry, mapping.requiredKeys, path)) {
+                return [];
+            }
+            unmappedFields.addUnknownKeys(entry, mapping.mappedKeys, path);
+            return [mapping.toItem(entry, path, unmappedFields)];
+        });
+
+        if (items.length) {
+            sections.push({ type: mapping.type, title: mapping.title, order: sections.length, items });
+        }
+    }
+
+    return {
+        createRequest: {
+            title: basics?.label || JSON_RESUME_DEFAULT_TITLE,
+            sections,
+        },
+        unmappedFields: unmappedFields.fields,
+    };
+};
+
+/**
+ * Converts a stored resume into a JSON Resume document. Hidden sections are left out and sections of the
+ * same type are merged, custom sections have no JSON Resume counterpart and are not exported.
+ */
+export const toJsonResume = (resume: Resume): JsonResumeType => {
+    const sections = [...(resume.sections || [])]
+        .filter((section) => !section.isHidden)
+        .sort((a, b) => a.order - b.order);
+    const itemsOf = <T>(type: ResumeSectionType): T[] =>
+        sections.filter((section) => section.type === type).flatMap((section) => (section.items || []) as T[]);
+
+    const jsonResume: JsonResumeType = {
+        $schema: JSON_RESUME_SCHEMA_URL,
+        basics: compact({
+            name: resume.owner?.name,
+            label: resume.title,
+            summary: sections
+                .filter((section) => section.type === ResumeSectionType.Summary && section.content)
+                .map((section) => section.content)
+                .join('\n\n'),
+        }),
+        work: itemsOf<ExperienceItem>(ResumeSectionType.Experience).map((item) =>
+            compact({
+                name: item.company,
+                position: item.role,
+                location: item.location,
+                startDate: item.startDate,
+                endDate: item.isCurrent ? undefined : item.endDate,
+                highlights: item.bulletPoints,
+            })
+        ),
+        education: itemsOf<EducationItem>(ResumeSectionType.Education).map((item) =>
+            compact({
+                institution: item.institution,
+                studyType: item.degree,
+                area: item.fieldOfStudy,
+                startDate: item.startDate,
+                endDate: item.endDate,
+                score: item.grade,
+            })
+        ),
+        certificates: itemsOf<CertificationItem>(ResumeSectionType.Certifications).map((item) =>
+            compact({
+                name: item.name,
+                issuer: item.issuer,
+                date: item.issueDate,
+                url: item.url,
+            })
+        ),
+        skills: itemsOf<SkillItem>(ResumeSectionType.Skills).map((item) => ({
+            name: item.name,
+            level: humanise(item.proficiency),
+        })),
+        languages: itemsOf<LanguageItem>(ResumeSectionType.Languages).map((item) => ({
+            language: item.language,
+            fluency: humanise(item.proficiency),
+        })),
+        projects: itemsOf<ProjectItem>(ResumeSectionType.Projects).map((item) =>
+            compact({
+                name: item.name,
+                roles: item.role ? [item.role] : undefined,
+                url: item.url,
+                startDate: item.startDate,
+                endDate: item.endDate,
+                description: item.description,
+                highlights: item.bulletPoints,
+            })
+        ),
+    };
+
+    return compact(jsonResume);
+};
@@ -0,0 +1,121 @@
+import { ResumeSectionDiffStatus } from '@resume/resume-craft-api-contracts';
+import { ResumeSection, ResumeVersion } from '@resume/resume-craft-common';
+
+import { diffResumeVersions, diffValues } from './resume-diff.helper';
+
+const summary: ResumeSection = {
+    sectionId: 'summary-1',
+    type: 'summary',
+    title: 'Summary',
+    order: 0,
+    isHidden: false,
+    content: 'Backend engineer',
+};
+
+const experience = {
+    sectionId: 'experience-1',
+    type: 'experience',
+    title: 'Experience',
+    order: 1,
+    isHidden: false,
+    content: null,
+    items: [{ company: 'Acme', role: 'Engineer', bulletPoints: ['Built billing'], endDate: null }],
+} as ResumeSection;
+
+const buildVersion = (version: number, overrides: Partial<ResumeVersion> = {}): ResumeVersion => ({
+    resumeId: 'resume-1',
+    version,
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    title: 'Backend Engineer',
+    slug: 'backend-engineer',
+    sections: [summary, experience],
+    template: null,
+    ...overrides,
+});
+
+describe('diffValues', () => {
+    it('should report changed leaves by path and treat null as absent', () => {
+        expect(
+            diffValues(
+                { title: 'Old', items: [{ bullets: ['a', 'b'] }], endDate: null },
+                { title: 'New', items: [{ bullets: ['a'] }], endDate: '2024-01-01' }
+            )
+        ).toEqual([
+            { path: 'title', from: 'Old', to: 'New' },
+            { path: 'items[0].bullets[1]', from: 'b' },
+            { path: 'endDate', to: '2024-01-01' },
+        ]);
+    });
+});
+
+describe('diffResumeVersions', () => {
+    it('should report nothing for identical versions', () => {
+        const diff = diffResumeVersions(buildVersion(2), buildVersion(1));
+
+        expect(diff.changes).toEqual([]);
+        expect(diff.sections.map(({ status }) => status)).toEqual([
+            ResumeSectionDiffStatus.Unchanged,
+            ResumeSectionDiffStatus.Unchanged,
+        ]);
+    });
+
+    it('should match sections by id and report added, removed and modified ones', () => {
+        const tailoredExperience = {
+            ...experience,
+            items: [{ company: 'Acme', role: 'Staff Engineer', bulletPoints: ['Built billing', 'Led migration'] }],
+        } as ResumeSection;
+        const skills = {
+            sectionId: 'skills-1',
+            type: 'skills',
+            title: 'Skills',
+            order: 2,
+            isHidden: false,
+            items: [{ name: 'TypeScript' }],
+        } as ResumeSection;
+
+        const diff = diffResumeVersions(
+            buildVersion(3, {
+                title: 'Staff Engineer',
+                sections: [tailoredExperience, skills],
+                template: { templateId: 'template-1', version: 2 },
+            }),
+            buildVersion(1)
+        );
+
+        expect(diff).toEqual({
+            resumeId: 'resume-1',
+            version: 3,
+            against: 1,
+            changes: [
+                { path: 'title', from: 'Backend Engineer', to: 'Staff Engineer' },
+                { path: 'template', to: { templateId: 'template-1', version: 2 } },
+            ],
+            sections: [
+                {
+                    sectionId: 'experience-1',
+                    type: 'experience',
+                    title: 'Experience',
+                    status: ResumeSectionDiffStatus.Modified,
+                    changes: [
+                        { path: 'items[0].role', from: 'Engineer', to: 'Staff Engineer' },
+                        { path: 'items[0].bulletPoints[1]', to: 'Led migration' },
+                    ],
+                },
+                {
+                    sectionId: 'skills-1',
+                    type: 'skills',
+                    title: 'Skills',
+                    status: ResumeSectionDiffStatus.Added,
+                    changes: [],
+                },
+                {
+                    sectionId: 'summary-1',
+                    type: 'summary',
+                    title: 'Summary',
+                    status: ResumeSectionDiffStatus.Removed,
+                    changes: [],
+                },
+            ],
+        });
+    });
+});
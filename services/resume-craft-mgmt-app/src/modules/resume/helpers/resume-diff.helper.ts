@@ -0,0 +1,99 @@
+import { isDeepStrictEqual } from 'util';
+
+import {
+    ResumeSectionDiffStatus,
+    ResumeSectionDiffType,
+    ResumeValueChangeType,
+    ResumeVersionDiffType,
+} from '@resume/resume-craft-api-contracts';
+import { ResumeSection, ResumeVersion } from '@resume/resume-craft-common';
+
+// Stored documents carry `null` for unset optional fields, which is the same as the field being absent.
+const isAbsent = (value: unknown): boolean => value === null || value === undefined;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+/**
+ * Walks both values in parallel and records the leaves that differ. Arrays are compared by position.
+ */
+export const diffValues = (from: unknown, to: unknown, path = '', changes: ResumeValueChangeType[] = []) => {
+    if (isAbsent(from) && isAbsent(to)) {
+        return changes;
+    }
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+        for (let index = 0; index < Math.max(from.length, to.length); index += 1) {
+            diffValues(from[index], to[index], `${path}[${index}]`, changes);
+        }
+        return changes;
+    }
+
+    if (isObject(from) && isObject(to)) {
+        new Set([...Object.keys(to), ...Object.keys(from)]).forEach((key) =>
+            diffValues(from[key], to[key], joinPath(path, key), changes)
+        );
+        return changes;
+    }
+
+    if (!isDeepStrictEqual(from, to)) {
+        changes.push({
+            path,
+            ...(isAbsent(from) ? {} : { from }),
+            ...(isAbsent(to) ? {} : { to }),
+        });
+    }
+    return changes;
+};
+
+const toComparableSection = ({ sectionId, ...section }: ResumeSection) => JSON.parse(JSON.stringify(section));
+
+const diffSection = (from: ResumeSection | undefined, to: ResumeSection | undefined): ResumeSectionDiffType => {
+    const section = to || from;
+    const changes = diffValues(from && toComparableSection(from), to && toComparableSection(to));
+
+    let status = ResumeSectionDiffStatus.Modified;
+    if (!from) {
+        status = ResumeSectionDiffStatus.Added;
+    } else if (!to) {
+        status = ResumeSectionDiffStatus.Removed;
+    } else if (!changes.length) {
+        status = ResumeSectionDiffStatus.Unchanged;
+    }
+
+    return {
+        sectionId: section.sectionId,
+        type: section.type,
+        title: section.title,
+        status,
+        // Whole sections are reported through their status rather than as a change of every field.
+        changes: status === ResumeSectionDiffStatus.Modified ? changes : [],
+    };
+};
+
+/**
+ * Describes how `against` has to change to become `version`. Sections are matched by `sectionId` and listed
+ * in the order of `version`, followed by the sections it no longer has.
+ */
+export const diffResumeVersions = (version: ResumeVersion, against: ResumeVersion): ResumeVersionDiffType => {
+    const againstSections = new Map(against.sections.map((section) => [section.sectionId, section]));
+    const versionSectionIds = new Set(version.sections.map((section) => section.sectionId));
+
+    return {
+        resumeId: version.resumeId,
+        version: version.version,
+        against: against.version,
+        changes: diffValues(
+            { title: against.title, template: against.template },
+            { title: version.title, template: version.template }
+        ),
+        sections: [
+            ...version.sections.map((section) => diffSection(againstSections.get(section.sectionId), section)),
+            ...against.sections
+                .filter((section) => !versionSectionIds.has(section.sectionId))
+                .map((section) => diffSection(section, undefined)),
+        ],
+    };
+};
@@ -0,0 +1,85 @@
+import { ResumeForkSectionAction } from '@resume/resume-craft-api-contracts';
+import { Resume, ResumeSection } from '@resume/resume-craft-common';
+
+import { applySectionOverrides, buildResumeFork, getUnknownOverrideSectionIds } from './resume-fork.helper';
+
+const summary: ResumeSection = {
+    sectionId: 'summary-1',
+    type: 'summary',
+    title: 'Summary',
+    order: 0,
+    isHidden: false,
+    content: 'Backend engineer',
+};
+
+const projects = {
+    sectionId: 'projects-1',
+    type: 'projects',
+    title: 'Projects',
+    order: 1,
+    isHidden: true,
+    content: null,
+    items: [{ name: 'Resume Craft' }],
+} as ResumeSection;
+
+const source: Resume = {
+    resumeId: 'resume-2',
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    title: 'Backend Engineer',
+    slug: 'backend-engineer',
+    sections: [summary, projects],
+    template: { templateId: 'template-1', version: 2 },
+    version: 7,
+    ancestorIds: ['resume-1'],
+    createdAt: 1700000000000,
+    createdBy: 'user-9',
+    modifiedAt: 1700000500000,
+    modifiedBy: 'user-9',
+};
+
+describe('applySectionOverrides', () => {
+    it('should drop excluded sections and un-hide included ones', () => {
+        expect(
+            applySectionOverrides(
+                [summary, projects],
+                [
+                    { sectionId: 'summary-1', action: ResumeForkSectionAction.Exclude },
+                    { sectionId: 'projects-1', action: ResumeForkSectionAction.Include },
+                ]
+            )
+        ).toEqual([{ ...projects, isHidden: false }]);
+    });
+
+    it('should report overrides for sections the resume does not have', () => {
+        expect(
+            getUnknownOverrideSectionIds(
+                [summary],
+                [
+                    { sectionId: 'summary-1', action: ResumeForkSectionAction.Exclude },
+                    { sectionId: 'missing-1', action: ResumeForkSectionAction.Include },
+                ]
+            )
+        ).toEqual(['missing-1']);
+    });
+});
+
+describe('buildResumeFork', () => {
+    it('should copy the content, record the lineage and reset the audit fields', () => {
+        const fork = buildResumeFork(source, { createdBy: 'user-1' });
+
+        expect(fork).toEqual({
+            resumeId: expect.any(String),
+            owner: source.owner,
+            title: 'Backend Engineer (copy)',
+            slug: expect.stringMatching(/^backend-engineer-copy-/),
+            sections: [summary, projects],
+            template: source.template,
+            version: 1,
+            forkedFrom: { resumeId: 'resume-2', version: 7 },
+            ancestorIds: ['resume-1', 'resume-2'],
+            createdBy: 'user-1',
+        });
+        expect(fork.resumeId).not.toBe(source.resumeId);
+        expect(fork.sections[0]).not.toBe(summary);
+    });
+});
@@ -0,0 +1,67 @@
+import { ResumeForkSectionAction, ResumeForkSectionOverrideType } from '@resume/resume-craft-api-contracts';
+import { generateUUIDV4, Resume, ResumeSection } from '@resume/resume-craft-common';
+
+import { buildResumeSlug } from './resume.helper';
+
+export const RESUME_FORK_TITLE_SUFFIX = '(copy)';
+
+/**
+ * Returns the ids of overridden sections that the resume does not have.
+ */
+export const getUnknownOverrideSectionIds = (
+    sections: ResumeSection[],
+    overrides: ResumeForkSectionOverrideType[] = []
+): string[] => {
+    const sectionIds = new Set(sections.map((section) => section.sectionId));
+    return [...new Set(overrides.map((override) => override.sectionId))].filter(
+        (sectionId) => !sectionIds.has(sectionId)
+    );
+};
+
+/**
+ * Drops excluded sections and un-hides included ones. When a section is overridden more than once
+ * the last override wins.
+ */
+export const applySectionOverrides = (
+    sections: ResumeSection[],
+    overrides: ResumeForkSectionOverrideType[] = []
+): ResumeSection[] => {
+    const actions = new Map(overrides.map((override) => [override.sectionId, override.action]));
+
+    return sections
+        .filter((section) => actions.get(section.sectionId) !== ResumeForkSectionAction.Exclude)
+        .map((section) =>
+            actions.get(section.sectionId) === ResumeForkSectionAction.Include
+                ? { ...section, isHidden: false }
+                : section
+        );
+};
+
+/**
+ * Deep-copies `source` into a new resume that starts its own version history and records where it
+ * was forked from. Audit fields of the source are not carried over.
+ */
+export const buildResumeFork = (
+    source: Resume,
+    options: { title?: string; sectionOverrides?: ResumeForkSectionOverrideType[]; createdBy: string }
+): Resume => {
+    const { owner, sections, template } = JSON.parse(JSON.stringify(source)) as Resume;
+    const resumeId = generateUUIDV4();
+    const title = options.title || `${source.title} ${RESUME_FORK_TITLE_SUFFIX}`;
+
+    return {
+        resumeId,
+        owner,
+        title,
+        slug: buildResumeSlug(title, resumeId),
+        sections: applySectionOverrides(sections || [], options.sectionOverrides),
+        template: template ?? null,
+        version: 1,
+        forkedFrom: {
+            resumeId: source.resumeId,
+            version: source.version || 1,
+        },
+        ancestorIds: [...(source.ancestorIds || []), source.resumeId],
+        createdBy: options.createdBy,
+    };
+};
@@ -0,0 +1,113 @@
+import {
+    ResumeSectionItemType,
+    ResumeSectionRequestType,
+    ResumeType,
+    ResumeVersionType,
+} from '@resume/resume-craft-api-contracts';
+import {
+    generateSlug,
+    generateUUIDV4,
+    Resume,
+    ResumeSection,
+    ResumeSectionItem,
+    ResumeSectionType,
+    ResumeVersion,
+    Template,
+    TemplateRef,
+} from '@resume/resume-craft-common';
+
+export const RESUME_SLUG_SUFFIX_LENGTH = 8;
+
+export const buildResumeSlug = (title: string, resumeId: string): string =>
+    generateSlug(title, resumeId.substring(0, RESUME_SLUG_SUFFIX_LENGTH));
+
+export const toTemplateRef = (template: Template): TemplateRef => ({
+    templateId: template.templateId,
+    version: template.version,
+});
+
+/**
+ * Normalises the requested sections into the stored shape, keeping them sorted by `order`
+ * and minting a `sectionId` for sections that are new.
+ */
+export const buildResumeSections = (sections: ResumeSectionRequestType[] = []): ResumeSection[] =>
+    [...sections]
+        .sort((a, b) => a.order - b.order)
+        .map((section) => ({
+            sectionId: section.sectionId || generateUUIDV4(),
+            type: section.type as ResumeSection['type'],
+            title: section.title,
+            order: section.order,
+            isHidden: section.isHidden ?? false,
+            content: section.content ?? null,
+            ...(section.type !== ResumeSectionType.Summary
+                ? { items: (section.items || []) as ResumeSectionItem[] }
+                : {}),
+        }));
+
+/**
+ * Stored items carry `null` for unset optional fields; those are left out of the response.
+ */
+const toSectionItemResponse = (item: ResumeSectionItem): ResumeSectionItemType =>
+    Object.fromEntries(
+        Object.entries(JSON.parse(JSON.stringify(item))).filter(([, value]) => value !== null && value !== undefined)
+    ) as ResumeSectionItemType;
+
+export const toResumeResponse = (resume: Resume): ResumeType => ({
+    resumeId: resume.resumeId,
+    owner: {
+        userId: resume.owner?.userId,
+        name: resume.owner?.name,
+    },
+    title: resume.title,
+    slug: resume.slug,
+    sections: (resume.sections || []).map((section) => ({
+        sectionId: section.sectionId,
+        type: section.type,
+        title: section.title,
+        order: section.order,
+        isHidden: section.isHidden,
+        ...(section.content ? { content: section.content } : {}),
+        ...(section.items ? { items: section.items.map(toSectionItemResponse) } : {}),
+    })),
+    ...(resume.template
+        ? { template: { templateId: resume.template.templateId, version: resume.template.version } }
+        : {}),
+    ...(resume.version ? { version: resume.version } : {}),
+    ...(resume.forkedFrom
+        ? { forkedFrom: { resumeId: resume.forkedFrom.resumeId, version: resume.forkedFrom.version } }
+        : {}),
+    createdAt: resume.createdAt,
+    ...(resume.modifiedAt ? { modifiedAt: resume.modifiedAt } : {}),
+});
+
+/**
+ * Copies the content of a saved resume into the snapshot stored as `version`.
+ */
+export const buildResumeSnapshot = (
+    resume: Resume,
+    options: { version: number; createdBy: string; restoredFrom?: number }
+): ResumeVersion => {
+    const { owner, sections, template } = JSON.parse(JSON.stringify(resume)) as Resume;
+
+    return {
+        resumeId: resume.resumeId,
+        version: options.version,
+        owner,
+        title: resume.title,
+        slug: resume.slug,
+        sections,
+        template: template ?? null,
+        restoredFrom: options.restoredFrom ?? null,
+        createdBy: options.createdBy,
+    };
+};
+
+export const toResumeVersionResponse = (resumeVersion: ResumeVersion): ResumeVersionType => ({
+    resumeId: resumeVersion.resumeId,
+    version: resumeVersion.version,
+    title: resumeVersion.title,
+    ...(resumeVersion.restoredFrom ? { restoredFrom: resumeVersion.restoredFrom } : {}),
+    createdAt: resumeVersion.createdAt,
+    ...(resumeVersion.createdBy ? { createdBy: resumeVersion.createdBy } : {}),
+});
@@ -0,0 +1 @@
+export * from './resume.module';
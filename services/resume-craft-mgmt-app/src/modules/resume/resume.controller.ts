@@ -0,0 +1,403 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Param,
+    Patch,
+    Post,
+    Query,
+    Scope,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    LoggerFactory,
+    ResumeCraftRequest,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    CreateResumeReqOpenApiSchema,
+    CreateResumeRequestSchema,
+    CreateResumeRequestType,
+    CreateResumeRespOpenApiSchema,
+    DeleteResumeRespOpenApiSchema,
+    DiffResumeVersionsReqOpenApiSchema,
+    DiffResumeVersionsRequestSchema,
+    DiffResumeVersionsRequestType,
+    DiffResumeVersionsRespOpenApiSchema,
+    ErrorResponseOpenApiSchema,
+    ForkResumeReqOpenApiSchema,
+    ForkResumeRequestSchema,
+    ForkResumeRequestType,
+    ForkResumeRespOpenApiSchema,
+    GetResumeRespOpenApiSchema,
+    ImportJsonResumeReqOpenApiSchema,
+    ImportJsonResumeRespOpenApiSchema,
+    JsonResumeSchema,
+    JsonResumeType,
+    ListResumeForksReqOpenApiSchema,
+    ListResumeForksRequestSchema,
+    ListResumeForksRequestType,
+    ListResumeForksRespOpenApiSchema,
+    ListResumesReqOpenApiSchema,
+    ListResumesRequestSchema,
+    ListResumesRequestType,
+    ListResumesRespOpenApiSchema,
+    ListResumeVersionsReqOpenApiSchema,
+    ListResumeVersionsRequestSchema,
+    ListResumeVersionsRequestType,
+    ListResumeVersionsRespOpenApiSchema,
+    RestoreResumeVersionRespOpenApiSchema,
+    ResumeIdParamOpenApiSchema,
+    ResumeIdParamSchema,
+    ResumeIdParamType,
+    ResumeVersionParamOpenApiSchema,
+    ResumeVersionParamSchema,
+    ResumeVersionParamType,
+    UpdateResumeReqOpenApiSchema,
+    UpdateResumeRequestSchema,
+    UpdateResumeRequestType,
+    UpdateResumeRespOpenApiSchema,
+} from '@resume/resume-craft-api-contracts';
+import {
+    CreateResumeService,
+    DeleteResumeService,
+    DiffResumeVersionsService,
+    ForkResumeService,
+    GetResumeService,
+    ImportJsonResumeService,
+    ListResumeForksService,
+    ListResumeVersionsService,
+    RestoreResumeVersionService,
+    UpdateResumeService,
+} from './services';
+
+@Controller('resumes')
+@Injectable({ scope: Scope.REQUEST })
+export class ResumeController {
+    private readonly logger = LoggerFactory.getLogger(ResumeController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly createResumeService: CreateResumeService,
+        private readonly getResumeService: GetResumeService,
+        private readonly updateResumeService: UpdateResumeService,
+        private readonly deleteResumeService: DeleteResumeService,
+        private readonly importJsonResumeService: ImportJsonResumeService,
+        private readonly listResumeVersionsService: ListResumeVersionsService,
+        private readonly diffResumeVersionsService: DiffResumeVersionsService,
+        private readonly restoreResumeVersionService: RestoreResumeVersionService,
+        private readonly forkResumeService: ForkResumeService,
+        private readonly listResumeForksService: ListResumeForksService
+    ) {
+        this.logger.debug(`${ResumeController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'CreateResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: CreateResumeReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: CreateResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post()
+    async createResume(
+        @Body(new SchemaAjvValidationPipe(CreateResumeRequestSchema)) createResumeRequest: CreateResumeRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.createResumeService.createResume(context, createResumeRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume created successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'ImportJsonResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: ImportJsonResumeReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ImportJsonResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post('import/json-resume')
+    async importJsonResume(@Body(new SchemaAjvValidationPipe(JsonResumeSchema)) jsonResume: JsonResumeType) {
+        const { context } = this.request;
+        const result = await this.importJsonResumeService.importJsonResume(context, jsonResume);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            meta: result.meta,
+            message: 'Resume imported successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'ListResumes',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiQuerySchema: ListResumesReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListResumesRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get()
+    async listResumes(
+        @Query(new SchemaAjvValidationPipe(ListResumesRequestSchema)) listResumesRequest: ListResumesRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.getResumeService.listResumes(context, listResumesRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume list fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':resumeId')
+    async getResume(@Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType) {
+        const { context } = this.request;
+        const result = await this.getResumeService.getResume(context, resumeId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'UpdateResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiBodySchema: UpdateResumeReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: UpdateResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Patch(':resumeId')
+    async updateResume(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Body(new SchemaAjvValidationPipe(UpdateResumeRequestSchema)) updateResumeRequest: UpdateResumeRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.updateResumeService.updateResume(context, resumeId, updateResumeRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume updated successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'DeleteResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: DeleteResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Delete(':resumeId')
+    async deleteResume(@Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType) {
+        const { context } = this.request;
+        const result = await this.deleteResumeService.deleteResume(context, resumeId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume deleted successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetResumeVersionList',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiQuerySchema: ListResumeVersionsReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListResumeVersionsRespOpenApiSchema,
+                description: 'Success response, newest version first',
+            },
+        ],
+    })
+    @Get(':resumeId/versions')
+    async listResumeVersions(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Query(new SchemaAjvValidationPipe(ListResumeVersionsRequestSchema))
+        listResumeVersionsRequest: ListResumeVersionsRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.listResumeVersionsService.listResumeVersions(
+            context,
+            resumeId,
+            listResumeVersionsRequest
+        );
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume version list fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'DiffResumeVersions',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeVersionParamOpenApiSchema,
+        apiQuerySchema: DiffResumeVersionsReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: DiffResumeVersionsRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':resumeId/versions/:version/diff')
+    async diffResumeVersions(
+        @Param(new SchemaAjvValidationPipe(ResumeVersionParamSchema)) { resumeId, version }: ResumeVersionParamType,
+        @Query(new SchemaAjvValidationPipe(DiffResumeVersionsRequestSchema)) { against }: DiffResumeVersionsRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.diffResumeVersionsService.diffResumeVersions(
+            context,
+            resumeId,
+            Number(version),
+            Number(against)
+        );
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume versions compared successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'RestoreResumeVersion',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeVersionParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: RestoreResumeVersionRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post(':resumeId/versions/:version/restore')
+    async restoreResumeVersion(
+        @Param(new SchemaAjvValidationPipe(ResumeVersionParamSchema)) { resumeId, version }: ResumeVersionParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.restoreResumeVersionService.restoreResumeVersion(context, resumeId, Number(version));
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume version restored successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'ForkResume',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiBodySchema: ForkResumeReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ForkResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post(':resumeId/fork')
+    async forkResume(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Body(new SchemaAjvValidationPipe(ForkResumeRequestSchema)) forkResumeRequest: ForkResumeRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.forkResumeService.forkResume(context, resumeId, forkResumeRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume forked successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetResumeForkList',
+        tags: ['Resumes'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiQuerySchema: ListResumeForksReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListResumeForksRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':resumeId/forks')
+    async listResumeForks(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Query(new SchemaAjvValidationPipe(ListResumeForksRequestSchema))
+        listResumeForksRequest: ListResumeForksRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.listResumeForksService.listResumeForks(context, resumeId, listResumeForksRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume fork list fetched successfully.',
+        };
+    }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+
+import { ResumeController } from './resume.controller';
+import {
+    CreateResumeService,
+    DeleteResumeService,
+    DiffResumeVersionsService,
+    ForkResumeService,
+    GetResumeService,
+    ImportJsonResumeService,
+    ListResumeForksService,
+    ListResumeVersionsService,
+    RestoreResumeVersionService,
+    UpdateResumeService,
+} from './services';
+import { DataFromContext, ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule],
+    controllers: [ResumeController],
+    providers: [
+        CreateResumeService,
+        GetResumeService,
+        UpdateResumeService,
+        DeleteResumeService,
+        ImportJsonResumeService,
+        ListResumeVersionsService,
+        DiffResumeVersionsService,
+        RestoreResumeVersionService,
+        ForkResumeService,
+        ListResumeForksService,
+        DataFromContext,
+    ],
+})
+export class ResumeModule {}
@@ -0,0 +1,116 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { CreateResumeRequestType, CreateResumeResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DataFromContext,
+    DbService,
+    ErrorCode,
+    generateUUIDV4,
+    LoggerFactory,
+    REQUEST_CONTEXT_DATA_TYPES,
+    RequestContext,
+    Resume,
+    ResumeCraftException,
+    ResumeDbService,
+    ResumeVersionDbService,
+    TemplateDbService,
+    TemplateRef,
+} from '@resume/resume-craft-common';
+import {
+    buildResumeSections,
+    buildResumeSlug,
+    buildResumeSnapshot,
+    toResumeResponse,
+    toTemplateRef,
+} from '../../helpers';
+
+@Injectable()
+export class CreateResumeService {
+    private readonly logger = LoggerFactory.getLogger(CreateResumeService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly dbService: DbService,
+        private readonly dataFromContext: DataFromContext,
+        private readonly templateDbService: TemplateDbService,
+        private readonly resumeVersionDbService: ResumeVersionDbService
+    ) {
+        this.logger.debug(`${CreateResumeService.name} Initialized`);
+    }
+
+    async createResume(
+        context: RequestContext,
+        createRequest: CreateResumeRequestType
+    ): Promise<Pick<CreateResumeResponseType, 'result'>> {
+        try {
+            const enrichedContext = await this.dataFromContext.get(context, {
+                type: REQUEST_CONTEXT_DATA_TYPES.USER,
+            });
+
+            if (!enrichedContext.user) {
+                throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                    message: 'Resume owner does not exist',
+                    details: { userId: context.userId },
+                });
+            }
+
+            const template = createRequest.templateId
+                ? await this._pinTemplate(context, createRequest.templateId)
+                : null;
+
+            return await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                const resumeData = this._buildResumeData(enrichedContext, createRequest, template);
+                const resume = await this.resumeDbService.create(context, resumeData, { session });
+                await this.resumeVersionDbService.create(
+                    context,
+                    buildResumeSnapshot(resume, { version: resume.version, createdBy: context.userId }),
+                    { session }
+                );
+
+                return {
+                    result: toResumeResponse(resume),
+                };
+            });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while creating the resume ${error.message}`,
+                createRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    /**
+     * Resumes are pinned to the version of the template that is current at the time of the request.
+     */
+    private async _pinTemplate(context: RequestContext, templateId: string): Promise<TemplateRef> {
+        const template = await this.templateDbService.findLatestVersion(context, templateId);
+        if (!template) {
+            throw new NotFoundException('Template does not exist.');
+        }
+        return toTemplateRef(template);
+    }
+
+    private _buildResumeData(
+        context: RequestContext,
+        createRequest: CreateResumeRequestType,
+        template: TemplateRef | null
+    ): Resume {
+        const resumeId = generateUUIDV4();
+
+        return {
+            resumeId,
+            owner: {
+                userId: context.user.userId,
+                name: context.user.name,
+            },
+            title: createRequest.title,
+            slug: buildResumeSlug(createRequest.title, resumeId),
+            sections: buildResumeSections(createRequest.sections),
+            ...(template ? { template } : {}),
+            version: 1,
+            createdBy: context.userId,
+        };
+    }
+}
@@ -0,0 +1 @@
+export * from './create-resume.service';
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+
+import { DeleteResumeResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+} from '@resume/resume-craft-common';
+
+@Injectable()
+export class DeleteResumeService {
+    private readonly logger = LoggerFactory.getLogger(DeleteResumeService.name);
+
+    constructor(private readonly resumeDbService: ResumeDbService) {
+        this.logger.debug(`${DeleteResumeService.name} Initialized`);
+    }
+
+    async deleteResume(context: RequestContext, resumeId: string): Promise<Pick<DeleteResumeResponseType, 'result'>> {
+        try {
+            await this.resumeDbService.deleteOne(context, { resumeId, userId: context.userId });
+
+            return {
+                result: { resumeId },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while deleting the resume ${error.message}`,
+                resumeId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './delete-resume.service';
@@ -0,0 +1,62 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { DiffResumeVersionsResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeVersion,
+    ResumeVersionDbService,
+} from '@resume/resume-craft-common';
+import { diffResumeVersions } from '../../helpers';
+
+@Injectable()
+export class DiffResumeVersionsService {
+    private readonly logger = LoggerFactory.getLogger(DiffResumeVersionsService.name);
+
+    constructor(private readonly resumeVersionDbService: ResumeVersionDbService) {
+        this.logger.debug(`${DiffResumeVersionsService.name} Initialized`);
+    }
+
+    async diffResumeVersions(
+        context: RequestContext,
+        resumeId: string,
+        version: number,
+        against: number
+    ): Promise<Pick<DiffResumeVersionsResponseType, 'result'>> {
+        try {
+            const [resumeVersion, againstVersion] = await Promise.all([
+                this._getResumeVersion(context, resumeId, version),
+                this._getResumeVersion(context, resumeId, against),
+            ]);
+
+            return {
+                result: diffResumeVersions(resumeVersion, againstVersion),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while comparing the resume versions ${error.message}`,
+                resumeId,
+                version,
+                against,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    private async _getResumeVersion(
+        context: RequestContext,
+        resumeId: string,
+        version: number
+    ): Promise<ResumeVersion> {
+        const resumeVersion = await this.resumeVersionDbService.findOne(context, {
+            condition: { resumeId, version, userId: context.userId },
+        });
+
+        if (!resumeVersion) {
+            throw new NotFoundException(`Version ${version} of the resume does not exist.`);
+        }
+        return resumeVersion;
+    }
+}
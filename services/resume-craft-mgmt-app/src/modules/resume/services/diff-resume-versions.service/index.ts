@@ -0,0 +1 @@
+export * from './diff-resume-versions.service';
@@ -0,0 +1,85 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { ForkResumeRequestType, ForkResumeResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DbService,
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    ResumeVersionDbService,
+} from '@resume/resume-craft-common';
+import { buildResumeFork, buildResumeSnapshot, getUnknownOverrideSectionIds, toResumeResponse } from '../../helpers';
+
+/**
+ * A fork is a new resume with its own version history, so it can be tailored for a job without
+ * touching the resume it was copied from.
+ */
+@Injectable()
+export class ForkResumeService {
+    private readonly logger = LoggerFactory.getLogger(ForkResumeService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly resumeVersionDbService: ResumeVersionDbService,
+        private readonly dbService: DbService
+    ) {
+        this.logger.debug(`${ForkResumeService.name} Initialized`);
+    }
+
+    async forkResume(
+        context: RequestContext,
+        resumeId: string,
+        forkRequest: ForkResumeRequestType
+    ): Promise<Pick<ForkResumeResponseType, 'result'>> {
+        try {
+            return await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                const source = await this.resumeDbService.findOne(
+                    context,
+                    { condition: { resumeId, userId: context.userId } },
+                    undefined,
+                    { session }
+                );
+                if (!source) {
+                    throw new NotFoundException('Resume does not exist.');
+                }
+
+                const unknownSectionIds = getUnknownOverrideSectionIds(source.sections, forkRequest.sectionOverrides);
+                if (unknownSectionIds.length) {
+                    throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                        message: 'Section overrides refer to sections the resume does not have',
+                        details: { sectionIds: unknownSectionIds },
+                    });
+                }
+
+                const resume = await this.resumeDbService.create(
+                    context,
+                    buildResumeFork(source, {
+                        title: forkRequest.title,
+                        sectionOverrides: forkRequest.sectionOverrides,
+                        createdBy: context.userId,
+                    }),
+                    { session }
+                );
+                await this.resumeVersionDbService.create(
+                    context,
+                    buildResumeSnapshot(resume, { version: resume.version, createdBy: context.userId }),
+                    { session }
+                );
+
+                return {
+                    result: toResumeResponse(resume),
+                };
+            });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while forking the resume ${error.message}`,
+                resumeId,
+                forkRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './fork-resume.service';
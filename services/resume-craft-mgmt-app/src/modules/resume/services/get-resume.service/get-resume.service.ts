@@ -0,0 +1,80 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import {
+    GetResumeResponseType,
+    ListResumesRequestType,
+    ListResumesResponseType,
+} from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    Resume,
+    ResumeCraftException,
+    ResumeDbService,
+} from '@resume/resume-craft-common';
+import { toResumeResponse } from '../../helpers';
+
+@Injectable()
+export class GetResumeService {
+    private readonly logger = LoggerFactory.getLogger(GetResumeService.name);
+
+    constructor(private readonly resumeDbService: ResumeDbService) {
+        this.logger.debug(`${GetResumeService.name} Initialized`);
+    }
+
+    async getResume(context: RequestContext, resumeId: string): Promise<Pick<GetResumeResponseType, 'result'>> {
+        try {
+            const resume = await this.resumeDbService.findOne(context, {
+                condition: {
+                    resumeId,
+                    userId: context.userId,
+                },
+            });
+
+            if (!resume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            return {
+                result: toResumeResponse(resume),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching the resume ${error.message}`,
+                resumeId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    async listResumes(
+        context: RequestContext,
+        listRequest: ListResumesRequestType
+    ): Promise<Pick<ListResumesResponseType, 'result'>> {
+        try {
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<ListResumesRequestType, Resume>(
+                (payload, size) =>
+                    this.resumeDbService.listResumes(context, { ...payload, userId: context.userId }, size),
+                listRequest,
+                ['title', 'resumeId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toResumeResponse),
+                    size: pageSize,
+                    nextPageToken,
+                    ...(listRequest.q ? { q: listRequest.q } : {}),
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the resumes ${error.message}`,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './get-resume.service';
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+
+import {
+    ajvSchemaValidator,
+    CreateResumeRequestSchema,
+    ImportJsonResumeResponseType,
+    JsonResumeType,
+} from '@resume/resume-craft-api-contracts';
+import { ErrorCode, LoggerFactory, RequestContext, ResumeCraftException } from '@resume/resume-craft-common';
+import { fromJsonResume } from '../../helpers';
+import { CreateResumeService } from '../create-resume.service';
+
+@Injectable()
+export class ImportJsonResumeService {
+    private readonly logger = LoggerFactory.getLogger(ImportJsonResumeService.name);
+
+    constructor(private readonly createResumeService: CreateResumeService) {
+        this.logger.debug(`${ImportJsonResumeService.name} Initialized`);
+    }
+
+    async importJsonResume(
+        context: RequestContext,
+        jsonResume: JsonResumeType
+    ): Promise<Pick<ImportJsonResumeResponseType, 'result' | 'meta'>> {
+        try {
+            const { createRequest, unmappedFields } = fromJsonResume(jsonResume);
+
+            // The mapped request still has to meet the limits of a resume created through the API.
+            const { isValid, errors } = ajvSchemaValidator(CreateResumeRequestSchema, createRequest);
+            if (!isValid) {
+                throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                    message: 'The JSON Resume does not fit the resume limits',
+                    details: { errors },
+                });
+            }
+
+            const { result } = await this.createResumeService.createResume(context, createRequest);
+
+            return {
+                result,
+                meta: { unmappedFields },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while importing the JSON Resume ${error.message}`,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,10 @@
+export * from './create-resume.service';
+export * from './get-resume.service';
+export * from './update-resume.service';
+export * from './delete-resume.service';
+export * from './import-json-resume.service';
+export * from './list-resume-versions.service';
+export * from './diff-resume-versions.service';
+export * from './restore-resume-version.service';
+export * from './fork-resume.service';
+export * from './list-resume-forks.service';
@@ -0,0 +1 @@
+export * from './list-resume-forks.service';
@@ -0,0 +1,64 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { ListResumeForksRequestType, ListResumeForksResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    Resume,
+    ResumeCraftException,
+    ResumeDbService,
+} from '@resume/resume-craft-common';
+import { toResumeResponse } from '../../helpers';
+
+@Injectable()
+export class ListResumeForksService {
+    private readonly logger = LoggerFactory.getLogger(ListResumeForksService.name);
+
+    constructor(private readonly resumeDbService: ResumeDbService) {
+        this.logger.debug(`${ListResumeForksService.name} Initialized`);
+    }
+
+    /**
+     * Lists every descendant of the resume, including forks of its forks.
+     */
+    async listResumeForks(
+        context: RequestContext,
+        resumeId: string,
+        listRequest: ListResumeForksRequestType
+    ): Promise<Pick<ListResumeForksResponseType, 'result'>> {
+        try {
+            const isExistingResume = await this.resumeDbService.exists(context, { resumeId, userId: context.userId });
+            if (!isExistingResume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<ListResumeForksRequestType, Resume>(
+                (payload, size) =>
+                    this.resumeDbService.listResumeForks(
+                        context,
+                        { ...payload, resumeId, userId: context.userId },
+                        size
+                    ),
+                listRequest,
+                ['title', 'resumeId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toResumeResponse),
+                    size: pageSize,
+                    nextPageToken,
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the resume forks ${error.message}`,
+                resumeId,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './list-resume-versions.service';
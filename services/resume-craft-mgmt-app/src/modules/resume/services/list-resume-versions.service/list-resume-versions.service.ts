@@ -0,0 +1,68 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { ListResumeVersionsRequestType, ListResumeVersionsResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    ResumeVersion,
+    ResumeVersionDbService,
+} from '@resume/resume-craft-common';
+import { toResumeVersionResponse } from '../../helpers';
+
+@Injectable()
+export class ListResumeVersionsService {
+    private readonly logger = LoggerFactory.getLogger(ListResumeVersionsService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly resumeVersionDbService: ResumeVersionDbService
+    ) {
+        this.logger.debug(`${ListResumeVersionsService.name} Initialized`);
+    }
+
+    async listResumeVersions(
+        context: RequestContext,
+        resumeId: string,
+        listRequest: ListResumeVersionsRequestType
+    ): Promise<Pick<ListResumeVersionsResponseType, 'result'>> {
+        try {
+            const isExistingResume = await this.resumeDbService.exists(context, { resumeId, userId: context.userId });
+            if (!isExistingResume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<
+                ListResumeVersionsRequestType,
+                ResumeVersion
+            >(
+                (payload, size) =>
+                    this.resumeVersionDbService.listResumeVersions(
+                        context,
+                        { ...payload, resumeId, userId: context.userId },
+                        size
+                    ),
+                listRequest,
+                ['version', 'resumeId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toResumeVersionResponse),
+                    size: pageSize,
+                    nextPageToken,
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the resume versions ${error.message}`,
+                resumeId,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './restore-resume-version.service';
@@ -0,0 +1,93 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { RestoreResumeVersionResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DbService,
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    ResumeVersionDbService,
+} from '@resume/resume-craft-common';
+import { buildResumeSnapshot, toResumeResponse } from '../../helpers';
+
+/**
+ * Restoring never rewrites history: the content of the old version is saved as a new version
+ * that records where it was restored from.
+ */
+@Injectable()
+export class RestoreResumeVersionService {
+    private readonly logger = LoggerFactory.getLogger(RestoreResumeVersionService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly resumeVersionDbService: ResumeVersionDbService,
+        private readonly dbService: DbService
+    ) {
+        this.logger.debug(`${RestoreResumeVersionService.name} Initialized`);
+    }
+
+    async restoreResumeVersion(
+        context: RequestContext,
+        resumeId: string,
+        version: number
+    ): Promise<Pick<RestoreResumeVersionResponseType, 'result'>> {
+        try {
+            return await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                const condition = { resumeId, userId: context.userId };
+                const currentResume = await this.resumeDbService.findOne(context, { condition }, undefined, {
+                    session,
+                });
+                if (!currentResume) {
+                    throw new NotFoundException('Resume does not exist.');
+                }
+
+                const resumeVersion = await this.resumeVersionDbService.findOne(
+                    context,
+                    { condition: { ...condition, version } },
+                    undefined,
+                    { session }
+                );
+                if (!resumeVersion) {
+                    throw new NotFoundException(`Version ${version} of the resume does not exist.`);
+                }
+
+                const nextVersion = (currentResume.version || 0) + 1;
+                const resume = await this.resumeDbService.updateOne(
+                    context,
+                    condition,
+                    {
+                        title: resumeVersion.title,
+                        slug: resumeVersion.slug,
+                        sections: resumeVersion.sections,
+                        template: resumeVersion.template ?? null,
+                        version: nextVersion,
+                    },
+                    { session }
+                );
+                await this.resumeVersionDbService.create(
+                    context,
+                    buildResumeSnapshot(resume, {
+                        version: nextVersion,
+                        createdBy: context.userId,
+                        restoredFrom: version,
+                    }),
+                    { session }
+                );
+
+                return {
+                    result: toResumeResponse(resume),
+                };
+            });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while restoring the resume version ${error.message}`,
+                resumeId,
+                version,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
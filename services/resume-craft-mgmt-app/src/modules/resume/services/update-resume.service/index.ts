@@ -0,0 +1 @@
+export * from './update-resume.service';
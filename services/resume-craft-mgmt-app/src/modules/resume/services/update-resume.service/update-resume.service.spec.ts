@@ -0,0 +1,117 @@
+import { Connection } from 'mongoose';
+
+import { DbService, ErrorCode, Resume, ResumeCraftException } from '@resume/resume-craft-common';
+
+import { UpdateResumeService } from './update-resume.service';
+
+const context = { userId: 'user-1', correlationId: 'correlation-1' };
+
+/**
+ * Stand-in for a resume collection with snapshot reads and first-writer-wins write conflicts, the way Mongo
+ * resolves concurrent transactions writing the same document.
+ */
+const createResumeStore = () => {
+    let committed: Resume = {
+        resumeId: 'resume-1',
+        owner: { userId: 'user-1', name: 'Ada Lovelace' },
+        title: 'Backend Engineer',
+        slug: 'backend-engineer',
+        sections: [],
+        version: 1,
+        createdAt: 1700000000000,
+    };
+    let pending: { session: object; resume: Resume } | null = null;
+    const versions: number[] = [];
+
+    const resumeDbService = {
+        exists: jest.fn(async () => true),
+        findOne: jest.fn(async () => ({ version: committed.version })),
+        updateOne: jest.fn(async (ctx, condition, updatedData: Partial<Resume>, { session }) => {
+            if (pending && pending.session !== session) {
+                const writeConflict = Object.assign(new Error('WriteConflict'), {
+                    errorLabels: ['TransientTransactionError'],
+                });
+                throw ResumeCraftException.fromError(writeConflict, ErrorCode.DATABASE_ERROR);
+            }
+            pending = { session, resume: { ...committed, ...updatedData } };
+            return pending.resume;
+        }),
+    };
+    const resumeVersionDbService = {
+        create: jest.fn(async (ctx, snapshot: { version: number }) => {
+            await new Promise((resolve) => {
+                setImmediate(resolve);
+            });
+            return snapshot;
+        }),
+    };
+    const connection = {
+        startSession: async () => {
+            const session = {
+                inTransaction: jest.fn(() => true),
+                startTransaction: jest.fn(),
+                commitTransaction: jest.fn(async () => {
+                    committed = pending.resume;
+                    versions.push(committed.version);
+                    pending = null;
+                }),
+                abortTransaction: jest.fn(async () => {
+                    if (pending?.session === session) {
+                        pending = null;
+                    }
+                }),
+                endSession: jest.fn(),
+            };
+            return session;
+        },
+    };
+
+    return {
+        resumeDbService,
+        resumeVersionDbService,
+        dbService: new DbService(connection as unknown as Connection),
+        getCommitted: () => committed,
+        versions,
+    };
+};
+
+describe('UpdateResumeService', () => {
+    it('should save concurrent updates of a resume as consecutive versions', async () => {
+        const store = createResumeStore();
+        const service = new UpdateResumeService(
+            store.resumeDbService as never,
+            {} as never,
+            store.resumeVersionDbService as never,
+            store.dbService
+        );
+
+        const results = await Promise.all([
+            service.updateResume(context, 'resume-1', { title: 'Staff Engineer' }),
+            service.updateResume(context, 'resume-1', { title: 'Principal Engineer' }),
+        ]);
+
+        expect(results.map(({ result }) => result.version).sort()).toEqual([2, 3]);
+        expect(store.versions).toEqual([2, 3]);
+        expect(store.resumeVersionDbService.create.mock.calls.map(([, snapshot]) => snapshot.version)).toEqual(
+            expect.arrayContaining([2, 3])
+        );
+        expect(store.getCommitted().version).toBe(3);
+    });
+
+    it('should not retry updates failing for other reasons', async () => {
+        const store = createResumeStore();
+        store.resumeVersionDbService.create.mockRejectedValue(new Error('Disk full'));
+        const service = new UpdateResumeService(
+            store.resumeDbService as never,
+            {} as never,
+            store.resumeVersionDbService as never,
+            store.dbService
+        );
+
+        await expect(service.updateResume(context, 'resume-1', { title: 'Staff Engineer' })).rejects.toBeInstanceOf(
+            ResumeCraftException
+        );
+        expect(store.resumeDbService.updateOne).toHaveBeenCalledTimes(1);
+        expect(store.getCommitted().version).toBe(1);
+    });
+});
@@ -0,0 +1,116 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { UpdateResumeRequestType, UpdateResumeResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DbService,
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    Resume,
+    ResumeCraftException,
+    ResumeFields,
+    ResumeDbService,
+    ResumeVersionDbService,
+    TemplateDbService,
+    TemplateRef,
+} from '@resume/resume-craft-common';
+import {
+    buildResumeSections,
+    buildResumeSlug,
+    buildResumeSnapshot,
+    toResumeResponse,
+    toTemplateRef,
+} from '../../helpers';
+
+@Injectable()
+export class UpdateResumeService {
+    private readonly logger = LoggerFactory.getLogger(UpdateResumeService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly templateDbService: TemplateDbService,
+        private readonly resumeVersionDbService: ResumeVersionDbService,
+        private readonly dbService: DbService
+    ) {
+        this.logger.debug(`${UpdateResumeService.name} Initialized`);
+    }
+
+    async updateResume(
+        context: RequestContext,
+        resumeId: string,
+        updateRequest: UpdateResumeRequestType
+    ): Promise<Pick<UpdateResumeResponseType, 'result'>> {
+        try {
+            const condition = { resumeId, userId: context.userId };
+            const isExistingResume = await this.resumeDbService.exists(context, condition);
+            if (!isExistingResume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const template = updateRequest.templateId
+                ? await this._pinTemplate(context, updateRequest.templateId)
+                : null;
+
+            return await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                const currentResume = await this.resumeDbService.findOne(
+                    context,
+                    { condition, includedAttributes: [ResumeFields.Version] },
+                    undefined,
+                    { session }
+                );
+                const version = (currentResume?.version || 0) + 1;
+                const resume = await this.resumeDbService.updateOne(
+                    context,
+                    condition,
+                    { ...this._buildUpdateData(resumeId, updateRequest, template), version },
+                    { session }
+                );
+                await this.resumeVersionDbService.create(
+                    context,
+                    buildResumeSnapshot(resume, { version, createdBy: context.userId }),
+                    { session }
+                );
+
+                return {
+                    result: toResumeResponse(resume),
+                };
+            });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while updating the resume ${error.message}`,
+                resumeId,
+                updateRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    /**
+     * Choosing a template, even the one already in use, pins the resume to its latest version.
+     */
+    private async _pinTemplate(context: RequestContext, templateId: string): Promise<TemplateRef> {
+        const template = await this.templateDbService.findLatestVersion(context, templateId);
+        if (!template) {
+            throw new NotFoundException('Template does not exist.');
+        }
+        return toTemplateRef(template);
+    }
+
+    private _buildUpdateData(
+        resumeId: string,
+        updateRequest: UpdateResumeRequestType,
+        template: TemplateRef | null
+    ): Partial<Resume> {
+        return {
+            ...(updateRequest.title
+                ? {
+                      title: updateRequest.title,
+                      slug: buildResumeSlug(updateRequest.title, resumeId),
+                  }
+                : {}),
+            ...(updateRequest.sections ? { sections: buildResumeSections(updateRequest.sections) } : {}),
+            ...(template ? { template } : {}),
+        };
+    }
+}
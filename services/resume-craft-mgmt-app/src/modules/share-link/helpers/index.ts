@@ -0,0 +1 @@
+export * from './share-link.helper';
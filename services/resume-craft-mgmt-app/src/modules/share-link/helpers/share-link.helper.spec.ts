@@ -0,0 +1,70 @@
+import { ShareLinkStatus } from '@resume/resume-craft-api-contracts';
+import { Resume, ShareLink } from '@resume/resume-craft-common';
+
+import { getShareLinkStatus, toPublicResumeResponse, toShareLinkResponse } from './share-link.helper';
+
+const now = 1700000000000;
+
+const shareLink: ShareLink = {
+    shareLinkId: 'share-link-1',
+    resumeId: 'resume-1',
+    owner: { userId: 'user-1', name: 'Ada Lovelace' },
+    tokenHash: 'hash',
+    passwordHash: null,
+    expiresAt: null,
+    maxViews: null,
+    viewCount: 3,
+    revokedAt: null,
+    createdAt: now - 1000,
+};
+
+describe('getShareLinkStatus', () => {
+    it('should report why a link stopped working', () => {
+        expect(getShareLinkStatus(shareLink, now)).toBe(ShareLinkStatus.Active);
+        expect(getShareLinkStatus({ ...shareLink, maxViews: 3 }, now)).toBe(ShareLinkStatus.Exhausted);
+        expect(getShareLinkStatus({ ...shareLink, maxViews: 3, expiresAt: now }, now)).toBe(ShareLinkStatus.Expired);
+        expect(getShareLinkStatus({ ...shareLink, expiresAt: now, revokedAt: now - 1 }, now)).toBe(
+            ShareLinkStatus.Revoked
+        );
+    });
+});
+
+describe('toShareLinkResponse', () => {
+    it('should never expose the stored hashes', () => {
+        const response = toShareLinkResponse({ ...shareLink, passwordHash: 'scrypt$hash' }, 'token');
+
+        expect(response).toEqual({
+            shareLinkId: 'share-link-1',
+            resumeId: 'resume-1',
+            token: 'token',
+            status: ShareLinkStatus.Active,
+            isPasswordProtected: true,
+            viewCount: 3,
+            createdAt: now - 1000,
+        });
+    });
+});
+
+describe('toPublicResumeResponse', () => {
+    it('should leave out hidden sections and account details', () => {
+        const resume: Resume = {
+            resumeId: 'resume-1',
+            owner: { userId: 'user-1', name: 'Ada Lovelace' },
+            title: 'Backend Engineer',
+            slug: 'backend-engineer',
+            sections: [
+                { sectionId: 'summary-1', type: 'summary', title: 'Summary', order: 0, isHidden: false, content: 'Hi' },
+                { sectionId: 'summary-2', type: 'summary', title: 'Draft', order: 1, isHidden: true, content: 'WIP' },
+            ],
+            createdAt: now,
+        };
+
+        expect(toPublicResumeResponse(resume)).toEqual({
+            title: 'Backend Engineer',
+            ownerName: 'Ada Lovelace',
+            sections: [
+                { sectionId: 'summary-1', type: 'summary', title: 'Summary', order: 0, isHidden: false, content: 'Hi' },
+            ],
+        });
+    });
+});
@@ -0,0 +1,46 @@
+import { PublicResumeType, ShareLinkStatus, ShareLinkType } from '@resume/resume-craft-api-contracts';
+import { Resume, ShareLink } from '@resume/resume-craft-common';
+
+import { toResumeResponse } from '../../resume/helpers';
+
+/**
+ * Revocation wins over expiry, and expiry over a used up view limit.
+ */
+export const getShareLinkStatus = (shareLink: ShareLink, now = Date.now()): ShareLinkStatus => {
+    if (shareLink.revokedAt) {
+        return ShareLinkStatus.Revoked;
+    }
+    if (shareLink.expiresAt && shareLink.expiresAt <= now) {
+        return ShareLinkStatus.Expired;
+    }
+    if (shareLink.maxViews && (shareLink.viewCount || 0) >= shareLink.maxViews) {
+        return ShareLinkStatus.Exhausted;
+    }
+    return ShareLinkStatus.Active;
+};
+
+export const toShareLinkResponse = (shareLink: ShareLink, token?: string): ShareLinkType => ({
+    shareLinkId: shareLink.shareLinkId,
+    resumeId: shareLink.resumeId,
+    ...(token ? { token } : {}),
+    status: getShareLinkStatus(shareLink),
+    isPasswordProtected: !!shareLink.passwordHash,
+    ...(shareLink.expiresAt ? { expiresAt: shareLink.expiresAt } : {}),
+    ...(shareLink.maxViews ? { maxViews: shareLink.maxViews } : {}),
+    viewCount: shareLink.viewCount || 0,
+    ...(shareLink.lastViewedAt ? { lastViewedAt: shareLink.lastViewedAt } : {}),
+    ...(shareLink.revokedAt ? { revokedAt: shareLink.revokedAt } : {}),
+    createdAt: shareLink.createdAt,
+});
+
+export const toPublicResumeResponse = (resume: Resume): PublicResumeType => {
+    const { title, owner, sections, template, modifiedAt } = toResumeResponse(resume);
+
+    return {
+        title,
+        ownerName: owner.name,
+        sections: sections.filter((section) => !section.isHidden),
+        ...(template ? { template } : {}),
+        ...(modifiedAt ? { modifiedAt } : {}),
+    };
+};
@@ -0,0 +1,66 @@
+import { Controller, Get, Headers, HttpStatus, Inject, Injectable, Param, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    HEADERS,
+    LoggerFactory,
+    PublicRoute,
+    ResumeCraftRequest,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    ErrorResponseOpenApiSchema,
+    GetPublicResumeRespOpenApiSchema,
+    PublicResumeParamOpenApiSchema,
+    PublicResumeParamSchema,
+    PublicResumeParamType,
+} from '@resume/resume-craft-api-contracts';
+import { GetPublicResumeService } from './services';
+
+/**
+ * Serves resumes to anyone holding a share link. Password protected links expect the password in
+ * `HEADERS.SHARE_LINK_PASSWORD`, so it does not end up in access logs.
+ */
+@Controller('public/resumes')
+@PublicRoute()
+@Injectable({ scope: Scope.REQUEST })
+export class PublicResumeController {
+    private readonly logger = LoggerFactory.getLogger(PublicResumeController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly getPublicResumeService: GetPublicResumeService
+    ) {
+        this.logger.debug(`${PublicResumeController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetPublicResume',
+        tags: ['Share Links'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: PublicResumeParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetPublicResumeRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':token')
+    async getPublicResume(
+        @Param(new SchemaAjvValidationPipe(PublicResumeParamSchema)) { token }: PublicResumeParamType,
+        @Headers(HEADERS.SHARE_LINK_PASSWORD) password?: string
+    ) {
+        const { context } = this.request;
+        const result = await this.getPublicResumeService.getPublicResume(context, token, password);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Resume fetched successfully.',
+        };
+    }
+}
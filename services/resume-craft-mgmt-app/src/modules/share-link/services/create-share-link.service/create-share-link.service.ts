@@ -0,0 +1,77 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { CreateShareLinkRequestType, CreateShareLinkResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    generateShareToken,
+    generateUUIDV4,
+    hashPassword,
+    hashShareToken,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    ShareLinkDbService,
+} from '@resume/resume-craft-common';
+import { toShareLinkResponse } from '../../helpers';
+
+@Injectable()
+export class CreateShareLinkService {
+    private readonly logger = LoggerFactory.getLogger(CreateShareLinkService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly shareLinkDbService: ShareLinkDbService
+    ) {
+        this.logger.debug(`${CreateShareLinkService.name} Initialized`);
+    }
+
+    /**
+     * The token is returned once, only its hash is stored.
+     */
+    async createShareLink(
+        context: RequestContext,
+        resumeId: string,
+        createRequest: CreateShareLinkRequestType
+    ): Promise<Pick<CreateShareLinkResponseType, 'result'>> {
+        try {
+            const { expiresAt, password, maxViews } = createRequest;
+            if (expiresAt && expiresAt <= Date.now()) {
+                throw new ResumeCraftException(ErrorCode.INVALID_INPUT, {
+                    message: 'Share link expiry must be in the future',
+                    details: { expiresAt },
+                });
+            }
+
+            const resume = await this.resumeDbService.findOne(context, {
+                condition: { resumeId, userId: context.userId },
+            });
+            if (!resume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const token = generateShareToken();
+            const shareLink = await this.shareLinkDbService.create(context, {
+                shareLinkId: generateUUIDV4(),
+                resumeId,
+                owner: resume.owner,
+                tokenHash: hashShareToken(token),
+                passwordHash: password ? await hashPassword(password) : null,
+                expiresAt: expiresAt ?? null,
+                maxViews: maxViews ?? null,
+                viewCount: 0,
+                createdBy: context.userId,
+            });
+
+            return {
+                result: toShareLinkResponse(shareLink, token),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while creating the share link ${error.message}`,
+                resumeId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
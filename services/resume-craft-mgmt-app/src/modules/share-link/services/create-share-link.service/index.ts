@@ -0,0 +1 @@
+export * from './create-share-link.service';
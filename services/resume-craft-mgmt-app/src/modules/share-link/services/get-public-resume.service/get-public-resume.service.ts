@@ -0,0 +1,72 @@
+import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+
+import { GetPublicResumeResponseType, ShareLinkStatus } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    hashShareToken,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    ShareLinkDbService,
+    verifyPassword,
+} from '@resume/resume-craft-common';
+import { getShareLinkStatus, toPublicResumeResponse } from '../../helpers';
+
+const SHARE_LINK_NOT_FOUND_MESSAGE = 'Share link does not exist or is no longer active.';
+
+@Injectable()
+export class GetPublicResumeService {
+    private readonly logger = LoggerFactory.getLogger(GetPublicResumeService.name);
+
+    constructor(
+        private readonly shareLinkDbService: ShareLinkDbService,
+        private readonly resumeDbService: ResumeDbService
+    ) {
+        this.logger.debug(`${GetPublicResumeService.name} Initialized`);
+    }
+
+    /**
+     * Unknown, revoked, expired and used up links all look the same to the viewer. A view is only counted
+     * once the password has been checked and the resume has been found.
+     */
+    async getPublicResume(
+        context: RequestContext,
+        token: string,
+        password?: string
+    ): Promise<Pick<GetPublicResumeResponseType, 'result'>> {
+        try {
+            const shareLink = await this.shareLinkDbService.findByTokenHash(context, hashShareToken(token));
+            if (!shareLink || getShareLinkStatus(shareLink) !== ShareLinkStatus.Active) {
+                throw new NotFoundException(SHARE_LINK_NOT_FOUND_MESSAGE);
+            }
+
+            if (shareLink.passwordHash && !(password && (await verifyPassword(password, shareLink.passwordHash)))) {
+                throw new UnauthorizedException('A valid password is required to view this resume.');
+            }
+
+            // The viewer is anonymous, the resume is read on behalf of its owner.
+            const ownerContext = { ...context, userId: shareLink.owner.userId };
+            const resume = await this.resumeDbService.findOne(ownerContext, {
+                condition: { resumeId: shareLink.resumeId, userId: shareLink.owner.userId },
+            });
+            if (!resume) {
+                throw new NotFoundException(SHARE_LINK_NOT_FOUND_MESSAGE);
+            }
+
+            const viewedShareLink = await this.shareLinkDbService.recordView(context, shareLink.shareLinkId);
+            if (!viewedShareLink) {
+                throw new NotFoundException(SHARE_LINK_NOT_FOUND_MESSAGE);
+            }
+
+            return {
+                result: toPublicResumeResponse(resume),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching the shared resume ${error.message}`,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,4 @@
+export * from './create-share-link.service';
+export * from './list-share-links.service';
+export * from './revoke-share-link.service';
+export * from './get-public-resume.service';
@@ -0,0 +1 @@
+export * from './list-share-links.service';
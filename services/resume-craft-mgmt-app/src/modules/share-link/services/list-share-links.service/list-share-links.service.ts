@@ -0,0 +1,65 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { ListShareLinksRequestType, ListShareLinksResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    ResumeCraftException,
+    ResumeDbService,
+    ShareLink,
+    ShareLinkDbService,
+} from '@resume/resume-craft-common';
+import { toShareLinkResponse } from '../../helpers';
+
+@Injectable()
+export class ListShareLinksService {
+    private readonly logger = LoggerFactory.getLogger(ListShareLinksService.name);
+
+    constructor(
+        private readonly resumeDbService: ResumeDbService,
+        private readonly shareLinkDbService: ShareLinkDbService
+    ) {
+        this.logger.debug(`${ListShareLinksService.name} Initialized`);
+    }
+
+    async listShareLinks(
+        context: RequestContext,
+        resumeId: string,
+        listRequest: ListShareLinksRequestType
+    ): Promise<Pick<ListShareLinksResponseType, 'result'>> {
+        try {
+            const isExistingResume = await this.resumeDbService.exists(context, { resumeId, userId: context.userId });
+            if (!isExistingResume) {
+                throw new NotFoundException('Resume does not exist.');
+            }
+
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<ListShareLinksRequestType, ShareLink>(
+                (payload, size) =>
+                    this.shareLinkDbService.listShareLinks(
+                        context,
+                        { ...payload, resumeId, userId: context.userId },
+                        size
+                    ),
+                listRequest,
+                ['createdAt', 'shareLinkId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map((shareLink) => toShareLinkResponse(shareLink)),
+                    size: pageSize,
+                    nextPageToken,
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the share links ${error.message}`,
+                resumeId,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './revoke-share-link.service';
@@ -0,0 +1,58 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { RevokeShareLinkResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    ShareLinkDbService,
+} from '@resume/resume-craft-common';
+import { toShareLinkResponse } from '../../helpers';
+
+/**
+ * Revoked links are kept, so their view count stays visible to the owner. Revoking twice is a no-op.
+ */
+@Injectable()
+export class RevokeShareLinkService {
+    private readonly logger = LoggerFactory.getLogger(RevokeShareLinkService.name);
+
+    constructor(private readonly shareLinkDbService: ShareLinkDbService) {
+        this.logger.debug(`${RevokeShareLinkService.name} Initialized`);
+    }
+
+    async revokeShareLink(
+        context: RequestContext,
+        resumeId: string,
+        shareLinkId: string
+    ): Promise<Pick<RevokeShareLinkResponseType, 'result'>> {
+        try {
+            const condition = { shareLinkId, resumeId, userId: context.userId };
+            const shareLink = await this.shareLinkDbService.findOne(context, { condition });
+            if (!shareLink) {
+                throw new NotFoundException('Share link does not exist.');
+            }
+
+            if (shareLink.revokedAt) {
+                return {
+                    result: toShareLinkResponse(shareLink),
+                };
+            }
+
+            const revokedShareLink = await this.shareLinkDbService.updateOne(context, condition, {
+                revokedAt: Date.now(),
+            });
+
+            return {
+                result: toShareLinkResponse(revokedShareLink),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while revoking the share link ${error.message}`,
+                resumeId,
+                shareLinkId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,140 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Param,
+    Post,
+    Query,
+    Scope,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    LoggerFactory,
+    ResumeCraftRequest,
+    SchemaAjvValidationPipe,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    CreateShareLinkReqOpenApiSchema,
+    CreateShareLinkRequestSchema,
+    CreateShareLinkRequestType,
+    CreateShareLinkRespOpenApiSchema,
+    ErrorResponseOpenApiSchema,
+    ListShareLinksReqOpenApiSchema,
+    ListShareLinksRequestSchema,
+    ListShareLinksRequestType,
+    ListShareLinksRespOpenApiSchema,
+    ResumeIdParamOpenApiSchema,
+    ResumeIdParamSchema,
+    ResumeIdParamType,
+    RevokeShareLinkRespOpenApiSchema,
+    ShareLinkParamOpenApiSchema,
+    ShareLinkParamSchema,
+    ShareLinkParamType,
+} from '@resume/resume-craft-api-contracts';
+import { CreateShareLinkService, ListShareLinksService, RevokeShareLinkService } from './services';
+
+@Controller('resumes')
+@Injectable({ scope: Scope.REQUEST })
+export class ShareLinkController {
+    private readonly logger = LoggerFactory.getLogger(ShareLinkController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly createShareLinkService: CreateShareLinkService,
+        private readonly listShareLinksService: ListShareLinksService,
+        private readonly revokeShareLinkService: RevokeShareLinkService
+    ) {
+        this.logger.debug(`${ShareLinkController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'CreateShareLink',
+        tags: ['Share Links'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiBodySchema: CreateShareLinkReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: CreateShareLinkRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post(':resumeId/share-links')
+    async createShareLink(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Body(new SchemaAjvValidationPipe(CreateShareLinkRequestSchema))
+        createShareLinkRequest: CreateShareLinkRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.createShareLinkService.createShareLink(context, resumeId, createShareLinkRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Share link created successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetShareLinkList',
+        tags: ['Share Links'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ResumeIdParamOpenApiSchema,
+        apiQuerySchema: ListShareLinksReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListShareLinksRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':resumeId/share-links')
+    async listShareLinks(
+        @Param(new SchemaAjvValidationPipe(ResumeIdParamSchema)) { resumeId }: ResumeIdParamType,
+        @Query(new SchemaAjvValidationPipe(ListShareLinksRequestSchema))
+        listShareLinksRequest: ListShareLinksRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.listShareLinksService.listShareLinks(context, resumeId, listShareLinksRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Share link list fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'RevokeShareLink',
+        tags: ['Share Links'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: ShareLinkParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: RevokeShareLinkRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Delete(':resumeId/share-links/:shareLinkId')
+    async revokeShareLink(
+        @Param(new SchemaAjvValidationPipe(ShareLinkParamSchema)) { resumeId, shareLinkId }: ShareLinkParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.revokeShareLinkService.revokeShareLink(context, resumeId, shareLinkId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Share link revoked successfully.',
+        };
+    }
+}
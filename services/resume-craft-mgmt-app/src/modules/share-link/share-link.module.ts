@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+
+import { PublicResumeController } from './public-resume.controller';
+import { ShareLinkController } from './share-link.controller';
+import {
+    CreateShareLinkService,
+    GetPublicResumeService,
+    ListShareLinksService,
+    RevokeShareLinkService,
+} from './services';
+import { ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule],
+    controllers: [ShareLinkController, PublicResumeController],
+    providers: [CreateShareLinkService, ListShareLinksService, RevokeShareLinkService, GetPublicResumeService],
+})
+export class ShareLinkModule {}
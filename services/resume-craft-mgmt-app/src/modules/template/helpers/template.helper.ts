@@ -0,0 +1,13 @@
+import { TemplateType } from '@resume/resume-craft-api-contracts';
+import { Template } from '@resume/resume-craft-common';
+
+export const toTemplateResponse = (template: Template): TemplateType => ({
+    templateId: template.templateId,
+    name: template.name,
+    slug: template.slug,
+    category: template.category,
+    supportedSections: template.supportedSections,
+    styleTokens: template.styleTokens,
+    version: template.version,
+    createdAt: template.createdAt,
+});
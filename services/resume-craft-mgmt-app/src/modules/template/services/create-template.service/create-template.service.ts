@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+
+import { CreateTemplateRequestType, CreateTemplateResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    generateSlug,
+    generateUUIDV4,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    Template,
+    TemplateDbService,
+    TemplateStyleTokens,
+} from '@resume/resume-craft-common';
+import { toTemplateResponse } from '../../helpers';
+
+@Injectable()
+export class CreateTemplateService {
+    private readonly logger = LoggerFactory.getLogger(CreateTemplateService.name);
+
+    constructor(private readonly templateDbService: TemplateDbService) {
+        this.logger.debug(`${CreateTemplateService.name} Initialized`);
+    }
+
+    async createTemplate(
+        context: RequestContext,
+        createRequest: CreateTemplateRequestType
+    ): Promise<Pick<CreateTemplateResponseType, 'result'>> {
+        try {
+            const slug = generateSlug(createRequest.name);
+            const isSlugTaken = await this.templateDbService.exists(context, {
+                slug,
+                isLatest: true,
+                userId: context.userId,
+            });
+            if (isSlugTaken) {
+                throw new ResumeCraftException(ErrorCode.DUPLICATE_RESOURCE, {
+                    message: 'A template with the same name already exists',
+                    details: { slug },
+                });
+            }
+
+            const template = await this.templateDbService.create(
+                context,
+                this._buildTemplateData(context, createRequest, slug)
+            );
+
+            return {
+                result: toTemplateResponse(template),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while creating the template ${error.message}`,
+                createRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    private _buildTemplateData(
+        context: RequestContext,
+        createRequest: CreateTemplateRequestType,
+        slug: string
+    ): Template {
+        return {
+            templateId: generateUUIDV4(),
+            name: createRequest.name,
+            slug,
+            category: createRequest.category,
+            supportedSections: createRequest.supportedSections as Template['supportedSections'],
+            styleTokens: createRequest.styleTokens as TemplateStyleTokens,
+            version: 1,
+            isLatest: true,
+            createdBy: context.userId,
+        };
+    }
+}
@@ -0,0 +1 @@
+export * from './create-template.service';
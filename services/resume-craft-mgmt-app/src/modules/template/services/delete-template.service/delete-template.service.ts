@@ -0,0 +1,47 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { DeleteTemplateResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    TemplateDbService,
+} from '@resume/resume-craft-common';
+
+@Injectable()
+export class DeleteTemplateService {
+    private readonly logger = LoggerFactory.getLogger(DeleteTemplateService.name);
+
+    constructor(private readonly templateDbService: TemplateDbService) {
+        this.logger.debug(`${DeleteTemplateService.name} Initialized`);
+    }
+
+    /**
+     * Soft deletes every version of the template. Resumes pinned to one of them fall back to the default layout.
+     */
+    async deleteTemplate(
+        context: RequestContext,
+        templateId: string
+    ): Promise<Pick<DeleteTemplateResponseType, 'result'>> {
+        try {
+            const condition = { templateId, userId: context.userId };
+            const isExistingTemplate = await this.templateDbService.exists(context, condition);
+            if (!isExistingTemplate) {
+                throw new NotFoundException('Template does not exist.');
+            }
+
+            await this.templateDbService.deleteMany(context, condition);
+
+            return {
+                result: { templateId },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while deleting the template ${error.message}`,
+                templateId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
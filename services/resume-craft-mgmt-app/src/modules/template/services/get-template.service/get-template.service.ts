@@ -0,0 +1,40 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { GetTemplateResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    TemplateDbService,
+} from '@resume/resume-craft-common';
+import { toTemplateResponse } from '../../helpers';
+
+@Injectable()
+export class GetTemplateService {
+    private readonly logger = LoggerFactory.getLogger(GetTemplateService.name);
+
+    constructor(private readonly templateDbService: TemplateDbService) {
+        this.logger.debug(`${GetTemplateService.name} Initialized`);
+    }
+
+    async getTemplate(context: RequestContext, templateId: string): Promise<Pick<GetTemplateResponseType, 'result'>> {
+        try {
+            const template = await this.templateDbService.findLatestVersion(context, templateId);
+
+            if (!template) {
+                throw new NotFoundException('Template does not exist.');
+            }
+
+            return {
+                result: toTemplateResponse(template),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching the template ${error.message}`,
+                templateId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,5 @@
+export * from './create-template.service';
+export * from './list-templates.service';
+export * from './get-template.service';
+export * from './update-template.service';
+export * from './delete-template.service';
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+
+import { ListTemplatesRequestType, ListTemplatesResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    ResumeCraftException,
+    Template,
+    TemplateDbService,
+} from '@resume/resume-craft-common';
+import { toTemplateResponse } from '../../helpers';
+
+@Injectable()
+export class ListTemplatesService {
+    private readonly logger = LoggerFactory.getLogger(ListTemplatesService.name);
+
+    constructor(private readonly templateDbService: TemplateDbService) {
+        this.logger.debug(`${ListTemplatesService.name} Initialized`);
+    }
+
+    async listTemplates(
+        context: RequestContext,
+        listRequest: ListTemplatesRequestType
+    ): Promise<Pick<ListTemplatesResponseType, 'result'>> {
+        try {
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<ListTemplatesRequestType, Template>(
+                (payload, size) =>
+                    this.templateDbService.listTemplates(context, { ...payload, userId: context.userId }, size),
+                listRequest,
+                ['name', 'templateId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toTemplateResponse),
+                    size: pageSize,
+                    nextPageToken,
+                    ...(listRequest.q ? { q: listRequest.q } : {}),
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the templates ${error.message}`,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
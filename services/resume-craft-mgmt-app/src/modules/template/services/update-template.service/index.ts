@@ -0,0 +1 @@
+export * from './update-template.service';
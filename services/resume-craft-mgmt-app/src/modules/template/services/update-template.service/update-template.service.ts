@@ -0,0 +1,105 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+
+import { UpdateTemplateRequestType, UpdateTemplateResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    DbService,
+    ErrorCode,
+    generateSlug,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    Template,
+    TemplateDbService,
+    TemplateStyleTokens,
+} from '@resume/resume-craft-common';
+import { toTemplateResponse } from '../../helpers';
+
+/**
+ * Template versions are immutable. An update publishes the next version and retires the current one,
+ * so resumes pinned to the current version keep their look until they are re-pinned.
+ */
+@Injectable()
+export class UpdateTemplateService {
+    private readonly logger = LoggerFactory.getLogger(UpdateTemplateService.name);
+
+    constructor(
+        private readonly templateDbService: TemplateDbService,
+        private readonly dbService: DbService
+    ) {
+        this.logger.debug(`${UpdateTemplateService.name} Initialized`);
+    }
+
+    async updateTemplate(
+        context: RequestContext,
+        templateId: string,
+        updateRequest: UpdateTemplateRequestType
+    ): Promise<Pick<UpdateTemplateResponseType, 'result'>> {
+        try {
+            const currentTemplate = await this.templateDbService.findLatestVersion(context, templateId);
+            if (!currentTemplate) {
+                throw new NotFoundException('Template does not exist.');
+            }
+
+            const slug = updateRequest.name ? generateSlug(updateRequest.name) : currentTemplate.slug;
+            if (slug !== currentTemplate.slug) {
+                const isSlugTaken = await this.templateDbService.exists(context, {
+                    slug,
+                    isLatest: true,
+                    userId: context.userId,
+                });
+                if (isSlugTaken) {
+                    throw new ResumeCraftException(ErrorCode.DUPLICATE_RESOURCE, {
+                        message: 'A template with the same name already exists',
+                        details: { slug },
+                    });
+                }
+            }
+
+            return await this.dbService.withManualTransaction(async (session: ClientSession) => {
+                await this.templateDbService.updateOne(
+                    context,
+                    { templateId, version: currentTemplate.version, userId: context.userId },
+                    { isLatest: false },
+                    { session }
+                );
+                const template = await this.templateDbService.create(
+                    context,
+                    this._buildNextVersion(context, currentTemplate, updateRequest, slug),
+                    { session }
+                );
+
+                return {
+                    result: toTemplateResponse(template),
+                };
+            });
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while updating the template ${error.message}`,
+                templateId,
+                updateRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+
+    private _buildNextVersion(
+        context: RequestContext,
+        currentTemplate: Template,
+        updateRequest: UpdateTemplateRequestType,
+        slug: string
+    ): Template {
+        return {
+            templateId: currentTemplate.templateId,
+            name: updateRequest.name ?? currentTemplate.name,
+            slug,
+            category: updateRequest.category ?? currentTemplate.category,
+            supportedSections: (updateRequest.supportedSections ??
+                currentTemplate.supportedSections) as Template['supportedSections'],
+            styleTokens: (updateRequest.styleTokens ?? currentTemplate.styleTokens) as TemplateStyleTokens,
+            version: currentTemplate.version + 1,
+            isLatest: true,
+            createdBy: context.userId,
+        };
+    }
+}
@@ -0,0 +1,207 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Param,
+    Patch,
+    Post,
+    Query,
+    Scope,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import {
+    ApiDocumentationDecorator,
+    LoggerFactory,
+    PublicRoute,
+    ResumeCraftRequest,
+    Roles,
+    SchemaAjvValidationPipe,
+    UserRole,
+} from '@resume/resume-craft-common';
+
+import {
+    ApiStatus,
+    CreateTemplateReqOpenApiSchema,
+    CreateTemplateRequestSchema,
+    CreateTemplateRequestType,
+    CreateTemplateRespOpenApiSchema,
+    DeleteTemplateRespOpenApiSchema,
+    ErrorResponseOpenApiSchema,
+    GetTemplateRespOpenApiSchema,
+    ListTemplatesReqOpenApiSchema,
+    ListTemplatesRequestSchema,
+    ListTemplatesRequestType,
+    ListTemplatesRespOpenApiSchema,
+    TemplateIdParamOpenApiSchema,
+    TemplateIdParamSchema,
+    TemplateIdParamType,
+    UpdateTemplateReqOpenApiSchema,
+    UpdateTemplateRequestSchema,
+    UpdateTemplateRequestType,
+    UpdateTemplateRespOpenApiSchema,
+} from '@resume/resume-craft-api-contracts';
+import {
+    CreateTemplateService,
+    DeleteTemplateService,
+    GetTemplateService,
+    ListTemplatesService,
+    UpdateTemplateService,
+} from './services';
+
+@Controller('templates')
+@Injectable({ scope: Scope.REQUEST })
+export class TemplateController {
+    private readonly logger = LoggerFactory.getLogger(TemplateController.name);
+
+    constructor(
+        @Inject(REQUEST) private readonly request: ResumeCraftRequest,
+        private readonly createTemplateService: CreateTemplateService,
+        private readonly listTemplatesService: ListTemplatesService,
+        private readonly getTemplateService: GetTemplateService,
+        private readonly updateTemplateService: UpdateTemplateService,
+        private readonly deleteTemplateService: DeleteTemplateService
+    ) {
+        this.logger.debug(`${TemplateController.name} Initialized`);
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetTemplateList',
+        tags: ['Templates'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiQuerySchema: ListTemplatesReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: ListTemplatesRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get()
+    @PublicRoute()
+    async listTemplates(
+        @Query(new SchemaAjvValidationPipe(ListTemplatesRequestSchema)) listTemplatesRequest: ListTemplatesRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.listTemplatesService.listTemplates(context, listTemplatesRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Template list fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'CreateTemplate',
+        tags: ['Templates'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiBodySchema: CreateTemplateReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: CreateTemplateRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Post()
+    @Roles(UserRole.Admin)
+    async createTemplate(
+        @Body(new SchemaAjvValidationPipe(CreateTemplateRequestSchema)) createTemplateRequest: CreateTemplateRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.createTemplateService.createTemplate(context, createTemplateRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Template created successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetTemplate',
+        tags: ['Templates'],
+        isHeadersRequired: false,
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: TemplateIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetTemplateRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':templateId')
+    @PublicRoute()
+    async getTemplate(@Param(new SchemaAjvValidationPipe(TemplateIdParamSchema)) { templateId }: TemplateIdParamType) {
+        const { context } = this.request;
+        const result = await this.getTemplateService.getTemplate(context, templateId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Template fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'UpdateTemplate',
+        tags: ['Templates'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: TemplateIdParamOpenApiSchema,
+        apiBodySchema: UpdateTemplateReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: UpdateTemplateRespOpenApiSchema,
+                description: 'Success response, the result is the newly published version',
+            },
+        ],
+    })
+    @Patch(':templateId')
+    @Roles(UserRole.Admin)
+    async updateTemplate(
+        @Param(new SchemaAjvValidationPipe(TemplateIdParamSchema)) { templateId }: TemplateIdParamType,
+        @Body(new SchemaAjvValidationPipe(UpdateTemplateRequestSchema)) updateTemplateRequest: UpdateTemplateRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.updateTemplateService.updateTemplate(context, templateId, updateTemplateRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Template updated successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'DeleteTemplate',
+        tags: ['Templates'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: TemplateIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: DeleteTemplateRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Delete(':templateId')
+    @Roles(UserRole.Admin)
+    async deleteTemplate(
+        @Param(new SchemaAjvValidationPipe(TemplateIdParamSchema)) { templateId }: TemplateIdParamType
+    ) {
+        const { context } = this.request;
+        const result = await this.deleteTemplateService.deleteTemplate(context, templateId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'Template deleted successfully.',
+        };
+    }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+
+import { TemplateController } from './template.controller';
+import {
+    CreateTemplateService,
+    DeleteTemplateService,
+    GetTemplateService,
+    ListTemplatesService,
+    UpdateTemplateService,
+} from './services';
+import { ODMModule } from '@resume/resume-craft-common';
+
+@Module({
+    imports: [ODMModule],
+    controllers: [TemplateController],
+    providers: [
+        CreateTemplateService,
+        ListTemplatesService,
+        GetTemplateService,
+        UpdateTemplateService,
+        DeleteTemplateService,
+    ],
+})
+export class TemplateModule {}
@@ -0,0 +1,19 @@
+import { UserType } from '@resume/resume-craft-api-contracts';
+import { ErrorCode, RequestContext, ResumeCraftException, User, UserRole } from '@resume/resume-craft-common';
+
+export const toUserResponse = (user: User): UserType => ({
+    userId: user.userId,
+    name: user.name,
+    ...(user.profileImageUrl ? { profileImageUrl: user.profileImageUrl } : {}),
+});
+
+/**
+ * Users may only change their own account, admins may change any.
+ */
+export const assertCanManageUser = (context: RequestContext, userId: string) => {
+    if (context.userRole !== UserRole.Admin && context.userId !== userId) {
+        throw new ResumeCraftException(ErrorCode.AUTHORIZATION_ERROR, {
+            message: 'Users can only manage their own account',
+        });
+    }
+};
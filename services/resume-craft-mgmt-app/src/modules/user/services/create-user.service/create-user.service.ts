@@ -30,7 +30,7 @@ export class CreateUserService {
         try {
             return await this.dbService.withManualTransaction(async (session: ClientSession) => {
                 const userData = await this._buildUserData(context, createRequest);
-                const user = await this.userDbService.create(context, userData, session);
+                const user = await this.userDbService.create(context, userData, { session });
 
                 return {
                     result: {
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+
+import { DeleteUserResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    UserDbService,
+} from '@resume/resume-craft-common';
+import { assertCanManageUser } from '../../helpers';
+
+@Injectable()
+export class DeleteUserService {
+    private readonly logger = LoggerFactory.getLogger(DeleteUserService.name);
+
+    constructor(private readonly userDbService: UserDbService) {
+        this.logger.debug(`${DeleteUserService.name} Initialized`);
+    }
+
+    async deleteUser(context: RequestContext, userId: string): Promise<Pick<DeleteUserResponseType, 'result'>> {
+        try {
+            assertCanManageUser(context, userId);
+            await this.userDbService.deleteOne(context, { userId });
+
+            return {
+                result: { userId },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while deleting the user ${error.message}`,
+                userId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
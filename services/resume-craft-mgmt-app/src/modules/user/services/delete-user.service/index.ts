@@ -0,0 +1 @@
+export * from './delete-user.service';
@@ -0,0 +1,42 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { GetUserProfileResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    UserDbService,
+} from '@resume/resume-craft-common';
+import { toUserResponse } from '../../helpers';
+
+@Injectable()
+export class GetUserService {
+    private readonly logger = LoggerFactory.getLogger(GetUserService.name);
+
+    constructor(private readonly userDbService: UserDbService) {
+        this.logger.debug(`${GetUserService.name} Initialized`);
+    }
+
+    async getUser(context: RequestContext, userId: string): Promise<Pick<GetUserProfileResponseType, 'result'>> {
+        try {
+            const user = await this.userDbService.findOne(context, {
+                condition: { userId },
+            });
+
+            if (!user) {
+                throw new NotFoundException('User does not exist.');
+            }
+
+            return {
+                result: toUserResponse(user),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while fetching the user ${error.message}`,
+                userId,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
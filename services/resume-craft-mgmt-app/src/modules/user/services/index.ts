@@ -1 +1,6 @@
 export * from './create-user.service';
+export * from './list-users.service';
+export * from './get-user.service';
+export * from './update-user.service';
+export * from './delete-user.service';
+export * from './update-user-role.service';
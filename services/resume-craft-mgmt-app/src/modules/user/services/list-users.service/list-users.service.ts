@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+
+import { ListUsersRequestType, ListUsersResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    paginateWithCursor,
+    RequestContext,
+    ResumeCraftException,
+    User,
+    UserDbService,
+} from '@resume/resume-craft-common';
+import { toUserResponse } from '../../helpers';
+
+@Injectable()
+export class ListUsersService {
+    private readonly logger = LoggerFactory.getLogger(ListUsersService.name);
+
+    constructor(private readonly userDbService: UserDbService) {
+        this.logger.debug(`${ListUsersService.name} Initialized`);
+    }
+
+    async listUsers(
+        context: RequestContext,
+        listRequest: ListUsersRequestType
+    ): Promise<Pick<ListUsersResponseType, 'result'>> {
+        try {
+            const { items, pageSize, nextPageToken } = await paginateWithCursor<ListUsersRequestType, User>(
+                (payload, size) => this.userDbService.listUsers(context, { ...payload, size }),
+                listRequest,
+                ['name', 'userId']
+            );
+
+            return {
+                result: {
+                    listOfItems: items.map(toUserResponse),
+                    size: pageSize,
+                    nextPageToken,
+                    ...(listRequest.q ? { q: listRequest.q } : {}),
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while listing the users ${error.message}`,
+                listRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import {
+    UpdateUserRoleRequestType,
+    UpdateUserRoleResponseType,
+    UserRoleType,
+} from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    User,
+    UserDbService,
+} from '@resume/resume-craft-common';
+
+@Injectable()
+export class UpdateUserRoleService {
+    private readonly logger = LoggerFactory.getLogger(UpdateUserRoleService.name);
+
+    constructor(private readonly userDbService: UserDbService) {
+        this.logger.debug(`${UpdateUserRoleService.name} Initialized`);
+    }
+
+    /**
+     * The new role is carried by access tokens issued from the next login or refresh onwards.
+     */
+    async updateUserRole(
+        context: RequestContext,
+        userId: string,
+        updateRequest: UpdateUserRoleRequestType
+    ): Promise<Pick<UpdateUserRoleResponseType, 'result'>> {
+        try {
+            const isExistingUser = await this.userDbService.exists(context, { userId });
+            if (!isExistingUser) {
+                throw new NotFoundException('User does not exist.');
+            }
+
+            const user = await this.userDbService.updateOne(
+                context,
+                { userId },
+                { role: updateRequest.role as User['role'] }
+            );
+
+            return {
+                result: {
+                    userId: user.userId,
+                    role: updateRequest.role as UserRoleType['role'],
+                },
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while updating the user role ${error.message}`,
+                userId,
+                updateRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { UpdateUserRequestType, UpdateUserResponseType } from '@resume/resume-craft-api-contracts';
+import {
+    ErrorCode,
+    LoggerFactory,
+    RequestContext,
+    ResumeCraftException,
+    UserDbService,
+} from '@resume/resume-craft-common';
+import { assertCanManageUser, toUserResponse } from '../../helpers';
+
+@Injectable()
+export class UpdateUserService {
+    private readonly logger = LoggerFactory.getLogger(UpdateUserService.name);
+
+    constructor(private readonly userDbService: UserDbService) {
+        this.logger.debug(`${UpdateUserService.name} Initialized`);
+    }
+
+    async updateUser(
+        context: RequestContext,
+        userId: string,
+        updateRequest: UpdateUserRequestType
+    ): Promise<Pick<UpdateUserResponseType, 'result'>> {
+        try {
+            assertCanManageUser(context, userId);
+
+            const isExistingUser = await this.userDbService.exists(context, { userId });
+            if (!isExistingUser) {
+                throw new NotFoundException('User does not exist.');
+            }
+
+            const user = await this.userDbService.updateOne(context, { userId }, updateRequest);
+
+            return {
+                result: toUserResponse(user),
+            };
+        } catch (error) {
+            this.logger.error({
+                ref: `Error: while updating the user ${error.message}`,
+                userId,
+                updateRequest,
+            });
+            throw ResumeCraftException.fromError(error, ErrorCode.UNEXPECTED_ERROR);
+        }
+    }
+}
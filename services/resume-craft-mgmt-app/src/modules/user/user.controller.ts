@@ -1,16 +1,59 @@
-import { Body, Controller, Get, HttpStatus, Inject, Injectable, Post, Scope } from '@nestjs/common';
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Param,
+    Patch,
+    Post,
+    Query,
+    Scope,
+} from '@nestjs/common';
 import { REQUEST } from '@nestjs/core';
-import { ResumeCraftRequest, LoggerFactory, ApiDocumentationDecorator } from '@resume/resume-craft-common';
+import {
+    ResumeCraftRequest,
+    LoggerFactory,
+    ApiDocumentationDecorator,
+    Roles,
+    SchemaAjvValidationPipe,
+    UserRole,
+} from '@resume/resume-craft-common';
 
 import {
     ApiStatus,
     CreateUserReqOpenApiSchema,
     CreateUserRequestType,
     CreateUserRespOpenApiSchema,
+    DeleteUserRespOpenApiSchema,
     ErrorResponseOpenApiSchema,
     GetUserProfileSuccessRespOpenApiSchema,
+    ListUsersReqOpenApiSchema,
+    ListUsersRequestSchema,
+    ListUsersRequestType,
+    ListUsersRespOpenApiSchema,
+    UpdateUserReqOpenApiSchema,
+    UpdateUserRequestSchema,
+    UpdateUserRequestType,
+    UpdateUserRespOpenApiSchema,
+    UpdateUserRoleReqOpenApiSchema,
+    UpdateUserRoleRequestSchema,
+    UpdateUserRoleRequestType,
+    UpdateUserRoleRespOpenApiSchema,
+    UserIdParamOpenApiSchema,
+    UserIdParamSchema,
+    UserIdParamType,
 } from '@resume/resume-craft-api-contracts';
-import { CreateUserService } from './services';
+import {
+    CreateUserService,
+    DeleteUserService,
+    GetUserService,
+    ListUsersService,
+    UpdateUserRoleService,
+    UpdateUserService,
+} from './services';
 
 @Controller('users')
 @Injectable({ scope: Scope.REQUEST })
@@ -19,7 +62,12 @@ export class UserController {
 
     constructor(
         @Inject(REQUEST) private readonly request: ResumeCraftRequest,
-        private readonly createUserService: CreateUserService
+        private readonly createUserService: CreateUserService,
+        private readonly listUsersService: ListUsersService,
+        private readonly getUserService: GetUserService,
+        private readonly updateUserService: UpdateUserService,
+        private readonly deleteUserService: DeleteUserService,
+        private readonly updateUserRoleService: UpdateUserRoleService
     ) {
         this.logger.debug(`${UserController.name} Initialized`);
     }
@@ -28,24 +76,25 @@ export class UserController {
         apiName: 'GetUserList',
         tags: ['Users'],
         errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiQuerySchema: ListUsersReqOpenApiSchema,
         apiResponses: [
             {
                 status: HttpStatus.OK,
-                schema: GetUserProfileSuccessRespOpenApiSchema,
+                schema: ListUsersRespOpenApiSchema,
                 description: 'Success response',
             },
         ],
     })
     @Get()
-    async listOfUsers() {
+    @Roles(UserRole.Admin)
+    async listOfUsers(
+        @Query(new SchemaAjvValidationPipe(ListUsersRequestSchema)) listUsersRequest: ListUsersRequestType
+    ) {
         const { context } = this.request;
-        console.log('context', context);
-        // TODO: Implement user list functionality
+        const result = await this.listUsersService.listUsers(context, listUsersRequest);
         return {
             status: ApiStatus.SUCCESS,
-            result: {
-                users: [],
-            },
+            result: result.result,
             message: 'User list fetched successfully.',
         };
     }
@@ -64,6 +113,7 @@ export class UserController {
         ],
     })
     @Post()
+    @Roles(UserRole.Admin)
     async createUser(@Body() createUserRequest: CreateUserRequestType) {
         const { context } = this.request;
         const result = await this.createUserService.createUser(context, createUserRequest);
@@ -73,4 +123,109 @@ export class UserController {
             message: 'User created successfully.',
         };
     }
+
+    @ApiDocumentationDecorator({
+        apiName: 'GetUser',
+        tags: ['Users'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: UserIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: GetUserProfileSuccessRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Get(':userId')
+    async getUser(@Param(new SchemaAjvValidationPipe(UserIdParamSchema)) { userId }: UserIdParamType) {
+        const { context } = this.request;
+        const result = await this.getUserService.getUser(context, userId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'User fetched successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'UpdateUser',
+        tags: ['Users'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: UserIdParamOpenApiSchema,
+        apiBodySchema: UpdateUserReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: UpdateUserRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Patch(':userId')
+    async updateUser(
+        @Param(new SchemaAjvValidationPipe(UserIdParamSchema)) { userId }: UserIdParamType,
+        @Body(new SchemaAjvValidationPipe(UpdateUserRequestSchema)) updateUserRequest: UpdateUserRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.updateUserService.updateUser(context, userId, updateUserRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'User updated successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'UpdateUserRole',
+        tags: ['Users'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: UserIdParamOpenApiSchema,
+        apiBodySchema: UpdateUserRoleReqOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: UpdateUserRoleRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Patch(':userId/role')
+    @Roles(UserRole.Admin)
+    async updateUserRole(
+        @Param(new SchemaAjvValidationPipe(UserIdParamSchema)) { userId }: UserIdParamType,
+        @Body(new SchemaAjvValidationPipe(UpdateUserRoleRequestSchema)) updateUserRoleRequest: UpdateUserRoleRequestType
+    ) {
+        const { context } = this.request;
+        const result = await this.updateUserRoleService.updateUserRole(context, userId, updateUserRoleRequest);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'User role updated successfully.',
+        };
+    }
+
+    @ApiDocumentationDecorator({
+        apiName: 'DeleteUser',
+        tags: ['Users'],
+        errorResponseSchema: ErrorResponseOpenApiSchema,
+        apiParamSchema: UserIdParamOpenApiSchema,
+        apiResponses: [
+            {
+                status: HttpStatus.OK,
+                schema: DeleteUserRespOpenApiSchema,
+                description: 'Success response',
+            },
+        ],
+    })
+    @Delete(':userId')
+    async deleteUser(@Param(new SchemaAjvValidationPipe(UserIdParamSchema)) { userId }: UserIdParamType) {
+        const { context } = this.request;
+        const result = await this.deleteUserService.deleteUser(context, userId);
+        return {
+            status: ApiStatus.SUCCESS,
+            result: result.result,
+            message: 'User deleted successfully.',
+        };
+    }
 }
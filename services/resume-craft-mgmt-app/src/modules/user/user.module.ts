@@ -1,12 +1,26 @@
 import { Module } from '@nestjs/common';
 
 import { UserController } from './user.controller';
-import { CreateUserService } from './services';
+import {
+    CreateUserService,
+    DeleteUserService,
+    GetUserService,
+    ListUsersService,
+    UpdateUserRoleService,
+    UpdateUserService,
+} from './services';
 import { ODMModule } from '@resume/resume-craft-common';
 
 @Module({
     imports: [ODMModule],
     controllers: [UserController],
-    providers: [CreateUserService],
+    providers: [
+        CreateUserService,
+        ListUsersService,
+        GetUserService,
+        UpdateUserService,
+        UpdateUserRoleService,
+        DeleteUserService,
+    ],
 })
 export class UserModule {}